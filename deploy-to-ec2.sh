@@ -18,6 +18,8 @@ npm run build
 # Step 2: Copy dist folder to EC2
 echo "📤 Uploading dist folder to EC2..."
 scp -r dist/ ${EC2_USER}@${EC2_HOST}:${EC2_PATH}/
+# ZIP centroid table read at runtime from data/ (ZIP_CENTROIDS_FILE)
+scp -r data/ ${EC2_USER}@${EC2_HOST}:${EC2_PATH}/
 
 # Step 3: Copy package files
 echo "📤 Uploading package files..."
@@ -0,0 +1,43 @@
+import fs from 'fs';
+import path from 'path';
+
+// Builds data/zip-centroids.csv (committed; currently from the 2021 file) from the Census Bureau
+// ZCTA Gazetteer file (public domain):
+// https://www.census.gov/geographies/reference-files/time-series/geo/gazetteer-files.html
+// Download "ZIP Code Tabulation Areas" for the latest year, unzip it and run:
+//   npx tsx scripts/build-zip-centroids.ts path/to/20XX_Gaz_zcta_national.txt
+
+const DEFAULT_OUTPUT = path.join(process.cwd(), 'data', 'zip-centroids.csv');
+
+function main() {
+  const [input, output = DEFAULT_OUTPUT] = process.argv.slice(2);
+  if (!input || !fs.existsSync(input)) {
+    console.error('Usage: tsx scripts/build-zip-centroids.ts <Gazetteer ZCTA file> [output.csv]');
+    process.exit(1);
+  }
+
+  const [header, ...rows] = fs.readFileSync(input, 'utf8').split(/\r?\n/).filter((line) => line.trim());
+  const columns = header.split('\t').map((c) => c.trim());
+  const zipCol = columns.indexOf('GEOID');
+  const latCol = columns.indexOf('INTPTLAT');
+  const lngCol = columns.indexOf('INTPTLONG');
+  if (zipCol < 0 || latCol < 0 || lngCol < 0) {
+    console.error(`Unexpected columns: ${columns.join(', ')}`);
+    process.exit(1);
+  }
+
+  const lines = ['zip,lat,lng'];
+  for (const row of rows) {
+    const cells = row.split('\t').map((c) => c.trim());
+    const lat = Number(cells[latCol]);
+    const lng = Number(cells[lngCol]);
+    if (!/^\d{5}$/.test(cells[zipCol]) || !Number.isFinite(lat) || !Number.isFinite(lng)) continue;
+    lines.push(`${cells[zipCol]},${lat.toFixed(5)},${lng.toFixed(5)}`);
+  }
+
+  fs.mkdirSync(path.dirname(output), { recursive: true });
+  fs.writeFileSync(output, `${lines.join('\n')}\n`);
+  console.log(`Wrote ${lines.length - 1} ZIP centroids to ${output}`);
+}
+
+main();
@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { state } from './store';
+
+// Stand-in for the HSP gateway (HSP_API_BASE_URL) part order search
+
+export const hspRouter = Router();
+
+// POST /v1/api/HSPRTPartOrderService/rest/searchPartOrderDetailsList
+hspRouter.post('/v1/api/HSPRTPartOrderService/rest/searchPartOrderDetailsList', (req, res) => {
+  const auth = typeof req.headers.authorization === 'string' ? req.headers.authorization : '';
+  if (!auth.startsWith('Bearer ') || auth.length <= 'Bearer '.length) {
+    return res.status(401).json({ responseCode: '401', responseMessage: 'Unauthorized' });
+  }
+
+  const { clientId, unitNumber, serviceOrderNumber } = req.body || {};
+  const match = state.hspPartOrders.find(
+    (o) => o.clientId === clientId && o.unitNumber === unitNumber && o.serviceOrderNumber === serviceOrderNumber
+  );
+  return res.json({
+    responseCode: match ? '200' : '404',
+    responseMessage: match ? 'Success' : 'No part orders found',
+    partOrderDetailsList: match?.partOrders || [],
+  });
+});
@@ -0,0 +1,390 @@
+import { Router } from 'express';
+import type { Response } from 'express';
+import {
+  issueTokens,
+  newId,
+  notFound,
+  publicUser,
+  requireMockToken,
+  sameId,
+  state,
+  type MockRequest,
+} from './store';
+
+// Stand-in for the job board API (EXTERNAL_API_URL): auth, jobs, vendors, assignments, parts,
+// photo upload tokens and part orders.
+
+export const jobBoardRouter = Router();
+
+function ownAssignment(req: MockRequest, res: Response, id: string) {
+  const assignment = state.assignments.find((a) => sameId(a.id, id));
+  if (!assignment) {
+    notFound(res, 'Assignment');
+    return null;
+  }
+  if (!sameId(assignment.vendorId, req.mockUser!.vendorId)) {
+    res.status(403).json({ success: false, message: 'Assignment belongs to another vendor', code: 'FORBIDDEN' });
+    return null;
+  }
+  return assignment;
+}
+
+function touch(entity: any) {
+  entity.updatedAt = new Date().toISOString();
+  return entity;
+}
+
+// POST /api/auth/login
+jobBoardRouter.post('/api/auth/login', (req, res) => {
+  const { username, password } = req.body || {};
+  const user = state.users.find((u) => u.username === username);
+  if (!user || user.password !== password) {
+    return res.status(401).json({ success: false, message: 'Invalid username or password', code: 'INVALID_CREDENTIALS' });
+  }
+  return res.json({ success: true, data: { ...issueTokens(user), user: publicUser(user) } });
+});
+
+// POST /api/auth/refresh - refresh tokens are single use
+jobBoardRouter.post('/api/auth/refresh', (req, res) => {
+  const refreshToken = req.body?.refreshToken;
+  const userId = typeof refreshToken === 'string' ? state.refreshTokens[refreshToken] : undefined;
+  const user = state.users.find((u) => u.id === userId);
+  if (!user) {
+    return res.status(401).json({ success: false, message: 'Invalid refresh token', code: 'INVALID_REFRESH_TOKEN' });
+  }
+  delete state.refreshTokens[refreshToken];
+  const { accessToken, refreshToken: nextRefreshToken } = issueTokens(user);
+  return res.json({ success: true, data: { accessToken, refreshToken: nextRefreshToken } });
+});
+
+// Everything below needs a token from the mock login
+jobBoardRouter.use(requireMockToken);
+
+// GET /api/auth/status
+jobBoardRouter.get('/api/auth/status', (req: MockRequest, res) => {
+  return res.json({ success: true, data: { authenticated: true, user: publicUser(req.mockUser!) } });
+});
+
+// GET /api/jobs/available
+jobBoardRouter.get('/api/jobs/available', (_req, res) => {
+  const jobs = state.jobs.filter((j) => j.status === 'available');
+  return res.json({ success: true, data: jobs, message: `Found ${jobs.length} available jobs` });
+});
+
+// GET /api/jobs/:id
+jobBoardRouter.get('/api/jobs/:id', (req, res) => {
+  const job = state.jobs.find((j) => sameId(j.id, req.params.id));
+  if (!job) return notFound(res, 'Job');
+  return res.json({ success: true, data: job });
+});
+
+// POST /api/jobs/:id/claims - answers 200 with success: false when the job is taken
+jobBoardRouter.post('/api/jobs/:id/claims', (req: MockRequest, res) => {
+  const job = state.jobs.find((j) => sameId(j.id, req.params.id));
+  if (!job) return notFound(res, 'Job');
+  if (job.status !== 'available') {
+    return res.json({ success: false, message: 'Job is no longer available', code: 'JOB_UNAVAILABLE' });
+  }
+
+  const now = new Date().toISOString();
+  const assignment = {
+    id: newId(),
+    jobId: job.id,
+    vendorId: req.mockUser!.vendorId,
+    status: 'assigned',
+    action: 'assigned',
+    vendorNotes: null,
+    customerNotHome: { status: false },
+    photos: [],
+    assignedAt: now,
+    createdAt: now,
+    updatedAt: now,
+  };
+  state.assignments.push(assignment);
+  Object.assign(touch(job), { status: 'assigned', vendorId: req.mockUser!.vendorId });
+  return res.json({ success: true, data: { assignment, job }, message: 'Job claimed' });
+});
+
+// GET /api/vendors/me
+jobBoardRouter.get('/api/vendors/me', (req: MockRequest, res) => {
+  const vendor = state.vendors.find((v) => sameId(v.id, req.mockUser!.vendorId));
+  if (!vendor) return notFound(res, 'Vendor');
+  return res.json({ success: true, data: vendor });
+});
+
+// PATCH /api/vendors/me/address
+jobBoardRouter.patch('/api/vendors/me/address', (req: MockRequest, res) => {
+  const vendor = state.vendors.find((v) => sameId(v.id, req.mockUser!.vendorId));
+  if (!vendor) return notFound(res, 'Vendor');
+  const { address, city, state: st, zipCode } = req.body || {};
+  if (!address || !zipCode) {
+    return res.status(422).json({ success: false, message: 'address and zipCode are required', code: 'VALIDATION_ERROR' });
+  }
+  Object.assign(vendor, { address, city: city ?? vendor.city, state: st ?? vendor.state, zipCode });
+  return res.json({ success: true, data: vendor });
+});
+
+// GET /api/vendors/me/jobs
+jobBoardRouter.get('/api/vendors/me/jobs', (req: MockRequest, res) => {
+  const jobs = state.jobs.filter((j) => sameId(j.vendorId, req.mockUser!.vendorId));
+  return res.json({ success: true, data: jobs });
+});
+
+// GET /api/vendors/me/assignments
+jobBoardRouter.get('/api/vendors/me/assignments', (req: MockRequest, res) => {
+  const assignments = state.assignments.filter((a) => sameId(a.vendorId, req.mockUser!.vendorId));
+  return res.json({ success: true, data: assignments });
+});
+
+// GET /api/vendors/me/parts
+jobBoardRouter.get('/api/vendors/me/parts', (req: MockRequest, res) => {
+  return res.json({ success: true, data: state.vendorParts.filter((p) => sameId(p.vendorId, req.mockUser!.vendorId)) });
+});
+
+// POST /api/auth/vendor/parts
+jobBoardRouter.post('/api/auth/vendor/parts', (req: MockRequest, res) => {
+  const { partNumber, partName, brand, quantity } = req.body || {};
+  if (!partNumber) {
+    return res.status(422).json({ success: false, message: 'partNumber is required', code: 'VALIDATION_ERROR' });
+  }
+  const part = { id: newId(), vendorId: req.mockUser!.vendorId, partNumber, partName: partName ?? null, brand: brand ?? null, quantity: quantity ?? 1 };
+  state.vendorParts.push(part);
+  return res.status(201).json({ success: true, data: part });
+});
+
+// DELETE /api/vendors/me/parts/:partId and /api/auth/vendor/parts/:partId
+jobBoardRouter.delete(['/api/vendors/me/parts/:partId', '/api/auth/vendor/parts/:partId'], (req: MockRequest, res) => {
+  const index = state.vendorParts.findIndex((p) => sameId(p.id, req.params.partId) && sameId(p.vendorId, req.mockUser!.vendorId));
+  if (index === -1) return notFound(res, 'Part');
+  state.vendorParts.splice(index, 1);
+  return res.json({ success: true, message: 'Part deleted' });
+});
+
+// DELETE /api/parts/:id
+jobBoardRouter.delete('/api/parts/:id', (req, res) => {
+  const index = state.assignmentParts.findIndex((p) => sameId(p.id, req.params.id));
+  if (index === -1) return notFound(res, 'Part');
+  state.assignmentParts.splice(index, 1);
+  return res.status(204).send();
+});
+
+// GET /api/assignments/:id
+jobBoardRouter.get('/api/assignments/:id', (req: MockRequest, res) => {
+  const assignment = ownAssignment(req, res, req.params.id);
+  if (!assignment) return;
+  return res.json({ success: true, data: assignment });
+});
+
+// PATCH /api/v2/assignments/:id
+jobBoardRouter.patch('/api/v2/assignments/:id', (req: MockRequest, res) => {
+  const assignment = ownAssignment(req, res, req.params.id);
+  if (!assignment) return;
+  const { id: _id, jobId: _jobId, vendorId: _vendorId, ...changes } = req.body || {};
+  Object.assign(touch(assignment), changes);
+  if (changes.status === 'completed') assignment.completedAt = assignment.updatedAt;
+  if (changes.status) {
+    const job = state.jobs.find((j) => sameId(j.id, assignment.jobId));
+    if (job) touch(job).status = changes.status === 'completed' ? 'completed' : job.status;
+  }
+  return res.json({ success: true, data: assignment });
+});
+
+// PUT /api/assignments/:id/schedule
+jobBoardRouter.put('/api/assignments/:id/schedule', (req: MockRequest, res) => {
+  const assignment = ownAssignment(req, res, req.params.id);
+  if (!assignment) return;
+  const { newScheduledDate, newTimeWindow, reason, notes } = req.body || {};
+  if (!newScheduledDate || isNaN(new Date(newScheduledDate).getTime())) {
+    return res.status(422).json({ success: false, message: 'newScheduledDate must be a valid date', code: 'VALIDATION_ERROR' });
+  }
+  const job = state.jobs.find((j) => sameId(j.id, assignment.jobId));
+  if (job) {
+    touch(job).scheduledDate = new Date(newScheduledDate).toISOString();
+    if (newTimeWindow) job.scheduledTimeWindow = newTimeWindow;
+  }
+  touch(assignment).status = 'rescheduled';
+  return res.json({
+    success: true,
+    data: { assignment, rescheduleResult: { newScheduledDate: job?.scheduledDate, newTimeWindow: job?.scheduledTimeWindow, reason, notes } },
+  });
+});
+
+function assignmentParts(assignmentId: string) {
+  return state.assignmentParts.filter((p) => sameId(p.assignmentId, assignmentId));
+}
+
+// GET /api/assignments/:id/parts and /api/auth/vendor/assignments/:id/parts
+jobBoardRouter.get(['/api/assignments/:id/parts', '/api/auth/vendor/assignments/:id/parts'], (req: MockRequest, res) => {
+  if (!ownAssignment(req, res, req.params.id)) return;
+  return res.json({ success: true, data: assignmentParts(req.params.id) });
+});
+
+// POST /api/assignments/:id/parts - photo tokens are consumed by the part
+jobBoardRouter.post('/api/assignments/:id/parts', (req: MockRequest, res) => {
+  const assignment = ownAssignment(req, res, req.params.id);
+  if (!assignment) return;
+  const { partType, partNumber, partName, brand, quantity, photoTokens } = req.body || {};
+  if (!partNumber) {
+    return res.status(422).json({ success: false, message: 'partNumber is required', code: 'VALIDATION_ERROR' });
+  }
+  const photos = (Array.isArray(photoTokens) ? photoTokens : [])
+    .map((token: string) => state.photos[token])
+    .filter(Boolean)
+    .map((photo) => photo.key);
+  const part = {
+    id: newId(),
+    assignmentId: assignment.id,
+    partType: partType ?? 'used',
+    partNumber,
+    partName: partName ?? null,
+    brand: brand ?? null,
+    quantity: quantity ?? 1,
+    photos,
+  };
+  state.assignmentParts.push(part);
+  return res.status(201).json({ success: true, data: part });
+});
+
+function uploadTokens(req: MockRequest, res: Response, kind: 'photo' | 'completion') {
+  const assignment = ownAssignment(req, res, req.params.id);
+  if (!assignment) return;
+  const files = Array.isArray(req.body?.files) ? req.body.files : [];
+  if (files.length === 0) {
+    return res.status(422).json({ success: false, message: 'files is required', code: 'VALIDATION_ERROR' });
+  }
+  // Uploads go to the mock's S3 stand-in
+  const uploadUrl = `${req.protocol}://${req.get('host')}/s3`;
+  const tokens = files.map((file: any) => {
+    const token = `mock-photo-${newId()}`;
+    const key = `assignments/${assignment.id}/${kind}/${token}-${file.fileName || 'photo.jpg'}`;
+    state.photos[token] = { assignmentId: assignment.id, key, uploaded: false };
+    return { token, fileName: file.fileName, uploadUrl, uploadFields: { key, 'Content-Type': file.mimeType || 'image/jpeg' } };
+  });
+  return res.json({ success: true, data: { tokens } });
+}
+
+// POST /api/assignments/:id/photo-upload-tokens
+jobBoardRouter.post('/api/assignments/:id/photo-upload-tokens', (req: MockRequest, res) => {
+  return uploadTokens(req, res, 'photo');
+});
+
+// POST /api/assignments/:id/completion-photo-upload-tokens
+jobBoardRouter.post('/api/assignments/:id/completion-photo-upload-tokens', (req: MockRequest, res) => {
+  return uploadTokens(req, res, 'completion');
+});
+
+// GET /api/assignments/:id/photos/:photoToken/view-url
+jobBoardRouter.get('/api/assignments/:id/photos/:photoToken/view-url', (req: MockRequest, res) => {
+  if (!ownAssignment(req, res, req.params.id)) return;
+  const photo = state.photos[req.params.photoToken];
+  if (!photo || !photo.uploaded) return notFound(res, 'Photo');
+  return res.json({
+    success: true,
+    data: { url: `${req.protocol}://${req.get('host')}/s3/${photo.key}`, expiresIn: 3600 },
+  });
+});
+
+// GET /api/assignments/:id/models/search?q=
+jobBoardRouter.get('/api/assignments/:id/models/search', (req: MockRequest, res) => {
+  if (!ownAssignment(req, res, req.params.id)) return;
+  const q = String(req.query.q || req.query.modelNumber || '').toLowerCase();
+  const models = state.models
+    .filter((m) => !q || m.modelNumber.toLowerCase().includes(q) || m.brand.toLowerCase().includes(q))
+    .map(({ parts: _parts, ...model }) => model);
+  return res.json({ success: true, data: models });
+});
+
+// GET /api/assignments/:id/models/:modelId
+jobBoardRouter.get('/api/assignments/:id/models/:modelId', (req: MockRequest, res) => {
+  if (!ownAssignment(req, res, req.params.id)) return;
+  const model = state.models.find((m) => m.modelId === req.params.modelId);
+  if (!model) return notFound(res, 'Model');
+  const { parts: _parts, ...details } = model;
+  return res.json({ success: true, data: details });
+});
+
+// GET /api/assignments/:id/models/:modelId/parts
+jobBoardRouter.get('/api/assignments/:id/models/:modelId/parts', (req: MockRequest, res) => {
+  if (!ownAssignment(req, res, req.params.id)) return;
+  const model = state.models.find((m) => m.modelId === req.params.modelId);
+  if (!model) return notFound(res, 'Model');
+  return res.json({ success: true, data: model.parts });
+});
+
+function findOrder(req: MockRequest, res: Response) {
+  if (!ownAssignment(req, res, req.params.id)) return null;
+  const order = state.orders.find((o) => sameId(o.id, req.params.orderId) && sameId(o.assignmentId, req.params.id));
+  if (!order) {
+    notFound(res, 'Order');
+    return null;
+  }
+  return order;
+}
+
+function draftOnly(res: Response, order: any) {
+  if (order.status === 'draft') return true;
+  res.status(409).json({ success: false, message: `Order is ${order.status}, only draft orders can be changed`, code: 'ORDER_NOT_DRAFT' });
+  return false;
+}
+
+// POST /api/assignments/:id/orders - create a draft order
+jobBoardRouter.post('/api/assignments/:id/orders', (req: MockRequest, res) => {
+  const assignment = ownAssignment(req, res, req.params.id);
+  if (!assignment) return;
+  const now = new Date().toISOString();
+  const order = {
+    id: newId(),
+    assignmentId: assignment.id,
+    status: 'draft',
+    items: Array.isArray(req.body?.items) ? req.body.items : [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  state.orders.push(order);
+  return res.status(201).json({ success: true, data: order });
+});
+
+// GET /api/assignments/:id/orders?status=
+jobBoardRouter.get('/api/assignments/:id/orders', (req: MockRequest, res) => {
+  if (!ownAssignment(req, res, req.params.id)) return;
+  const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+  const orders = state.orders.filter((o) => sameId(o.assignmentId, req.params.id) && (!status || o.status === status));
+  return res.json({ success: true, data: orders });
+});
+
+// GET /api/assignments/:id/orders/:orderId
+jobBoardRouter.get('/api/assignments/:id/orders/:orderId', (req: MockRequest, res) => {
+  const order = findOrder(req, res);
+  if (!order) return;
+  return res.json({ success: true, data: order });
+});
+
+// PATCH /api/assignments/:id/orders/:orderId - replace the items of a draft
+jobBoardRouter.patch('/api/assignments/:id/orders/:orderId', (req: MockRequest, res) => {
+  const order = findOrder(req, res);
+  if (!order || !draftOnly(res, order)) return;
+  if (!Array.isArray(req.body?.items)) {
+    return res.status(422).json({ success: false, message: 'items must be an array', code: 'VALIDATION_ERROR' });
+  }
+  touch(order).items = req.body.items;
+  return res.json({ success: true, data: order });
+});
+
+// POST /api/assignments/:id/orders/:orderId/cancel
+jobBoardRouter.post('/api/assignments/:id/orders/:orderId/cancel', (req: MockRequest, res) => {
+  const order = findOrder(req, res);
+  if (!order) return;
+  if (order.status === 'cancelled' || order.status === 'delivered') {
+    return res.status(409).json({ success: false, message: `Order is ${order.status}`, code: 'ORDER_NOT_CANCELLABLE' });
+  }
+  touch(order).status = 'cancelled';
+  return res.json({ success: true, data: order });
+});
+
+// DELETE /api/assignments/:id/orders/:orderId - drafts only
+jobBoardRouter.delete('/api/assignments/:id/orders/:orderId', (req: MockRequest, res) => {
+  const order = findOrder(req, res);
+  if (!order || !draftOnly(res, order)) return;
+  state.orders.splice(state.orders.indexOf(order), 1);
+  return res.json({ success: true, message: 'Draft order deleted' });
+});
@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import { newId, state } from './store';
+
+// Stand-ins for the HSSOM auth gateway (HSSOM_AUTH_URL) and the parts catalog service
+// (PARTS_API_BASE_URL). Any Basic credentials get a token; catalog calls need that token and an
+// apikey, like the real gateway.
+
+export const hssomRouter = Router();
+export const partsCatalogRouter = Router();
+
+const TOKEN_LIFE_SECONDS = 5400;
+const issuedTokens = new Map<string, number>();
+
+// GET /v1/api/HSSOMAuthService/services/auth/token
+hssomRouter.get('/v1/api/HSSOMAuthService/services/auth/token', (req, res) => {
+  const auth = typeof req.headers.authorization === 'string' ? req.headers.authorization : '';
+  if (!auth.startsWith('Basic ') || auth.length <= 'Basic '.length) {
+    return res.status(401).json({ ResponseCode: '401', ResponseMessage: 'Missing basic credentials' });
+  }
+  const token = `mock-hssom-${newId()}`;
+  issuedTokens.set(token, Date.now() + TOKEN_LIFE_SECONDS * 1000);
+  return res.json({ CorrelationId: `mock-${Date.now()}`, ResponseCode: '200', ResponseMessage: 'Success', token, tokenLife: TOKEN_LIFE_SECONDS });
+});
+
+partsCatalogRouter.use((req, res, next) => {
+  const auth = typeof req.headers.authorization === 'string' ? req.headers.authorization : '';
+  const expiresAt = issuedTokens.get(auth.replace(/^Bearer /, ''));
+  if (!expiresAt || expiresAt < Date.now()) {
+    return res.status(401).json({ ResponseCode: '401', ResponseMessage: 'Invalid or expired token' });
+  }
+  if (!req.query.apikey) {
+    return res.status(403).json({ ResponseCode: '403', ResponseMessage: 'Missing apikey' });
+  }
+  return next();
+});
+
+function modelSummary(model: any) {
+  return { modelId: model.modelId, modelNumber: model.modelNumber, brand: model.brand, description: model.description };
+}
+
+// GET /sis/proxy/PartsCatalogService/:method
+partsCatalogRouter.get('/sis/proxy/PartsCatalogService/:method', (req, res) => {
+  const q = String(req.query.q || req.query.modelNumber || req.query.partNumber || '').toLowerCase();
+
+  switch (req.params.method) {
+    case 'modelSearch': {
+      const models = state.models.filter((m) => !q || m.modelNumber.toLowerCase().includes(q) || m.brand.toLowerCase().includes(q));
+      return res.json({ ResponseCode: '200', count: models.length, models: models.map(modelSummary) });
+    }
+    case 'itemSearch': {
+      const items = state.models
+        .flatMap((m) => m.parts.map((p: any) => ({ ...p, modelNumber: m.modelNumber, brand: m.brand })))
+        .filter((p) => !q || p.partNumber.toLowerCase().includes(q) || p.description.toLowerCase().includes(q));
+      return res.json({ ResponseCode: '200', count: items.length, items });
+    }
+    case 'getModelDetails': {
+      const model = state.models.find((m) => m.modelId === req.query.modelId);
+      if (!model) return res.status(404).json({ ResponseCode: '404', ResponseMessage: 'Model not found' });
+      return res.json({ ResponseCode: '200', model: { ...modelSummary(model), parts: model.parts } });
+    }
+    default:
+      return res.status(404).json({ ResponseCode: '404', ResponseMessage: `Unknown method ${req.params.method}` });
+  }
+});
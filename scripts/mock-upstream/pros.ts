@@ -0,0 +1,122 @@
+import { Router } from 'express';
+import type { Response } from 'express';
+import { notFound, requireMockToken, sameId, state, type MockRequest } from './store';
+
+// Stand-in for pros.shs.com (PROS_API_BASE_URL): order submission, order tracking, substitute
+// part search and the v3 assignment update. Orders are shared with the job board mock.
+
+export const prosRouter = Router();
+
+prosRouter.use(requireMockToken);
+
+function findOrder(req: MockRequest, res: Response) {
+  const assignment = state.assignments.find((a) => sameId(a.id, req.params.assignmentId));
+  if (!assignment || !sameId(assignment.vendorId, req.mockUser!.vendorId)) {
+    notFound(res, 'Assignment');
+    return null;
+  }
+  const order = state.orders.find((o) => sameId(o.id, req.params.orderId) && sameId(o.assignmentId, assignment.id));
+  if (!order) {
+    notFound(res, 'Order');
+    return null;
+  }
+  return order;
+}
+
+// PATCH /api/v3/assignments/:assignmentId - appliance details
+prosRouter.patch('/api/v3/assignments/:assignmentId', (req: MockRequest, res) => {
+  const assignment = state.assignments.find((a) => sameId(a.id, req.params.assignmentId));
+  if (!assignment) return notFound(res, 'Assignment');
+  const { applianceBrandname, applianceModel, applianceSerial, applianceIssue } = req.body || {};
+  Object.assign(assignment, {
+    ...(applianceBrandname !== undefined && { applianceBrandname }),
+    ...(applianceModel !== undefined && { applianceModel }),
+    ...(applianceSerial !== undefined && { applianceSerial }),
+    ...(applianceIssue !== undefined && { applianceIssue }),
+    updatedAt: new Date().toISOString(),
+  });
+  return res.json({ success: true, data: assignment });
+});
+
+// POST /api/assignments/:assignmentId/orders/:orderId/submit
+prosRouter.post('/api/assignments/:assignmentId/orders/:orderId/submit', (req: MockRequest, res) => {
+  const order = findOrder(req, res);
+  if (!order) return;
+  if (order.status !== 'draft') {
+    return res.status(409).json({ success: false, message: `Order is ${order.status}, only draft orders can be submitted`, code: 'ORDER_NOT_DRAFT' });
+  }
+  if (!order.items?.length) {
+    return res.status(422).json({ success: false, message: 'Order has no items', code: 'ORDER_EMPTY' });
+  }
+  Object.assign(order, {
+    status: 'submitted',
+    submittedAt: new Date().toISOString(),
+    trackingNumber: `1ZMOCK${String(order.id).padStart(10, '0')}`,
+    updatedAt: new Date().toISOString(),
+  });
+  return res.json({ success: true, data: order });
+});
+
+// DELETE /api/assignments/:assignmentId/orders/:orderId/parts/:partId
+prosRouter.delete('/api/assignments/:assignmentId/orders/:orderId/parts/:partId', (req: MockRequest, res) => {
+  const order = findOrder(req, res);
+  if (!order) return;
+  const index = (order.items || []).findIndex((item: any) => sameId(item.partId, req.params.partId));
+  if (index === -1) return notFound(res, 'Order part');
+  order.items.splice(index, 1);
+  order.updatedAt = new Date().toISOString();
+  return res.json({ success: true, data: order });
+});
+
+// POST /api/assignments/:assignmentId/orders/:orderId/tracking/status
+prosRouter.post('/api/assignments/:assignmentId/orders/:orderId/tracking/status', (req: MockRequest, res) => {
+  const order = findOrder(req, res);
+  if (!order) return;
+  const trackingNumber = req.body?.trackingNumber;
+  if (!order.trackingNumber || order.trackingNumber !== trackingNumber) {
+    return notFound(res, 'Shipment');
+  }
+  return res.json({
+    success: true,
+    data: {
+      trackingNumber,
+      carrier: 'UPS',
+      status: order.status === 'delivered' ? 'DELIVERED' : 'IN_TRANSIT',
+      events: [
+        { status: 'LABEL_CREATED', at: order.submittedAt || order.createdAt },
+        { status: 'IN_TRANSIT', at: order.updatedAt },
+      ],
+    },
+  });
+});
+
+// GET /api/assignments/:assignmentId/orders/:orderId/tracking/part-order-details
+prosRouter.get('/api/assignments/:assignmentId/orders/:orderId/tracking/part-order-details', (req: MockRequest, res) => {
+  const order = findOrder(req, res);
+  if (!order) return;
+  return res.json({
+    success: true,
+    data: {
+      orderId: order.id,
+      status: order.status,
+      trackingNumber: order.trackingNumber || null,
+      parts: (order.items || []).map((item: any) => ({ ...item, status: order.status === 'draft' ? 'NOT_ORDERED' : 'SHIPPED' })),
+    },
+  });
+});
+
+// POST /api/assignments/:assignmentId/models/parts/search-substitute
+prosRouter.post('/api/assignments/:assignmentId/models/parts/search-substitute', (req, res) => {
+  const parts = Array.isArray(req.body?.parts) ? req.body.parts : [];
+  const catalog = state.models.flatMap((m) => m.parts);
+  const results = parts.map((requested: any) => {
+    const partNumber = typeof requested === 'string' ? requested : requested?.partNumber;
+    const part = catalog.find((p) => p.partNumber === partNumber);
+    return {
+      partNumber,
+      available: part?.available ?? false,
+      substitutes: (part?.substitutes || []).map((sub: string) => ({ partNumber: sub, available: true })),
+    };
+  });
+  return res.json({ success: true, data: results });
+});
@@ -0,0 +1,63 @@
+import express from 'express';
+import multer from 'multer';
+import { jobBoardRouter } from './jobBoard';
+import { prosRouter } from './pros';
+import { hssomRouter, partsCatalogRouter } from './partsCatalog';
+import { hspRouter } from './hsp';
+import { resetState, state } from './store';
+
+// Mock of every upstream this API talks to, for offline development and automated tests.
+// Each upstream lives under its own prefix; point the adapters at it with the env vars printed
+// on startup (see ENV_SETUP.md). State is in memory and starts from fixtures.json.
+
+const PORT = Number(process.env.MOCK_UPSTREAM_PORT || 4010);
+const upload = multer({ storage: multer.memoryStorage() });
+
+const app = express();
+// Log one line per request
+app.use((req, res, next) => {
+  const started = Date.now();
+  res.on('finish', () => console.log(`${req.method} ${req.originalUrl} ${res.statusCode} ${Date.now() - started} ms`));
+  next();
+});
+app.use(express.json());
+
+app.use('/job-board', jobBoardRouter);
+app.use('/pros', prosRouter);
+app.use('/hssom', hssomRouter);
+app.use('/parts', partsCatalogRouter);
+app.use('/hsp', hspRouter);
+
+// POST /s3 - presigned POST target for photo uploads; marks the photo token as uploaded
+app.post('/s3', upload.single('file'), (req, res) => {
+  const key = req.body?.key;
+  const photo = Object.values(state.photos).find((p) => p.key === key);
+  if (!photo || !req.file) {
+    return res.status(400).send('<Error><Code>InvalidArgument</Code></Error>');
+  }
+  photo.uploaded = true;
+  return res.status(204).send();
+});
+
+// POST /__mock/reset - restore the fixtures (between tests)
+app.post('/__mock/reset', (_req, res) => {
+  resetState();
+  return res.json({ success: true });
+});
+
+// GET /__mock/state - current state, to assert on in tests
+app.get('/__mock/state', (_req, res) => {
+  return res.json(state);
+});
+
+app.listen(PORT, () => {
+  const base = `http://localhost:${PORT}`;
+  console.log(`[MockUpstream] ✓ Listening on ${base}`);
+  console.log('[MockUpstream] Point the API at it with:');
+  console.log(`  EXTERNAL_API_URL=${base}/job-board`);
+  console.log(`  PROS_API_BASE_URL=${base}/pros`);
+  console.log(`  HSSOM_AUTH_URL=${base}/hssom/v1/api/HSSOMAuthService/services/auth/token`);
+  console.log(`  PARTS_API_BASE_URL=${base}/parts`);
+  console.log(`  HSP_API_BASE_URL=${base}/hsp`);
+  console.log('[MockUpstream] Log in as mock_vendor / password123');
+});
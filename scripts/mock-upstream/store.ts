@@ -0,0 +1,118 @@
+import fs from 'fs';
+import jwt from 'jsonwebtoken';
+import type { NextFunction, Request, Response } from 'express';
+
+// In-memory state of the mock upstreams, loaded from fixtures.json. Every mock shares it, so an
+// order created through the job board can be submitted through the pros mock. POST /__mock/reset
+// restores the fixtures.
+
+const FIXTURES_PATH = process.env.MOCK_UPSTREAM_FIXTURES || new URL('./fixtures.json', import.meta.url);
+const TOKEN_SECRET = 'mock-upstream-secret';
+const ACCESS_TOKEN_TTL_SECONDS = 2 * 60 * 60;
+
+export type MockUser = {
+  id: number;
+  username: string;
+  password: string;
+  role: string;
+  vendorId: number;
+  vendorName: string;
+  email: string;
+  permissions: string[];
+};
+
+export type MockState = {
+  users: MockUser[];
+  vendors: any[];
+  jobs: any[];
+  assignments: any[];
+  assignmentParts: any[];
+  vendorParts: any[];
+  models: any[];
+  orders: any[];
+  hspPartOrders: any[];
+  photos: Record<string, { assignmentId: number; key: string; uploaded: boolean }>;
+  refreshTokens: Record<string, number>;
+};
+
+let nextId = 100_000;
+
+export function newId() {
+  nextId += 1;
+  return nextId;
+}
+
+// Fixture jobs say how many days out they are scheduled, so they stay in the future
+function startOfDayInDays(days: number) {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + days, 14, 0, 0)).toISOString();
+}
+
+function loadState(): MockState {
+  const fixtures = JSON.parse(fs.readFileSync(FIXTURES_PATH, 'utf8'));
+  const now = new Date().toISOString();
+  return {
+    ...fixtures,
+    jobs: fixtures.jobs.map(({ scheduledInDays, ...job }: any) => ({
+      ...job,
+      scheduledDate: scheduledInDays === undefined ? job.scheduledDate ?? null : startOfDayInDays(scheduledInDays),
+      createdAt: now,
+      updatedAt: now,
+    })),
+    assignments: fixtures.assignments.map((a: any) => ({ ...a, assignedAt: now, createdAt: now, updatedAt: now })),
+    orders: fixtures.orders.map((o: any) => ({ ...o, createdAt: now, updatedAt: now })),
+    photos: {},
+    refreshTokens: {},
+  };
+}
+
+export let state = loadState();
+
+export function resetState() {
+  state = loadState();
+  return state;
+}
+
+export function issueTokens(user: MockUser) {
+  const accessToken = jwt.sign(
+    { userId: user.id, username: user.username, role: user.role, vendorId: user.vendorId },
+    TOKEN_SECRET,
+    { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+  );
+  const refreshToken = `mock-refresh-${user.id}-${newId()}`;
+  state.refreshTokens[refreshToken] = user.id;
+  return { accessToken, refreshToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS };
+}
+
+export function publicUser(user: MockUser) {
+  const { password: _password, ...rest } = user;
+  return rest;
+}
+
+export type MockRequest = Request & { mockUser?: MockUser };
+
+/**
+ * Require a Bearer token issued by the mock login
+ */
+export function requireMockToken(req: MockRequest, res: Response, next: NextFunction) {
+  const header = typeof req.headers.authorization === 'string' ? req.headers.authorization : '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  try {
+    const payload = jwt.verify(token, TOKEN_SECRET) as any;
+    const user = state.users.find((u) => u.id === payload.userId);
+    if (!user) throw new Error('Unknown user');
+    req.mockUser = user;
+    return next();
+  } catch {
+    return res.status(401).json({ success: false, message: 'Invalid or expired token', code: 'INVALID_TOKEN' });
+  }
+}
+
+export function notFound(res: Response, what: string) {
+  return res.status(404).json({ success: false, message: `${what} not found`, code: 'NOT_FOUND' });
+}
+
+// Ids in paths are strings; fixtures use numbers
+export function sameId(a: unknown, b: unknown) {
+  return a !== undefined && a !== null && String(a) === String(b);
+}
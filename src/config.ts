@@ -0,0 +1,310 @@
+// All settings read from the environment, parsed and validated in one place. Modules import
+// `config` instead of reading process.env. Invalid values fall back to their defaults while the
+// module loads and are collected; validateConfig() (called first thing at startup) reports them
+// all at once and refuses to start in production while a secret still has its development default.
+
+export const LOGIN_STRATEGIES = ['external-only', 'local-only', 'external-with-local-fallback', 'local-with-shadow'] as const;
+export type LoginStrategy = (typeof LOGIN_STRATEGIES)[number];
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export class ConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid configuration:\n  - ${problems.join('\n  - ')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+const env = process.env;
+const problems: string[] = [];
+// Secrets still using their development default
+const defaultedSecrets: string[] = [];
+
+function raw(name: string) {
+  const value = env[name];
+  return value === undefined || value.trim() === '' ? undefined : value.trim();
+}
+
+function str(name: string, fallback: string): string;
+function str(name: string): string | undefined;
+function str(name: string, fallback?: string) {
+  return raw(name) ?? fallback;
+}
+
+function url(name: string, fallback: string) {
+  const value = raw(name);
+  if (value === undefined) return fallback;
+  try {
+    new URL(value);
+    return value.replace(/\/+$/, '');
+  } catch {
+    problems.push(`${name} must be a URL (got '${value}')`);
+    return fallback;
+  }
+}
+
+function int(name: string, fallback: number, min = 0) {
+  const value = raw(name);
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    problems.push(`${name} must be an integer >= ${min} (got '${value}')`);
+    return fallback;
+  }
+  return parsed;
+}
+
+function bool(name: string, fallback: boolean) {
+  const value = raw(name)?.toLowerCase();
+  if (value === undefined) return fallback;
+  if (value === 'true' || value === '1') return true;
+  if (value === 'false' || value === '0') return false;
+  problems.push(`${name} must be true or false (got '${value}')`);
+  return fallback;
+}
+
+function oneOf<T extends string>(name: string, values: readonly T[], fallback: T): T {
+  const value = raw(name);
+  if (value === undefined) return fallback;
+  if ((values as readonly string[]).includes(value)) return value as T;
+  problems.push(`${name} must be one of ${values.join(', ')} (got '${value}')`);
+  return fallback;
+}
+
+function list(name: string, fallback: string[]) {
+  const value = raw(name);
+  if (value === undefined) return fallback;
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+function timeZone(name: string, fallback: string) {
+  const value = raw(name);
+  if (value === undefined) return fallback;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return value;
+  } catch {
+    problems.push(`${name} must be an IANA time zone such as America/Chicago (got '${value}')`);
+    return fallback;
+  }
+}
+
+function secret(name: string, devDefault: string) {
+  const value = raw(name);
+  if (value !== undefined) return value;
+  defaultedSecrets.push(name);
+  return devDefault;
+}
+
+const nodeEnv = str('NODE_ENV', 'development');
+const jwtSecret = secret('JWT_SECRET', 'dev-secret');
+
+export const config = {
+  env: nodeEnv,
+  isProduction: nodeEnv === 'production',
+  port: int('PORT', 5001, 1),
+
+  log: {
+    level: oneOf('LOG_LEVEL', LOG_LEVELS, 'info'),
+    // 'pretty' prints one readable line per entry for local development
+    format: oneOf('LOG_FORMAT', ['json', 'pretty'] as const, 'json'),
+    // Recent entries kept in memory for GET /api/admin/logs
+    bufferSize: int('LOG_BUFFER_SIZE', 2000),
+  },
+
+  mongo: {
+    url: str('MONGO_URL', 'mongodb://localhost:27017'),
+    dbName: str('MONGO_DB', 'qa'),
+  },
+
+  auth: {
+    jwtSecret,
+    jwtRefreshSecret: secret('JWT_REFRESH_SECRET', 'dev-refresh'),
+    // Separate secret so a 2FA challenge token can never pass as an access token
+    jwtChallengeSecret: str('JWT_CHALLENGE_SECRET', `${jwtSecret}:2fa-challenge`),
+    loginStrategy: oneOf('LOGIN_STRATEGY', LOGIN_STRATEGIES, 'external-with-local-fallback'),
+    loginComparisonRetentionDays: int('LOGIN_COMPARISON_RETENTION_DAYS', 90, 1),
+    lockout: {
+      userThreshold: int('LOGIN_LOCKOUT_USER_THRESHOLD', 5, 1),
+      ipThreshold: int('LOGIN_LOCKOUT_IP_THRESHOLD', 20, 1),
+      baseSeconds: int('LOGIN_LOCKOUT_BASE_SECONDS', 60, 1),
+      maxSeconds: int('LOGIN_LOCKOUT_MAX_SECONDS', 3600, 1),
+    },
+    twoFactor: {
+      issuer: str('TWO_FACTOR_ISSUER', 'Job Board'),
+      roles: list('TWO_FACTOR_ROLES', ['admin']),
+      // Falls back to a key derived from JWT_SECRET
+      encryptionKey: str('TWO_FACTOR_ENCRYPTION_KEY', `${jwtSecret}:totp`),
+    },
+    apiKeyDefaultRateLimit: int('API_KEY_DEFAULT_RATE_LIMIT', 60, 1),
+  },
+
+  password: {
+    minLength: int('PASSWORD_MIN_LENGTH', 8, 1),
+    requireUppercase: bool('PASSWORD_REQUIRE_UPPERCASE', true),
+    requireLowercase: bool('PASSWORD_REQUIRE_LOWERCASE', true),
+    requireDigit: bool('PASSWORD_REQUIRE_DIGIT', true),
+    requireSymbol: bool('PASSWORD_REQUIRE_SYMBOL', false),
+    historySize: int('PASSWORD_HISTORY_SIZE', 5),
+    denylistFile: str('PASSWORD_DENYLIST_FILE'),
+    resetTokenTtlMinutes: int('PASSWORD_RESET_TOKEN_TTL_MINUTES', 30, 1),
+    resetUrl: str('PASSWORD_RESET_URL'),
+  },
+
+  mail: {
+    transport: oneOf('MAIL_TRANSPORT', ['file', 'smtp'] as const, 'file'),
+    from: str('MAIL_FROM', 'no-reply@job-board.local'),
+    fileDir: str('MAIL_FILE_DIR'),
+    smtp: {
+      host: str('SMTP_HOST'),
+      port: int('SMTP_PORT', 587, 1),
+      secure: bool('SMTP_SECURE', false),
+      user: str('SMTP_USER'),
+      pass: str('SMTP_PASS'),
+    },
+  },
+
+  upstream: {
+    jobBoardUrl: url('EXTERNAL_API_URL', 'https://shs-1099-job-board.replit.app'),
+    prosUrl: url('PROS_API_BASE_URL', 'https://pros.shs.com'),
+    hspUrl: url('HSP_API_BASE_URL', 'https://hspws-api-gateway.prod.nextgen.shs.com'),
+    hspBearerToken: str('HSP_BEARER_TOKEN'),
+    hssomAuthUrl: url('HSSOM_AUTH_URL', 'https://hssom-api-gateway.prod.nextgen.shs.com/v1/api/HSSOMAuthService/services/auth/token'),
+    hssomBasicAuth: str('HSSOM_BASIC_AUTH'),
+    partsApiUrl: url('PARTS_API_BASE_URL', 'https://api.shs-core.com'),
+    partsApiKey: str('PARTS_APIKEY'),
+    searsGraphqlEndpoint: url('SEARS_GRAPHQL_ENDPOINT', 'https://catalog-staging.searspartsdirect.com/graphql'),
+    searsGraphqlApiKey: str('SEARS_GRAPHQL_API_KEY'),
+    breaker: {
+      failureThreshold: int('UPSTREAM_BREAKER_FAILURE_THRESHOLD', 5, 1),
+      cooldownSeconds: int('UPSTREAM_BREAKER_COOLDOWN_SECONDS', 30, 1),
+    },
+    cache: {
+      enabled: bool('UPSTREAM_CACHE_ENABLED', true),
+      ttlOverrides: str('UPSTREAM_CACHE_TTLS'),
+    },
+    schemaStrict: bool('UPSTREAM_SCHEMA_STRICT', false),
+    // Assignment writes that fail with a transient upstream error are queued and replayed
+    // (only when the client also asks for it with `Prefer: respond-async`)
+    outbox: {
+      enabled: bool('WRITE_OUTBOX_ENABLED', false),
+      maxAttempts: int('WRITE_OUTBOX_MAX_ATTEMPTS', 10, 1),
+      baseSeconds: int('WRITE_OUTBOX_BASE_SECONDS', 30, 1),
+      maxSeconds: int('WRITE_OUTBOX_MAX_SECONDS', 1800, 1),
+      pollSeconds: int('WRITE_OUTBOX_POLL_SECONDS', 15, 1),
+      // How long a conflicting or failed write keeps its caller's token for an admin requeue
+      tokenRetentionHours: int('WRITE_OUTBOX_TOKEN_RETENTION_HOURS', 24, 1),
+    },
+  },
+
+  aws: {
+    region: str('AWS_REGION') ?? str('AWS_DEFAULT_REGION', 'us-east-2'),
+    accessKeyId: str('AWS_ACCESS_KEY_ID'),
+    secretAccessKey: str('AWS_SECRET_ACCESS_KEY'),
+    // Bucket for Textract images (optional) and for /api/uploads
+    textractBucket: str('AWS_S3_BUCKET'),
+    uploadsBucket: str('S3_BUCKET', 'sears-1099'),
+    cloudfrontUrl: url('CLOUDFRONT_URL', 'https://d1kq8vno1fudyz.cloudfront.net'),
+  },
+
+  scheduling: {
+    // For jobs and vendors whose time zone is neither stored nor inferable from state/ZIP
+    defaultTimeZone: timeZone('DEFAULT_TIME_ZONE', 'America/Chicago'),
+    // Jobs are offered from this many days after the vendor's local today (1 = from tomorrow)
+    leadTimeDays: int('JOB_LEAD_TIME_DAYS', 1),
+    // Per-region overrides: state code or time zone = days, comma separated
+    leadTimeByRegion: str('JOB_LEAD_TIME_BY_REGION'),
+  },
+
+  // Background upstream -> Mongo copy of jobs and assignments (see services/jobSync)
+  jobSync: {
+    enabled: bool('JOB_SYNC_ENABLED', false),
+    intervalMinutes: int('JOB_SYNC_INTERVAL_MINUTES', 15, 1),
+    pageSize: int('JOB_SYNC_PAGE_SIZE', 100, 1),
+    // Safety stop for upstream lists that never run out
+    maxPages: int('JOB_SYNC_MAX_PAGES', 50, 1),
+    // Upstream account the worker signs in with; what it can see is what gets copied
+    username: str('JOB_SYNC_USERNAME'),
+    password: str('JOB_SYNC_PASSWORD'),
+    role: str('JOB_SYNC_ROLE'),
+  },
+
+  geo: {
+    // ZIP,lat,lng table used for job distances (committed; rebuilt by scripts/build-zip-centroids.ts)
+    zipCentroidsFile: str('ZIP_CENTROIDS_FILE', 'data/zip-centroids.csv'),
+    maxRadiusMiles: int('JOB_SEARCH_MAX_RADIUS_MILES', 250, 1),
+  },
+
+  openaiApiKey: str('OPENAI_API_KEY'),
+
+  firebase: {
+    serviceAccountJson: str('FIREBASE_SERVICE_ACCOUNT_JSON'),
+    serviceAccountPath: str('FIREBASE_SERVICE_ACCOUNT_PATH'),
+    debug: bool('LOG_FCM_DEBUG', false),
+  },
+};
+
+export type AppConfig = typeof config;
+
+/**
+ * Throw a ConfigError listing every invalid setting. In production, secrets left at their
+ * development default are errors too; elsewhere they are returned as warnings.
+ */
+export function validateConfig(): string[] {
+  const all = [...problems];
+  const warnings: string[] = [];
+  if (config.isProduction) {
+    for (const name of defaultedSecrets) all.push(`${name} must be set in production`);
+  } else if (defaultedSecrets.length > 0) {
+    warnings.push(`Using development defaults for ${defaultedSecrets.join(', ')}`);
+  }
+  if (config.mail.transport === 'smtp' && !config.mail.smtp.host) {
+    all.push('SMTP_HOST is required when MAIL_TRANSPORT=smtp');
+  }
+  // The file/console transport never delivers anything, so users could not reset passwords
+  if (config.isProduction && config.mail.transport !== 'smtp') {
+    all.push('MAIL_TRANSPORT must be smtp in production');
+  }
+  if (config.jobSync.enabled && (!config.jobSync.username || !config.jobSync.password)) {
+    all.push('JOB_SYNC_USERNAME and JOB_SYNC_PASSWORD are required when JOB_SYNC_ENABLED=true');
+  }
+  if (all.length > 0) throw new ConfigError(all);
+  return warnings;
+}
+
+const SECRET_KEYS = new Set([
+  'jwtSecret',
+  'jwtRefreshSecret',
+  'jwtChallengeSecret',
+  'encryptionKey',
+  'pass',
+  'password',
+  'hspBearerToken',
+  'hssomBasicAuth',
+  'partsApiKey',
+  'searsGraphqlApiKey',
+  'secretAccessKey',
+  'openaiApiKey',
+  'serviceAccountJson',
+]);
+
+function redact(value: unknown, key = ''): unknown {
+  if (SECRET_KEYS.has(key)) return value ? '[REDACTED]' : null;
+  // Connection strings may carry credentials
+  if (typeof value === 'string' && /^[a-z+]+:\/\/[^/@]+:[^/@]+@/i.test(value)) {
+    return value.replace(/(\/\/[^/:@]+:)[^/@]+@/, '$1[REDACTED]@');
+  }
+  if (Array.isArray(value)) return value;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k)]));
+  }
+  return value ?? null;
+}
+
+/**
+ * The effective configuration with secrets redacted
+ */
+export function describeConfig() {
+  return redact(config);
+}
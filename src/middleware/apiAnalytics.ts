@@ -2,6 +2,9 @@ import type { NextFunction, Request, Response } from 'express';
 import { ApiAnalyticsModel } from '../models/apiAnalytics';
 import jwt from 'jsonwebtoken';
 import type { JwtPayload } from '../services/jwt';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('ApiAnalytics');
 
 function maskSensitiveFields(body: any) {
   if (!body || typeof body !== 'object') return body;
@@ -41,14 +44,14 @@ function extractUserFromToken(req: Request): { userId: string | null; vendorId:
     const token = header.startsWith('Bearer ') ? header.slice(7) : undefined;
     
     if (!token) {
-      console.log('[ApiAnalytics] No token found for:', req.method, req.originalUrl);
+      log.debug('No token found', { method: req.method, url: req.originalUrl });
       return { userId: null, vendorId: null, sessionId: null };
     }
 
     // Only attempt to decode JWT-like tokens (three dot-separated segments)
     // Some upstream/gateway tokens may not be JWTs and will fail to decode.
     if (token.split('.').length !== 3) {
-      console.log('[ApiAnalytics] Token is not a JWT, skipping decode for:', req.method, req.originalUrl);
+      log.debug('Token is not a JWT, skipping decode', { method: req.method, url: req.originalUrl });
       return { userId: null, vendorId: null, sessionId: null };
     }
 
@@ -56,12 +59,10 @@ function extractUserFromToken(req: Request): { userId: string | null; vendorId:
     const decoded = jwt.decode(token) as (JwtPayload & { _id?: string; id?: string; userId?: string | number }) | null;
     
     if (!decoded) {
-      console.log('[ApiAnalytics] Failed to decode token for:', req.method, req.originalUrl);
+      log.debug('Failed to decode token', { method: req.method, url: req.originalUrl });
       return { userId: null, vendorId: null, sessionId: null };
     }
 
-    console.log('[ApiAnalytics] Decoded token:', JSON.stringify(decoded, null, 2));
-
     // Extract userId (could be userId, _id, or id in the token)
     // Handle both string and number types
     const userId = decoded.userId || decoded._id || decoded.id || null;
@@ -74,12 +75,12 @@ function extractUserFromToken(req: Request): { userId: string | null; vendorId:
       sessionId: sessionId ? String(sessionId) : null,
     };
 
-    console.log('[ApiAnalytics] Extracted user info:', result, 'for', req.method, req.originalUrl);
+    log.debug('Extracted user info', { ...result, method: req.method, url: req.originalUrl });
 
     return result;
   } catch (err) {
     // If token decode fails, return nulls
-    console.error('[ApiAnalytics] Error extracting user from token:', err);
+    log.error('Error extracting user from token', { err });
     return { userId: null, vendorId: null, sessionId: null };
   }
 }
@@ -133,6 +134,7 @@ export function apiAnalyticsLogger(req: Request, res: Response, next: NextFuncti
         userId: responseUserId || tokenUserInfo.userId || (req as any).user?._id || (req as any).user?.id || (req as any).user?.userId || null,
         vendorId: responseVendorId || tokenUserInfo.vendorId || (req as any).user?.vendorId || null,
         sessionId: tokenUserInfo.sessionId || (req as any).user?.sessionId || null,
+        requestId: req.requestId || null,
         loginUsername: loginAttempt?.username || null,
         loginPassword: loginAttempt?.password || null,
         method: req.method,
@@ -149,10 +151,12 @@ export function apiAnalyticsLogger(req: Request, res: Response, next: NextFuncti
           query: req.query,
           params: req.params,
           ...(loginAttempt ? { loginAttempt } : {}),
+          // Set by proxy routes: which upstream path was called and how long it took
+          ...(res.locals.proxy ? { proxy: res.locals.proxy } : {}),
         },
       });
     } catch (err) {
-      console.error('[ApiAnalytics] Failed to persist log:', (err as Error).message);
+      log.error('Failed to persist log', { err });
     }
   });
 
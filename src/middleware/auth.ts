@@ -1,13 +1,24 @@
 import type { Request, Response, NextFunction } from 'express';
 import { jwtService, type JwtPayload } from '../services/jwt';
+import { sessionService } from '../services/sessions';
+import { permissionService, isPrivilegedPermission, type Permission } from '../services/permissions';
+import { UserModel } from '../models/user';
+import { twoFactor } from '../services/twoFactor';
+import { apiKeyService, ApiKeyError, type ApiKeyScope, type ApiKeyPrincipal } from '../services/apiKeys';
 import jwt from 'jsonwebtoken';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('AuthMiddleware');
 
 export interface AuthenticatedRequest extends Request {
-  user?: JwtPayload & { username?: string };
+  user?: JwtPayload & { username?: string; permissions?: string[] };
+  apiKey?: ApiKeyPrincipal; // Set when the caller authenticated with X-Api-Key
+  // False when req.user was only decoded (skipValidation): its claims, role included, may be forged
+  tokenVerified?: boolean;
 }
 
 export function authenticateJWT(options?: { skipValidation?: boolean }) {
-  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const header = req.headers['authorization'] || '';
       const token = header.startsWith('Bearer ') ? header.slice(7) : undefined;
@@ -16,16 +27,29 @@ export function authenticateJWT(options?: { skipValidation?: boolean }) {
       // If skipValidation is true, just decode without verifying
       if (options?.skipValidation) {
         const decoded = jwt.decode(token) as JwtPayload;
-        console.log('[Auth] Decoded token:', JSON.stringify(decoded));
+        log.debug('Decoded token', { userId: (decoded as any)?.userId, role: (decoded as any)?.role });
         if (!decoded) {
           return res.status(401).json({ success: false, message: 'Invalid token format' });
         }
         // Don't check for userId here - let the route handle it
         req.user = decoded;
+        req.tokenVerified = false;
         next();
       } else {
         const payload = jwtService.verifyAccess(token);
+        // Tokens issued before the last password change/reset are no longer valid
+        if (await sessionService.issuedBeforePasswordChange(payload.userId, payload.iat)) {
+          return res.status(401).json({ success: false, message: 'Password was changed; please sign in again' });
+        }
+        // Tokens we signed carry a sessionId; reject them once the session is revoked
+        if (payload.sessionId) {
+          if (!(await sessionService.isActive(payload.sessionId))) {
+            return res.status(401).json({ success: false, message: 'Session has been revoked' });
+          }
+          sessionService.touch(payload.sessionId);
+        }
         req.user = payload;
+        req.tokenVerified = true;
         next();
       }
     } catch (err) {
@@ -34,9 +58,82 @@ export function authenticateJWT(options?: { skipValidation?: boolean }) {
   };
 }
 
+/**
+ * Like authenticateJWT(), but machine clients may send an X-Api-Key header instead of a bearer token.
+ * API keys are authorised by the listed scopes; JWT callers still go through role permissions.
+ */
+export function authenticateJWTOrApiKey(...scopes: [ApiKeyScope, ...ApiKeyScope[]]) {
+  const jwtMiddleware = authenticateJWT();
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const rawKey = req.headers['x-api-key'];
+    if (typeof rawKey !== 'string' || !rawKey) return jwtMiddleware(req, res, next);
+
+    try {
+      const principal = await apiKeyService.authenticate(rawKey, scopes, req.ip);
+      req.apiKey = principal;
+      req.user = { userId: `apikey:${principal.keyId}`, role: 'api_key' };
+    } catch (err: any) {
+      if (err instanceof ApiKeyError) {
+        if (err.retryAfterSeconds) res.setHeader('Retry-After', String(err.retryAfterSeconds));
+        return res.status(err.status).json({ success: false, message: err.message });
+      }
+      log.error('API key check failed', { err });
+      return res.status(500).json({ success: false, message: 'Failed to verify API key' });
+    }
+    next();
+  };
+}
+
 export function requireAdmin() {
   return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.tokenVerified) return res.status(401).json({ success: false, message: 'Authentication required' });
     if (req.user?.role !== 'admin') return res.status(403).json({ success: false, message: 'Admin access required' });
     next();
   };
 }
+
+/**
+ * Require every listed permission for the caller's role. Must run after authenticateJWT() with
+ * verification (or authenticateJWTOrApiKey()): a role from a token that was only decoded is
+ * refused, since anyone can write one.
+ *
+ * Privileged (back-office) permissions also need two-factor enabled on the caller's account; until
+ * then they get 403 with twoFactorSetupRequired so the client can send them to /api/auth/2fa/setup.
+ *
+ * Scope: this guards the routes served from our own data (admin, vendors, jobs, assignments,
+ * feedback config). Pass-through routes forward the caller's upstream token, which we cannot
+ * verify, and are authorized by the upstream itself.
+ */
+export function requirePermission(...required: Permission[]) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) return res.status(401).json({ success: false, message: 'Authentication required' });
+    // API keys were already checked against their scopes by authenticateJWTOrApiKey()
+    if (req.apiKey) return next();
+    if (!req.tokenVerified) return res.status(401).json({ success: false, message: 'Authentication required' });
+
+    const permissions = req.user.permissions || (await permissionService.getPermissions(req.user.role));
+    req.user.permissions = permissions;
+
+    const missing = required.filter((p) => !permissions.includes(p));
+    if (missing.length > 0) {
+      return res.status(403).json({ success: false, message: 'Insufficient permissions', missing });
+    }
+
+    if (required.some(isPrivilegedPermission)) {
+      try {
+        const user: any = await UserModel.findById(req.user.userId).select('twoFactor').lean();
+        if (!twoFactor.isEnabled(user)) {
+          return res.status(403).json({
+            success: false,
+            message: 'Two-factor authentication must be enabled for this action',
+            twoFactorSetupRequired: true,
+          });
+        }
+      } catch (err) {
+        log.error('Two-factor enrolment check failed', { err });
+        return res.status(500).json({ success: false, message: 'Failed to check permissions' });
+      }
+    }
+    next();
+  };
+}
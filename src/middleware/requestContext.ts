@@ -0,0 +1,59 @@
+import type { NextFunction, Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import { createLogger } from '../services/logger';
+import { REQUEST_ID_HEADER, runWithRequestContext } from '../services/requestContext';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+const log = createLogger('Http');
+
+// IDs sent by clients are accepted when they look like an ID, anything else is replaced
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Give every request an ID: the client's X-Request-Id when it sent a usable one, otherwise a new
+ * UUID. The ID is set on req.requestId, echoed in the X-Request-Id response header, added to
+ * error response bodies, attached to every log entry and forwarded on upstream calls.
+ * Also writes one access log entry when the response is finished.
+ */
+export function requestContext(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+  const start = Date.now();
+
+  req.requestId = requestId;
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+
+  // Error bodies carry the ID so it ends up in client bug reports
+  const originalJson = res.json.bind(res);
+  res.json = function (body: any) {
+    if (res.statusCode >= 400 && body && typeof body === 'object' && !Array.isArray(body) && body.requestId === undefined) {
+      return originalJson({ ...body, requestId });
+    }
+    return originalJson(body);
+  };
+
+  // 'finish' is emitted outside the request's async context, so the ID is re-attached explicitly
+  res.on('finish', () =>
+    runWithRequestContext(requestId, () => {
+      const fields = {
+        method: req.method,
+        url: req.originalUrl,
+        status: res.statusCode,
+        elapsedMs: Date.now() - start,
+      };
+      if (res.statusCode >= 500) log.error('Request completed', fields);
+      else if (res.statusCode >= 400) log.warn('Request completed', fields);
+      else log.info('Request completed', fields);
+    })
+  );
+
+  runWithRequestContext(requestId, next);
+}
@@ -5,6 +5,7 @@ const ApiAnalyticsSchema = new Schema(
     userId: { type: String, default: null }, // Store as string to support both ObjectId and numeric IDs from tokens
     vendorId: { type: String, default: null }, // Store as string to support both ObjectId and numeric IDs from tokens
     sessionId: { type: String, default: null },
+    requestId: { type: String, default: null }, // X-Request-Id, also sent to the upstreams and in the logs
     loginUsername: { type: String, default: null },
     loginPassword: { type: String, default: null },
     method: { type: String, required: true },
@@ -30,6 +31,7 @@ ApiAnalyticsSchema.index({ method: 1, url: 1, createdAt: -1 });
 ApiAnalyticsSchema.index({ userId: 1, createdAt: -1 });
 ApiAnalyticsSchema.index({ vendorId: 1, createdAt: -1 });
 ApiAnalyticsSchema.index({ success: 1, createdAt: -1 });
+ApiAnalyticsSchema.index({ requestId: 1 });
 
 // Delete existing model from both caches to force schema refresh
 if (mongoose.models.ApiAnalytics) {
@@ -0,0 +1,20 @@
+import mongoose, { Schema } from 'mongoose';
+
+// API keys for partner and machine clients. The full key is shown once at creation; only a SHA-256 of
+// its secret part is stored. keyId is the public part embedded in the key and is used for lookup.
+const ApiKeySchema = new Schema({
+  keyId: { type: String, required: true, unique: true, index: true },
+  keyHash: { type: String, required: true },
+  name: { type: String, required: true }, // e.g., 'Nightly job import'
+  scopes: [{ type: String }], // e.g., ['jobs:write']
+  rateLimitPerMinute: { type: Number, default: 60 },
+  expiresAt: { type: Date },
+  revokedAt: { type: Date },
+  createdBy: { type: String },
+  revokedBy: { type: String },
+  lastUsedAt: { type: Date },
+  lastUsedIp: { type: String },
+  usageCount: { type: Number, default: 0 },
+}, { timestamps: true });
+
+export const ApiKeyModel = mongoose.models.ApiKey || mongoose.model('ApiKey', ApiKeySchema);
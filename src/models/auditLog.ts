@@ -0,0 +1,22 @@
+import mongoose, { Schema } from 'mongoose';
+
+// Security-relevant events (lockouts, unlocks, account changes) kept separate from ApiAnalytics
+// so they can be queried and retained independently of request logs
+const AuditLogSchema = new Schema(
+  {
+    action: { type: String, required: true, index: true }, // e.g., 'login.locked', 'login.unlocked'
+    actorUserId: { type: String, default: null }, // Who performed the action (null for system/anonymous)
+    targetUserId: { type: String, default: null, index: true },
+    username: { type: String, default: null, index: true },
+    ipAddress: { type: String, default: null },
+    metadata: { type: Schema.Types.Mixed },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+AuditLogSchema.index({ createdAt: -1 });
+AuditLogSchema.index({ action: 1, createdAt: -1 });
+
+export const AuditLogModel = mongoose.models.AuditLog || mongoose.model('AuditLog', AuditLogSchema);
@@ -10,10 +10,18 @@ const ExternalApiCacheSchema = new Schema({
   mappedResponse: { type: Schema.Types.Mixed }, // Transformed response matching our API format
   externalToken: { type: String }, // Token from external API
   expiresAt: { type: Date }, // When this cache expires
+  // Read-through cache entries (see services/upstreamCache)
+  cacheKey: { type: String }, // policy:user:endpoint
+  tags: { type: [String], default: undefined }, // Resources the entry depends on, e.g. 'assignment:123'
+  staleUntil: { type: Date }, // Served stale (while refreshing) until then
 }, { timestamps: true });
 
 // Index for quick lookups
 ExternalApiCacheSchema.index({ endpoint: 1, username: 1, createdAt: -1 });
 ExternalApiCacheSchema.index({ externalToken: 1 });
+ExternalApiCacheSchema.index({ cacheKey: 1 }, { unique: true, sparse: true });
+ExternalApiCacheSchema.index({ tags: 1 });
+// Only read-through entries have staleUntil; login entries are kept as before
+ExternalApiCacheSchema.index({ staleUntil: 1 }, { expireAfterSeconds: 0 });
 
 export const ExternalApiCacheModel = mongoose.models.ExternalApiCache || mongoose.model('ExternalApiCache', ExternalApiCacheSchema);
@@ -1,4 +1,7 @@
 import mongoose, { Schema, Types } from 'mongoose';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('Job');
 
 const JobSchema = new Schema({
   externalId: { type: String, index: true, sparse: true }, // External API job ID
@@ -15,6 +18,7 @@ const JobSchema = new Schema({
   customerEmail: { type: String },
   scheduledDate: { type: Date },
   scheduledTimeWindow: { type: String },
+  timeZone: { type: String }, // IANA zone of the job address; inferred from state/ZIP when missing
   applianceType: { type: String },
   applianceCode: { type: String },
   manufacturerBrand: { type: String },
@@ -36,6 +40,7 @@ const JobSchema = new Schema({
   priority: { type: String, default: 'medium' },
   vendorId: { type: Types.ObjectId, ref: 'Vendor' },
   assignmentId: { type: Types.ObjectId, ref: 'JobAssignment' },
+  syncedAt: { type: Date }, // Last time the job sync copied a change from the upstream
 }, { timestamps: true });
 
 // Logging: mark if doc is new in pre-save, then log in post-save
@@ -54,7 +59,7 @@ JobSchema.post('save', function (doc) {
       city: (doc as any).customerCity,
       state: (doc as any).customerState,
     };
-    console.log('[Job] Created', info);
+    log.info('Job created', info);
   }
 });
 
@@ -64,7 +69,7 @@ JobSchema.post('insertMany', function (docs: any[]) {
     const count = Array.isArray(docs) ? docs.length : 0;
     if (!count) return;
     const preview = (docs.slice(0, 3) as any[]).map((d) => ({ id: String(d._id), soNumber: d.soNumber, city: d.customerCity }));
-    console.log(`[Job] insertMany created count=${count}`, preview);
+    log.info('Jobs inserted', { count, preview });
   } catch (e) {
     // best-effort logging
   }
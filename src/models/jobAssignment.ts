@@ -1,6 +1,7 @@
 import mongoose, { Schema, Types } from 'mongoose';
 
 const JobAssignmentSchema = new Schema({
+  externalId: { type: String, index: true, sparse: true }, // Upstream assignment ID (set by the job sync)
   jobId: { type: Types.ObjectId, required: true }, // references Job or Order id
   vendorId: { type: Types.ObjectId, ref: 'Vendor', required: true },
   status: { type: String, default: 'assigned' },
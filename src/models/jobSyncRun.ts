@@ -0,0 +1,32 @@
+import mongoose, { Schema } from 'mongoose';
+
+export const JOB_SYNC_TRIGGERS = ['scheduled', 'manual', 'resync'] as const;
+export type JobSyncTrigger = (typeof JOB_SYNC_TRIGGERS)[number];
+
+export const JOB_SYNC_RUN_STATUSES = ['running', 'succeeded', 'partial', 'failed'] as const;
+export type JobSyncRunStatus = (typeof JOB_SYNC_RUN_STATUSES)[number];
+
+// One pass of the upstream -> Mongo job sync (see services/jobSync): what it looked at, what it
+// changed and what went wrong. Kept for 90 days.
+const JobSyncRunSchema = new Schema({
+  trigger: { type: String, enum: JOB_SYNC_TRIGGERS, required: true },
+  status: { type: String, enum: JOB_SYNC_RUN_STATUSES, default: 'running' },
+  requestedBy: { type: String, default: null }, // Admin userId for manual runs and resyncs
+  // Resync only: the upstream job/assignment IDs asked for
+  jobIds: [{ type: String }],
+  assignmentIds: [{ type: String }],
+  startedAt: { type: Date, default: Date.now },
+  finishedAt: { type: Date },
+  // { jobs: { fetched, created, updated, unchanged, failed }, assignments: { ..., skipped } }
+  counts: { type: Schema.Types.Mixed, default: {} },
+  // How often each field changed, e.g. { 'jobs.status': 3, 'assignments.completedAt': 1 }
+  fieldChanges: { type: Schema.Types.Mixed, default: {} },
+  // First failures of the run: { scope, id, status, message }
+  failures: { type: [Schema.Types.Mixed], default: [] },
+  failureCount: { type: Number, default: 0 },
+}, { timestamps: true });
+
+JobSyncRunSchema.index({ startedAt: -1 });
+JobSyncRunSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export const JobSyncRunModel = mongoose.models.JobSyncRun || mongoose.model('JobSyncRun', JobSyncRunSchema);
@@ -0,0 +1,26 @@
+import mongoose, { Schema } from 'mongoose';
+import { config } from '../config';
+
+const RETENTION_DAYS = config.auth.loginComparisonRetentionDays;
+
+// One document per login where both the upstream API and the local Mongo check ran.
+// Used to measure how close local auth is to replacing the upstream.
+const LoginComparisonSchema = new Schema({
+  username: { type: String, required: true, index: true },
+  userId: { type: String, index: true }, // Local user id, when the user exists locally
+  externalUserId: { type: String },
+  strategy: { type: String, required: true },
+  externalOk: { type: Boolean, required: true },
+  localOk: { type: Boolean, required: true },
+  outcomeMatch: { type: Boolean, required: true, index: true }, // Both accepted or both rejected the credentials
+  diffs: [{ field: { type: String }, external: { type: Schema.Types.Mixed }, local: { type: Schema.Types.Mixed }, _id: false }],
+  externalError: { type: String },
+  externalDurationMs: { type: Number },
+  localDurationMs: { type: Number },
+}, { timestamps: true });
+
+LoginComparisonSchema.index({ createdAt: -1 });
+LoginComparisonSchema.index({ createdAt: 1 }, { expireAfterSeconds: RETENTION_DAYS * 24 * 60 * 60 });
+
+export const LoginComparisonModel =
+  mongoose.models.LoginComparison || mongoose.model('LoginComparison', LoginComparisonSchema);
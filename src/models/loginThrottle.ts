@@ -0,0 +1,14 @@
+import mongoose, { Schema } from 'mongoose';
+
+// Failed-login counters (see services/loginLockout), per username and per IP
+const LoginThrottleSchema = new Schema({
+  key: { type: String, required: true, unique: true, index: true }, // e.g., 'user:alice' or 'ip:203.0.113.7'
+  failures: { type: Number, default: 0 },
+  lockedUntil: { type: Date },
+  lastFailureAt: { type: Date },
+}, { timestamps: true });
+
+// Forget idle counters after a day without failures
+LoginThrottleSchema.index({ updatedAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+export const LoginThrottleModel = mongoose.models.LoginThrottle || mongoose.model('LoginThrottle', LoginThrottleSchema);
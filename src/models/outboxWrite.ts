@@ -0,0 +1,42 @@
+import mongoose, { Schema } from 'mongoose';
+
+export const OUTBOX_STATUSES = ['pending', 'processing', 'succeeded', 'conflict', 'failed', 'discarded'] as const;
+export type OutboxStatus = (typeof OUTBOX_STATUSES)[number];
+
+// An upstream write that failed with a transient error and is waiting to be replayed (see
+// services/writeOutbox). Writes sharing an orderingKey are replayed one at a time in _id order.
+const OutboxWriteSchema = new Schema({
+  trackingId: { type: String, required: true, unique: true, index: true },
+  orderingKey: { type: String, required: true }, // e.g., 'assignment:123'
+  route: { type: String, required: true }, // Proxy route name, e.g., 'UpdateAssignment'
+  method: { type: String, required: true },
+  baseUrl: { type: String, required: true },
+  endpoint: { type: String, required: true },
+  body: { type: Schema.Types.Mixed },
+  // False for writes that must not be sent twice (e.g. adding a part); they are only retried after
+  // errors that show the upstream did not apply them
+  idempotent: { type: Boolean, default: true },
+  // Caller's upstream token, replayed with the write; never returned by the API. Removed once the
+  // write is done, and after tokenExpiresAt while it waits for an admin.
+  token: { type: String },
+  tokenExpiresAt: { type: Date },
+  tokenHash: { type: String, required: true }, // sha256 of the token, to recognise the caller
+  userId: { type: String, default: null }, // Local user, when the queuing request carried a token we issued
+  requestId: { type: String, default: null }, // X-Request-Id of the original request, reused on every replay
+  status: { type: String, enum: OUTBOX_STATUSES, default: 'pending' },
+  attempts: { type: Number, default: 0 },
+  nextAttemptAt: { type: Date, default: Date.now },
+  lockedUntil: { type: Date },
+  lastError: { type: Schema.Types.Mixed }, // { status, code, message, upstream }
+  response: { type: Schema.Types.Mixed }, // Upstream answer once the write went through
+  completedAt: { type: Date },
+  resolvedBy: { type: String }, // Admin userId that discarded or requeued it
+}, { timestamps: true });
+
+OutboxWriteSchema.index({ status: 1, orderingKey: 1 });
+OutboxWriteSchema.index({ orderingKey: 1, _id: 1 });
+OutboxWriteSchema.index({ tokenExpiresAt: 1 }, { sparse: true });
+// Writes that went through (or were discarded) are kept for a week for support questions
+OutboxWriteSchema.index({ completedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export const OutboxWriteModel = mongoose.models.OutboxWrite || mongoose.model('OutboxWrite', OutboxWriteSchema);
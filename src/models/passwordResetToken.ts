@@ -0,0 +1,16 @@
+import mongoose, { Schema } from 'mongoose';
+
+// One-time password reset tokens. Only a SHA-256 of the token is stored; the token itself is only ever in the email.
+const PasswordResetTokenSchema = new Schema({
+  userId: { type: String, required: true, index: true },
+  tokenHash: { type: String, required: true, unique: true },
+  expiresAt: { type: Date, required: true },
+  usedAt: { type: Date },
+  requestedIp: { type: String },
+}, { timestamps: true });
+
+// Expired tokens are useless; let Mongo clean them up
+PasswordResetTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const PasswordResetTokenModel =
+  mongoose.models.PasswordResetToken || mongoose.model('PasswordResetToken', PasswordResetTokenSchema);
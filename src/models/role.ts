@@ -0,0 +1,13 @@
+import mongoose, { Schema } from 'mongoose';
+
+// Role -> permission mapping. Built-in roles are seeded on startup (see permissionService.seedDefaults)
+// and can then be edited by admins; a user's effective permissions are those of their role.
+const RoleSchema = new Schema({
+  name: { type: String, required: true, unique: true, index: true }, // matches User.role
+  description: { type: String },
+  permissions: [{ type: String }],
+  isSystem: { type: Boolean, default: false }, // Built-in roles can be edited but not removed
+  updatedBy: { type: String },
+}, { timestamps: true });
+
+export const RoleModel = mongoose.models.Role || mongoose.model('Role', RoleSchema);
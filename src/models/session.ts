@@ -0,0 +1,33 @@
+import mongoose, { Schema } from 'mongoose';
+
+// One document per locally issued login session. The sessionId is embedded in every access and
+// refresh token minted for the session; refreshJti is the id of the only refresh token that may
+// still be redeemed; older ones are treated as reuse and revoke the whole session.
+const SessionSchema = new Schema({
+  sessionId: { type: String, required: true, unique: true, index: true },
+  userId: { type: String, required: true, index: true },
+  role: { type: String },
+  vendorId: { type: String },
+  refreshJti: { type: String, required: true },
+  rotationCount: { type: Number, default: 0 },
+  lastRotatedAt: { type: Date },
+  revokedAt: { type: Date },
+  revokedReason: { type: String }, // e.g., 'logout', 'refresh_reuse', 'revoked_by_user'
+  revokedBy: { type: String }, // userId of whoever revoked it, when not the session owner's own logout
+  expiresAt: { type: Date, required: true },
+  // Device details captured at login (from body or X-Device-* headers)
+  deviceModel: { type: String },
+  platform: { type: String },
+  osVersion: { type: String },
+  appVersion: { type: String },
+  fcmToken: { type: String },
+  ipAddress: { type: String },
+  userAgent: { type: String },
+  lastSeenAt: { type: Date },
+}, { timestamps: true });
+
+SessionSchema.index({ userId: 1, revokedAt: 1 });
+// Drop sessions once their refresh token can no longer be redeemed
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const SessionModel = mongoose.models.Session || mongoose.model('Session', SessionSchema);
@@ -1,16 +1,29 @@
 import mongoose, { Schema, Types } from 'mongoose';
 
-export type UserRole = 'admin' | 'registered_user' | 'guest';
+export type UserRole = 'admin' | 'vendor_admin' | 'dispatcher' | 'registered_user' | 'guest';
 
 const UserSchema = new Schema({
   username: { type: String, required: true, unique: true, index: true },
   email: { type: String, index: true },
   passwordHash: { type: String, required: true },
-  role: { type: String, enum: ['admin', 'registered_user', 'guest'], default: 'registered_user' },
+  role: { type: String, enum: ['admin', 'vendor_admin', 'dispatcher', 'registered_user', 'guest'], default: 'registered_user' },
   vendorId: { type: Types.ObjectId, ref: 'Vendor' },
   isActive: { type: Boolean, default: true },
   lastLoginAt: { type: Date },
   passwordChangedAt: { type: Date },
+  // Previous password hashes (newest last), checked to prevent reuse; length capped by PASSWORD_HISTORY_SIZE
+  passwordHistory: [{ hash: { type: String }, changedAt: { type: Date }, _id: false }],
+  mustChangePassword: { type: Boolean, default: false }, // Set by an admin-forced reset; cleared on change-password
+  // TOTP two-factor auth (admins). Secrets are encrypted; recovery codes are SHA-256 hashes.
+  twoFactor: {
+    enabled: { type: Boolean, default: false },
+    secret: { type: String },
+    pendingSecret: { type: String }, // Set during enrolment until the first code is confirmed
+    lastUsedStep: { type: Number }, // Last accepted TOTP time step, so a code can't be replayed
+    recoveryCodes: [{ type: String }],
+    enabledAt: { type: Date },
+    challengeId: { type: String }, // Outstanding login challenge; cleared when it is used
+  },
   loginAttempts: { type: Number, default: 0 },
   lockedUntil: { type: Date },
   // FCM device tokens
@@ -10,6 +10,10 @@ const VendorSchema = new Schema({
   appliances: [{ type: String }],
   available: { type: Boolean, default: true },
   isActive: { type: Boolean, default: true },
+  // Scheduling (see services/scheduling): IANA zone, inferred from the base address when unset
+  timeZone: { type: String },
+  // Days after the vendor's local today from which jobs are offered; unset = region/default rule
+  leadTimeDays: { type: Number, min: 0 },
 }, { timestamps: true });
 
 export const VendorModel = mongoose.models.Vendor || mongoose.model('Vendor', VendorSchema);
@@ -1,9 +1,7 @@
 import mongoose from 'mongoose';
+import { config } from '../config';
 
-const DEFAULT_MONGO_URL = process.env.MONGO_URL || 'mongodb://localhost:27017';
-const DEFAULT_DB_NAME = process.env.MONGO_DB || 'qa';
-
-export async function connectMongo(url: string = DEFAULT_MONGO_URL, dbName: string = DEFAULT_DB_NAME) {
+export async function connectMongo(url: string = config.mongo.url, dbName: string = config.mongo.dbName) {
   // If the URL already contains query params, assume it's a complete URI and do not append DB.
   // If the URL already has a path component after the host, also do not append DB.
   let uri = url;
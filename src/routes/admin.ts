@@ -0,0 +1,924 @@
+import { Router } from 'express';
+import mongoose from 'mongoose';
+import { authenticateJWT, requirePermission, type AuthenticatedRequest } from '../middleware/auth';
+import { AuditLogModel } from '../models/auditLog';
+import { LoginComparisonModel } from '../models/loginComparison';
+import { UserModel } from '../models/user';
+import { VendorModel } from '../models/vendor';
+import { password } from '../utils/password';
+import { loginLockout } from '../services/loginLockout';
+import { sessionService, toSessionDTO } from '../services/sessions';
+import { recordAudit } from '../services/audit';
+import { passwordPolicy, passwordErrorResponse } from '../services/passwordPolicy';
+import { twoFactor } from '../services/twoFactor';
+import { apiKeyService, isApiKeyScope, API_KEY_SCOPES } from '../services/apiKeys';
+import { loginPipeline } from '../services/loginPipeline';
+import { proxyMetrics } from '../services/proxyRoutes';
+import { singleFlightMetrics } from '../services/externalApiAdapter';
+import { schemaViolations } from '../services/responseMapping';
+import { toOutboxDTO, writeOutbox } from '../services/writeOutbox';
+import { jobSync, JobSyncBusyError, toJobSyncRunDTO } from '../services/jobSync';
+import { OUTBOX_STATUSES, type OutboxStatus } from '../models/outboxWrite';
+import { permissionService, isPermission, isRoleName, PERMISSIONS } from '../services/permissions';
+import { createLogger, isLogLevel, recentLogs } from '../services/logger';
+import { isTimeZone, vendorSchedule } from '../services/scheduling';
+import { LOG_LEVELS, type LogLevel } from '../config';
+
+const log = createLogger('Admin');
+
+export const adminRouter = Router();
+
+adminRouter.use(authenticateJWT());
+
+const MAX_LIMIT = 500;
+
+// Admin view of a user: never includes the password hash or raw FCM tokens
+function toUserDTO(user: any) {
+  return {
+    id: String(user._id),
+    username: user.username,
+    email: user.email || null,
+    role: user.role || 'registered_user',
+    vendorId: user.vendorId ? String(user.vendorId) : null,
+    isActive: user.isActive !== false,
+    mustChangePassword: Boolean(user.mustChangePassword),
+    twoFactorEnabled: twoFactor.isEnabled(user),
+    lastLoginAt: user.lastLoginAt || null,
+    passwordChangedAt: user.passwordChangedAt || null,
+    lockedUntil: user.lockedUntil || null,
+    fcmTokensCount: Array.isArray(user.fcmTokens) ? user.fcmTokens.length : 0,
+    createdAt: user.createdAt || null,
+    updatedAt: user.updatedAt || null,
+  };
+}
+
+// Query values can also arrive as arrays or objects (?a=1&a=2, ?a[$ne]=x); filters take strings only
+function nonStringParam(query: Record<string, unknown>, names: string[]) {
+  return names.find((name) => query[name] !== undefined && typeof query[name] !== 'string');
+}
+
+function escapeRegex(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Returns an error message, or null when the vendor can be linked
+async function validateVendorId(vendorId: unknown): Promise<string | null> {
+  if (typeof vendorId !== 'string' || !mongoose.isValidObjectId(vendorId)) return 'Invalid vendorId';
+  const vendor = await VendorModel.exists({ _id: vendorId });
+  return vendor ? null : 'Vendor not found';
+}
+
+// POST /api/admin/lockouts/unlock
+// Body: { username?: string, ip?: string }
+adminRouter.post('/lockouts/unlock', requirePermission('manage_users'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { username, ip } = (req.body || {}) as { username?: string; ip?: string };
+    if (!username && !ip) {
+      return res.status(400).json({ success: false, message: 'username or ip is required' });
+    }
+
+    const result = await loginLockout.unlock(
+      {
+        username: typeof username === 'string' ? username.trim() : undefined,
+        ip: typeof ip === 'string' ? ip.trim() : undefined,
+      },
+      req.user!.userId
+    );
+
+    return res.json({ success: true, data: result });
+  } catch (err: any) {
+    log.error('Unlock failed', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to unlock' });
+  }
+});
+
+// GET /api/admin/audit?action=&username=&targetUserId=&ip=&from=&to=&page=&limit=
+adminRouter.get('/audit', requirePermission('view_audit_log'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const query = req.query as Record<string, string | undefined>;
+    const limit = Math.min(Number(query.limit) || 50, MAX_LIMIT);
+    const page = Math.max(Number(query.page) || 1, 1);
+    const invalid = nonStringParam(query, ['action', 'username', 'targetUserId', 'ip', 'from', 'to']);
+    if (invalid) return res.status(400).json({ success: false, message: `Invalid ${invalid}` });
+
+    const filter: Record<string, any> = {};
+    if (query.action) filter.action = query.action;
+    if (query.username) filter.username = query.username;
+    if (query.targetUserId) filter.targetUserId = query.targetUserId;
+    if (query.ip) filter.ipAddress = query.ip;
+    if (query.from || query.to) {
+      filter.createdAt = {};
+      if (query.from && !isNaN(new Date(query.from).getTime())) filter.createdAt.$gte = new Date(query.from);
+      if (query.to && !isNaN(new Date(query.to).getTime())) filter.createdAt.$lte = new Date(query.to);
+      if (Object.keys(filter.createdAt).length === 0) delete filter.createdAt;
+    }
+
+    const [records, total] = await Promise.all([
+      AuditLogModel.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      AuditLogModel.countDocuments(filter),
+    ]);
+
+    return res.json({
+      success: true,
+      data: records,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    });
+  } catch (err: any) {
+    log.error('Failed to load audit log', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to load audit log' });
+  }
+});
+
+// GET /api/admin/users/:userId/sessions?includeRevoked=true
+adminRouter.get('/users/:userId/sessions', requirePermission('manage_users'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const includeRevoked = String(req.query.includeRevoked || '').toLowerCase() === 'true';
+    const sessions = await sessionService.listForUser(req.params.userId, { includeRevoked });
+    return res.json({ success: true, data: sessions.map((s: any) => toSessionDTO(s)) });
+  } catch (err: any) {
+    log.error('Failed to list sessions', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to list sessions' });
+  }
+});
+
+// DELETE /api/admin/sessions/:sessionId - sign a device out remotely (e.g. lost phone)
+adminRouter.delete('/sessions/:sessionId', requirePermission('manage_users'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const session: any = await sessionService.findById(req.params.sessionId);
+    if (!session) {
+      return res.status(404).json({ success: false, message: 'Session not found' });
+    }
+
+    const revoked = await sessionService.revoke(session.sessionId, 'revoked_by_admin', req.user!.userId);
+    if (revoked) {
+      await recordAudit({
+        action: 'session.revoked',
+        actorUserId: req.user!.userId,
+        targetUserId: session.userId,
+        ipAddress: req.ip,
+        metadata: { sessionId: session.sessionId, deviceModel: session.deviceModel, platform: session.platform },
+      });
+    }
+
+    return res.json({ success: true, data: { id: session.sessionId, revoked } });
+  } catch (err: any) {
+    log.error('Failed to revoke session', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to revoke session' });
+  }
+});
+
+// GET /api/admin/roles - roles with their permissions, plus the list of known permissions
+adminRouter.get('/roles', requirePermission('manage_roles'), async (_req: AuthenticatedRequest, res) => {
+  try {
+    const roles = await permissionService.listRoles();
+    return res.json({ success: true, data: { roles, permissions: PERMISSIONS } });
+  } catch (err: any) {
+    log.error('Failed to list roles', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to list roles' });
+  }
+});
+
+// PUT /api/admin/roles/:name
+// Body: { permissions?: string[], description?: string }
+adminRouter.put('/roles/:name', requirePermission('manage_roles'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { permissions, description } = (req.body || {}) as { permissions?: unknown; description?: unknown };
+
+    if (permissions !== undefined) {
+      if (!Array.isArray(permissions)) {
+        return res.status(400).json({ success: false, message: 'permissions must be an array' });
+      }
+      const unknown = permissions.filter((p) => !isPermission(p));
+      if (unknown.length > 0) {
+        return res.status(400).json({ success: false, message: 'Unknown permissions', unknown });
+      }
+    }
+
+    const before: any = await permissionService.getRole(req.params.name);
+    const role: any = await permissionService.updateRole(
+      req.params.name,
+      {
+        permissions: permissions as any,
+        description: typeof description === 'string' ? description : undefined,
+      },
+      req.user!.userId
+    );
+    if (!role) {
+      return res.status(404).json({ success: false, message: 'Role not found' });
+    }
+
+    await recordAudit({
+      action: 'role.updated',
+      actorUserId: req.user!.userId,
+      ipAddress: req.ip,
+      metadata: { role: role.name, before: before?.permissions, after: role.permissions },
+    });
+
+    return res.json({ success: true, data: role });
+  } catch (err: any) {
+    log.error('Failed to update role', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to update role' });
+  }
+});
+
+// GET /api/admin/users?q=&role=&vendorId=&isActive=&page=&limit=
+// q matches username or email (case-insensitive, partial)
+adminRouter.get('/users', requirePermission('manage_users'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const query = req.query as Record<string, string | undefined>;
+    const limit = Math.min(Number(query.limit) || 50, MAX_LIMIT);
+    const page = Math.max(Number(query.page) || 1, 1);
+
+    const filter: Record<string, any> = {};
+    if (query.q !== undefined && typeof query.q !== 'string') {
+      return res.status(400).json({ success: false, message: 'Invalid q' });
+    }
+    if (query.q) {
+      const pattern = new RegExp(escapeRegex(query.q.trim()), 'i');
+      filter.$or = [{ username: pattern }, { email: pattern }];
+    }
+    if (query.role) {
+      if (typeof query.role !== 'string') return res.status(400).json({ success: false, message: 'Invalid role' });
+      filter.role = query.role;
+    }
+    if (query.vendorId) {
+      if (typeof query.vendorId !== 'string' || !mongoose.isValidObjectId(query.vendorId)) {
+        return res.status(400).json({ success: false, message: 'Invalid vendorId' });
+      }
+      filter.vendorId = query.vendorId;
+    }
+    if (query.isActive === 'true') filter.isActive = { $ne: false };
+    if (query.isActive === 'false') filter.isActive = false;
+
+    const [users, total] = await Promise.all([
+      UserModel.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      UserModel.countDocuments(filter),
+    ]);
+
+    return res.json({
+      success: true,
+      data: users.map(toUserDTO),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    });
+  } catch (err: any) {
+    log.error('Failed to list users', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to list users' });
+  }
+});
+
+// GET /api/admin/users/:userId
+adminRouter.get('/users/:userId', requirePermission('manage_users'), async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.userId)) {
+      return res.status(400).json({ success: false, message: 'Invalid user id' });
+    }
+    const user = await UserModel.findById(req.params.userId).lean();
+    if (!user) return res.status(404).json({ success: false, message: 'User not found' });
+    return res.json({ success: true, data: toUserDTO(user) });
+  } catch (err: any) {
+    log.error('Failed to load user', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to load user' });
+  }
+});
+
+// POST /api/admin/users
+// Body: { username, password, email?, role?, vendorId?, isActive? }
+adminRouter.post('/users', requirePermission('manage_users'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { username, password: pwd, email, role, vendorId, isActive } = req.body || {};
+    if (typeof username !== 'string' || !username.trim() || typeof pwd !== 'string' || !pwd) {
+      return res.status(400).json({ success: false, message: 'username and password are required' });
+    }
+    const violations = passwordPolicy.validate(pwd, { username: username.trim() });
+    if (violations.length > 0) {
+      return res.status(400).json(passwordErrorResponse('password', violations));
+    }
+    if (role !== undefined && !isRoleName(role)) {
+      return res.status(400).json({ success: false, message: `Unknown role '${role}'` });
+    }
+    if (vendorId) {
+      const vendorError = await validateVendorId(vendorId);
+      if (vendorError) return res.status(400).json({ success: false, message: vendorError });
+    }
+
+    const existing = await UserModel.exists({ username: username.trim() });
+    if (existing) {
+      return res.status(409).json({ success: false, message: `Username '${username.trim()}' already exists` });
+    }
+
+    const user = await UserModel.create({
+      username: username.trim(),
+      email: typeof email === 'string' ? email.trim() : undefined,
+      passwordHash: await password.hash(pwd),
+      role: role || 'registered_user',
+      vendorId: vendorId || undefined,
+      isActive: typeof isActive === 'boolean' ? isActive : true,
+    });
+
+    await recordAudit({
+      action: 'user.created',
+      actorUserId: req.user!.userId,
+      targetUserId: String(user._id),
+      username: user.username,
+      ipAddress: req.ip,
+      metadata: { role: user.role, vendorId: user.vendorId ? String(user.vendorId) : null, isActive: user.isActive },
+    });
+
+    return res.status(201).json({ success: true, data: toUserDTO(user.toObject()) });
+  } catch (err: any) {
+    log.error('Failed to create user', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to create user' });
+  }
+});
+
+// PATCH /api/admin/users/:userId
+// Body (all optional): { email, role, vendorId (null to unlink), isActive }
+// Deactivating a user or changing their role signs out all of their sessions.
+adminRouter.patch('/users/:userId', requirePermission('manage_users'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { userId } = req.params;
+    if (!mongoose.isValidObjectId(userId)) {
+      return res.status(400).json({ success: false, message: 'Invalid user id' });
+    }
+    const body = req.body || {};
+
+    const user: any = await UserModel.findById(userId).lean();
+    if (!user) return res.status(404).json({ success: false, message: 'User not found' });
+
+    const $set: Record<string, any> = {};
+    const $unset: Record<string, any> = {};
+
+    if (body.email !== undefined) {
+      if (body.email !== null && typeof body.email !== 'string') {
+        return res.status(400).json({ success: false, message: 'email must be a string or null' });
+      }
+      if (body.email) $set.email = body.email.trim();
+      else $unset.email = '';
+    }
+    if (body.role !== undefined) {
+      if (!isRoleName(body.role)) {
+        return res.status(400).json({ success: false, message: `Unknown role '${body.role}'` });
+      }
+      if (userId === req.user!.userId && body.role !== user.role) {
+        return res.status(400).json({ success: false, message: 'You cannot change your own role' });
+      }
+      $set.role = body.role;
+    }
+    if (body.vendorId !== undefined) {
+      if (body.vendorId === null || body.vendorId === '') {
+        $unset.vendorId = '';
+      } else {
+        const vendorError = await validateVendorId(body.vendorId);
+        if (vendorError) return res.status(400).json({ success: false, message: vendorError });
+        $set.vendorId = body.vendorId;
+      }
+    }
+    if (body.isActive !== undefined) {
+      if (typeof body.isActive !== 'boolean') {
+        return res.status(400).json({ success: false, message: 'isActive must be a boolean' });
+      }
+      if (userId === req.user!.userId && body.isActive === false) {
+        return res.status(400).json({ success: false, message: 'You cannot deactivate your own account' });
+      }
+      $set.isActive = body.isActive;
+    }
+
+    if (Object.keys($set).length === 0 && Object.keys($unset).length === 0) {
+      return res.status(400).json({ success: false, message: 'No changes provided' });
+    }
+
+    const updated: any = await UserModel.findByIdAndUpdate(
+      userId,
+      { ...(Object.keys($set).length ? { $set } : {}), ...(Object.keys($unset).length ? { $unset } : {}) },
+      { new: true }
+    ).lean();
+
+    // Record only the fields that actually changed
+    const changes: Record<string, { from: any; to: any }> = {};
+    for (const field of ['email', 'role', 'vendorId', 'isActive']) {
+      const from = user[field] !== undefined && user[field] !== null ? String(user[field]) : null;
+      const to = updated[field] !== undefined && updated[field] !== null ? String(updated[field]) : null;
+      if (from !== to) changes[field] = { from: user[field] ?? null, to: updated[field] ?? null };
+    }
+
+    // Existing tokens carry the old role/vendor; make the user sign in again
+    let sessionsRevoked = 0;
+    if (changes.isActive || changes.role || changes.vendorId) {
+      const reason = changes.isActive && updated.isActive === false ? 'user_deactivated' : 'user_updated';
+      sessionsRevoked = await sessionService.revokeAllForUser(userId, reason, { revokedBy: req.user!.userId });
+    }
+
+    if (Object.keys(changes).length > 0) {
+      await recordAudit({
+        action: 'user.updated',
+        actorUserId: req.user!.userId,
+        targetUserId: userId,
+        username: updated.username,
+        ipAddress: req.ip,
+        metadata: { changes, sessionsRevoked },
+      });
+    }
+
+    return res.json({ success: true, data: toUserDTO(updated), sessionsRevoked });
+  } catch (err: any) {
+    log.error('Failed to update user', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to update user' });
+  }
+});
+
+// POST /api/admin/users/:userId/force-password-reset
+// Body: { temporaryPassword? }
+// Flags the account so the app requires a new password, signs out every session and,
+// if given, replaces the current password with a temporary one.
+adminRouter.post('/users/:userId/force-password-reset', requirePermission('manage_users'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { userId } = req.params;
+    if (!mongoose.isValidObjectId(userId)) {
+      return res.status(400).json({ success: false, message: 'Invalid user id' });
+    }
+    const { temporaryPassword } = (req.body || {}) as { temporaryPassword?: unknown };
+    if (temporaryPassword !== undefined && (typeof temporaryPassword !== 'string' || !temporaryPassword)) {
+      return res.status(400).json({ success: false, message: 'temporaryPassword must be a non-empty string' });
+    }
+
+    const $set: Record<string, any> = { mustChangePassword: true };
+    if (typeof temporaryPassword === 'string') {
+      $set.passwordHash = await password.hash(temporaryPassword);
+      $set.passwordChangedAt = new Date();
+    }
+
+    const user: any = await UserModel.findByIdAndUpdate(userId, { $set }, { new: true }).lean();
+    if (!user) return res.status(404).json({ success: false, message: 'User not found' });
+    if ($set.passwordChangedAt) sessionService.notePasswordChange(userId, $set.passwordChangedAt);
+
+    const sessionsRevoked = await sessionService.revokeAllForUser(userId, 'password_reset_forced', {
+      revokedBy: req.user!.userId,
+    });
+
+    await recordAudit({
+      action: 'user.password_reset_forced',
+      actorUserId: req.user!.userId,
+      targetUserId: userId,
+      username: user.username,
+      ipAddress: req.ip,
+      metadata: { temporaryPasswordSet: typeof temporaryPassword === 'string', sessionsRevoked },
+    });
+
+    return res.json({ success: true, data: toUserDTO(user), sessionsRevoked });
+  } catch (err: any) {
+    log.error('Failed to force password reset', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to force password reset' });
+  }
+});
+
+// DELETE /api/admin/users/:userId/fcm-tokens - stop push notifications to all of the user's devices
+adminRouter.delete('/users/:userId/fcm-tokens', requirePermission('manage_users'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { userId } = req.params;
+    if (!mongoose.isValidObjectId(userId)) {
+      return res.status(400).json({ success: false, message: 'Invalid user id' });
+    }
+
+    const before: any = await UserModel.findByIdAndUpdate(
+      userId,
+      { $set: { fcmTokens: [] }, $unset: { lastFcmToken: '', lastFcmAt: '' } }
+    ).select('username fcmTokens').lean();
+    if (!before) return res.status(404).json({ success: false, message: 'User not found' });
+
+    const cleared = Array.isArray(before.fcmTokens) ? before.fcmTokens.length : 0;
+    await recordAudit({
+      action: 'user.fcm_tokens_cleared',
+      actorUserId: req.user!.userId,
+      targetUserId: userId,
+      username: before.username,
+      ipAddress: req.ip,
+      metadata: { cleared },
+    });
+
+    return res.json({ success: true, data: { cleared } });
+  } catch (err: any) {
+    log.error('Failed to clear FCM tokens', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to clear FCM tokens' });
+  }
+});
+
+// DELETE /api/admin/users/:userId/2fa - turn off two-factor auth for a user who lost their device
+adminRouter.delete('/users/:userId/2fa', requirePermission('manage_users'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { userId } = req.params;
+    if (!mongoose.isValidObjectId(userId)) {
+      return res.status(400).json({ success: false, message: 'Invalid user id' });
+    }
+    const user: any = await UserModel.findById(userId).select('username twoFactor').lean();
+    if (!user) return res.status(404).json({ success: false, message: 'User not found' });
+    if (!twoFactor.isEnabled(user)) {
+      return res.status(400).json({ success: false, message: 'Two-factor authentication is not enabled for this user' });
+    }
+
+    await twoFactor.disable(userId, req.user!.userId);
+    const sessionsRevoked = await sessionService.revokeAllForUser(userId, 'two_factor_reset', { revokedBy: req.user!.userId });
+    return res.json({ success: true, data: { twoFactorEnabled: false, sessionsRevoked } });
+  } catch (err: any) {
+    log.error('Failed to reset two-factor auth', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to reset two-factor auth' });
+  }
+});
+
+// PATCH /api/admin/vendors/:vendorId/scheduling - set a vendor's time zone and lead time
+// Body: { timeZone?: IANA zone | null, leadTimeDays?: integer >= 0 | null } (null goes back to the inferred/region default)
+adminRouter.patch('/vendors/:vendorId/scheduling', requirePermission('manage_users'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { vendorId } = req.params;
+    if (!mongoose.isValidObjectId(vendorId)) {
+      return res.status(400).json({ success: false, message: 'Invalid vendor id' });
+    }
+
+    const { timeZone, leadTimeDays } = req.body || {};
+    const set: Record<string, unknown> = {};
+    const unset: Record<string, ''> = {};
+    if (timeZone === null) unset.timeZone = '';
+    else if (timeZone !== undefined) {
+      if (!isTimeZone(timeZone)) return res.status(422).json({ success: false, message: 'timeZone must be an IANA time zone, e.g. America/Los_Angeles' });
+      set.timeZone = timeZone;
+    }
+    if (leadTimeDays === null) unset.leadTimeDays = '';
+    else if (leadTimeDays !== undefined) {
+      if (!Number.isInteger(leadTimeDays) || leadTimeDays < 0 || leadTimeDays > 30) {
+        return res.status(422).json({ success: false, message: 'leadTimeDays must be an integer between 0 and 30' });
+      }
+      set.leadTimeDays = leadTimeDays;
+    }
+    if (Object.keys(set).length === 0 && Object.keys(unset).length === 0) {
+      return res.status(400).json({ success: false, message: 'No valid fields to update' });
+    }
+
+    const vendor: any = await VendorModel.findByIdAndUpdate(
+      vendorId,
+      { ...(Object.keys(set).length > 0 && { $set: set }), ...(Object.keys(unset).length > 0 && { $unset: unset }) },
+      { new: true }
+    ).select('name timeZone leadTimeDays').lean();
+    if (!vendor) return res.status(404).json({ success: false, message: 'Vendor not found' });
+
+    await recordAudit({
+      action: 'vendor.scheduling_updated',
+      actorUserId: req.user!.userId,
+      ipAddress: req.ip,
+      metadata: { vendorId, timeZone, leadTimeDays },
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        id: String(vendor._id),
+        name: vendor.name,
+        timeZone: vendor.timeZone ?? null,
+        leadTimeDays: vendor.leadTimeDays ?? null,
+        // What applies once region rules and defaults fill the gaps
+        effective: vendorSchedule(vendor),
+      },
+    });
+  } catch (err: any) {
+    log.error('Failed to update vendor scheduling', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to update vendor scheduling' });
+  }
+});
+
+// GET /api/admin/api-keys?includeRevoked=true
+adminRouter.get('/api-keys', requirePermission('manage_api_keys'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const includeRevoked = String(req.query.includeRevoked || '').toLowerCase() === 'true';
+    const keys = await apiKeyService.list({ includeRevoked });
+    return res.json({ success: true, data: { keys, scopes: API_KEY_SCOPES } });
+  } catch (err: any) {
+    log.error('Failed to list API keys', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to list API keys' });
+  }
+});
+
+// POST /api/admin/api-keys
+// Body: { name, scopes: string[], expiresAt?: ISO date, rateLimitPerMinute?: number }
+// The full key is only returned in this response
+adminRouter.post('/api-keys', requirePermission('manage_api_keys'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { name, scopes, expiresAt, rateLimitPerMinute } = req.body || {};
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ success: false, message: 'name is required' });
+    }
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      return res.status(400).json({ success: false, message: 'scopes must be a non-empty array' });
+    }
+    const unknown = scopes.filter((s: unknown) => !isApiKeyScope(s));
+    if (unknown.length > 0) {
+      return res.status(400).json({ success: false, message: 'Unknown scopes', unknown });
+    }
+
+    let expiry: Date | undefined;
+    if (expiresAt !== undefined && expiresAt !== null) {
+      expiry = new Date(expiresAt);
+      if (isNaN(expiry.getTime()) || expiry <= new Date()) {
+        return res.status(400).json({ success: false, message: 'expiresAt must be a future date' });
+      }
+    }
+    if (rateLimitPerMinute !== undefined && (!Number.isInteger(rateLimitPerMinute) || rateLimitPerMinute < 1)) {
+      return res.status(400).json({ success: false, message: 'rateLimitPerMinute must be a positive integer' });
+    }
+
+    const { key, record } = await apiKeyService.create(
+      { name: name.trim(), scopes, expiresAt: expiry, rateLimitPerMinute },
+      req.user!.userId
+    );
+    const { keyHash: _keyHash, ...data } = record as any;
+
+    return res.status(201).json({ success: true, data: { ...data, key } });
+  } catch (err: any) {
+    log.error('Failed to create API key', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to create API key' });
+  }
+});
+
+// DELETE /api/admin/api-keys/:keyId - revoke a key
+adminRouter.delete('/api-keys/:keyId', requirePermission('manage_api_keys'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const key = await apiKeyService.revoke(req.params.keyId, req.user!.userId);
+    if (!key) return res.status(404).json({ success: false, message: 'API key not found or already revoked' });
+    return res.json({ success: true, data: key });
+  } catch (err: any) {
+    log.error('Failed to revoke API key', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to revoke API key' });
+  }
+});
+
+const COMPARISON_PARAMS = ['username', 'strategy', 'mismatchOnly', 'from', 'to'];
+
+function comparisonFilter(query: Record<string, string | undefined>) {
+  const filter: Record<string, any> = {};
+  if (query.username) filter.username = query.username;
+  if (query.strategy) filter.strategy = query.strategy;
+  if (query.mismatchOnly === 'true') filter.$or = [{ outcomeMatch: false }, { 'diffs.0': { $exists: true } }];
+  if (query.from || query.to) {
+    filter.createdAt = {};
+    if (query.from && !isNaN(new Date(query.from).getTime())) filter.createdAt.$gte = new Date(query.from);
+    if (query.to && !isNaN(new Date(query.to).getTime())) filter.createdAt.$lte = new Date(query.to);
+    if (Object.keys(filter.createdAt).length === 0) delete filter.createdAt;
+  }
+  return filter;
+}
+
+// GET /api/admin/login-comparisons?username=&strategy=&mismatchOnly=true&from=&to=&page=&limit=
+// Upstream vs local login results recorded by the login pipeline
+adminRouter.get('/login-comparisons', requirePermission('view_audit_log'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const query = req.query as Record<string, string | undefined>;
+    const limit = Math.min(Number(query.limit) || 50, MAX_LIMIT);
+    const page = Math.max(Number(query.page) || 1, 1);
+    const invalid = nonStringParam(query, COMPARISON_PARAMS);
+    if (invalid) return res.status(400).json({ success: false, message: `Invalid ${invalid}` });
+    const filter = comparisonFilter(query);
+
+    const [records, total] = await Promise.all([
+      LoginComparisonModel.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      LoginComparisonModel.countDocuments(filter),
+    ]);
+
+    return res.json({ success: true, data: records, total, page, limit, totalPages: Math.ceil(total / limit) });
+  } catch (err: any) {
+    log.error('Failed to load login comparisons', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to load login comparisons' });
+  }
+});
+
+// GET /api/admin/login-comparisons/summary?from=&to=&strategy=
+// How often local auth agrees with the upstream, and which fields differ most
+adminRouter.get('/login-comparisons/summary', requirePermission('view_audit_log'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const query = req.query as Record<string, string | undefined>;
+    const invalid = nonStringParam(query, COMPARISON_PARAMS);
+    if (invalid) return res.status(400).json({ success: false, message: `Invalid ${invalid}` });
+    const filter = comparisonFilter(query);
+
+    const [totals] = await LoginComparisonModel.aggregate([
+      { $match: filter },
+      {
+        $group: {
+          _id: null,
+          total: { $sum: 1 },
+          outcomeMismatches: { $sum: { $cond: ['$outcomeMatch', 0, 1] } },
+          externalOnly: { $sum: { $cond: [{ $and: ['$externalOk', { $not: ['$localOk'] }] }, 1, 0] } },
+          localOnly: { $sum: { $cond: [{ $and: ['$localOk', { $not: ['$externalOk'] }] }, 1, 0] } },
+          withFieldDiffs: { $sum: { $cond: [{ $gt: [{ $size: { $ifNull: ['$diffs', []] } }, 0] }, 1, 0] } },
+          avgExternalMs: { $avg: '$externalDurationMs' },
+          avgLocalMs: { $avg: '$localDurationMs' },
+        },
+      },
+    ]);
+    const fieldDiffs = await LoginComparisonModel.aggregate([
+      { $match: filter },
+      { $unwind: '$diffs' },
+      { $group: { _id: '$diffs.field', count: { $sum: 1 } } },
+      { $sort: { count: -1 } },
+    ]);
+
+    const total = totals?.total || 0;
+    const fullMatches = total - (totals?.outcomeMismatches || 0) - (totals?.withFieldDiffs || 0);
+    return res.json({
+      success: true,
+      data: {
+        currentStrategy: loginPipeline.strategy,
+        total,
+        outcomeMismatches: totals?.outcomeMismatches || 0,
+        externalOnly: totals?.externalOnly || 0,
+        localOnly: totals?.localOnly || 0,
+        withFieldDiffs: totals?.withFieldDiffs || 0,
+        matchRate: total ? Math.round((fullMatches / total) * 10000) / 100 : null,
+        avgExternalMs: totals?.avgExternalMs ? Math.round(totals.avgExternalMs) : null,
+        avgLocalMs: totals?.avgLocalMs ? Math.round(totals.avgLocalMs) : null,
+        fieldDiffs: fieldDiffs.map((f: any) => ({ field: f._id, count: f.count })),
+      },
+    });
+  } catch (err: any) {
+    log.error('Failed to summarize login comparisons', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to summarize login comparisons' });
+  }
+});
+
+// GET /api/admin/proxy-metrics - Per-route call counts, statuses and latency of the upstream pass-through routes
+// Counters are kept in memory and reset when the process restarts
+adminRouter.get('/proxy-metrics', requirePermission('view_audit_log'), (_req: AuthenticatedRequest, res) => {
+  return res.json({ success: true, data: proxyMetrics.snapshot() });
+});
+
+// GET /api/admin/single-flight - Upstream GETs saved by sharing identical in-flight requests
+// Counters are kept in memory and reset when the process restarts
+adminRouter.get('/single-flight', requirePermission('view_audit_log'), (_req: AuthenticatedRequest, res) => {
+  return res.json({ success: true, data: singleFlightMetrics.snapshot() });
+});
+
+// GET /api/admin/schema-violations - Upstream responses that did not match their expected schema
+// Counters are kept in memory and reset when the process restarts
+adminRouter.get('/schema-violations', requirePermission('view_audit_log'), (_req: AuthenticatedRequest, res) => {
+  return res.json({ success: true, data: schemaViolations.snapshot() });
+});
+
+// GET /api/admin/logs - Recent log entries kept in memory, e.g. every entry of one request
+// Query: requestId, module, level (minimum), limit (default 200, max 1000)
+adminRouter.get('/logs', requirePermission('view_audit_log'), (req: AuthenticatedRequest, res) => {
+  const query = req.query as Record<string, string | undefined>;
+  if (query.level && !isLogLevel(query.level)) {
+    return res.status(422).json({ success: false, message: `level must be one of ${LOG_LEVELS.join(', ')}` });
+  }
+  const limit = Math.min(Math.max(parseInt(query.limit || '200', 10) || 200, 1), 1000);
+  const data = recentLogs.query({
+    requestId: query.requestId,
+    module: query.module,
+    level: query.level as LogLevel | undefined,
+    limit,
+  });
+  return res.json({ success: true, data });
+});
+
+// GET /api/admin/outbox?status=conflict,failed&orderingKey=assignment:123&page=&limit=
+// Assignment writes queued while the upstream was down. Defaults to the ones that need attention
+// (conflicts and permanent failures); counts covers every status.
+adminRouter.get('/outbox', requirePermission('manage_outbox'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const query = req.query as Record<string, string | undefined>;
+    const invalidParam = nonStringParam(query, ['status', 'orderingKey']);
+    if (invalidParam) return res.status(400).json({ success: false, message: `Invalid ${invalidParam}` });
+    const statuses = (query.status || 'conflict,failed').split(',').map((s) => s.trim()).filter(Boolean);
+    const invalid = statuses.filter((s) => !(OUTBOX_STATUSES as readonly string[]).includes(s));
+    if (invalid.length > 0) {
+      return res.status(422).json({ success: false, message: `status must be one of ${OUTBOX_STATUSES.join(', ')}` });
+    }
+    const limit = Math.min(Number(query.limit) || 50, MAX_LIMIT);
+    const page = Math.max(Number(query.page) || 1, 1);
+
+    const [{ entries, total }, counts] = await Promise.all([
+      writeOutbox.list({ statuses: statuses as OutboxStatus[], orderingKey: query.orderingKey, page, limit }),
+      writeOutbox.counts(),
+    ]);
+    const data = entries.map((entry: any) => ({ ...toOutboxDTO(entry), orderingKey: entry.orderingKey, userId: entry.userId, body: entry.body }));
+    return res.json({ success: true, data, counts, total, page, limit, totalPages: Math.ceil(total / limit) });
+  } catch (err: any) {
+    log.error('Failed to load outbox', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to load outbox' });
+  }
+});
+
+// POST /api/admin/outbox/:trackingId/requeue - Replay a conflicting or failed write again
+// POST /api/admin/outbox/:trackingId/discard - Give up on a queued write
+for (const action of ['requeue', 'discard'] as const) {
+  adminRouter.post(`/outbox/:trackingId/${action}`, requirePermission('manage_outbox'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const { trackingId } = req.params;
+      const entry: any = await writeOutbox[action](trackingId, req.user!.userId);
+      if (!entry) {
+        return res.status(409).json({ success: false, message: `Queued write not found or cannot be ${action}d in its current state` });
+      }
+
+      await recordAudit({
+        action: `outbox.${action}d`,
+        actorUserId: req.user!.userId,
+        targetUserId: entry.userId,
+        ipAddress: req.ip,
+        metadata: { trackingId, route: entry.route, orderingKey: entry.orderingKey },
+      });
+
+      return res.json({ success: true, data: toOutboxDTO(entry) });
+    } catch (err: any) {
+      log.error(`Failed to ${action} queued write`, { err });
+      return res.status(500).json({ success: false, message: err?.message || `Failed to ${action} queued write` });
+    }
+  });
+}
+
+// GET /api/admin/job-sync/runs?page=&limit= - Upstream -> Mongo job sync runs, newest first
+adminRouter.get('/job-sync/runs', requirePermission('manage_job_sync'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const query = req.query as Record<string, string | undefined>;
+    const limit = Math.min(Number(query.limit) || 20, MAX_LIMIT);
+    const page = Math.max(Number(query.page) || 1, 1);
+    const { runs, total } = await jobSync.listRuns({ page, limit });
+    return res.json({
+      success: true,
+      data: runs.map(toJobSyncRunDTO),
+      running: jobSync.isRunning(),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    });
+  } catch (err: any) {
+    log.error('Failed to load job sync runs', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to load job sync runs' });
+  }
+});
+
+// POST /api/admin/job-sync/run - Start a full sync now; follow it with GET /job-sync/runs
+adminRouter.post('/job-sync/run', requirePermission('manage_job_sync'), async (req: AuthenticatedRequest, res) => {
+  if (!jobSync.isConfigured()) {
+    return res.status(503).json({ success: false, message: 'Job sync is not configured (JOB_SYNC_USERNAME, JOB_SYNC_PASSWORD)' });
+  }
+  if (jobSync.isRunning()) return res.status(409).json({ success: false, message: new JobSyncBusyError().message });
+
+  jobSync.runFull('manual', req.user!.userId).catch((err) => log.error('Manual job sync failed', { err }));
+  await recordAudit({
+    action: 'job_sync.started',
+    actorUserId: req.user!.userId,
+    ipAddress: req.ip,
+  });
+  return res.status(202).json({ success: true, data: { running: true } });
+});
+
+// POST /api/admin/job-sync/resync - Fetch and store specific upstream jobs/assignments now
+// Body: { jobIds?: string[], assignmentIds?: string[] } (up to 100 IDs); answers with the recorded run
+adminRouter.post('/job-sync/resync', requirePermission('manage_job_sync'), async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!jobSync.isConfigured()) {
+      return res.status(503).json({ success: false, message: 'Job sync is not configured (JOB_SYNC_USERNAME, JOB_SYNC_PASSWORD)' });
+    }
+    const { jobIds = [], assignmentIds = [] } = req.body || {};
+    const isIdList = (value: unknown): value is string[] =>
+      Array.isArray(value) && value.every((id) => (typeof id === 'string' && id.trim() !== '') || typeof id === 'number');
+    if (!isIdList(jobIds) || !isIdList(assignmentIds)) {
+      return res.status(422).json({ success: false, message: 'jobIds and assignmentIds must be arrays of IDs' });
+    }
+    const total = jobIds.length + assignmentIds.length;
+    if (total === 0 || total > 100) {
+      return res.status(422).json({ success: false, message: 'Send between 1 and 100 jobIds/assignmentIds' });
+    }
+
+    const run: any = await jobSync.resync(
+      { jobIds: jobIds.map((id) => String(id).trim()), assignmentIds: assignmentIds.map((id) => String(id).trim()) },
+      req.user!.userId
+    );
+    await recordAudit({
+      action: 'job_sync.resynced',
+      actorUserId: req.user!.userId,
+      ipAddress: req.ip,
+      metadata: { runId: String(run._id), jobIds, assignmentIds, status: run.status },
+    });
+    return res.json({ success: true, data: toJobSyncRunDTO(run) });
+  } catch (err: any) {
+    if (err instanceof JobSyncBusyError) return res.status(409).json({ success: false, message: err.message });
+    log.error('Failed to resync jobs', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to resync jobs' });
+  }
+});
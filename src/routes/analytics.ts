@@ -1,10 +1,14 @@
 import { Router } from 'express';
 import { ApiAnalyticsModel } from '../models/apiAnalytics';
-import { type AuthenticatedRequest } from '../middleware/auth';
+import { authenticateJWTOrApiKey, requireAdmin, requirePermission, type AuthenticatedRequest } from '../middleware/auth';
 import { UserModel } from '../models/user';
 import mongoose from 'mongoose';
 import { JobAssignmentModel } from '../models/jobAssignment';
 import { JobModel } from '../models/job';
+import { upstreamCache } from '../services/upstreamCache';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('Analytics');
 
 type QueryParams = {
   limit?: string;
@@ -14,6 +18,7 @@ type QueryParams = {
   success?: 'success' | 'failed';
   userId?: string;
   vendorId?: string;
+  requestId?: string;
   search?: string;
   from?: string;
   to?: string;
@@ -25,6 +30,10 @@ const NON_API_ROUTES = ['/', '/favicon.ico', '/robots.txt', '/sitemap.xml'];
 
 export const analyticsRouter = Router();
 
+// The analytics dashboard signs in as a back-office user; reporting tools may use an API key with
+// the analytics:read scope instead
+analyticsRouter.use(authenticateJWTOrApiKey('analytics:read'), requirePermission('view_analytics'));
+
 type CacheEntry<T> = {
   value: T;
   storedAt: number;
@@ -74,6 +83,8 @@ async function buildFilters(query: QueryParams) {
   if (query.vendorId) {
     filter.vendorId = query.vendorId;
   }
+
+  if (query.requestId) filter.requestId = query.requestId;
   
   if (query.success === 'success') filter.success = true;
   if (query.success === 'failed') filter.success = false;
@@ -135,7 +146,7 @@ analyticsRouter.get('/', async (req: AuthenticatedRequest, res) => {
       totalPages: Math.ceil(total / limit),
     });
   } catch (err: any) {
-    console.error('[Analytics] Failed to load logs:', err);
+    log.error('Failed to load logs', { err });
     return res.status(500).json({ success: false, message: err?.message || 'Failed to load analytics' });
   }
 });
@@ -266,7 +277,7 @@ analyticsRouter.get('/login-users', async (req: AuthenticatedRequest, res) => {
 
     return res.json({ success: true, data });
   } catch (err: any) {
-    console.error('[Analytics] Failed to load login users:', err);
+    log.error('Failed to load login users', { err });
     return res.status(500).json({ success: false, message: err?.message || 'Failed to load login users' });
   }
 });
@@ -373,7 +384,7 @@ analyticsRouter.get('/users', async (req: AuthenticatedRequest, res) => {
 
     return res.json({ success: true, data });
   } catch (err: any) {
-    console.error('[Analytics] Failed to load users summary:', err);
+    log.error('Failed to load users summary', { err });
     return res.status(500).json({ success: false, message: err?.message || 'Failed to load users summary' });
   }
 });
@@ -404,6 +415,11 @@ analyticsRouter.get('/summary', async (req: AuthenticatedRequest, res) => {
             { $group: { _id: '$statusCode', count: { $sum: 1 } } },
             { $sort: { _id: 1 } },
           ],
+          // Set by proxy routes whose upstream GET went through the read-through cache
+          byCache: [
+            { $match: { 'metadata.proxy.cache': { $exists: true } } },
+            { $group: { _id: '$metadata.proxy.cache', count: { $sum: 1 } } },
+          ],
         },
       },
     ]);
@@ -411,6 +427,7 @@ analyticsRouter.get('/summary', async (req: AuthenticatedRequest, res) => {
     const totals = aggregation[0]?.totals[0] || { requests: 0, successCount: 0, avgLatency: 0 };
     const byMethod = aggregation[0]?.byMethod || [];
     const byStatus = aggregation[0]?.byStatus || [];
+    const byCache = aggregation[0]?.byCache || [];
 
     const successRate =
       totals.requests > 0 ? (totals.successCount / totals.requests) * 100 : 0;
@@ -425,14 +442,21 @@ analyticsRouter.get('/summary', async (req: AuthenticatedRequest, res) => {
         },
         byMethod: Object.fromEntries(byMethod.map((item: any) => [item._id, item.count])),
         byStatus: Object.fromEntries(byStatus.map((item: any) => [item._id, item.count])),
+        byCache: Object.fromEntries(byCache.map((item: any) => [item._id, item.count])),
       },
     });
   } catch (err: any) {
-    console.error('[Analytics] Failed to build summary:', err);
+    log.error('Failed to build summary', { err });
     return res.status(500).json({ success: false, message: err?.message || 'Failed to load summary' });
   }
 });
 
+// Upstream read-through cache counters since the process started (hits, stale, misses per policy).
+// Admins only, not API keys: policy names, TTLs and invalidations are internals of the cache.
+analyticsRouter.get('/upstream-cache', requireAdmin(), (_req: AuthenticatedRequest, res) => {
+  return res.json({ success: true, data: upstreamCache.snapshot() });
+});
+
 function escapeCsvField(value: any): string {
   if (value === null || value === undefined) return '';
   const str = String(value);
@@ -471,7 +495,7 @@ analyticsRouter.get('/routes', async (req: AuthenticatedRequest, res) => {
       data: validRoutes,
     });
   } catch (err: any) {
-    console.error('[Analytics] Failed to load routes:', err);
+    log.error('Failed to load routes', { err });
     return res.status(500).json({ success: false, message: err?.message || 'Failed to load routes' });
   }
 });
@@ -512,7 +536,7 @@ analyticsRouter.get('/export', async (req: AuthenticatedRequest, res) => {
     res.setHeader('Content-Disposition', 'attachment; filename="api-analytics.csv"');
     return res.send(csv);
   } catch (err: any) {
-    console.error('[Analytics] Failed to export CSV:', err);
+    log.error('Failed to export CSV', { err });
     return res.status(500).json({ success: false, message: err?.message || 'Failed to export analytics' });
   }
 });
@@ -520,14 +544,14 @@ analyticsRouter.get('/export', async (req: AuthenticatedRequest, res) => {
 analyticsRouter.delete('/cleanup', async (_req: AuthenticatedRequest, res) => {
   try {
     const result = await ApiAnalyticsModel.deleteMany({ url: { $not: /^\/api\// } });
-    console.log(`[Analytics] Cleanup: deleted ${result.deletedCount} non-API records`);
+    log.info('Cleanup: deleted non-API records', { count: result.deletedCount });
     return res.json({
       success: true,
       deletedCount: result.deletedCount,
       message: `Deleted ${result.deletedCount} non-API records (bot/scanner traffic)`,
     });
   } catch (err: any) {
-    console.error('[Analytics] Cleanup failed:', err);
+    log.error('Cleanup failed', { err });
     return res.status(500).json({ success: false, message: err?.message || 'Cleanup failed' });
   }
 });
@@ -1,17 +1,24 @@
 import { Router } from 'express';
 import mongoose from 'mongoose';
-import { authenticateJWT, type AuthenticatedRequest } from '../middleware/auth';
+import { authenticateJWT, requirePermission, type AuthenticatedRequest } from '../middleware/auth';
 import { JobAssignmentModel } from '../models/jobAssignment';
 import { JobModel } from '../models/job';
 import { OrderModel } from '../models/order';
 import { PartModel } from '../models/part';
 import { PhotoTokenModel } from '../models/photoToken';
 import { ExternalApiAdapter, EXTERNAL_API_URL } from '../services/externalApiAdapter';
+import { sendUpstreamError } from '../services/upstreamError';
+import { registerProxyRoutes, type ProxyContext } from '../services/proxyRoutes';
+import { mappedItem, toAssignmentDetailsDTO, type JobDTO, type PartDTO } from '../services/responseMapping';
 import { AssignmentApplianceModel } from '../models/assignmentAppliance';
 import multer from 'multer';
 import FormData from 'form-data';
 import axios from 'axios';
 import jwt from 'jsonwebtoken';
+import { config } from '../config';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('Assignments');
 
 // Configure multer for memory storage
 const upload = multer({ 
@@ -28,19 +35,14 @@ const upload = multer({
 
 export const assignmentsRouter = Router();
 
- function getBearerTokenFromHeader(headerValue: unknown) {
-   const raw = typeof headerValue === 'string' ? headerValue : '';
-   return raw.startsWith('Bearer ') ? raw.substring(7) : raw;
- }
+const PROS_API_BASE_URL = config.upstream.prosUrl;
 
 // GET /api/assignments/:id - NO AUTH (proxies to external API)
 // This must be defined BEFORE the authenticateJWT() middleware
 assignmentsRouter.get('/:id', async (req: AuthenticatedRequest, res) => {
   try {
     const { id } = req.params;
-    console.log('[AssignmentDetails] ========================================');
-    console.log('[AssignmentDetails] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/assignments/${id}`);
-    console.log('[AssignmentDetails] ========================================');
+    log.info('Fetching assignment details', { assignmentId: id, url: `${EXTERNAL_API_URL}/api/assignments/${id}` });
 
     // Get the token from request headers
     const authHeader = req.headers.authorization;
@@ -54,30 +56,23 @@ assignmentsRouter.get('/:id', async (req: AuthenticatedRequest, res) => {
       // STEP 1: Call external API to get assignment
       const externalResponse = await ExternalApiAdapter.callExternalApi(`/api/assignments/${id}`, token, 'GET');
       
-      console.log('[AssignmentDetails] ========== EXTERNAL API RESPONSE ==========');
-      console.log('[AssignmentDetails] Response:', JSON.stringify(externalResponse, null, 2));
-      console.log('[AssignmentDetails] ================================================');
+      log.debug('Assignment details response', { body: externalResponse });
 
-      if (!externalResponse.success || !externalResponse.data) {
-        console.log('[AssignmentDetails] ✓ Returning external API response (failed)');
+      const assignment = mappedItem('assignments.detail', externalResponse);
+      if (!assignment) {
+        log.info('Returning external API response (failed)', { assignmentId: id });
         return res.json(externalResponse);
       }
 
-      const assignment = externalResponse.data;
-
-      const mappedStatus = assignment && assignment.status === 'diagnostic_complete'
-        ? 'waiting_on_parts'
-        : assignment.status;
-
       // STEP 2: Fetch job details from external API
-      let jobDetails = null;
+      let jobDetails: JobDTO | null = null;
       if (assignment.jobId) {
         try {
-          console.log('[AssignmentDetails] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/jobs/${assignment.jobId}`);
+          log.debug('Fetching job details', { jobId: assignment.jobId });
           const jobResponse = await ExternalApiAdapter.callExternalApi(`/api/jobs/${assignment.jobId}`, token, 'GET');
-          if (jobResponse.success && jobResponse.data) {
-            jobDetails = jobResponse.data;
-            console.log('[AssignmentDetails] ✓ Job details fetched successfully');
+          jobDetails = mappedItem('jobs.detail', jobResponse);
+          if (jobDetails) {
+            log.debug('Job details fetched', { jobId: assignment.jobId });
 
             // STEP 2.1: Fetch productInfoUpdate from MongoDB and merge it
             try {
@@ -90,14 +85,14 @@ assignmentsRouter.get('/:id', async (req: AuthenticatedRequest, res) => {
 
               if (mongoJob && mongoJob.productInfoUpdate) {
                 jobDetails.productInfoUpdate = mongoJob.productInfoUpdate;
-                console.log('[AssignmentDetails] ✓ Merged productInfoUpdate from MongoDB:', mongoJob.productInfoUpdate);
+                log.debug('Merged productInfoUpdate from MongoDB', { productInfoUpdate: mongoJob.productInfoUpdate });
               }
             } catch (mongoErr: any) {
-              console.error('[AssignmentDetails] ✗ Failed to fetch productInfoUpdate from MongoDB:', mongoErr.message);
+              log.error('Failed to fetch productInfoUpdate from MongoDB', { jobId: assignment.jobId, err: mongoErr });
             }
           }
         } catch (jobErr: any) {
-          console.error('[AssignmentDetails] ✗ Failed to fetch job details:', jobErr.message);
+          log.error('Failed to fetch job details', { jobId: assignment.jobId, err: jobErr });
         }
       }
 
@@ -107,30 +102,33 @@ assignmentsRouter.get('/:id', async (req: AuthenticatedRequest, res) => {
         const cached = await AssignmentApplianceModel.findOne({ assignmentId: String(id) }).lean();
         if (cached) {
           v3Assignment = cached;
-          console.log('[AssignmentDetails] ✓ Cached appliance data from MongoDB:', {
+          log.debug('Cached appliance data from MongoDB', {
             applianceBrandname: cached.applianceBrandname,
             applianceModel: cached.applianceModel,
             applianceSerial: cached.applianceSerial,
             applianceIssue: cached.applianceIssue,
           });
         } else {
-          console.log('[AssignmentDetails] ℹ No cached appliance data for assignment', id);
+          log.debug('No cached appliance data', { assignmentId: id });
         }
       } catch (cacheErr: any) {
-        console.log('[AssignmentDetails] ℹ Appliance cache lookup failed:', cacheErr.message);
+        log.warn('Appliance cache lookup failed', { assignmentId: id, err: cacheErr });
       }
 
       // STEP 3: Fetch parts from external API (if endpoint exists)
-      let parts = [];
+      let parts: PartDTO[] = [];
       try {
-        console.log('[AssignmentDetails] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/assignments/${id}/parts`);
-        const partsResponse = await ExternalApiAdapter.callExternalApi(`/api/assignments/${id}/parts`, token, 'GET');
+        log.debug('Fetching assignment parts', { assignmentId: id });
+        const partsResponse = ExternalApiAdapter.mapToOurFormat(
+          await ExternalApiAdapter.callExternalApi(`/api/assignments/${id}/parts`, token, 'GET'),
+          'parts.list'
+        );
         if (partsResponse.success && Array.isArray(partsResponse.data)) {
           parts = partsResponse.data;
-          console.log('[AssignmentDetails] ✓ Parts fetched:', parts.length);
+          log.debug('Parts fetched', { count: parts.length });
         }
       } catch (partsErr: any) {
-        console.log('[AssignmentDetails] ℹ No parts found or endpoint not available');
+        log.debug('No parts found or endpoint not available', { assignmentId: id, err: partsErr });
       }
 
       // STEP 4: Transform response to match MongoDB format
@@ -147,284 +145,96 @@ assignmentsRouter.get('/:id', async (req: AuthenticatedRequest, res) => {
             ...(jobDetails.productInfoUpdate || {}),
             ...v3Info,
           };
-          console.log('[AssignmentDetails] ✓ Merged V3 appliance fields into productInfoUpdate:', v3Info);
+          log.debug('Merged V3 appliance fields into productInfoUpdate', { v3Info });
         }
       }
 
       const enrichedResponse = {
         success: true,
-        data: {
-          _id: String(assignment.id),
-          jobId: String(assignment.jobId),
-          vendorId: String(assignment.vendorId),
-          status: mappedStatus,
-          vendorNotes: assignment.vendorNotes || null,
-          action: assignment.action || null,
-          customerNotHome: assignment.customerNotHome || { status: false },
-          assignedAt: assignment.assignedAt,
-          createdAt: assignment.createdAt || assignment.assignedAt,
-          updatedAt: assignment.updatedAt || new Date().toISOString(),
-          __v: 0,
-          confirmedAt: assignment.confirmedAt || null,
-          arrivedAt: assignment.arrivedAt || null,
-          completedAt: assignment.completedAt || null,
-          completionNotes: assignment.completionNotes || null,
-          notes: assignment.notes || null,
-          cancellationReason: assignment.cancellationReason || null,
-          ...(v3Assignment && {
-            applianceBrandname: v3Assignment.applianceBrandname || null,
-            applianceModel: v3Assignment.applianceModel || null,
-            applianceSerial: v3Assignment.applianceSerial || null,
-            applianceIssue: v3Assignment.applianceIssue || null,
-          }),
-          ...(jobDetails && { job: jobDetails }),
-          parts: parts,
-          photos: assignment.photos || [],
-        }
+        data: toAssignmentDetailsDTO(assignment, { job: jobDetails, parts, appliance: v3Assignment }),
       };
 
-      console.log('[AssignmentDetails] ✓ Returning enriched response with job details');
       return res.json(enrichedResponse);
     } catch (extErr: any) {
-      console.error('[AssignmentDetails] ✗ External API call failed:', extErr.message);
-      
-      // Return the error from external API
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'External API call failed' 
-      });
-    }
-  } catch (err: any) {
-    console.error('[AssignmentDetails] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to fetch assignment details' });
-  }
-});
-
-// PATCH /api/assignments/:id - NO AUTH (proxies to external API v2)
-// This must be defined BEFORE the authenticateJWT() middleware
-assignmentsRouter.patch('/:id', async (req: AuthenticatedRequest, res) => {
-  try {
-    const { id } = req.params;
-    console.log('[UpdateAssignment] ========================================');
-    console.log('[UpdateAssignment] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/v2/assignments/${id}`);
-    console.log('[UpdateAssignment] Body:', JSON.stringify(req.body, null, 2));
-    console.log('[UpdateAssignment] ========================================');
-
-    // Get the token from request headers - no validation, just pass through
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : authHeader || '';
-
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
-
-    try {
-      // Call external API v2 endpoint (supports serviceAttemptType field)
-      const externalResponse = await ExternalApiAdapter.callExternalApi(
-        `/api/v2/assignments/${id}`,
-        token,
-        'PATCH',
-        req.body
-      );
-      
-      console.log('[UpdateAssignment] ========== EXTERNAL API RESPONSE ==========');
-      console.log('[UpdateAssignment] Response:', JSON.stringify(externalResponse, null, 2));
-      console.log('[UpdateAssignment] ================================================');
-      console.log('[UpdateAssignment] ✓ Returning external API response (success or failure)');
-
-      // Always return external API response (even if failed)
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error('[UpdateAssignment] ✗ External API call failed:', extErr.message);
+      log.error('Assignment details: external API call failed', { assignmentId: id, err: extErr });
       
       // Return the error from external API
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'External API call failed' 
-      });
+      return sendUpstreamError(res, extErr, 'External API call failed');
     }
   } catch (err: any) {
-    console.error('[UpdateAssignment] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to update assignment' });
+    log.error('Assignment details: unexpected error', { err });
+    return sendUpstreamError(res, err, 'Failed to fetch assignment details');
   }
 });
 
-// POST /api/assignments/:assignmentId/photo-upload-tokens - NO AUTH (proxies to external API)
-// This must be defined BEFORE the authenticateJWT() middleware
-// Accepts: files metadata + optional part data (brand, partNumber, etc.)
-// Note: The parameter is an assignment ID, not a job ID
-assignmentsRouter.post('/:assignmentId/photo-upload-tokens', async (req: AuthenticatedRequest, res) => {
-  try {
-    const { assignmentId } = req.params;
-    console.log('[PhotoUploadTokens] ========================================');
-    console.log('[PhotoUploadTokens] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/assignments/${assignmentId}/photo-upload-tokens`);
-    console.log('[PhotoUploadTokens] Body:', JSON.stringify(req.body, null, 2));
-    console.log('[PhotoUploadTokens] ========================================');
-
-    // Get the token from request headers - no validation, just pass through
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : authHeader || '';
-
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
-
-    try {
-      // Pass the entire request body to external API (includes files + optional part data)
-      const externalResponse = await ExternalApiAdapter.callExternalApi(
-        `/api/assignments/${assignmentId}/photo-upload-tokens`,
-        token,
-        'POST',
-        req.body
-      );
-      
-      console.log('[PhotoUploadTokens] ========== EXTERNAL API RESPONSE ==========');
-      console.log('[PhotoUploadTokens] Response:', JSON.stringify(externalResponse, null, 2));
-      console.log('[PhotoUploadTokens] ================================================');
-
-      // Transform the response to include S3 URLs
-      if (externalResponse.success && externalResponse.data?.tokens) {
-        const transformedTokens = externalResponse.data.tokens.map((tokenData: any) => {
-          const { uploadUrl, uploadFields } = tokenData;
-          
-          // Build the S3 URL
-          const baseUrl = uploadUrl.endsWith('/') ? uploadUrl.slice(0, -1) : uploadUrl;
-          const key = uploadFields.key;
-          
-          // Simple S3 URL (the signature from external API is for POST/upload, not GET/view)
-          const s3Url = `${baseUrl}/${key}`;
-          
-          return {
-            ...tokenData,
-            url: s3Url,           // Simple S3 URL (may need public bucket)
-            imageUrl: s3Url,      // Same as url
-            photoToken: tokenData.token // Include photoToken for easy access
-          };
-        });
-
-        externalResponse.data.tokens = transformedTokens;
-        console.log('[PhotoUploadTokens] ✓ Added S3 URLs to tokens');
-      }
-
-      console.log('[PhotoUploadTokens] ✓ Returning transformed response');
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error('[PhotoUploadTokens] ✗ External API call failed:', extErr.message);
-      
-      // Return the error from external API
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'External API call failed' 
-      });
-    }
-  } catch (err: any) {
-    console.error('[PhotoUploadTokens] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to get photo upload tokens' });
-  }
-});
-
-// POST /api/assignments/:assignmentId/completion-photo-upload-tokens - NO AUTH (proxies to external API)
-// This must be defined BEFORE the authenticateJWT() middleware
-// Accepts: files metadata for completion photos
-assignmentsRouter.post('/:assignmentId/completion-photo-upload-tokens', async (req: AuthenticatedRequest, res) => {
-  try {
-    const { assignmentId } = req.params;
-    console.log('[CompletionPhotoUploadTokens] ========================================');
-    console.log('[CompletionPhotoUploadTokens] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/assignments/${assignmentId}/completion-photo-upload-tokens`);
-    console.log('[CompletionPhotoUploadTokens] Body:', JSON.stringify(req.body, null, 2));
-    console.log('[CompletionPhotoUploadTokens] ========================================');
-
-    // Get the token from request headers - no validation, just pass through
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : authHeader || '';
-
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
-
-    try {
-      const externalResponse = await ExternalApiAdapter.callExternalApi(
-        `/api/assignments/${assignmentId}/completion-photo-upload-tokens`,
-        token,
-        'POST',
-        req.body
-      );
-
-      console.log('[CompletionPhotoUploadTokens] ========== EXTERNAL API RESPONSE ==========');
-      console.log('[CompletionPhotoUploadTokens] Response:', JSON.stringify(externalResponse, null, 2));
-      console.log('[CompletionPhotoUploadTokens] ================================================');
-
-      // Transform the response to include S3 URLs
-      if (externalResponse.success && externalResponse.data?.tokens) {
-        const transformedTokens = externalResponse.data.tokens.map((tokenData: any) => {
-          const { uploadUrl, uploadFields } = tokenData;
-
-          const baseUrl = uploadUrl.endsWith('/') ? uploadUrl.slice(0, -1) : uploadUrl;
-          const key = uploadFields.key;
-          const s3Url = `${baseUrl}/${key}`;
-
-          return {
-            ...tokenData,
-            url: s3Url,
-            imageUrl: s3Url,
-            photoToken: tokenData.token
-          };
-        });
-
-        externalResponse.data.tokens = transformedTokens;
-        console.log('[CompletionPhotoUploadTokens] ✓ Added S3 URLs to tokens');
-      }
-
-      console.log('[CompletionPhotoUploadTokens] ✓ Returning transformed response');
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error('[CompletionPhotoUploadTokens] ✗ External API call failed:', extErr.message);
-      return res.status(500).json({
-        success: false,
-        message: extErr.message || 'External API call failed'
-      });
-    }
-  } catch (err: any) {
-    console.error('[CompletionPhotoUploadTokens] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to get completion photo upload tokens' });
+// The upstream's photo upload tokens only carry a presigned POST target; add the object URL the
+// app displays once the upload is done.
+function addPhotoUrlsToTokens(externalResponse: any) {
+  if (externalResponse?.success && Array.isArray(externalResponse.data?.tokens)) {
+    externalResponse.data.tokens = externalResponse.data.tokens.map((tokenData: any) => {
+      const { uploadUrl, uploadFields } = tokenData;
+      const baseUrl = uploadUrl.endsWith('/') ? uploadUrl.slice(0, -1) : uploadUrl;
+      // Simple S3 URL (the signature from external API is for POST/upload, not GET/view)
+      const s3Url = `${baseUrl}/${uploadFields.key}`;
+
+      return {
+        ...tokenData,
+        url: s3Url,           // Simple S3 URL (may need public bucket)
+        imageUrl: s3Url,      // Same as url
+        photoToken: tokenData.token // Include photoToken for easy access
+      };
+    });
   }
-});
-
-// GET /api/assignments/:assignmentId/photos/:photoToken/view-url - Get signed view URL for uploaded photo
-// This must be defined BEFORE the authenticateJWT() middleware
-assignmentsRouter.get('/:assignmentId/photos/:photoToken/view-url', async (req: AuthenticatedRequest, res) => {
-  try {
-    const { assignmentId, photoToken } = req.params;
-    
-    // Get the token from request headers
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : authHeader || '';
+  return externalResponse;
+}
 
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No authorization token provided' });
-    }
+// Writes to one assignment are queued (and replayed) in order when the upstream is down
+function assignmentOutboxKey({ req }: ProxyContext) {
+  return `assignment:${req.params.id ?? req.params.assignmentId}`;
+}
 
-    try {
-      // Call external API to get view URL (if such endpoint exists)
-      const externalResponse = await ExternalApiAdapter.callExternalApi(
-        `/api/assignments/${assignmentId}/photos/${photoToken}/view-url`,
-        token,
-        'GET'
-      );
-      
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error('[PhotoViewUrl] ✗ External API call failed:', extErr.message);
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'Failed to get view URL' 
-      });
-    }
-  } catch (err: any) {
-    console.error('[PhotoViewUrl] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to get view URL' });
-  }
-});
+// Pass-through routes - NO AUTH (token is forwarded to the external API as-is)
+// These must be defined BEFORE the authenticateJWT() middleware
+registerProxyRoutes(assignmentsRouter, [
+  // PATCH /api/assignments/:id - v2 endpoint (supports serviceAttemptType field)
+  {
+    name: 'UpdateAssignment',
+    method: 'patch',
+    path: '/:id',
+    upstream: '/api/v2/assignments/:id',
+    outboxKey: assignmentOutboxKey,
+    errorMessage: 'Failed to update assignment',
+  },
+  // POST /api/assignments/:assignmentId/photo-upload-tokens
+  // Accepts: files metadata + optional part data (brand, partNumber, etc.)
+  // Note: The parameter is an assignment ID, not a job ID
+  {
+    name: 'PhotoUploadTokens',
+    method: 'post',
+    path: '/:assignmentId/photo-upload-tokens',
+    upstream: '/api/assignments/:assignmentId/photo-upload-tokens',
+    transformResponse: addPhotoUrlsToTokens,
+    errorMessage: 'Failed to get photo upload tokens',
+  },
+  // POST /api/assignments/:assignmentId/completion-photo-upload-tokens
+  // Accepts: files metadata for completion photos
+  {
+    name: 'CompletionPhotoUploadTokens',
+    method: 'post',
+    path: '/:assignmentId/completion-photo-upload-tokens',
+    upstream: '/api/assignments/:assignmentId/completion-photo-upload-tokens',
+    transformResponse: addPhotoUrlsToTokens,
+    errorMessage: 'Failed to get completion photo upload tokens',
+  },
+  // GET /api/assignments/:assignmentId/photos/:photoToken/view-url - Get signed view URL for uploaded photo
+  {
+    name: 'PhotoViewUrl',
+    method: 'get',
+    path: '/:assignmentId/photos/:photoToken/view-url',
+    upstream: '/api/assignments/:assignmentId/photos/:photoToken/view-url',
+    errorMessage: 'Failed to get view URL',
+  },
+]);
 
 // POST /api/assignments/:assignmentId/upload-photos - Complete photo upload with actual files
 // This must be defined BEFORE the authenticateJWT() middleware
@@ -434,27 +244,22 @@ assignmentsRouter.post('/:assignmentId/upload-photos', upload.array('photos', 10
     const { assignmentId } = req.params;
     const files = (req as any).files as Express.Multer.File[];
     
-    console.log('[UploadPhotos] ========================================');
-    console.log('[UploadPhotos] Assignment ID:', assignmentId);
-    console.log('[UploadPhotos] Files received:', files?.length || 0);
-    console.log('[UploadPhotos] ========================================');
+    log.info('Uploading photos', { assignmentId, files: files?.length || 0 });
 
     // Get the token from request headers - no validation, just pass through
     const authHeader = req.headers.authorization;
     const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : authHeader || '';
 
     if (!token) {
-      console.log('[UploadPhotos] ✗ No authorization token provided');
+      log.warn('Photo upload without authorization token', { assignmentId });
       return res.status(401).json({ success: false, message: 'No authorization token provided' });
     }
 
     if (!files || files.length === 0) {
-      console.log('[UploadPhotos] ✗ No files uploaded');
+      log.warn('Photo upload without files', { assignmentId });
       return res.status(400).json({ success: false, message: 'No photos provided' });
     }
 
-    console.log('[UploadPhotos] Token received (first 20 chars):', token.substring(0, 20) + '...');
-
     try {
       // Step 1: Get upload tokens from external API
       const filesMetadata = files.map(file => ({
@@ -469,7 +274,7 @@ assignmentsRouter.post('/:assignmentId/upload-photos', upload.array('photos', 10
         { files: filesMetadata }
       );
       
-      console.log('[UploadPhotos] ✓ Got upload tokens:', tokensResponse.data?.tokens?.length || 0);
+      log.debug('Got upload tokens', { count: tokensResponse.data?.tokens?.length || 0 });
 
       if (!tokensResponse.success || !tokensResponse.data?.tokens) {
         throw new Error('Failed to get upload tokens');
@@ -482,7 +287,7 @@ assignmentsRouter.post('/:assignmentId/upload-photos', upload.array('photos', 10
         const tokenData = tokensResponse.data.tokens[i];
         
         if (!tokenData) {
-          console.error('[UploadPhotos] No token for file:', file.originalname);
+          log.error('No upload token for file', { fileName: file.originalname });
           continue;
         }
 
@@ -530,11 +335,9 @@ assignmentsRouter.post('/:assignmentId/upload-photos', upload.array('photos', 10
             success: true
           });
 
-          console.log('[UploadPhotos] ✓ Uploaded:', file.originalname);
-          console.log('[UploadPhotos]   S3 URL:', s3Url);
-          console.log('[UploadPhotos]   Token:', tokenData.token);
+          log.info('Photo uploaded', { fileName: file.originalname, url: s3Url });
         } catch (uploadErr: any) {
-          console.error('[UploadPhotos] ✗ Failed to upload:', file.originalname, uploadErr.message);
+          log.error('Photo upload failed', { fileName: file.originalname, err: uploadErr });
           uploadResults.push({
             fileName: file.originalname,
             success: false,
@@ -543,7 +346,11 @@ assignmentsRouter.post('/:assignmentId/upload-photos', upload.array('photos', 10
         }
       }
 
-      console.log('[UploadPhotos] ✓ Upload complete. Success:', uploadResults.filter(r => r.success).length, 'Failed:', uploadResults.filter(r => !r.success).length);
+      log.info('Photo upload complete', {
+        assignmentId,
+        successCount: uploadResults.filter(r => r.success).length,
+        failureCount: uploadResults.filter(r => !r.success).length,
+      });
 
       // Step 3: Save successful upload tokens to MongoDB for auto-retrieval
       try {
@@ -566,10 +373,10 @@ assignmentsRouter.post('/:assignmentId/upload-photos', upload.array('photos', 10
           }));
 
           await PhotoTokenModel.insertMany(photoTokenDocs);
-          console.log('[UploadPhotos] ✓ Saved', photoTokenDocs.length, 'photo tokens to database');
+          log.info('Saved photo tokens', { count: photoTokenDocs.length });
         }
       } catch (dbErr: any) {
-        console.error('[UploadPhotos] ⚠️ Failed to save tokens to database:', dbErr.message);
+        log.error('Failed to save photo tokens', { err: dbErr });
         // Don't fail the request, just log the error
       }
 
@@ -584,403 +391,195 @@ assignmentsRouter.post('/:assignmentId/upload-photos', upload.array('photos', 10
         }
       });
     } catch (extErr: any) {
-      console.error('[UploadPhotos] ✗ External API call failed:', extErr.message);
+      log.error('Photo upload: external API call failed', { assignmentId, err: extErr });
       
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'Failed to upload photos' 
-      });
+      return sendUpstreamError(res, extErr, 'Failed to upload photos');
     }
   } catch (err: any) {
-    console.error('[UploadPhotos] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to upload photos' });
+    log.error('Photo upload: unexpected error', { err });
+    return sendUpstreamError(res, err, 'Failed to upload photos');
   }
 });
 
-// POST /api/assignments/:assignmentId/parts - NO AUTH (proxies to external API)
-// This must be defined BEFORE the authenticateJWT() middleware
-assignmentsRouter.post('/:assignmentId/parts', async (req: AuthenticatedRequest, res) => {
-  try {
-    const { assignmentId } = req.params;
-    console.log('[AddPart] ========================================');
-    console.log('[AddPart] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/assignments/${assignmentId}/parts`);
-    console.log('[AddPart] Body:', JSON.stringify(req.body, null, 2));
-    console.log('[AddPart] ========================================');
-
-    // Get the token from request headers
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
-
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
-
-    try {
-      // Call external API
-      const externalResponse = await ExternalApiAdapter.callExternalApi(
-        `/api/assignments/${assignmentId}/parts`,
-        token,
-        'POST',
-        req.body
-      );
-      
-      console.log('[AddPart] ========== EXTERNAL API RESPONSE ==========');
-      console.log('[AddPart] Response:', JSON.stringify(externalResponse, null, 2));
-      console.log('[AddPart] ================================================');
-      console.log('[AddPart] ✓ Returning external API response (success or failure)');
-
-      // Always return external API response (even if failed)
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error('[AddPart] ✗ External API call failed:', extErr.message);
-      
-      // Return the error from external API
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'External API call failed' 
-      });
-    }
-  } catch (err: any) {
-    console.error('[AddPart] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to add part' });
-  }
-});
-
-// Helper function for reschedule assignment
-async function handleRescheduleAssignment(req: AuthenticatedRequest, res: any, method: 'PUT' | 'POST') {
-  try {
-    const { id } = req.params;
-    console.log(`[RescheduleAssignment-${method}] ========================================`);
-    console.log(`[RescheduleAssignment-${method}] Calling EXTERNAL API:`, `${EXTERNAL_API_URL}/api/assignments/${id}/reschedule`);
-    console.log(`[RescheduleAssignment-${method}] Original Body:`, JSON.stringify(req.body, null, 2));
-    console.log(`[RescheduleAssignment-${method}] ========================================`);
-
-    // Get the token from request headers
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
-
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
-
-    // Transform request body to match external API expectations
-    // Android sends: rescheduleReason, vendorNotes, newTimeWindow
-    // External API expects: reason, notes, newScheduledDate
-    const transformedBody: any = {
-      newScheduledDate: req.body.newScheduledDate,
-      reason: req.body.rescheduleReason || req.body.reason || 'vendor_requested',
-      notes: req.body.vendorNotes || req.body.notes || ''
-    };
-
-    // Include newTimeWindow if provided (optional)
-    if (req.body.newTimeWindow) {
-      transformedBody.newTimeWindow = req.body.newTimeWindow;
-    }
-
-    console.log(`[RescheduleAssignment-${method}] Transformed Body:`, JSON.stringify(transformedBody, null, 2));
-
-    try {
-      // Call external API with the same method and transformed body
-      const externalResponse = await ExternalApiAdapter.callExternalApi(
-        `/api/assignments/${id}/schedule`,
-        token,
-        method,
-        transformedBody
-      );
-      
-      console.log(`[RescheduleAssignment-${method}] ========== EXTERNAL API RESPONSE ==========`);
-      console.log(`[RescheduleAssignment-${method}] Response:`, JSON.stringify(externalResponse, null, 2));
-      console.log(`[RescheduleAssignment-${method}] ================================================`);
-      console.log(`[RescheduleAssignment-${method}] ✓ Returning external API response`);
-
-      // Always return external API response (even if failed)
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error(`[RescheduleAssignment-${method}] ✗ External API call failed:`, extErr.message);
-      
-      // Return the error from external API
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'External API call failed' 
-      });
-    }
-  } catch (err: any) {
-    console.error(`[RescheduleAssignment-${method}] Unexpected error:`, err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to reschedule assignment' });
+// Android sends: rescheduleReason, vendorNotes, newTimeWindow
+// External API expects: reason, notes, newScheduledDate
+function toUpstreamRescheduleBody({ req }: ProxyContext) {
+  const body = req.body || {};
+  const transformedBody: any = {
+    newScheduledDate: body.newScheduledDate,
+    reason: body.rescheduleReason || body.reason || 'vendor_requested',
+    notes: body.vendorNotes || body.notes || ''
+  };
+
+  // Include newTimeWindow if provided (optional)
+  if (body.newTimeWindow) {
+    transformedBody.newTimeWindow = body.newTimeWindow;
   }
+  return transformedBody;
 }
 
-// PUT /api/assignments/:id/schedule - NO AUTH (proxies to external API)
-// Reschedule assignment endpoint (primary method)
-// This must be defined BEFORE the authenticateJWT() middleware
-assignmentsRouter.put('/:id/schedule', async (req: AuthenticatedRequest, res) => {
-  return handleRescheduleAssignment(req, res, 'PUT');
-});
-
-// POST /api/assignments/:id/schedule - NO AUTH (proxies to external API)
-// Reschedule assignment endpoint (alternative method)
-// This must be defined BEFORE the authenticateJWT() middleware
-assignmentsRouter.post('/:id/schedule', async (req: AuthenticatedRequest, res) => {
-  return handleRescheduleAssignment(req, res, 'POST');
-});
-
- // ==========================================================
- // Part Orders Wrapper APIs (require JWT; pass-through to external API)
- // ==========================================================
-
- // 1. Search Models
- // GET /api/assignments/:assignmentId/models/search?q={query}
- assignmentsRouter.get('/:assignmentId/models/search', authenticateJWT({ skipValidation: true }), async (req: AuthenticatedRequest, res) => {
-   try {
-     const { assignmentId } = req.params;
-     const q = typeof req.query.q === 'string' ? req.query.q : '';
-
-     const token = getBearerTokenFromHeader(req.headers.authorization);
-     if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
-
-     const endpoint = `/api/assignments/${assignmentId}/models/search?q=${encodeURIComponent(q)}`;
-     const externalResponse = await ExternalApiAdapter.callExternalApi(endpoint, token, 'GET');
-     return res.json(externalResponse);
-   } catch (err: any) {
-     return res.status(500).json({ success: false, message: err?.message || 'Failed to search models' });
-   }
- });
-
- // 2. Get Model Details
- // GET /api/assignments/:assignmentId/models/:modelId
- assignmentsRouter.get('/:assignmentId/models/:modelId', authenticateJWT({ skipValidation: true }), async (req: AuthenticatedRequest, res) => {
-   try {
-     const { assignmentId, modelId } = req.params;
-     const token = getBearerTokenFromHeader(req.headers.authorization);
-     if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
-
-     const endpoint = `/api/assignments/${assignmentId}/models/${encodeURIComponent(modelId)}`;
-     const externalResponse = await ExternalApiAdapter.callExternalApi(endpoint, token, 'GET');
-     return res.json(externalResponse);
-   } catch (err: any) {
-     return res.status(500).json({ success: false, message: err?.message || 'Failed to get model details' });
-   }
- });
-
- // 3. Get Parts for Model
- // GET /api/assignments/:assignmentId/models/:modelId/parts
- assignmentsRouter.get('/:assignmentId/models/:modelId/parts', authenticateJWT({ skipValidation: true }), async (req: AuthenticatedRequest, res) => {
-   try {
-     const { assignmentId, modelId } = req.params;
-     const token = getBearerTokenFromHeader(req.headers.authorization);
-     if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
-
-     const endpoint = `/api/assignments/${assignmentId}/models/${encodeURIComponent(modelId)}/parts`;
-     const externalResponse = await ExternalApiAdapter.callExternalApi(endpoint, token, 'GET');
-     return res.json(externalResponse);
-   } catch (err: any) {
-     return res.status(500).json({ success: false, message: err?.message || 'Failed to get parts for model' });
-   }
- });
-
- // 4. Create Draft Order
- // POST /api/assignments/:assignmentId/orders
- assignmentsRouter.post('/:assignmentId/orders', authenticateJWT({ skipValidation: true }), async (req: AuthenticatedRequest, res) => {
-   try {
-     const { assignmentId } = req.params;
-     const token = getBearerTokenFromHeader(req.headers.authorization);
-     if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
-
-     const endpoint = `/api/assignments/${assignmentId}/orders`;
-     console.log('[CreateDraftOrder] ========================================');
-     console.log('[CreateDraftOrder] Method: POST');
-     console.log('[CreateDraftOrder] External URL:', `${EXTERNAL_API_URL}${endpoint}`);
-     console.log('[CreateDraftOrder] Body:', JSON.stringify(req.body, null, 2));
-     console.log('[CreateDraftOrder] ========================================');
-
-     const externalResponse = await ExternalApiAdapter.callExternalApi(endpoint, token, 'POST', req.body);
-
-     console.log('[CreateDraftOrder] ========== EXTERNAL API RESPONSE ==========');
-     console.log('[CreateDraftOrder] Response:', JSON.stringify(externalResponse, null, 2));
-     console.log('[CreateDraftOrder] ================================================');
-     return res.json(externalResponse);
-   } catch (err: any) {
-     return res.status(500).json({ success: false, message: err?.message || 'Failed to create draft order' });
-   }
- });
-
- // 5. List Orders
- // GET /api/assignments/:assignmentId/orders?status={status}
- assignmentsRouter.get('/:assignmentId/orders', authenticateJWT({ skipValidation: true }), async (req: AuthenticatedRequest, res) => {
-   try {
-     const { assignmentId } = req.params;
-     const status = typeof req.query.status === 'string' ? req.query.status : '';
-
-     const token = getBearerTokenFromHeader(req.headers.authorization);
-     if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
-
-     const endpoint = status
-       ? `/api/assignments/${assignmentId}/orders?status=${encodeURIComponent(status)}`
-       : `/api/assignments/${assignmentId}/orders`;
-
-     const externalResponse = await ExternalApiAdapter.callExternalApi(endpoint, token, 'GET');
-     return res.json(externalResponse);
-   } catch (err: any) {
-     return res.status(500).json({ success: false, message: err?.message || 'Failed to list orders' });
-   }
- });
-
- // 6. Get Order Details
- // GET /api/assignments/:assignmentId/orders/:orderId
- assignmentsRouter.get('/:assignmentId/orders/:orderId', authenticateJWT({ skipValidation: true }), async (req: AuthenticatedRequest, res) => {
-   try {
-     const { assignmentId, orderId } = req.params;
-     const token = getBearerTokenFromHeader(req.headers.authorization);
-     if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
-
-     const endpoint = `/api/assignments/${assignmentId}/orders/${encodeURIComponent(orderId)}`;
-     const externalResponse = await ExternalApiAdapter.callExternalApi(endpoint, token, 'GET');
-     return res.json(externalResponse);
-   } catch (err: any) {
-     return res.status(500).json({ success: false, message: err?.message || 'Failed to get order details' });
-   }
- });
-
- // 7. Update Order Items (draft only)
- // PATCH /api/assignments/:assignmentId/orders/:orderId
- assignmentsRouter.patch('/:assignmentId/orders/:orderId', authenticateJWT({ skipValidation: true }), async (req: AuthenticatedRequest, res) => {
-   try {
-     const { assignmentId, orderId } = req.params;
-     const token = getBearerTokenFromHeader(req.headers.authorization);
-     if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
-
-     const endpoint = `/api/assignments/${assignmentId}/orders/${encodeURIComponent(orderId)}`;
-     console.log('[UpdateDraftOrderItems] ========================================');
-     console.log('[UpdateDraftOrderItems] Method: PATCH');
-     console.log('[UpdateDraftOrderItems] External URL:', `${EXTERNAL_API_URL}${endpoint}`);
-     console.log('[UpdateDraftOrderItems] Body:', JSON.stringify(req.body, null, 2));
-     console.log('[UpdateDraftOrderItems] ========================================');
-
-     const externalResponse = await ExternalApiAdapter.callExternalApi(endpoint, token, 'PATCH', req.body);
-
-     console.log('[UpdateDraftOrderItems] ========== EXTERNAL API RESPONSE ==========');
-     console.log('[UpdateDraftOrderItems] Response:', JSON.stringify(externalResponse, null, 2));
-     console.log('[UpdateDraftOrderItems] ================================================');
-     return res.json(externalResponse);
-   } catch (err: any) {
-     return res.status(500).json({ success: false, message: err?.message || 'Failed to update order items' });
-   }
- });
-
- // 8. Submit Order
- // POST /api/assignments/:assignmentId/orders/:orderId/submit
- assignmentsRouter.post('/:assignmentId/orders/:orderId/submit', authenticateJWT({ skipValidation: true }), async (req: AuthenticatedRequest, res) => {
-   try {
-     const { assignmentId, orderId } = req.params;
-     const token = getBearerTokenFromHeader(req.headers.authorization);
-     if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
-
-     const endpoint = `/api/assignments/${assignmentId}/orders/${encodeURIComponent(orderId)}/submit`;
-     const prosBaseUrl = 'https://pros.shs.com';
-
-     console.log('[SubmitOrder] ========================================');
-     console.log('[SubmitOrder] Method: POST');
-     console.log('[SubmitOrder] External URL:', `${prosBaseUrl}${endpoint}`);
-     console.log('[SubmitOrder] Body:', JSON.stringify(req.body || {}, null, 2));
-     console.log('[SubmitOrder] ========================================');
-
-     const externalResponse = await ExternalApiAdapter.callExternalApi(endpoint, token, 'POST', req.body || {}, prosBaseUrl);
-
-     console.log('[SubmitOrder] ========== EXTERNAL API RESPONSE ==========');
-     console.log('[SubmitOrder] Response:', JSON.stringify(externalResponse, null, 2));
-     console.log('[SubmitOrder] ================================================');
-     return res.json(externalResponse);
-   } catch (err: any) {
-     return res.status(500).json({ success: false, message: err?.message || 'Failed to submit order' });
-   }
- });
-
- // 9. Cancel Order
- // POST /api/assignments/:assignmentId/orders/:orderId/cancel
- assignmentsRouter.post('/:assignmentId/orders/:orderId/cancel', authenticateJWT({ skipValidation: true }), async (req: AuthenticatedRequest, res) => {
-   try {
-     const { assignmentId, orderId } = req.params;
-     const token = getBearerTokenFromHeader(req.headers.authorization);
-     if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
-
-     const endpoint = `/api/assignments/${assignmentId}/orders/${encodeURIComponent(orderId)}/cancel`;
-     const externalResponse = await ExternalApiAdapter.callExternalApi(endpoint, token, 'POST', req.body);
-     return res.json(externalResponse);
-   } catch (err: any) {
-     return res.status(500).json({ success: false, message: err?.message || 'Failed to cancel order' });
-   }
- });
-
- // 10. Delete Draft Order
- // DELETE /api/assignments/:assignmentId/orders/:orderId
- assignmentsRouter.delete('/:assignmentId/orders/:orderId', authenticateJWT({ skipValidation: true }), async (req: AuthenticatedRequest, res) => {
-   try {
-     const { assignmentId, orderId } = req.params;
-     const token = getBearerTokenFromHeader(req.headers.authorization);
-     if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
-
-     const endpoint = `/api/assignments/${assignmentId}/orders/${encodeURIComponent(orderId)}`;
-     const externalResponse = await ExternalApiAdapter.callExternalApi(endpoint, token, 'DELETE');
-
-     // If the external API returns 204, axios adapter may return empty. Pass through.
-     if (externalResponse === undefined || externalResponse === null || externalResponse === '') {
-       return res.status(204).send();
-     }
-     return res.json(externalResponse);
-   } catch (err: any) {
-     return res.status(500).json({ success: false, message: err?.message || 'Failed to delete draft order' });
-   }
- });
+registerProxyRoutes(assignmentsRouter, [
+  // POST /api/assignments/:assignmentId/parts - NO AUTH
+  {
+    name: 'AddPart',
+    method: 'post',
+    path: '/:assignmentId/parts',
+    upstream: '/api/assignments/:assignmentId/parts',
+    outboxKey: assignmentOutboxKey,
+    errorMessage: 'Failed to add part',
+  },
+  // PUT /api/assignments/:id/schedule - NO AUTH, reschedule assignment (primary method)
+  {
+    name: 'RescheduleAssignment-PUT',
+    method: 'put',
+    path: '/:id/schedule',
+    upstream: '/api/assignments/:id/schedule',
+    transformRequest: toUpstreamRescheduleBody,
+    outboxKey: assignmentOutboxKey,
+    errorMessage: 'Failed to reschedule assignment',
+  },
+  // POST /api/assignments/:id/schedule - NO AUTH, reschedule assignment (alternative method)
+  {
+    name: 'RescheduleAssignment-POST',
+    method: 'post',
+    path: '/:id/schedule',
+    upstream: '/api/assignments/:id/schedule',
+    transformRequest: toUpstreamRescheduleBody,
+    outboxKey: assignmentOutboxKey,
+    // Sets the schedule, same as the PUT
+    idempotent: true,
+    errorMessage: 'Failed to reschedule assignment',
+  },
+]);
+
+// ==========================================================
+// Part Orders Wrapper APIs (require JWT; pass-through to external API)
+// ==========================================================
+const decodeJWT = authenticateJWT({ skipValidation: true });
+
+registerProxyRoutes(assignmentsRouter, [
+  // 1. Search Models
+  // GET /api/assignments/:assignmentId/models/search?q={query}
+  {
+    name: 'SearchModels',
+    method: 'get',
+    path: '/:assignmentId/models/search',
+    upstream: '/api/assignments/:assignmentId/models/search',
+    query: ['q'],
+    middleware: [decodeJWT],
+    errorMessage: 'Failed to search models',
+  },
+  // 2. Get Model Details
+  // GET /api/assignments/:assignmentId/models/:modelId
+  {
+    name: 'ModelDetails',
+    method: 'get',
+    path: '/:assignmentId/models/:modelId',
+    upstream: '/api/assignments/:assignmentId/models/:modelId',
+    middleware: [decodeJWT],
+    errorMessage: 'Failed to get model details',
+  },
+  // 3. Get Parts for Model
+  // GET /api/assignments/:assignmentId/models/:modelId/parts
+  {
+    name: 'ModelParts',
+    method: 'get',
+    path: '/:assignmentId/models/:modelId/parts',
+    upstream: '/api/assignments/:assignmentId/models/:modelId/parts',
+    middleware: [decodeJWT],
+    errorMessage: 'Failed to get parts for model',
+  },
+  // 4. Create Draft Order
+  // POST /api/assignments/:assignmentId/orders
+  {
+    name: 'CreateDraftOrder',
+    method: 'post',
+    path: '/:assignmentId/orders',
+    upstream: '/api/assignments/:assignmentId/orders',
+    middleware: [decodeJWT],
+    errorMessage: 'Failed to create draft order',
+  },
+  // 5. List Orders
+  // GET /api/assignments/:assignmentId/orders?status={status}
+  {
+    name: 'ListOrders',
+    method: 'get',
+    path: '/:assignmentId/orders',
+    upstream: '/api/assignments/:assignmentId/orders',
+    query: ['status'],
+    middleware: [decodeJWT],
+    transformResponse: (data) => ExternalApiAdapter.mapToOurFormat(data, 'orders.list'),
+    errorMessage: 'Failed to list orders',
+  },
+  // 6. Get Order Details
+  // GET /api/assignments/:assignmentId/orders/:orderId
+  {
+    name: 'OrderDetails',
+    method: 'get',
+    path: '/:assignmentId/orders/:orderId',
+    upstream: '/api/assignments/:assignmentId/orders/:orderId',
+    middleware: [decodeJWT],
+    transformResponse: (data) => ExternalApiAdapter.mapToOurFormat(data, 'orders.detail'),
+    errorMessage: 'Failed to get order details',
+  },
+  // 7. Update Order Items (draft only)
+  // PATCH /api/assignments/:assignmentId/orders/:orderId
+  {
+    name: 'UpdateDraftOrderItems',
+    method: 'patch',
+    path: '/:assignmentId/orders/:orderId',
+    upstream: '/api/assignments/:assignmentId/orders/:orderId',
+    middleware: [decodeJWT],
+    errorMessage: 'Failed to update order items',
+  },
+  // 8. Submit Order (goes to PROS, not the job board API)
+  // POST /api/assignments/:assignmentId/orders/:orderId/submit
+  {
+    name: 'SubmitOrder',
+    method: 'post',
+    path: '/:assignmentId/orders/:orderId/submit',
+    upstream: '/api/assignments/:assignmentId/orders/:orderId/submit',
+    baseUrl: PROS_API_BASE_URL,
+    transformRequest: ({ req }) => req.body || {},
+    middleware: [decodeJWT],
+    errorMessage: 'Failed to submit order',
+  },
+  // 9. Cancel Order
+  // POST /api/assignments/:assignmentId/orders/:orderId/cancel
+  {
+    name: 'CancelOrder',
+    method: 'post',
+    path: '/:assignmentId/orders/:orderId/cancel',
+    upstream: '/api/assignments/:assignmentId/orders/:orderId/cancel',
+    middleware: [decodeJWT],
+    errorMessage: 'Failed to cancel order',
+  },
+  // 10. Delete Draft Order
+  // DELETE /api/assignments/:assignmentId/orders/:orderId
+  {
+    name: 'DeleteDraftOrder',
+    method: 'delete',
+    path: '/:assignmentId/orders/:orderId',
+    upstream: '/api/assignments/:assignmentId/orders/:orderId',
+    middleware: [decodeJWT],
+    errorMessage: 'Failed to delete draft order',
+  },
+]);
 
 // POST /api/assignments/:id - NO AUTH (proxies to external API v2)
 // This is an alias for PATCH - Android app uses POST instead of PATCH
 // This must be defined BEFORE the authenticateJWT() middleware
-assignmentsRouter.post('/:id', async (req: AuthenticatedRequest, res) => {
-  try {
-    const { id } = req.params;
-    console.log('[UpdateAssignment-POST] ========================================');
-    console.log('[UpdateAssignment-POST] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/v2/assignments/${id}`);
-    console.log('[UpdateAssignment-POST] Body:', JSON.stringify(req.body, null, 2));
-    console.log('[UpdateAssignment-POST] ========================================');
-
-    // Get the token from request headers - no validation, just pass through
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : authHeader || '';
-
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
-
-    try {
-      // Call external API v2 using PATCH (supports serviceAttemptType field)
-      const externalResponse = await ExternalApiAdapter.callExternalApi(
-        `/api/v2/assignments/${id}`,
-        token,
-        'PATCH',
-        req.body
-      );
-      
-      console.log('[UpdateAssignment-POST] ========== EXTERNAL API RESPONSE ==========');
-      console.log('[UpdateAssignment-POST] Response:', JSON.stringify(externalResponse, null, 2));
-      console.log('[UpdateAssignment-POST] ================================================');
-      console.log('[UpdateAssignment-POST] ✓ Returning external API response (success or failure)');
-
-      // Always return external API response (even if failed)
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error('[UpdateAssignment-POST] ✗ External API call failed:', extErr.message);
-      
-      // Return the error from external API
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'External API call failed' 
-      });
-    }
-  } catch (err: any) {
-    console.error('[UpdateAssignment-POST] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to update assignment' });
-  }
-});
+registerProxyRoutes(assignmentsRouter, [
+  {
+    name: 'UpdateAssignment-POST',
+    method: 'post',
+    path: '/:id',
+    upstream: '/api/v2/assignments/:id',
+    upstreamMethod: 'PATCH',
+    outboxKey: assignmentOutboxKey,
+    errorMessage: 'Failed to update assignment',
+  },
+]);
 
 assignmentsRouter.use(authenticateJWT());
 
@@ -994,7 +593,7 @@ async function getJobDoc(jobId: mongoose.Types.ObjectId) {
 }
 
 // GET /api/assignments
-assignmentsRouter.get('/', async (req: AuthenticatedRequest, res) => {
+assignmentsRouter.get('/', requirePermission('view_assigned_jobs'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.user?.vendorId) return res.status(401).json({ success: false, message: 'Authentication required' });
 
@@ -1017,7 +616,7 @@ assignmentsRouter.get('/', async (req: AuthenticatedRequest, res) => {
 
 // GET /api/assignments/:id/details
 // Comprehensive assignment details with all related information
-assignmentsRouter.get('/:id/details', async (req: AuthenticatedRequest, res) => {
+assignmentsRouter.get('/:id/details', requirePermission('view_assigned_jobs'), async (req: AuthenticatedRequest, res) => {
   try {
     const { id } = req.params;
     if (!mongoose.isValidObjectId(id)) return res.status(400).json({ success: false, message: 'Invalid assignment id' });
@@ -1192,7 +791,7 @@ async function updateAssignment(req: AuthenticatedRequest, res: any) {
 }
 
 // GET /api/assignments/:assignmentId/parts
-assignmentsRouter.get('/:assignmentId/parts', async (req: AuthenticatedRequest, res) => {
+assignmentsRouter.get('/:assignmentId/parts', requirePermission('view_assigned_jobs'), async (req: AuthenticatedRequest, res) => {
   try {
     const { assignmentId } = req.params;
     if (!mongoose.isValidObjectId(assignmentId)) return res.status(400).json({ success: false, message: 'Invalid assignmentId' });
@@ -1211,7 +810,7 @@ assignmentsRouter.get('/:assignmentId/parts', async (req: AuthenticatedRequest,
 
 // DELETE /api/assignments/:assignmentId/parts/:partId
 // Delete a specific part from an assignment
-assignmentsRouter.delete('/:assignmentId/parts/:partId', async (req: AuthenticatedRequest, res) => {
+assignmentsRouter.delete('/:assignmentId/parts/:partId', requirePermission('upload_parts'), async (req: AuthenticatedRequest, res) => {
   try {
     const { assignmentId, partId } = req.params;
     if (!mongoose.isValidObjectId(assignmentId)) return res.status(400).json({ success: false, message: 'Invalid assignmentId' });
@@ -1249,7 +848,7 @@ assignmentsRouter.delete('/:assignmentId/parts/:partId', async (req: Authenticat
 
 // PUT /api/assignments/:id/schedule
 // Request to reschedule an assignment
-assignmentsRouter.put('/:id/schedule', async (req: AuthenticatedRequest, res) => {
+assignmentsRouter.put('/:id/schedule', requirePermission('update_job_status'), async (req: AuthenticatedRequest, res) => {
   try {
     const { id } = req.params;
     if (!mongoose.isValidObjectId(id)) return res.status(400).json({ success: false, message: 'Invalid assignment id' });
@@ -1284,9 +883,9 @@ assignmentsRouter.put('/:id/schedule', async (req: AuthenticatedRequest, res) =>
         { $set: updateData }
       );
       
-      console.log('[RESCHEDULE] Job status updated to "rescheduled"');
+      log.info('Job status updated to rescheduled', { jobId: assignment.jobId });
     } catch (jobUpdateErr) {
-      console.error('Failed to update job schedule:', jobUpdateErr);
+      log.error('Failed to update job schedule', { jobId: assignment.jobId, err: jobUpdateErr });
       return res.status(500).json({ success: false, message: 'Failed to update job schedule' });
     }
 
@@ -1327,7 +926,7 @@ assignmentsRouter.put('/:id/schedule', async (req: AuthenticatedRequest, res) =>
 
 // PATCH /api/assignments/:assignmentId/customer-not-home
 // Update customer not home status with reason, image, and notes
-assignmentsRouter.patch('/:assignmentId/customer-not-home', async (req: AuthenticatedRequest, res) => {
+assignmentsRouter.patch('/:assignmentId/customer-not-home', requirePermission('update_job_status'), async (req: AuthenticatedRequest, res) => {
   try {
     const { assignmentId } = req.params;
     if (!mongoose.isValidObjectId(assignmentId)) return res.status(400).json({ success: false, message: 'Invalid assignmentId' });
@@ -1366,7 +965,7 @@ assignmentsRouter.patch('/:assignmentId/customer-not-home', async (req: Authenti
           { $set: { status: 'customer_not_home' } }
         );
       } catch (jobUpdateErr) {
-        console.error('Failed to update job status:', jobUpdateErr);
+        log.error('Failed to update job status', { jobId: assignment.jobId, err: jobUpdateErr });
       }
     }
 
@@ -1,22 +1,81 @@
-import { Router } from 'express';
+import { Router, type Request, type Response } from 'express';
+import mongoose from 'mongoose';
 import { UserModel } from '../models/user';
 import { VendorModel } from '../models/vendor';
 import { PhotoTokenModel } from '../models/photoToken';
 import { password } from '../utils/password';
-import { jwtService } from '../services/jwt';
+import { sessionService, RefreshTokenError, toSessionDTO, type SessionDevice } from '../services/sessions';
 import { authenticateJWT, type AuthenticatedRequest } from '../middleware/auth';
 import { ExternalApiAdapter, EXTERNAL_API_URL } from '../services/externalApiAdapter';
+import { sendUpstreamError } from '../services/upstreamError';
+import { registerProxyRoutes, type ProxyContext } from '../services/proxyRoutes';
+import { loginLockout, type LockoutStatus } from '../services/loginLockout';
+import { permissionService, isPrivilegedPermission } from '../services/permissions';
+import { passwordReset, PasswordResetError } from '../services/passwordReset';
+import { passwordPolicy, PasswordPolicyError, passwordErrorResponse } from '../services/passwordPolicy';
+import { twoFactor, TwoFactorError } from '../services/twoFactor';
+import { loginPipeline, issueLocalLogin } from '../services/loginPipeline';
+import { jwtService } from '../services/jwt';
 import jwt from 'jsonwebtoken';
+import { createLogger } from '../services/logger';
+import { requestIdHeaders } from '../services/requestContext';
+
+const log = createLogger('Auth');
 
 export const authRouter = Router();
 
-// GET /api/auth/status - NO AUTH (proxies to external API)
-authRouter.get('/status', async (req, res) => {
+// Lockout checks fail open on database errors only: a Mongo hiccup must not block every login,
+// but anything else (e.g. a malformed username) must not skip the lockout either
+async function checkLockout(tag: string, username: string, ip?: string): Promise<LockoutStatus> {
   try {
-    console.log('[AuthStatus] ========================================');
-    console.log('[AuthStatus] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/auth/status`);
-    console.log('[AuthStatus] ========================================');
+    return await loginLockout.check(username, ip);
+  } catch (err: any) {
+    if (!(err instanceof mongoose.Error) && !(err instanceof mongoose.mongo.MongoError)) throw err;
+    log.error('Lockout check failed, continuing', { handler: tag, err });
+    return { locked: false };
+  }
+}
+
+// Device details for the session record; the app may send them in the body or as X-* headers
+function getSessionDevice(req: Request): SessionDevice {
+  const body = req.body || {};
+  const pick = (bodyKey: string, headerName: string) => {
+    const value = typeof body[bodyKey] === 'string' ? body[bodyKey] : req.headers[headerName];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+  return {
+    deviceModel: pick('deviceModel', 'x-device-model'),
+    platform: pick('platform', 'x-device-platform'),
+    osVersion: pick('osVersion', 'x-os-version'),
+    appVersion: pick('appVersion', 'x-app-version'),
+    ipAddress: req.ip,
+    userAgent: typeof req.headers['user-agent'] === 'string' ? req.headers['user-agent'] : undefined,
+  };
+}
+
+function isLocalAccessToken(token: string) {
+  try {
+    jwtService.verifyAccess(token);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function sendLockedOut(res: Response, lockout: LockoutStatus) {
+  res.setHeader('Retry-After', String(lockout.retryAfterSeconds || 60));
+  return res.status(429).json({
+    success: false,
+    message: 'Too many failed login attempts. Try again later.',
+    lockedUntil: lockout.lockedUntil,
+    retryAfterSeconds: lockout.retryAfterSeconds,
+  });
+}
 
+// GET /api/auth/status - NO AUTH (proxies to external API)
+// Tokens we issued ourselves fall through to the local status handler below
+authRouter.get('/status', async (req, res, next) => {
+  try {
     // Get the token from request headers
     const authHeader = req.headers.authorization;
     const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
@@ -25,312 +84,264 @@ authRouter.get('/status', async (req, res) => {
       return res.status(401).json({ success: false, message: 'No token provided' });
     }
 
+    if (isLocalAccessToken(token)) {
+      return next();
+    }
+
+    log.info('Checking auth status with external API', { url: `${EXTERNAL_API_URL}/api/auth/status` });
     try {
       // Call external API
       const externalResponse = await ExternalApiAdapter.callExternalApi('/api/auth/status', token, 'GET');
       
-      console.log('[AuthStatus] ========== EXTERNAL API RESPONSE ==========');
-      console.log('[AuthStatus] Response:', JSON.stringify(externalResponse, null, 2));
-      console.log('[AuthStatus] ================================================');
-      console.log('[AuthStatus] ✓ Returning external API response');
+      log.debug('Auth status response', { body: externalResponse });
 
       // Return external API response as-is
       return res.json(externalResponse);
     } catch (extErr: any) {
-      console.error('[AuthStatus] ✗ External API call failed:', extErr.message);
+      log.error('Auth status: external API call failed', { err: extErr });
       
       // Return the error from external API
-      return res.status(401).json({ 
-        success: false, 
-        message: extErr.message || 'Invalid or expired token' 
-      });
+      return sendUpstreamError(res, extErr, 'Invalid or expired token');
     }
   } catch (err: any) {
-    console.error('[AuthStatus] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to check auth status' });
+    log.error('Auth status: unexpected error', { err });
+    return sendUpstreamError(res, err, 'Failed to check auth status');
   }
 });
 
-// POST /api/auth/refresh - NO AUTH (proxies to external API)
+// POST /api/auth/refresh - NO AUTH
+// Locally issued refresh tokens are rotated against the session store; anything else proxies to external API
+// Body: { refreshToken }
 authRouter.post('/refresh', async (req, res) => {
   try {
-    console.log('[AuthRefresh] ========================================');
-    console.log('[AuthRefresh] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/auth/refresh`);
-    console.log('[AuthRefresh] ========================================');
+    const { refreshToken } = (req.body || {}) as { refreshToken?: string };
+    if (typeof refreshToken === 'string' && sessionService.isLocalRefreshToken(refreshToken)) {
+      try {
+        const tokens = await sessionService.rotate(refreshToken, req.ip);
+        log.info('Rotated local refresh token', { sessionId: tokens.sessionId });
+        return res.json({
+          success: true,
+          data: { accessToken: tokens.accessToken, refreshToken: tokens.refreshToken },
+        });
+      } catch (rotateErr: any) {
+        if (rotateErr instanceof RefreshTokenError) {
+          log.warn('Local refresh rejected', { reason: rotateErr.reason });
+          return res.status(401).json({ success: false, message: rotateErr.message, reason: rotateErr.reason });
+        }
+        throw rotateErr;
+      }
+    }
+
+    log.info('Refreshing token with external API', { url: `${EXTERNAL_API_URL}/api/auth/refresh` });
 
     try {
       // Call external API (no token needed for refresh)
       const externalResponse = await ExternalApiAdapter.callExternalApi('/api/auth/refresh', '', 'POST', req.body);
       
-      console.log('[AuthRefresh] ========== EXTERNAL API RESPONSE ==========');
-      console.log('[AuthRefresh] Response:', JSON.stringify(externalResponse, null, 2));
-      console.log('[AuthRefresh] ================================================');
-      console.log('[AuthRefresh] ✓ Returning external API response');
+      log.debug('Token refresh response', { body: externalResponse });
 
       // Return external API response as-is
       return res.json(externalResponse);
     } catch (extErr: any) {
-      console.error('[AuthRefresh] ✗ External API call failed:', extErr.message);
+      log.error('Token refresh: external API call failed', { err: extErr });
       
       // Return the error from external API
-      return res.status(401).json({ 
-        success: false, 
-        message: extErr.message || 'Token refresh failed' 
-      });
+      return sendUpstreamError(res, extErr, 'Token refresh failed');
     }
   } catch (err: any) {
-    console.error('[AuthRefresh] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to refresh token' });
+    log.error('Token refresh: unexpected error', { err });
+    return sendUpstreamError(res, err, 'Failed to refresh token');
   }
 });
 
+// Shared by /login and /login-external. Which source checks the credentials (upstream API,
+// local Mongo or both) is decided by the login pipeline's LOGIN_STRATEGY.
+function handleLogin(tag: string) {
+  return async (req: Request, res: Response) => {
+    try {
+      const { username, password: pwd, role, fcmToken } = req.body || {};
+      log.debug('Login request received', { handler: tag, hasFcmToken: typeof fcmToken === 'string' && fcmToken.trim().length > 0 });
+      // Anything but a string (e.g. ["alice"]) would slip past the lockout and become a query operator
+      if (typeof username !== 'string' || !username.trim() || typeof pwd !== 'string' || !pwd) {
+        return res.status(400).json({ success: false, message: 'username and password required' });
+      }
+
+      const lockout = await checkLockout(tag, username, req.ip);
+      if (lockout.locked) {
+        log.warn('Login blocked by lockout', { handler: tag, username, reason: lockout.reason });
+        return sendLockedOut(res, lockout);
+      }
+
+      log.info('Logging in user', { handler: tag, username, strategy: loginPipeline.strategy });
+      const result = await loginPipeline.login({
+        username,
+        password: pwd,
+        role,
+        fcmToken,
+        device: getSessionDevice(req),
+      });
+
+      if (result.outcome === 'failed') {
+        await loginLockout.recordFailure(username, req.ip).catch((lockErr: any) => {
+          log.error('Failed to record failed attempt', { handler: tag, err: lockErr });
+        });
+        return res.status(401).json({ success: false, message: 'Invalid credentials' });
+      }
+
+      // Lockout counters are only reset once the second factor is verified,
+      // so failed codes keep counting towards the lockout
+      if (result.outcome === 'two_factor_required') {
+        log.info('Two-factor challenge issued', { handler: tag, username });
+        return res.json(result.response);
+      }
+
+      await loginLockout.recordSuccess(username).catch((lockErr: any) => {
+        log.error('Failed to reset lockout counters', { handler: tag, err: lockErr });
+      });
+
+      log.info('Login succeeded', { handler: tag, username, source: result.source });
+      return res.json(result.response);
+    } catch (err: any) {
+      log.error('Login: unexpected error', { handler: tag, err });
+      return res.status(500).json({ success: false, message: err?.message || 'Login failed' });
+    }
+  };
+}
+
 // POST /api/auth/login
-// First call external API, then call MongoDB, cache and compare responses
-authRouter.post('/login', async (req, res) => {
+// Body: { username, password, role?, fcmToken?, deviceModel?, platform?, osVersion?, appVersion? }
+authRouter.post('/login', handleLogin('LOGIN'));
+
+// POST /api/auth/login-external
+// Same as /login; kept for app builds that still call it
+authRouter.post('/login-external', handleLogin('LOGIN-EXTERNAL'));
+
+// POST /api/auth/login/2fa - NO AUTH
+// Second login step for accounts with two-factor auth
+// Body: { challengeToken, code } or { challengeToken, recoveryCode }; fcmToken and device fields as for /login
+authRouter.post('/login/2fa', async (req, res) => {
   try {
-    const { username, password: pwd, role, fcmToken } = req.body || {};
-    if (typeof fcmToken === 'string') {
-      console.log('[LOGIN] received fcmToken len=', fcmToken.trim().length);
-    } else {
-      console.log('[LOGIN] no fcmToken in request');
+    const { challengeToken, code, recoveryCode, fcmToken } = req.body || {};
+    if (typeof challengeToken !== 'string' || (!code && !recoveryCode)) {
+      return res.status(400).json({ success: false, message: 'challengeToken and code or recoveryCode are required' });
     }
-    if (!username || !pwd) return res.status(400).json({ success: false, message: 'username and password required' });
-
-    console.log('[LOGIN] ========================================');
-    console.log('[LOGIN] Starting dual API call for user:', username);
-    console.log('[LOGIN] ========================================');
 
-    // STEP 1: Call external API first
-    console.log('[LOGIN] STEP 1: Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/auth/login`);
-    let externalResponse;
+    let challenge;
     try {
-      externalResponse = await ExternalApiAdapter.login(username, pwd, role);
-      console.log('[LOGIN] ✓ External API call successful');
-    } catch (extErr: any) {
-      console.error('[LOGIN] ✗ External API call failed:', extErr.message);
-      // Continue to MongoDB even if external fails
+      challenge = jwtService.verifyChallenge(challengeToken);
+    } catch {
+      return res.status(401).json({ success: false, message: 'Invalid or expired challenge. Please sign in again.' });
     }
 
-    // STEP 2: Call MongoDB/Local API
-    console.log('[LOGIN] STEP 2: Calling MONGODB/LOCAL API...');
-    let mongoResponse;
-    try {
-      const user = await UserModel.findOne({ username }).lean();
-      if (user && user.passwordHash) {
-        const ok = await password.compare(pwd, user.passwordHash);
-        if (ok && user.isActive !== false) {
-          const payload = {
-            userId: String(user._id),
-            role: (role as string) || user.role || 'registered_user',
-            vendorId: user.vendorId ? String(user.vendorId) : undefined,
-            sessionId: `s_${Date.now()}`,
-          };
-
-          const accessToken = jwtService.signAccess(payload, '2h');
-          const refreshToken = jwtService.signRefresh({ userId: payload.userId, role: payload.role }, '7d');
-
-          // Update FCM token if provided
-          const $set: Record<string, any> = { lastLoginAt: new Date() };
-          const $addToSet: Record<string, any> = {};
-          if (typeof fcmToken === 'string' && fcmToken.trim().length > 0) {
-            $set.lastFcmToken = fcmToken.trim();
-            $set.lastFcmAt = new Date();
-            $addToSet.fcmTokens = fcmToken.trim();
-          }
-          if (Object.keys($addToSet).length > 0) {
-            await UserModel.updateOne({ _id: user._id }, { $set, $addToSet });
-          } else {
-            await UserModel.updateOne({ _id: user._id }, { $set });
-          }
-
-          const freshUser = await UserModel.findById(user._id).lean();
-          let vendorName: string | undefined;
-          if (payload.vendorId) {
-            const vendor = await VendorModel.findById(payload.vendorId).lean();
-            vendorName = vendor?.name;
-          }
-
-          const permissions = ['view_assigned_jobs', 'update_job_status', 'upload_parts', 'view_vendor_portal'];
-
-          mongoResponse = {
-            success: true,
-            data: {
-              accessToken,
-              refreshToken,
-              user: {
-                id: String(freshUser?._id || user._id),
-                username: freshUser?.username || user.username,
-                role: freshUser?.role || payload.role,
-                vendorId: freshUser?.vendorId ? String(freshUser.vendorId) : payload.vendorId,
-                vendorName,
-                email: freshUser?.email,
-                permissions,
-              },
-            },
-          };
-          console.log('[LOGIN] ✓ MongoDB/Local API call successful');
-        } else {
-          console.log('[LOGIN] ✗ MongoDB/Local API: Invalid credentials or user disabled');
-        }
-      } else {
-        console.log('[LOGIN] ✗ MongoDB/Local API: User not found');
-      }
-    } catch (mongoErr: any) {
-      console.error('[LOGIN] ✗ MongoDB/Local API call failed:', mongoErr.message);
+    const user: any = await UserModel.findById(challenge.userId).lean();
+    if (!user || user.isActive === false) {
+      return res.status(401).json({ success: false, message: 'Invalid or expired challenge. Please sign in again.' });
     }
 
-    // STEP 3: Compare and log both responses
-    console.log('[LOGIN] ========================================');
-    console.log('[LOGIN] COMPARISON:');
-    console.log('[LOGIN] ========================================');
-    console.log('[LOGIN] External API Response:', externalResponse ? 'SUCCESS' : 'FAILED');
-    console.log('[LOGIN] MongoDB API Response:', mongoResponse ? 'SUCCESS' : 'FAILED');
-    
-    if (externalResponse) {
-      console.log('[LOGIN] External Response:', JSON.stringify(externalResponse, null, 2));
+    const lockout = await checkLockout('LOGIN-2FA', user.username, req.ip);
+    if (lockout.locked) {
+      return sendLockedOut(res, lockout);
     }
-    if (mongoResponse) {
-      console.log('[LOGIN] MongoDB Response:', JSON.stringify(mongoResponse, null, 2));
+
+    // Each challenge allows one attempt; a wrong code means signing in with the password again
+    if (!(await twoFactor.consumeChallenge(String(user._id), challenge.challengeId))) {
+      return res.status(401).json({ success: false, message: 'Invalid or expired challenge. Please sign in again.' });
     }
-    console.log('[LOGIN] ========================================');
 
-    // STEP 4: Return external response (or MongoDB as fallback)
-    const finalResponse = externalResponse || mongoResponse;
-    
-    if (!finalResponse) {
-      return res.status(401).json({ success: false, message: 'Invalid credentials' });
+    const result = await twoFactor.verify(String(user._id), {
+      code: typeof code === 'string' ? code : undefined,
+      recoveryCode: typeof recoveryCode === 'string' ? recoveryCode : undefined,
+    });
+    if (!result.ok) {
+      await loginLockout.recordFailure(user.username, req.ip).catch((lockErr: any) => {
+        log.error('Failed to record failed attempt', { handler: 'LOGIN-2FA', err: lockErr });
+      });
+      log.warn('Invalid second factor code', { username: user.username });
+      return res.status(401).json({ success: false, message: 'Invalid verification code' });
     }
 
-    console.log('[LOGIN] Returning response from:', externalResponse ? 'EXTERNAL API' : 'MONGODB API');
-    return res.json(finalResponse);
+    await loginLockout.recordSuccess(user.username).catch((lockErr: any) => {
+      log.error('Failed to reset lockout counters', { handler: 'LOGIN-2FA', err: lockErr });
+    });
+
+    const response = await issueLocalLogin(user, getSessionDevice(req), fcmToken);
+    if (result.method === 'recovery_code') {
+      (response.data as any).remainingRecoveryCodes = result.remainingRecoveryCodes;
+    }
+    log.info('Second factor verified', { username: user.username, method: result.method });
+    return res.json(response);
   } catch (err: any) {
-    console.error('[LOGIN] Unexpected error:', err);
+    log.error('Second factor login: unexpected error', { err });
     return res.status(500).json({ success: false, message: err?.message || 'Login failed' });
   }
 });
 
-// POST /api/auth/login-external
-// First call external API, then call MongoDB, cache and compare responses
-authRouter.post('/login-external', async (req, res) => {
-  try {
-    const { username, password: pwd, role, fcmToken } = req.body || {};
-    if (!username || !pwd) {
-      return res.status(400).json({ success: false, message: 'username and password required' });
-    }
-
-    console.log('[LOGIN-EXTERNAL] ========================================');
-    console.log('[LOGIN-EXTERNAL] Starting dual API call for user:', username);
-    console.log('[LOGIN-EXTERNAL] ========================================');
+function sendTwoFactorError(res: Response, err: any, fallback: string) {
+  if (err instanceof TwoFactorError) {
+    return res.status(err.status).json({ success: false, message: err.message });
+  }
+  log.error('Two-factor: unexpected error', { err });
+  return res.status(500).json({ success: false, message: err?.message || fallback });
+}
 
-    // STEP 1: Call external API first
-    console.log('[LOGIN-EXTERNAL] STEP 1: Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/auth/login`);
-    let externalResponse;
-    try {
-      externalResponse = await ExternalApiAdapter.login(username, pwd, role);
-      console.log('[LOGIN-EXTERNAL] ✓ External API call successful');
-    } catch (extErr: any) {
-      console.error('[LOGIN-EXTERNAL] ✗ External API call failed:', extErr.message);
-      // Continue to MongoDB even if external fails
-    }
+// POST /api/auth/2fa/setup
+// Starts enrolment; returns the secret and an otpauth:// URI to show as a QR code
+authRouter.post('/2fa/setup', authenticateJWT(), async (req: AuthenticatedRequest, res) => {
+  try {
+    const data = await twoFactor.beginEnrollment(req.user!.userId);
+    return res.json({ success: true, data });
+  } catch (err: any) {
+    return sendTwoFactorError(res, err, 'Failed to start two-factor setup');
+  }
+});
 
-    // STEP 2: Call MongoDB/Local API
-    console.log('[LOGIN-EXTERNAL] STEP 2: Calling MONGODB/LOCAL API...');
-    let mongoResponse;
-    try {
-      const user = await UserModel.findOne({ username }).lean();
-      if (user && user.passwordHash) {
-        const ok = await password.compare(pwd, user.passwordHash);
-        if (ok && user.isActive !== false) {
-          const payload = {
-            userId: String(user._id),
-            role: (role as string) || user.role || 'registered_user',
-            vendorId: user.vendorId ? String(user.vendorId) : undefined,
-            sessionId: `s_${Date.now()}`,
-          };
-
-          const accessToken = jwtService.signAccess(payload, '2h');
-          const refreshToken = jwtService.signRefresh({ userId: payload.userId, role: payload.role }, '7d');
-
-          // Update FCM token if provided
-          const $set: Record<string, any> = { lastLoginAt: new Date() };
-          const $addToSet: Record<string, any> = {};
-          if (typeof fcmToken === 'string' && fcmToken.trim().length > 0) {
-            $set.lastFcmToken = fcmToken.trim();
-            $set.lastFcmAt = new Date();
-            $addToSet.fcmTokens = fcmToken.trim();
-          }
-          if (Object.keys($addToSet).length > 0) {
-            await UserModel.updateOne({ _id: user._id }, { $set, $addToSet });
-          } else {
-            await UserModel.updateOne({ _id: user._id }, { $set });
-          }
-
-          const freshUser = await UserModel.findById(user._id).lean();
-          let vendorName: string | undefined;
-          if (payload.vendorId) {
-            const vendor = await VendorModel.findById(payload.vendorId).lean();
-            vendorName = vendor?.name;
-          }
-
-          const permissions = ['view_assigned_jobs', 'update_job_status', 'upload_parts', 'view_vendor_portal'];
-
-          mongoResponse = {
-            success: true,
-            data: {
-              accessToken,
-              refreshToken,
-              user: {
-                id: String(freshUser?._id || user._id),
-                username: freshUser?.username || user.username,
-                role: freshUser?.role || payload.role,
-                vendorId: freshUser?.vendorId ? String(freshUser.vendorId) : payload.vendorId,
-                vendorName,
-                email: freshUser?.email,
-                permissions,
-              },
-            },
-          };
-          console.log('[LOGIN-EXTERNAL] ✓ MongoDB/Local API call successful');
-        } else {
-          console.log('[LOGIN-EXTERNAL] ✗ MongoDB/Local API: Invalid credentials or user disabled');
-        }
-      } else {
-        console.log('[LOGIN-EXTERNAL] ✗ MongoDB/Local API: User not found');
-      }
-    } catch (mongoErr: any) {
-      console.error('[LOGIN-EXTERNAL] ✗ MongoDB/Local API call failed:', mongoErr.message);
+// POST /api/auth/2fa/enable
+// Body: { code } from the authenticator app; returns one-time recovery codes
+authRouter.post('/2fa/enable', authenticateJWT(), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { code } = req.body || {};
+    if (typeof code !== 'string' || !code) {
+      return res.status(400).json({ success: false, message: 'code is required' });
     }
+    const recoveryCodes = await twoFactor.confirmEnrollment(req.user!.userId, code);
+    return res.json({ success: true, data: { enabled: true, recoveryCodes } });
+  } catch (err: any) {
+    return sendTwoFactorError(res, err, 'Failed to enable two-factor authentication');
+  }
+});
 
-    // STEP 3: Compare and log both responses
-    console.log('[LOGIN-EXTERNAL] ========================================');
-    console.log('[LOGIN-EXTERNAL] COMPARISON:');
-    console.log('[LOGIN-EXTERNAL] ========================================');
-    console.log('[LOGIN-EXTERNAL] External API Response:', externalResponse ? 'SUCCESS' : 'FAILED');
-    console.log('[LOGIN-EXTERNAL] MongoDB API Response:', mongoResponse ? 'SUCCESS' : 'FAILED');
-    
-    if (externalResponse) {
-      console.log('[LOGIN-EXTERNAL] External Response:', JSON.stringify(externalResponse, null, 2));
-    }
-    if (mongoResponse) {
-      console.log('[LOGIN-EXTERNAL] MongoDB Response:', JSON.stringify(mongoResponse, null, 2));
+// POST /api/auth/2fa/recovery-codes
+// Body: { code } - replaces all recovery codes
+authRouter.post('/2fa/recovery-codes', authenticateJWT(), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { code } = req.body || {};
+    const result = await twoFactor.verify(req.user!.userId, { code: typeof code === 'string' ? code : undefined });
+    if (!result.ok) {
+      return res.status(401).json({ success: false, message: 'Invalid verification code' });
     }
-    console.log('[LOGIN-EXTERNAL] ========================================');
+    const recoveryCodes = await twoFactor.regenerateRecoveryCodes(req.user!.userId);
+    return res.json({ success: true, data: { recoveryCodes } });
+  } catch (err: any) {
+    return sendTwoFactorError(res, err, 'Failed to regenerate recovery codes');
+  }
+});
 
-    // STEP 4: Return external response (or MongoDB as fallback)
-    const finalResponse = externalResponse || mongoResponse;
-    
-    if (!finalResponse) {
-      return res.status(401).json({ success: false, message: 'Both APIs failed' });
+// POST /api/auth/2fa/disable
+// Body: { code } or { recoveryCode }
+authRouter.post('/2fa/disable', authenticateJWT(), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { code, recoveryCode } = req.body || {};
+    const result = await twoFactor.verify(req.user!.userId, {
+      code: typeof code === 'string' ? code : undefined,
+      recoveryCode: typeof recoveryCode === 'string' ? recoveryCode : undefined,
+    });
+    if (!result.ok) {
+      return res.status(401).json({ success: false, message: 'Invalid verification code' });
     }
-
-    console.log('[LOGIN-EXTERNAL] Returning response from:', externalResponse ? 'EXTERNAL API' : 'MONGODB API');
-    return res.json(finalResponse);
+    await twoFactor.disable(req.user!.userId, req.user!.userId);
+    return res.json({ success: true, data: { enabled: false } });
   } catch (err: any) {
-    console.error('[LOGIN-EXTERNAL] Unexpected error:', err.message);
-    return res.status(500).json({ 
-      success: false, 
-      message: err?.message || 'Login failed' 
-    });
+    return sendTwoFactorError(res, err, 'Failed to disable two-factor authentication');
   }
 });
 
@@ -355,6 +366,10 @@ authRouter.post('/logout', authenticateJWT(), async (req: AuthenticatedRequest,
       await UserModel.updateOne({ _id: userId }, updates);
     }
 
+    if (req.user!.sessionId) {
+      await sessionService.revoke(req.user!.sessionId, 'logout');
+    }
+
     return res.json({ success: true, message: 'Logged out' });
   } catch (err: any) {
     return res.status(500).json({ success: false, message: err?.message || 'Logout failed' });
@@ -365,9 +380,9 @@ authRouter.post('/logout', authenticateJWT(), async (req: AuthenticatedRequest,
 authRouter.get('/status', authenticateJWT(), async (req: AuthenticatedRequest, res) => {
   try {
     const userId = req.user!.userId;
-    const user = await UserModel.findById(userId).lean();
+    const user: any = await UserModel.findById(userId).lean();
     if (!user) return res.status(401).json({ success: false, authenticated: false });
-    const permissions = ['view_assigned_jobs', 'update_job_status', 'upload_parts', 'view_vendor_portal'];
+    const permissions = await permissionService.getPermissions(user.role || 'registered_user');
     return res.json({
       success: true,
       authenticated: true,
@@ -378,6 +393,9 @@ authRouter.get('/status', authenticateJWT(), async (req: AuthenticatedRequest, r
         lastFcmToken: user.lastFcmToken || undefined,
         lastFcmAt: user.lastFcmAt || undefined,
         fcmTokensCount: Array.isArray(user.fcmTokens) ? user.fcmTokens.length : 0,
+        mustChangePassword: Boolean(user.mustChangePassword),
+        twoFactorEnabled: twoFactor.isEnabled(user),
+        twoFactorSetupRequired: !twoFactor.isEnabled(user) && permissions.some(isPrivilegedPermission),
         permissions,
       },
     });
@@ -386,6 +404,107 @@ authRouter.get('/status', authenticateJWT(), async (req: AuthenticatedRequest, r
   }
 });
 
+// GET /api/auth/sessions?includeRevoked=true
+// Lists the caller's login sessions (one per device)
+authRouter.get('/sessions', authenticateJWT(), async (req: AuthenticatedRequest, res) => {
+  try {
+    const includeRevoked = String(req.query.includeRevoked || '').toLowerCase() === 'true';
+    const sessions = await sessionService.listForUser(req.user!.userId, { includeRevoked });
+    return res.json({
+      success: true,
+      data: sessions.map((s: any) => toSessionDTO(s, req.user!.sessionId)),
+    });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to list sessions' });
+  }
+});
+
+// POST /api/auth/sessions/revoke-others
+// Signs out every device except the one making the request
+authRouter.post('/sessions/revoke-others', authenticateJWT(), async (req: AuthenticatedRequest, res) => {
+  try {
+    const revoked = await sessionService.revokeAllForUser(req.user!.userId, 'revoked_by_user', {
+      exceptSessionId: req.user!.sessionId,
+      revokedBy: req.user!.userId,
+    });
+    return res.json({ success: true, data: { revoked } });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to revoke sessions' });
+  }
+});
+
+// DELETE /api/auth/sessions/:sessionId
+// Signs out one of the caller's devices
+authRouter.delete('/sessions/:sessionId', authenticateJWT(), async (req: AuthenticatedRequest, res) => {
+  try {
+    const session: any = await sessionService.findById(req.params.sessionId);
+    if (!session || String(session.userId) !== String(req.user!.userId)) {
+      return res.status(404).json({ success: false, message: 'Session not found' });
+    }
+
+    const revoked = await sessionService.revoke(session.sessionId, 'revoked_by_user', req.user!.userId);
+    return res.json({ success: true, data: { id: session.sessionId, revoked } });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to revoke session' });
+  }
+});
+
+// GET /api/auth/password-policy - NO AUTH
+// Lets the app show password requirements before the user submits
+authRouter.get('/password-policy', (_req, res) => {
+  return res.json({ success: true, data: passwordPolicy.describe() });
+});
+
+// POST /api/auth/password-reset/request - NO AUTH
+// Body: { username } or { email }
+// Always answers the same way so it can't be used to discover accounts
+authRouter.post('/password-reset/request', async (req, res) => {
+  try {
+    const { username, email } = (req.body || {}) as { username?: unknown; email?: unknown };
+    const identifier = typeof username === 'string' && username.trim()
+      ? username.trim()
+      : typeof email === 'string' && email.trim() ? email.trim() : '';
+    if (!identifier) {
+      return res.status(400).json({ success: false, message: 'username or email is required' });
+    }
+
+    // Not awaited: response time must not depend on whether the account exists
+    passwordReset.request(identifier, req.ip).catch((resetErr: any) => {
+      log.error('Failed to issue reset token', { err: resetErr });
+    });
+
+    return res.json({
+      success: true,
+      message: 'If an account with that username or email exists, a reset link has been sent',
+    });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, message: err?.message || 'Password reset request failed' });
+  }
+});
+
+// POST /api/auth/password-reset/confirm - NO AUTH
+// Body: { token, newPassword }
+authRouter.post('/password-reset/confirm', async (req, res) => {
+  try {
+    const { token, newPassword } = (req.body || {}) as { token?: unknown; newPassword?: unknown };
+    if (typeof token !== 'string' || !token || typeof newPassword !== 'string' || !newPassword) {
+      return res.status(400).json({ success: false, message: 'token and newPassword are required' });
+    }
+
+    await passwordReset.confirm(token, newPassword, req.ip);
+    return res.json({ success: true, message: 'Password has been reset. Please sign in again.' });
+  } catch (err: any) {
+    if (err instanceof PasswordPolicyError) {
+      return res.status(400).json(passwordErrorResponse('newPassword', err.violations));
+    }
+    if (err instanceof PasswordResetError) {
+      return res.status(400).json({ success: false, message: err.message });
+    }
+    log.error('Password reset: unexpected error', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Password reset failed' });
+  }
+});
+
 // POST /api/auth/register-vendor
 // Public vendor registration: creates a Vendor and a User linked to it
 // Body: { vendorName, username, password, email?, phone?, serviceAreas?: string[], appliances?: string[], available?: boolean }
@@ -396,6 +515,11 @@ authRouter.post('/register-vendor', async (req, res) => {
       return res.status(400).json({ success: false, message: 'vendorName, username and password are required' });
     }
 
+    const violations = passwordPolicy.validate(String(pwd), { username });
+    if (violations.length > 0) {
+      return res.status(400).json(passwordErrorResponse('password', violations));
+    }
+
     // Enforce unique username
     const existingUser = await UserModel.findOne({ username }).lean();
     if (existingUser) {
@@ -436,15 +560,11 @@ authRouter.post('/register-vendor', async (req, res) => {
     });
 
     // Issue tokens
-    const payload = {
+    const { accessToken, refreshToken } = await sessionService.start({
       userId: String(user._id),
       role: 'registered_user',
       vendorId: String(vendor._id),
-      sessionId: `s_${Date.now()}`,
-    };
-
-    const accessToken = jwtService.signAccess(payload, '2h');
-    const refreshToken = jwtService.signRefresh({ userId: payload.userId, role: payload.role }, '7d');
+    }, getSessionDevice(req));
 
     return res.status(201).json({
       success: true,
@@ -464,291 +584,112 @@ authRouter.post('/register-vendor', async (req, res) => {
       },
     });
   } catch (err: any) {
-    console.error('[REGISTER_VENDOR]', err);
+    log.error('Vendor registration failed', { err });
     return res.status(500).json({ success: false, message: err?.message || 'Registration failed' });
   }
 });
 
-// PATCH /api/auth/vendor/assignments/:assignmentId - NO AUTH (proxies to external API v2)
-// This must be defined BEFORE the authenticateJWT() middleware
-authRouter.patch('/vendor/assignments/:assignmentId', async (req, res) => {
-  try {
-    const { assignmentId } = req.params;
-
-    console.log('[AuthVendorUpdateAssignment] ========================================');
-    console.log('[AuthVendorUpdateAssignment] Method: PATCH');
-    console.log('[AuthVendorUpdateAssignment] External URL:', `${EXTERNAL_API_URL}/api/v2/assignments/${assignmentId}`);
-    console.log('[AuthVendorUpdateAssignment] Body:', JSON.stringify(req.body, null, 2));
-    console.log('[AuthVendorUpdateAssignment] ========================================');
-
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : authHeader || '';
-
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
-
-    try {
-      console.log('[AuthVendorUpdateAssignment] Token (first 20 chars):', String(token).substring(0, 20) + '...');
-
-      const externalResponse = await ExternalApiAdapter.callExternalApi(
-        `/api/v2/assignments/${assignmentId}`,
-        token,
-        'PATCH',
-        req.body
-      );
-
-      console.log('[AuthVendorUpdateAssignment] ========== EXTERNAL API RESPONSE ==========');
-      console.log('[AuthVendorUpdateAssignment] Response:', JSON.stringify(externalResponse, null, 2));
-      console.log('[AuthVendorUpdateAssignment] ================================================');
-      console.log('[AuthVendorUpdateAssignment] ✓ Returning external API response');
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error('[AuthVendorUpdateAssignment] ✗ External API call failed:', extErr.message);
-      return res.status(500).json({
-        success: false,
-        message: extErr.message || 'External API call failed'
-      });
-    }
-  } catch (err: any) {
-    console.error('[AuthVendorUpdateAssignment] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to update assignment' });
+// Use the latest unconsumed photo token for this assignment when the app didn't send any
+async function withLatestPhotoToken({ req, token }: ProxyContext) {
+  const requestBody = { ...(req.body || {}) };
+  if (requestBody.photoTokens && requestBody.photoTokens.length > 0) {
+    log.debug('Using provided photo tokens', { count: requestBody.photoTokens.length });
+    return requestBody;
   }
-});
 
-// GET /api/auth/vendor/assignments/:assignmentId/parts - NO AUTH (proxies to external API)
-authRouter.get('/vendor/assignments/:assignmentId/parts', async (req, res) => {
+  log.debug('No photo tokens provided, checking database');
   try {
-    const { assignmentId } = req.params;
-    
-    console.log('[GetAssignmentParts] ========================================');
-    console.log('[GetAssignmentParts] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/auth/vendor/assignments/${assignmentId}/parts`);
-    console.log('[GetAssignmentParts] Assignment ID:', assignmentId);
-    console.log('[GetAssignmentParts] ========================================');
-
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
-
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
-
-    try {
-      const externalResponse = await ExternalApiAdapter.callExternalApi(
-        `/api/auth/vendor/assignments/${assignmentId}/parts`,
-        token,
-        'GET'
-      );
-
-      if (externalResponse?.success) {
-        if (Array.isArray(externalResponse?.data)) {
-          externalResponse.data = externalResponse.data.map((part: any) => {
-            if (part && part.partType === 'ordered') return { ...part, partType: 'order_part' };
-            return part;
-          });
-        } else if (externalResponse?.data && typeof externalResponse.data === 'object') {
-          if ((externalResponse.data as any).partType === 'ordered') {
-            externalResponse.data = { ...externalResponse.data, partType: 'order_part' };
-          }
-        }
-      }
-
-      console.log('[GetAssignmentParts] ✓ Returning external API response');
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error('[GetAssignmentParts] ✗ External API call failed:', extErr.message);
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'External API call failed' 
-      });
-    }
-  } catch (err: any) {
-    console.error('[GetAssignmentParts] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to get assignment parts' });
-  }
-});
-
-// POST /api/auth/vendor/assignments/:assignmentId/parts - NO AUTH (proxies to external API)
-// Auto-retrieves photo tokens from database if not provided in request
-authRouter.post('/vendor/assignments/:assignmentId/parts', async (req, res) => {
-  try {
-    const { assignmentId } = req.params;
-    
-    console.log('[AddAssignmentPart] ========================================');
-    console.log('[AddAssignmentPart] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/assignments/${assignmentId}/parts`);
-    console.log('[AddAssignmentPart] Assignment ID:', assignmentId);
-    console.log('[AddAssignmentPart] Request body:', JSON.stringify(req.body, null, 2));
-    console.log('[AddAssignmentPart] ========================================');
-
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
-
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
-
-    try {
-      // Auto-retrieve photo tokens if not provided
-      let requestBody = { ...req.body };
-      
-      if (!requestBody.photoTokens || requestBody.photoTokens.length === 0) {
-        console.log('[AddAssignmentPart] No photoTokens provided, checking database...');
-        
-        try {
-          // Decode JWT to get user ID
-          const decoded = jwt.decode(token) as any;
-          const userId = decoded?.userId || decoded?.id;
-          
-          if (userId) {
-            // Find the most recent unconsumed photo token for this assignment and user
-            const latestToken = await PhotoTokenModel.findOne({
-              assignmentId: String(assignmentId),
-              userId: String(userId),
-              consumed: false,
-              expiresAt: { $gt: new Date() } // Not expired
-            }).sort({ createdAt: -1 }); // Most recent first
-            
-            if (latestToken) {
-              requestBody.photoTokens = [latestToken.token];
-              console.log('[AddAssignmentPart] ✓ Auto-retrieved latest photo token from database');
-              console.log('[AddAssignmentPart] Token:', latestToken.token);
-            } else {
-              console.log('[AddAssignmentPart] No unconsumed photo tokens found in database');
-            }
-          }
-        } catch (dbErr: any) {
-          console.error('[AddAssignmentPart] ⚠️ Failed to retrieve tokens from database:', dbErr.message);
-          // Continue without tokens
-        }
+    // Decode JWT to get user ID
+    const decoded = jwt.decode(token) as any;
+    const userId = decoded?.userId || decoded?.id;
+
+    if (userId) {
+      const latestToken = await PhotoTokenModel.findOne({
+        assignmentId: String(req.params.assignmentId),
+        userId: String(userId),
+        consumed: false,
+        expiresAt: { $gt: new Date() } // Not expired
+      }).sort({ createdAt: -1 }); // Most recent first
+
+      if (latestToken) {
+        requestBody.photoTokens = [latestToken.token];
+        log.info('Using latest photo token from database', { assignmentId: req.params.assignmentId });
       } else {
-        console.log('[AddAssignmentPart] Using provided photoTokens:', requestBody.photoTokens);
-      }
-
-      const externalResponse = await ExternalApiAdapter.callExternalApi(
-        `/api/assignments/${assignmentId}/parts`,
-        token,
-        'POST',
-        requestBody
-      );
-
-      if (externalResponse?.success) {
-        if (Array.isArray(externalResponse?.data)) {
-          externalResponse.data = externalResponse.data.map((part: any) => {
-            if (part && part.partType === 'ordered') return { ...part, partType: 'order_part' };
-            return part;
-          });
-        } else if (externalResponse?.data && typeof externalResponse.data === 'object') {
-          if ((externalResponse.data as any).partType === 'ordered') {
-            externalResponse.data = { ...externalResponse.data, partType: 'order_part' };
-          }
-        }
-      }
-      
-      // Mark token as consumed if part creation was successful
-      if (externalResponse.success && requestBody.photoTokens && requestBody.photoTokens.length > 0) {
-        try {
-          await PhotoTokenModel.updateMany(
-            { token: { $in: requestBody.photoTokens } },
-            { $set: { consumed: true } }
-          );
-          console.log('[AddAssignmentPart] ✓ Marked token as consumed:', requestBody.photoTokens[0]);
-        } catch (dbErr: any) {
-          console.error('[AddAssignmentPart] ⚠️ Failed to mark token as consumed:', dbErr.message);
-          // Don't fail the request
-        }
+        log.info('No unconsumed photo tokens found', { assignmentId: req.params.assignmentId });
       }
-
-      console.log('[AddAssignmentPart] ✓ Returning external API response');
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error('[AddAssignmentPart] ✗ External API call failed:', extErr.message);
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'External API call failed' 
-      });
     }
-  } catch (err: any) {
-    console.error('[AddAssignmentPart] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to add assignment part' });
+  } catch (dbErr: any) {
+    log.error('Failed to retrieve photo tokens', { err: dbErr });
+    // Continue without tokens
   }
-});
-
-// POST /api/auth/vendor/parts - NO AUTH (proxies to external API)
-authRouter.post('/vendor/parts', async (req, res) => {
-  try {
-    console.log('[AddVendorPart] ========================================');
-    console.log('[AddVendorPart] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/auth/vendor/parts`);
-    console.log('[AddVendorPart] Request body:', JSON.stringify(req.body, null, 2));
-    console.log('[AddVendorPart] ========================================');
-
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
-
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
+  return requestBody;
+}
 
+// Mark the photo tokens used by a successfully created part as consumed
+async function consumePhotoTokens(externalResponse: any, { body }: ProxyContext) {
+  if (externalResponse?.success && body?.photoTokens && body.photoTokens.length > 0) {
     try {
-      const externalResponse = await ExternalApiAdapter.callExternalApi(
-        `/api/auth/vendor/parts`,
-        token,
-        'POST',
-        req.body
+      await PhotoTokenModel.updateMany(
+        { token: { $in: body.photoTokens } },
+        { $set: { consumed: true } }
       );
-      
-      console.log('[AddVendorPart] ✓ Returning external API response');
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error('[AddVendorPart] ✗ External API call failed:', extErr.message);
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'External API call failed' 
-      });
+      log.info('Marked photo tokens as consumed', { count: body.photoTokens.length });
+    } catch (dbErr: any) {
+      log.error('Failed to mark photo tokens as consumed', { err: dbErr });
+      // Don't fail the request
     }
-  } catch (err: any) {
-    console.error('[AddVendorPart] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to add part' });
   }
-});
-
-// DELETE /api/auth/vendor/parts/:partId - NO AUTH (proxies to external API)
-authRouter.delete('/vendor/parts/:partId', async (req, res) => {
-  try {
-    const { partId } = req.params;
-    
-    console.log('[DeleteVendorPart] ========================================');
-    console.log('[DeleteVendorPart] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/auth/vendor/parts/${partId}`);
-    console.log('[DeleteVendorPart] Part ID:', partId);
-    console.log('[DeleteVendorPart] ========================================');
-
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
-
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
-
-    try {
-      const externalResponse = await ExternalApiAdapter.callExternalApi(
-        `/api/auth/vendor/parts/${partId}`,
-        token,
-        'DELETE'
-      );
-      
-      console.log('[DeleteVendorPart] ✓ Returning external API response');
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error('[DeleteVendorPart] ✗ External API call failed:', extErr.message);
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'External API call failed' 
-      });
-    }
-  } catch (err: any) {
-    console.error('[DeleteVendorPart] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to delete part' });
-  }
-});
+  return ExternalApiAdapter.mapToOurFormat(externalResponse, 'parts.detail');
+}
+
+// Pass-through routes - NO AUTH (token is forwarded to the external API as-is)
+// These must be defined BEFORE the authenticateJWT() middleware
+registerProxyRoutes(authRouter, [
+  // PATCH /api/auth/vendor/assignments/:assignmentId - v2 endpoint
+  {
+    name: 'AuthVendorUpdateAssignment',
+    method: 'patch',
+    path: '/vendor/assignments/:assignmentId',
+    upstream: '/api/v2/assignments/:assignmentId',
+    errorMessage: 'Failed to update assignment',
+  },
+  // GET /api/auth/vendor/assignments/:assignmentId/parts
+  {
+    name: 'GetAssignmentParts',
+    method: 'get',
+    path: '/vendor/assignments/:assignmentId/parts',
+    upstream: '/api/auth/vendor/assignments/:assignmentId/parts',
+    transformResponse: (data) => ExternalApiAdapter.mapToOurFormat(data, 'parts.list'),
+    errorMessage: 'Failed to get assignment parts',
+  },
+  // POST /api/auth/vendor/assignments/:assignmentId/parts
+  // Auto-retrieves photo tokens from database if not provided in request
+  {
+    name: 'AddAssignmentPart',
+    method: 'post',
+    path: '/vendor/assignments/:assignmentId/parts',
+    upstream: '/api/assignments/:assignmentId/parts',
+    transformRequest: withLatestPhotoToken,
+    transformResponse: consumePhotoTokens,
+    errorMessage: 'Failed to add assignment part',
+  },
+  // POST /api/auth/vendor/parts
+  {
+    name: 'AddVendorPart',
+    method: 'post',
+    path: '/vendor/parts',
+    upstream: '/api/auth/vendor/parts',
+    errorMessage: 'Failed to add part',
+  },
+  // DELETE /api/auth/vendor/parts/:partId
+  {
+    name: 'DeleteVendorPart',
+    method: 'delete',
+    path: '/vendor/parts/:partId',
+    upstream: '/api/auth/vendor/parts/:partId',
+    errorMessage: 'Failed to delete part',
+  },
+]);
 
 // GET /api/auth/photos/* - Download photo from external API
 authRouter.get('/photos/*', async (req, res) => {
@@ -756,10 +697,7 @@ authRouter.get('/photos/*', async (req, res) => {
     const photoPath = req.params[0]; // Gets everything after /photos/
     const fullPath = `/uploads/photos/${photoPath}`;
     
-    console.log('[DownloadPhoto] ========================================');
-    console.log('[DownloadPhoto] Downloading photo from EXTERNAL API:', `${EXTERNAL_API_URL}${fullPath}`);
-    console.log('[DownloadPhoto] Photo Path:', photoPath);
-    console.log('[DownloadPhoto] ========================================');
+    log.info('Downloading photo', { url: `${EXTERNAL_API_URL}${fullPath}` });
 
     const authHeader = req.headers.authorization;
     const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
@@ -777,6 +715,7 @@ authRouter.get('/photos/*', async (req, res) => {
         url,
         headers: {
           'Authorization': `Bearer ${token}`,
+          ...requestIdHeaders(),
         },
         responseType: 'stream', // Important: stream the image data
         timeout: 30000,
@@ -792,19 +731,16 @@ authRouter.get('/photos/*', async (req, res) => {
         res.setHeader('Content-Length', response.headers['content-length']);
       }
       
-      console.log('[DownloadPhoto] ✓ Streaming photo to client');
+      log.debug('Streaming photo to client', { photoPath });
       
       // Pipe the image stream to response
       response.data.pipe(res);
     } catch (extErr: any) {
-      console.error('[DownloadPhoto] ✗ External API call failed:', extErr.message);
-      return res.status(extErr.response?.status || 500).json({ 
-        success: false, 
-        message: extErr.message || 'Failed to download photo' 
-      });
+      log.error('Photo download: external API call failed', { photoPath, err: extErr });
+      return sendUpstreamError(res, extErr, 'Failed to download photo');
     }
   } catch (err: any) {
-    console.error('[DownloadPhoto] Unexpected error:', err);
+    log.error('Photo download: unexpected error', { err });
     return res.status(500).json({ success: false, message: err?.message || 'Failed to download photo' });
   }
 });
@@ -1,10 +1,13 @@
 import { Router } from 'express';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('Debug');
 
 const debugRouter = Router();
 
 // Debug endpoint to see all headers
 debugRouter.get('/headers', (req, res) => {
-  console.log('[DEBUG] All headers received:', JSON.stringify(req.headers, null, 2));
+  log.info('Headers received', { headers: req.headers });
   
   return res.json({
     success: true,
@@ -1,9 +1,12 @@
 import { Router } from 'express';
-import { authenticateJWT, type AuthenticatedRequest } from '../middleware/auth';
+import { authenticateJWT, requirePermission, type AuthenticatedRequest } from '../middleware/auth';
 import { FeedbackModel } from '../models/feedback';
 import { FeedbackConfigModel } from '../models/feedbackConfig';
 import { UserModel } from '../models/user';
 import mongoose from 'mongoose';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('Feedback');
 
 export const feedbackRouter = Router();
 
@@ -86,19 +89,18 @@ feedbackRouter.post('/submit', authenticateJWT({ skipValidation: true }), async
 
     // Get userId from authenticated request and convert to ObjectId
     const userIdString = req.user!.userId;
-    console.log('[Feedback SUBMIT] User ID from token:', userIdString, 'Type:', typeof userIdString);
+    log.debug('Submitting feedback', { userId: userIdString });
     
     if (!userIdString) {
-      console.error('[Feedback SUBMIT] No userId in token!');
+      log.warn('No userId in token');
       return res.status(400).json({ success: false, message: 'No userId found in token' });
     }
     
     let userId;
     try {
       userId = new mongoose.Types.ObjectId(userIdString);
-      console.log('[Feedback SUBMIT] Converted to ObjectId:', userId.toString());
     } catch (error) {
-      console.error('[Feedback SUBMIT] Failed to convert userId to ObjectId:', error);
+      log.warn('Failed to convert userId to ObjectId', { userId: userIdString, err: error });
       return res.status(400).json({ success: false, message: 'Invalid userId format in token' });
     }
 
@@ -112,7 +114,7 @@ feedbackRouter.post('/submit', authenticateJWT({ skipValidation: true }), async
 
     // Save to database
     const savedFeedback = await feedback.save();
-    console.log('[Feedback SUBMIT] Saved with userId:', savedFeedback.userId.toString());
+    log.info('Feedback saved', { userId: savedFeedback.userId.toString() });
 
     return res.status(201).json({ 
       success: true, 
@@ -124,7 +126,7 @@ feedbackRouter.post('/submit', authenticateJWT({ skipValidation: true }), async
       message: 'Feedback submitted successfully' 
     });
   } catch (err: any) {
-    console.error('[Feedback] Error submitting feedback:', err);
+    log.error('Error submitting feedback', { err });
     return res.status(500).json({ success: false, message: err?.message || 'Failed to submit feedback' });
   }
 });
@@ -136,7 +138,7 @@ feedbackRouter.get('/', async (req, res) => {
   try {
     const limit = parseInt(req.query.limit as string) || 100;
 
-    console.log('[Feedback GET] Fetching all feedback, limit:', limit);
+    log.debug('Fetching all feedback', { limit });
 
     // Fetch feedback WITHOUT populate first to preserve original userIds
     const feedbacks = await FeedbackModel
@@ -145,7 +147,7 @@ feedbackRouter.get('/', async (req, res) => {
       .limit(limit)
       .lean();
 
-    console.log('[Feedback GET] Found feedbacks:', feedbacks.length);
+    log.debug('Found feedback', { count: feedbacks.length });
 
     // Now try to populate user info separately
     const userIds = feedbacks.map(f => f.userId).filter(Boolean);
@@ -176,14 +178,14 @@ feedbackRouter.get('/', async (req, res) => {
       count: transformedFeedbacks.length 
     });
   } catch (err: any) {
-    console.error('[Feedback] Error fetching feedback:', err);
+    log.error('Error fetching feedback', { err });
     return res.status(500).json({ success: false, message: err?.message || 'Failed to fetch feedback' });
   }
 });
 
 // POST /api/feedback/config/question
 // Add a new question to the feedback config
-feedbackRouter.post('/config/question', authenticateJWT({ skipValidation: true }), async (req: AuthenticatedRequest, res) => {
+feedbackRouter.post('/config/question', authenticateJWT(), requirePermission('manage_feedback_config'), async (req: AuthenticatedRequest, res) => {
   try {
     const { id, question, type, options, required, order } = req.body;
 
@@ -253,7 +255,7 @@ feedbackRouter.post('/config/question', authenticateJWT({ skipValidation: true }
     config.questions.push(newQuestion);
     await config.save();
 
-    console.log('[Feedback Config] Added new question:', id);
+    log.info('Added question', { questionId: id });
 
     return res.status(201).json({ 
       success: true, 
@@ -261,14 +263,14 @@ feedbackRouter.post('/config/question', authenticateJWT({ skipValidation: true }
       message: 'Question added successfully' 
     });
   } catch (err: any) {
-    console.error('[Feedback Config] Error adding question:', err);
+    log.error('Error adding question', { err });
     return res.status(500).json({ success: false, message: err?.message || 'Failed to add question' });
   }
 });
 
 // PUT /api/feedback/config/question/:questionId
 // Update an existing question
-feedbackRouter.put('/config/question/:questionId', authenticateJWT({ skipValidation: true }), async (req: AuthenticatedRequest, res) => {
+feedbackRouter.put('/config/question/:questionId', authenticateJWT(), requirePermission('manage_feedback_config'), async (req: AuthenticatedRequest, res) => {
   try {
     const { questionId } = req.params;
     const { question, type, options, required, order } = req.body;
@@ -299,7 +301,7 @@ feedbackRouter.put('/config/question/:questionId', authenticateJWT({ skipValidat
 
     await config.save();
 
-    console.log('[Feedback Config] Updated question:', questionId);
+    log.info('Updated question', { questionId });
 
     return res.json({ 
       success: true, 
@@ -307,14 +309,14 @@ feedbackRouter.put('/config/question/:questionId', authenticateJWT({ skipValidat
       message: 'Question updated successfully' 
     });
   } catch (err: any) {
-    console.error('[Feedback Config] Error updating question:', err);
+    log.error('Error updating question', { err });
     return res.status(500).json({ success: false, message: err?.message || 'Failed to update question' });
   }
 });
 
 // DELETE /api/feedback/config/question/:questionId
 // Delete a question from the config
-feedbackRouter.delete('/config/question/:questionId', authenticateJWT({ skipValidation: true }), async (req: AuthenticatedRequest, res) => {
+feedbackRouter.delete('/config/question/:questionId', authenticateJWT(), requirePermission('manage_feedback_config'), async (req: AuthenticatedRequest, res) => {
   try {
     const { questionId } = req.params;
 
@@ -338,14 +340,14 @@ feedbackRouter.delete('/config/question/:questionId', authenticateJWT({ skipVali
     config.questions.splice(questionIndex, 1);
     await config.save();
 
-    console.log('[Feedback Config] Deleted question:', questionId);
+    log.info('Deleted question', { questionId });
 
     return res.json({ 
       success: true, 
       message: 'Question deleted successfully' 
     });
   } catch (err: any) {
-    console.error('[Feedback Config] Error deleting question:', err);
+    log.error('Error deleting question', { err });
     return res.status(500).json({ success: false, message: err?.message || 'Failed to delete question' });
   }
 });
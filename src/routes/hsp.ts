@@ -1,17 +1,21 @@
 import { Router } from 'express';
 import axios from 'axios';
+import { config } from '../config';
+import { createLogger } from '../services/logger';
+import { requestIdHeaders } from '../services/requestContext';
+
+const log = createLogger('HSP');
 
 export const hspRouter = Router();
 
-const HSP_API_BASE_URL =
-  process.env.HSP_API_BASE_URL || 'https://hspws-api-gateway.prod.nextgen.shs.com';
+const HSP_API_BASE_URL = config.upstream.hspUrl;
 
 hspRouter.post('/part-orders/search', async (req, res) => {
   try {
     const start = Date.now();
     const authHeader = typeof req.headers.authorization === 'string' ? req.headers.authorization : '';
     const headerToken = authHeader.startsWith('Bearer ') ? authHeader.slice('Bearer '.length).trim() : '';
-    const envToken = process.env.HSP_BEARER_TOKEN || '';
+    const envToken = config.upstream.hspBearerToken || '';
     const token = headerToken || envToken;
 
     if (!token) {
@@ -34,7 +38,7 @@ hspRouter.post('/part-orders/search', async (req, res) => {
 
     const upstreamUrl = `${HSP_API_BASE_URL}/v1/api/HSPRTPartOrderService/rest/searchPartOrderDetailsList`;
 
-    console.log('[HSP] part-orders/search -> upstream POST', {
+    log.info('part-orders/search -> upstream POST', {
       upstreamUrl,
       clientId,
       unitNumber,
@@ -49,6 +53,7 @@ hspRouter.post('/part-orders/search', async (req, res) => {
         Accept: 'application/json',
         'Content-Type': 'application/json',
         Authorization: `Bearer ${token}`,
+        ...requestIdHeaders(),
       },
       data: {
         clientId,
@@ -58,7 +63,7 @@ hspRouter.post('/part-orders/search', async (req, res) => {
       timeout: 60000,
     });
 
-    console.log('[HSP] upstream response', {
+    log.info('Upstream response', {
       status: upstreamResponse.status,
       elapsedMs: Date.now() - start,
     });
@@ -70,7 +75,7 @@ hspRouter.post('/part-orders/search', async (req, res) => {
     const code = err?.code || null;
     const message = err?.message || 'Failed to call HSP API';
 
-    console.error('[HSP] upstream error', {
+    log.error('Upstream error', {
       status,
       code,
       message,
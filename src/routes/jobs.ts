@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { authenticateJWT, type AuthenticatedRequest } from '../middleware/auth';
+import { authenticateJWTOrApiKey, requirePermission, type AuthenticatedRequest } from '../middleware/auth';
 import { VendorModel } from '../models/vendor';
 import { OrderModel } from '../models/order';
 import { JobModel } from '../models/job';
@@ -8,357 +8,133 @@ import { UserModel } from '../models/user';
 import { sendMulticast, chunk } from '../services/fcm';
 import mongoose from 'mongoose';
 import { PartModel } from '../models/part';
-import { ExternalApiAdapter, EXTERNAL_API_URL } from '../services/externalApiAdapter';
+import { ExternalApiAdapter } from '../services/externalApiAdapter';
+import { sendUpstreamError } from '../services/upstreamError';
+import { registerProxyRoutes, type ProxyContext } from '../services/proxyRoutes';
+import { envelopeList, jobDocToDTO, mappedItem, type JobDTO } from '../services/responseMapping';
+import { earliestOfferedDay, inferTimeZone, isTimeZone, type VendorSchedule } from '../services/scheduling';
+import { applyJobListQuery, jobListQuery, jobListVendorContext, type JobListQuery } from '../services/jobListing';
+import { jobSync } from '../services/jobSync';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('Jobs');
 
 export const jobsRouter = Router();
 
-// Helper to sync job from external API to MongoDB
-async function syncJobToMongo(externalJob: any): Promise<any> {
+// Sync a job the caller just fetched to MongoDB right away (the jobSync worker covers the rest)
+async function syncJobToMongo(externalJob: JobDTO | null): Promise<any> {
   try {
-    if (!externalJob || !externalJob.id) {
-      console.log('[SyncJob] No valid job data to sync');
-      return null;
-    }
-
-    const jobId = externalJob.id;
-    
-    // Check if job already exists in MongoDB (by externalId, _id, or soNumber)
-    const existingJob = await JobModel.findOne({ 
-      $or: [
-        { externalId: String(jobId) },
-        { _id: mongoose.isValidObjectId(jobId) ? new mongoose.Types.ObjectId(jobId) : null },
-        { soNumber: externalJob.soNumber }
-      ]
-    }).lean();
-
-    const jobData = {
-      externalId: String(jobId), // Always store external ID
-      soNumber: externalJob.soNumber || `SO-${jobId}`,
-      customerName: externalJob.customerName || externalJob.firstName,
-      customerAddress: externalJob.customerAddress || externalJob.address,
-      customerCity: externalJob.customerCity || externalJob.city,
-      customerState: externalJob.customerState || externalJob.state,
-      customerZip: externalJob.customerZip || externalJob.zipCode,
-      customerPhone: externalJob.customerPhone || externalJob.phoneNumber,
-      customerEmail: externalJob.customerEmail || externalJob.email,
-      applianceType: externalJob.applianceType || externalJob.appliance,
-      manufacturerBrand: externalJob.manufacturerBrand || externalJob.brand,
-      serviceDescription: externalJob.serviceDescription || externalJob.description,
-      scheduledDate: externalJob.scheduledDate ? new Date(externalJob.scheduledDate) : undefined,
-      scheduledTimeWindow: externalJob.scheduledTimeWindow || externalJob.timeWindow,
-      priority: externalJob.priority || 'medium',
-      status: externalJob.status || 'available',
-      vendorId: externalJob.vendorId && mongoose.isValidObjectId(externalJob.vendorId) 
-        ? new mongoose.Types.ObjectId(externalJob.vendorId) 
-        : undefined,
-    };
-
-    if (existingJob) {
-      // Update existing job
-      await JobModel.updateOne({ _id: existingJob._id }, { $set: jobData });
-      console.log('[SyncJob] Updated existing job:', existingJob._id);
-      return await JobModel.findById(existingJob._id).lean();
-    } else {
-      // Create new job with the external ID if it's a valid ObjectId
-      const createData = mongoose.isValidObjectId(jobId)
-        ? { ...jobData, _id: new mongoose.Types.ObjectId(jobId) }
-        : jobData;
-      
-      const newJob = await JobModel.create(createData);
-      console.log('[SyncJob] Created new job:', newJob._id);
-      return newJob;
-    }
+    const synced = await jobSync.upsertJob(externalJob);
+    if (!synced) log.warn('No valid job data to sync');
+    return synced?.job ?? null;
   } catch (err: any) {
-    console.error('[SyncJob] Failed to sync job to MongoDB:', err.message);
+    log.error('Failed to sync job to MongoDB', { err });
     return null;
   }
 }
 
-// Helper to map an order/job doc to the DTO used by clients
-function mapToJobDTO(doc: any) {
-  const soNumber = doc.soNumber || doc.raw?.SO_NO || `SO-${String(doc._id).slice(-6)}`;
-  const customerName: string | undefined = doc.customerName || doc.raw?.CUS_NM || undefined;
-  let firstName: string | undefined = customerName;
-  let lastName: string | undefined = undefined;
-  if (customerName && customerName.includes(' ')) {
-    const parts = String(customerName).split(/\s+/);
-    firstName = parts.shift();
-    lastName = parts.join(' ') || undefined;
+// Only jobs still available and scheduled from the vendor's local tomorrow on (or their lead
+// time) are offered to vendors, filtered, sorted and paged by the query parameters (see jobListing).
+// The upstream has returned the list in a few shapes; the response keeps whichever one it used.
+function filterFutureAvailableJobs(externalResponse: any, { res }: ProxyContext) {
+  const mapped = ExternalApiAdapter.mapToOurFormat(externalResponse, 'jobs.available');
+  const list = mapped?.success ? envelopeList(mapped) : null;
+  if (!list) {
+    log.debug('Response not successful or no data to filter');
+    return mapped;
   }
-  return {
-    id: String(doc._id),
-    soNumber,
-    customerName: firstName || customerName || null,
-    customerLastName: lastName || null,
-    customerAddress: doc.customerAddress || null,
-    customerCity: doc.customerCity || doc.raw?.CUS_CTY_NM || null,
-    customerState: doc.customerState || doc.raw?.CUS_ST_CD || null,
-    customerZip: doc.customerZip || doc.raw?.ZIP_CD || doc.raw?.CN_ZIP_PC || null,
-    applianceType: doc.applianceType || doc.raw?.HS_SP_CD || doc.raw?.SPECIALTY || null,
-    manufacturerBrand: doc.manufacturerBrand || null,
-    serviceDescription: doc.serviceDescription || doc.raw?.SVC_RQ_DS || doc.raw?.REPAIR_TYPE || null,
-    scheduledDate: doc.scheduledDate || (doc.raw?.SVC_SCH_DT ? new Date(doc.raw.SVC_SCH_DT) : null),
-    scheduledTimeWindow: doc.scheduledTimeWindow || null,
-    priority: doc.priority || 'medium',
-    status: doc.status || 'available',
-    vendorId: doc.vendorId ? String(doc.vendorId) : null,
-    assignmentId: doc.assignmentId ? String(doc.assignmentId) : null,
-    customerPhone: doc.customerPhone || null,
-    customerEmail: doc.customerEmail || null,
-    productInfoUpdate: {
-      productLine: (doc.productInfoUpdate && doc.productInfoUpdate.productLine) || null,
-      brand: (doc.productInfoUpdate && doc.productInfoUpdate.brand) || null,
-      modelNumber: (doc.productInfoUpdate && doc.productInfoUpdate.modelNumber) || null,
-      serialNumber: (doc.productInfoUpdate && doc.productInfoUpdate.serialNumber) || null,
-      issue: (doc.productInfoUpdate && doc.productInfoUpdate.issue) || null,
-      imageUrl: (doc.productInfoUpdate && doc.productInfoUpdate.imageUrl) || null,
-    },
-  };
-}
-
-// GET /api/jobs/available
-// Call external API first, fallback to MongoDB if needed
-jobsRouter.get('/available', async (req: AuthenticatedRequest, res) => {
-  try {
-    console.log('[JobsAvailable] ========================================');
-    console.log('[JobsAvailable] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/jobs/available`);
-    console.log('[JobsAvailable] ========================================');
-
-    // Get the token from request headers
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
 
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
+  const jobs: JobDTO[] = list.items;
+  const query: JobListQuery = res.locals.jobListQuery;
+  const schedule: VendorSchedule | undefined = res.locals.jobListSchedule;
+  const { items, total, pagination } = applyJobListQuery(jobs, query, { origin: res.locals.jobListOrigin, schedule });
+  log.info('Filtered available jobs', {
+    originalCount: jobs.length,
+    matchingCount: total,
+    returnedCount: items.length,
+    sort: query.sort,
+    origin: res.locals.jobListOrigin?.source ?? null,
+    schedule,
+  });
+
+  // Write the page back, maintaining the original structure
+  list.replace(items);
+  if (mapped.data && Array.isArray(mapped.data.jobs)) {
+    // Update pagination metadata if it exists
+    if (mapped.data.total !== undefined) {
+      mapped.data.total = total;
     }
-
-    try {
-      // Call external API
-      const externalResponse = await ExternalApiAdapter.callExternalApi('/api/jobs/available', token, 'GET');
-      
-      console.log('[JobsAvailable] ========== EXTERNAL API RESPONSE ==========');
-      console.log('[JobsAvailable] Response:', JSON.stringify(externalResponse, null, 2));
-      console.log('[JobsAvailable] ================================================');
-
-      // Filter jobs to only include future dates (excluding today)
-      if (externalResponse && externalResponse.success) {
-        // Calculate start of tomorrow (midnight)
-        const now = new Date();
-        const tomorrow = new Date(
-          Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1, 0, 0, 0, 0)
-        );
-
-        console.log('[JobsAvailable] Filtering jobs - only including jobs scheduled after:', tomorrow.toISOString());
-
-        // Helper function to filter jobs by scheduledDate
-        const filterFutureJobs = (jobs: any[]): any[] => {
-          return jobs.filter((job: any) => {
-            const status = String(job?.status || '').toLowerCase();
-            if (status !== 'available') {
-              return false;
-            }
-
-            if (!job.scheduledDate) {
-              // If no scheduledDate, exclude the job
-              return false;
-            }
-
-            const scheduledDate = new Date(job.scheduledDate);
-            if (isNaN(scheduledDate.getTime())) {
-              // Invalid date, exclude
-              return false;
-            }
-
-            // Only include jobs scheduled strictly after today (tomorrow or later) (UTC cutoff)
-            return scheduledDate >= tomorrow;
-          });
-        };
-
-        // Extract jobs array - handle different response structures
-        let jobs: any[] = [];
-        if (Array.isArray(externalResponse.data)) {
-          // Response structure: { success: true, data: [...] }
-          jobs = externalResponse.data;
-        } else if (externalResponse.data && Array.isArray(externalResponse.data.jobs)) {
-          // Response structure: { success: true, data: { jobs: [...] } }
-          jobs = externalResponse.data.jobs;
-        } else if (externalResponse.data && externalResponse.data.data && Array.isArray(externalResponse.data.data)) {
-          // Nested structure: { success: true, data: { data: [...] } }
-          jobs = externalResponse.data.data;
-        }
-
-        // Filter the jobs
-        const filteredJobs = filterFutureJobs(jobs);
-        
-        console.log('[JobsAvailable] Filtered jobs:', {
-          originalCount: jobs.length,
-          filteredCount: filteredJobs.length,
-          excludedCount: jobs.length - filteredJobs.length
-        });
-
-        // Reconstruct the response with filtered jobs, maintaining the original structure
-        if (Array.isArray(externalResponse.data)) {
-          // Replace the data array with filtered array
-          externalResponse.data = filteredJobs;
-        } else if (externalResponse.data && Array.isArray(externalResponse.data.jobs)) {
-          // Replace the jobs array
-          externalResponse.data.jobs = filteredJobs;
-          // Update pagination metadata if it exists
-          if (externalResponse.data.total !== undefined) {
-            externalResponse.data.total = filteredJobs.length;
-          }
-          if (externalResponse.data.count !== undefined) {
-            externalResponse.data.count = filteredJobs.length;
-          }
-        } else if (externalResponse.data && externalResponse.data.data && Array.isArray(externalResponse.data.data)) {
-          // Replace the nested data array
-          externalResponse.data.data = filteredJobs;
-        }
-
-        // Update the message to reflect the actual filtered count
-        if (externalResponse.message) {
-          externalResponse.message = `Found ${filteredJobs.length} available jobs`;
-        }
-
-        console.log('[JobsAvailable] ✓ Returning filtered response with future jobs only');
-      } else {
-        console.log('[JobsAvailable] Response not successful or no data to filter');
-      }
-
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error('[JobsAvailable] ✗ External API call failed:', extErr.message);
-      
-      // Return the error from external API
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'External API call failed' 
-      });
+    if (mapped.data.count !== undefined) {
+      mapped.data.count = items.length;
     }
-  } catch (err: any) {
-    console.error('[JobsAvailable] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to fetch available jobs' });
   }
-});
-
-// GET /api/jobs/:id
-// Call external API first, fallback to MongoDB if needed
-jobsRouter.get('/:id', async (req: AuthenticatedRequest, res) => {
-  try {
-    const { id } = req.params;
-    console.log('[JobDetails] ========================================')
-    console.log('[JobDetails] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/jobs/${id}`);
-    console.log('[JobDetails] ========================================');
-
-    // Get the token from request headers
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
-
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
-
-    try {
-      // Call external API
-      const externalResponse = await ExternalApiAdapter.callExternalApi(`/api/jobs/${id}`, token, 'GET');
-      
-      console.log('[JobDetails] ========== EXTERNAL API RESPONSE ==========');
-      console.log('[JobDetails] Response:', JSON.stringify(externalResponse, null, 2));
-      console.log('[JobDetails] ================================================');
-
-      // Sync job to MongoDB if successful
-      if (externalResponse.success && externalResponse.data) {
-        await syncJobToMongo(externalResponse.data);
-        console.log('[JobDetails] ✓ Job synced to MongoDB');
-
-        // Get productInfoUpdate from MongoDB and merge it into the response
-        const mongoJob = await JobModel.findOne({
-          $or: [
-            { externalId: String(id) },
-            { _id: mongoose.isValidObjectId(id) ? new mongoose.Types.ObjectId(id) : null }
-          ]
-        }).lean();
-
-        if (mongoJob && mongoJob.productInfoUpdate) {
-          // Merge productInfoUpdate from MongoDB into external API response
-          externalResponse.data.productInfoUpdate = mongoJob.productInfoUpdate;
-          console.log('[JobDetails] ✓ Merged productInfoUpdate from MongoDB:', mongoJob.productInfoUpdate);
-        }
-      }
-
-      console.log('[JobDetails] ✓ Returning external API response with MongoDB data');
-
-      // Return external API response with merged MongoDB data
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error('[JobDetails] ✗ External API call failed:', extErr.message);
-      
-      // Return the error from external API
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'External API call failed' 
-      });
-    }
-  } catch (err: any) {
-    console.error('[JobDetails] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to fetch job details' });
+  if (pagination) mapped.pagination = { ...pagination, total };
+  mapped.distanceFrom = res.locals.jobListOrigin?.source ?? null;
+  // The first day jobs are offered from, in the vendor's time zone
+  if (schedule) mapped.availableFrom = { date: earliestOfferedDay(schedule), timeZone: schedule.timeZone };
+
+  // Update the message to reflect the actual filtered count
+  if (mapped.message) {
+    mapped.message = `Found ${total} available jobs`;
   }
-});
+  return mapped;
+}
 
-// POST /api/jobs/:id/claims - NO AUTH (proxies to external API)
-// This must be defined BEFORE the authenticateJWT() middleware
-jobsRouter.post('/:id/claims', async (req: AuthenticatedRequest, res) => {
-  try {
+// Sync the job to MongoDB and merge in the product info vendors have updated locally
+async function mergeLocalJobData(externalResponse: any, { req }: ProxyContext) {
+  const job = mappedItem('jobs.detail', externalResponse);
+  if (job) {
     const { id } = req.params;
-    
-    console.log('[ClaimJob] ========================================');
-    console.log('[ClaimJob] Attempting to claim job:', id);
-    console.log('[ClaimJob] ========================================');
+    await syncJobToMongo(job);
 
-    // Get the token from request headers
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
+    const mongoJob = await JobModel.findOne({
+      $or: [
+        { externalId: String(id) },
+        { _id: mongoose.isValidObjectId(id) ? new mongoose.Types.ObjectId(id) : null }
+      ]
+    }).lean();
 
-    // Try external API first if token exists
-    if (token) {
-      try {
-        console.log('[ClaimJob] Body:', JSON.stringify(req.body, null, 2));
-        console.log('[ClaimJob] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/jobs/${id}/claims`);
-        const externalResponse = await ExternalApiAdapter.callExternalApi(
-          `/api/jobs/${id}/claims`,
-          token,
-          'POST',
-          req.body
-        );
-        
-        console.log('[ClaimJob] ========== EXTERNAL API RESPONSE ==========');
-        console.log('[ClaimJob] Response:', JSON.stringify(externalResponse, null, 2));
-        console.log('[ClaimJob] ================================================');
-        console.log('[ClaimJob] ✓ Returning external API response (success or failure)');
-
-        // Always return external API response (even if failed)
-        const statusCode = externalResponse.success ? 201 : (externalResponse.data?.rescheduleResult ? 200 : 400);
-        return res.status(statusCode).json(externalResponse);
-      } catch (extErr: any) {
-        console.error('[ClaimJob] ✗ External API call failed:', extErr.message);
-        
-        // Return the error from external API
-        return res.status(500).json({ 
-          success: false, 
-          message: extErr.message || 'External API call failed' 
-        });
-      }
+    if (mongoJob && mongoJob.productInfoUpdate) {
+      job.productInfoUpdate = mongoJob.productInfoUpdate;
+      log.debug('Merged productInfoUpdate from MongoDB', { productInfoUpdate: mongoJob.productInfoUpdate });
     }
-
-    // MongoDB fallback - requires authentication
-    return res.status(401).json({ 
-      success: false, 
-      message: 'No token provided. MongoDB fallback requires authentication.' 
-    });
-  } catch (err: any) {
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to claim job' });
   }
-});
+  return externalResponse;
+}
+
+// Pass-through routes - NO AUTH (token is forwarded to the external API as-is)
+// These must be defined BEFORE the authenticateJWT() middleware
+registerProxyRoutes(jobsRouter, [
+  // GET /api/jobs/available?applianceType=&zip=&city=&state=&from=&to=&priority=&q=&lat=&lng=&radius=&sort=&limit=&cursor=
+  {
+    name: 'JobsAvailable',
+    method: 'get',
+    path: '/available',
+    upstream: '/api/jobs/available',
+    middleware: [jobListQuery, jobListVendorContext],
+    transformResponse: filterFutureAvailableJobs,
+    errorMessage: 'Failed to fetch available jobs',
+  },
+  // GET /api/jobs/:id
+  {
+    name: 'JobDetails',
+    method: 'get',
+    path: '/:id',
+    upstream: '/api/jobs/:id',
+    transformResponse: mergeLocalJobData,
+    errorMessage: 'Failed to fetch job details',
+  },
+  // POST /api/jobs/:id/claims
+  // The upstream answers 200 with success: false when the claim is refused
+  {
+    name: 'ClaimJob',
+    method: 'post',
+    path: '/:id/claims',
+    upstream: '/api/jobs/:id/claims',
+    status: (data) => (data?.success ? 201 : data?.data?.rescheduleResult ? 200 : 400),
+    errorMessage: 'Failed to claim job',
+  },
+]);
 
 // PATCH /api/jobs/:id/product-info-update - NO AUTH (works with external API token)
 // Allows vendor to update product details: productLine, brand, modelNumber, serialNumber, issue, imageUrl
@@ -367,9 +143,7 @@ jobsRouter.patch('/:id/product-info-update', async (req: AuthenticatedRequest, r
   try {
     const { id } = req.params;
     
-    console.log('[ProductInfoUpdate] ========================================');
-    console.log('[ProductInfoUpdate] Updating product info for job:', id);
-    console.log('[ProductInfoUpdate] ========================================');
+    log.info('Updating product info', { jobId: id });
 
     // Get the token from request headers
     const authHeader = req.headers.authorization;
@@ -395,14 +169,15 @@ jobsRouter.patch('/:id/product-info-update', async (req: AuthenticatedRequest, r
     // First, fetch the job from external API to ensure it exists and vendor has access
     try {
       const jobResponse = await ExternalApiAdapter.callExternalApi(`/api/jobs/${id}`, token, 'GET');
-      
-      if (!jobResponse.success || !jobResponse.data) {
+      const externalJob = mappedItem('jobs.detail', jobResponse);
+
+      if (!externalJob) {
         return res.status(404).json({ success: false, message: 'Job not found or access denied' });
       }
 
       // Sync job to MongoDB if not already there
-      await syncJobToMongo(jobResponse.data);
-      console.log('[ProductInfoUpdate] Job synced to MongoDB');
+      await syncJobToMongo(externalJob);
+      log.debug('Job synced to MongoDB', { jobId: id });
 
       // Find job by external ID or MongoDB ID
       const job = await JobModel.findOne({
@@ -427,27 +202,25 @@ jobsRouter.patch('/:id/product-info-update', async (req: AuthenticatedRequest, r
       await JobModel.updateOne({ _id: job._id }, { $set: set });
       const updated = await JobModel.findById(job._id).lean();
       
-      console.log('[ProductInfoUpdate] ✓ Product info updated successfully');
-      return res.json({ success: true, data: mapToJobDTO(updated) });
+      log.info('Product info updated', { jobId: id });
+      return res.json({ success: true, data: jobDocToDTO(updated) });
     } catch (extErr: any) {
-      console.error('[ProductInfoUpdate] ✗ Failed to update product info:', extErr.message);
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'Failed to update product info' 
-      });
+      log.error('Failed to update product info', { jobId: id, err: extErr });
+      return sendUpstreamError(res, extErr, 'Failed to update product info');
     }
   } catch (err: any) {
-    console.error('[ProductInfoUpdate] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to update product info' });
+    log.error('Product info update: unexpected error', { err });
+    return sendUpstreamError(res, err, 'Failed to update product info');
   }
 });
 
-// Apply authentication middleware to all routes below this point
-jobsRouter.use(authenticateJWT());
+// Apply authentication middleware to all routes below this point.
+// Import tools may use an API key with the jobs:write scope instead of a user login.
+jobsRouter.use(authenticateJWTOrApiKey('jobs:write'));
 
 // POST /api/jobs
 // Create a new job (use this to trigger creation logs locally). Auth required.
-jobsRouter.post('/', async (req: AuthenticatedRequest, res) => {
+jobsRouter.post('/', requirePermission('create_jobs'), async (req: AuthenticatedRequest, res) => {
   try {
     // Basic auth guard
     if (!req.user) return res.status(401).json({ success: false, message: 'Unauthorized' });
@@ -471,6 +244,7 @@ jobsRouter.post('/', async (req: AuthenticatedRequest, res) => {
       customerEmail: body.customerEmail,
       scheduledDate: body.scheduledDate ? new Date(body.scheduledDate) : undefined,
       scheduledTimeWindow: typeof body.scheduledTimeWindow === 'string' ? body.scheduledTimeWindow : undefined,
+      timeZone: isTimeZone(body.timeZone) ? body.timeZone : inferTimeZone({ state: body.customerState, zip: body.customerZip }) || undefined,
       applianceType: body.applianceType,
       applianceCode: body.applianceCode,
       manufacturerBrand: body.manufacturerBrand,
@@ -512,7 +286,7 @@ jobsRouter.post('/', async (req: AuthenticatedRequest, res) => {
             await JobModel.updateOne({ _id: jobObjectId }, { $set: { vendorId: chosenVendorId, status: 'assigned', assignmentId: assignment._id } });
             await OrderModel.updateOne({ _id: jobObjectId }, { $set: { vendorId: chosenVendorId, status: 'assigned', assignmentId: assignment._id } } as any).catch(() => {});
           } catch (autoErr) {
-            console.warn('[JobCreate] Auto-assign failed, continuing with notifications', autoErr);
+            log.warn('Auto-assign failed, continuing with notifications', { err: autoErr });
           }
         }
 
@@ -538,33 +312,27 @@ jobsRouter.post('/', async (req: AuthenticatedRequest, res) => {
           city: String(doc.customerCity || ''),
         } as any;
 
-        const previewTokens = tokens.slice(0, 5);
-        console.log('[JobCreate] Preparing notification (lastFcmToken only)', {
+        log.info('Preparing notification (lastFcmToken only)', {
           tokensTotal: tokens.length,
-          tokensPreview: previewTokens,
           message: { title, body: bodyText, data },
         });
-        // Pretty-print just the FCM payload details
-        console.log('[Notify] FCM payload (jobs)', JSON.stringify({ title, body: bodyText, data }, null, 2));
-        // Print all FCM tokens as requested
-        console.log('[JobCreate] All FCM tokens:', tokens);
 
         let success = 0, failure = 0, batches = 0;
         for (const batch of chunk(tokens, 500)) {
           batches += 1;
-          console.log(`[JobCreate] Sending batch ${batches} size=${batch.length}`);
+          log.info('Sending batch', { batch: batches, size: batch.length });
           const res = await sendMulticast(batch, { title, body: bodyText, data });
-          console.log(`[JobCreate] Batch ${batches} result`, { successCount: res.successCount, failureCount: res.failureCount });
+          log.info('Batch result', { batch: batches, successCount: res.successCount, failureCount: res.failureCount });
           success += res.successCount || 0;
           failure += res.failureCount || 0;
         }
-        console.log(`[JobCreate] Notification summary tokens=${tokens.length}, batches=${batches}, success=${success}, failure=${failure}`);
+        log.info('Notification summary', { tokensTotal: tokens.length, batches, success, failure });
       } catch (e) {
-        console.error('[JobCreate] Notification error:', e);
+        log.error('Notification error', { err: e });
       }
     })();
 
-    return res.status(201).json({ success: true, data: mapToJobDTO(doc), message: 'Job created' });
+    return res.status(201).json({ success: true, data: jobDocToDTO(doc), message: 'Job created' });
   } catch (err: any) {
     if (String(err?.message || '').includes('duplicate key')) {
       return res.status(409).json({ success: false, message: 'soNumber already exists' });
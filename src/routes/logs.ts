@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('Logs');
 
 const execAsync = promisify(exec);
 
@@ -26,7 +29,7 @@ logsRouter.get('/', async (req, res) => {
       }
     });
   } catch (err: any) {
-    console.error('[Logs] Error fetching logs:', err);
+    log.error('Error fetching logs', { err });
     return res.status(500).json({
       success: false,
       message: err.message || 'Failed to fetch logs'
@@ -51,7 +54,7 @@ logsRouter.get('/errors', async (req, res) => {
       }
     });
   } catch (err: any) {
-    console.error('[Logs] Error fetching error logs:', err);
+    log.error('Error fetching error logs', { err });
     return res.status(500).json({
       success: false,
       message: err.message || 'Failed to fetch error logs'
@@ -79,7 +82,7 @@ logsRouter.get('/status', async (req, res) => {
       }
     });
   } catch (err: any) {
-    console.error('[Logs] Error fetching status:', err);
+    log.error('Error fetching status', { err });
     return res.status(500).json({
       success: false,
       message: err.message || 'Failed to fetch status'
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { getBearerToken } from '../services/proxyRoutes';
+import { toOutboxDTO, verifiedUserIdFor, writeOutbox } from '../services/writeOutbox';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('Outbox');
+
+export const outboxRouter = Router();
+
+// GET /api/outbox/:trackingId - Status of a write queued while the upstream was down
+// NO AUTH here: the caller must send a token for the same local user (verified), or the very
+// upstream token the write was queued with
+outboxRouter.get('/:trackingId', async (req, res) => {
+  try {
+    const token = getBearerToken(req.headers.authorization);
+    if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
+
+    const entry = await writeOutbox.findForCaller(req.params.trackingId, { token, userId: verifiedUserIdFor(token) });
+    if (!entry) return res.status(404).json({ success: false, message: 'Queued write not found' });
+    return res.json({ success: true, data: toOutboxDTO(entry) });
+  } catch (err: any) {
+    log.error('Failed to load queued write', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to load queued write' });
+  }
+});
@@ -1,8 +1,12 @@
 import { Router } from 'express';
 import type { Request } from 'express';
 import axios from 'axios';
-import { ExternalApiAdapter, EXTERNAL_API_URL } from '../services/externalApiAdapter';
+import { registerProxyRoutes } from '../services/proxyRoutes';
 import { PartsCatalogAdapter } from '../services/partsCatalogAdapter';
+import { config } from '../config';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('Parts');
 
 export const partsRouter = Router();
 
@@ -37,7 +41,7 @@ partsRouter.post('/auth/token', async (req, res) => {
     return res.json({ ...raw, tokenLife });
   } catch (err: any) {
     const msg = err?.message || 'Failed to fetch HSSOM token';
-    console.error('[PartsCatalog] HSSOM token fetch failed:', msg);
+    log.error('HSSOM token fetch failed', { message: msg });
     return res.status(502).json({ success: false, message: msg });
   }
 });
@@ -77,51 +81,15 @@ partsRouter.get('/models/:modelId/details', async (req, res) => {
 
 // DELETE /api/parts/:id - NO AUTH (proxies to external API)
 // Remove a part from the list
-partsRouter.delete('/:id', async (req: Request, res) => {
-  try {
-    const { id } = req.params;
-    
-    console.log('[DeletePart] ========================================');
-    console.log('[DeletePart] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/parts/${id}`);
-    console.log('[DeletePart] ========================================');
-
-    // Get the token from request headers
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
-
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
-
-    try {
-      // Call external API to delete the part
-      const externalResponse = await ExternalApiAdapter.callExternalApi(
-        `/api/parts/${id}`,
-        token,
-        'DELETE'
-      );
-      
-      console.log('[DeletePart] ========== EXTERNAL API RESPONSE ==========');
-      console.log('[DeletePart] Response:', JSON.stringify(externalResponse, null, 2));
-      console.log('[DeletePart] ================================================');
-      console.log('[DeletePart] ✓ Returning external API response');
-
-      // Return external API response
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error('[DeletePart] ✗ External API call failed:', extErr.message);
-      
-      // Return the error from external API
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'External API call failed' 
-      });
-    }
-  } catch (err: any) {
-    console.error('[DeletePart] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to delete part' });
-  }
-});
+registerProxyRoutes(partsRouter, [
+  {
+    name: 'DeletePart',
+    method: 'delete',
+    path: '/:id',
+    upstream: '/api/parts/:id',
+    errorMessage: 'Failed to delete part',
+  },
+]);
 
 // POST /api/parts/search-sears - Public (mirrors legacy backend implementation)
 partsRouter.post('/search-sears', async (req, res) => {
@@ -138,10 +106,16 @@ partsRouter.post('/search-sears', async (req, res) => {
 
     const partNumber = partNumberRaw;
     const modelNumber = modelNumberRaw || null;
-    const GRAPHQL_ENDPOINT = process.env.SEARS_GRAPHQL_ENDPOINT || 'https://catalog-staging.searspartsdirect.com/graphql';
-    const GRAPHQL_API_KEY = process.env.SEARS_GRAPHQL_API_KEY || 'a3kbNXnE0P81WOl04J7xd5o82pm2f3LB5vscNPUA';
+    const GRAPHQL_ENDPOINT = config.upstream.searsGraphqlEndpoint;
+    const GRAPHQL_API_KEY = config.upstream.searsGraphqlApiKey;
+    if (!GRAPHQL_API_KEY) {
+      return res.status(503).json({
+        success: false,
+        message: 'Sears parts search is not configured (SEARS_GRAPHQL_API_KEY)',
+      });
+    }
 
-    console.log(`[Sears Parts API] Searching for part: ${partNumber}${modelNumber ? ` (model: ${modelNumber})` : ''}`);
+    log.info('Searching Sears parts', { partNumber, modelNumber });
 
     const query = `
       query PartSearch($q: String!) {
@@ -174,10 +148,7 @@ partsRouter.post('/search-sears', async (req, res) => {
     } catch (error: any) {
       const fallbackUrl = `https://www.searspartsdirect.com/search?q=${encodeURIComponent(partNumber)}`;
       const status = error?.response?.status;
-      console.error(
-        `[Sears Parts API] GraphQL request failed: ${status ?? 'unknown'} (Cloudflare blocking likely)`,
-        error?.response?.data || error?.message
-      );
+      log.error('Sears GraphQL request failed (Cloudflare blocking likely)', { status, err: error });
 
       return res.json({
         success: false,
@@ -193,10 +164,10 @@ partsRouter.post('/search-sears', async (req, res) => {
     const data = gqlResponse?.data;
     let parts = data?.data?.partSearch?.parts ?? [];
 
-    console.log(`[Sears Parts API] Found ${parts.length} results before filtering`);
+    log.debug('Sears parts results before filtering', { count: parts.length });
 
     parts = parts.filter((part: any) => part?.number === partNumber);
-    console.log(`[Sears Parts API] Found ${parts.length} exact matches for ${partNumber}`);
+    log.info('Sears parts exact matches', { partNumber, count: parts.length });
 
     if (modelNumber) {
       parts.sort((a: any, b: any) => {
@@ -236,7 +207,7 @@ partsRouter.post('/search-sears', async (req, res) => {
           : `No exact matches found for ${partNumber}. Try the fallback URL.`,
     });
   } catch (err: any) {
-    console.error('[Sears Parts API] Error:', err);
+    log.error('Sears parts search failed', { err });
     return res.status(500).json({ success: false, message: err?.message || 'Failed to search Sears parts' });
   }
 });
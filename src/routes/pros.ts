@@ -1,14 +1,20 @@
 import { Router } from 'express';
 import axios from 'axios';
 import { AssignmentApplianceModel } from '../models/assignmentAppliance';
+import { config } from '../config';
+import { createLogger } from '../services/logger';
+import { requestIdHeaders } from '../services/requestContext';
+
+const log = createLogger('PROS');
 
 export const prosRouter = Router();
 
-const PROS_API_BASE_URL = process.env.PROS_API_BASE_URL || 'https://pros.shs.com';
+const PROS_API_BASE_URL = config.upstream.prosUrl;
 
 function getForwardHeaders(req: any) {
   const headers: Record<string, string> = {
     Accept: 'application/json',
+    ...requestIdHeaders(),
   };
 
   const auth = typeof req.headers.authorization === 'string' ? req.headers.authorization : '';
@@ -28,7 +34,7 @@ prosRouter.patch('/v3/assignments/:assignmentId', async (req, res) => {
 
     const upstreamUrl = `${PROS_API_BASE_URL}/api/v3/assignments/${encodeURIComponent(assignmentId)}`;
 
-    console.log('[PROS] v3/assignments -> upstream PATCH', {
+    log.info('v3/assignments -> upstream PATCH', {
       upstreamUrl,
       assignmentId,
       body: req.body,
@@ -62,9 +68,9 @@ prosRouter.patch('/v3/assignments/:assignmentId', async (req, res) => {
             },
             { upsert: true, new: true }
           );
-          console.log('[PROS] ✓ Saved appliance data to MongoDB for assignment', assignmentId);
+          log.info('Saved appliance data to MongoDB', { assignmentId });
         } catch (dbErr: any) {
-          console.error('[PROS] ⚠ Failed to save appliance data to MongoDB:', dbErr.message);
+          log.error('Failed to save appliance data to MongoDB', { assignmentId, err: dbErr });
         }
       }
     }
@@ -76,7 +82,7 @@ prosRouter.patch('/v3/assignments/:assignmentId', async (req, res) => {
     const code = err?.code || null;
     const message = err?.message || 'Failed to call PROS API';
 
-    console.error('[PROS] v3/assignments upstream error', { status, code, message, upstreamData });
+    log.error('v3/assignments upstream error', { status, code, message, upstreamData });
 
     return res.status(status).json({
       success: false,
@@ -101,7 +107,7 @@ prosRouter.post('/assignments/:assignmentId/orders/:orderId/tracking/status', as
 
     const upstreamUrl = `${PROS_API_BASE_URL}/api/assignments/${encodeURIComponent(assignmentId)}/orders/${encodeURIComponent(orderId)}/tracking/status`;
 
-    console.log('[PROS] tracking/status -> upstream POST', {
+    log.info('tracking/status -> upstream POST', {
       upstreamUrl,
       assignmentId,
       orderId,
@@ -126,7 +132,7 @@ prosRouter.post('/assignments/:assignmentId/orders/:orderId/tracking/status', as
     const code = err?.code || null;
     const message = err?.message || 'Failed to call PROS API';
 
-    console.error('[PROS] tracking/status upstream error', { status, code, message, upstreamData });
+    log.error('tracking/status upstream error', { status, code, message, upstreamData });
 
     return res.status(status).json({
       success: false,
@@ -150,7 +156,7 @@ prosRouter.post('/assignments/:assignmentId/models/parts/search-substitute', asy
 
     const upstreamUrl = `${PROS_API_BASE_URL}/api/assignments/${encodeURIComponent(assignmentId)}/models/parts/search-substitute`;
 
-    console.log('[PROS] models/parts/search-substitute -> upstream POST', {
+    log.info('models/parts/search-substitute -> upstream POST', {
       upstreamUrl,
       assignmentId,
       partsCount: parts.length,
@@ -175,7 +181,7 @@ prosRouter.post('/assignments/:assignmentId/models/parts/search-substitute', asy
     const code = err?.code || null;
     const message = err?.message || 'Failed to call PROS API';
 
-    console.error('[PROS] models/parts/search-substitute upstream error', { status, code, message, upstreamData });
+    log.error('models/parts/search-substitute upstream error', { status, code, message, upstreamData });
 
     return res.status(status).json({
       success: false,
@@ -196,7 +202,7 @@ prosRouter.delete('/assignments/:assignmentId/orders/:orderId/parts/:partId', as
 
     const upstreamUrl = `${PROS_API_BASE_URL}/api/assignments/${encodeURIComponent(assignmentId)}/orders/${encodeURIComponent(orderId)}/parts/${encodeURIComponent(partId)}`;
 
-    console.log('[PROS] orders/parts -> upstream DELETE', {
+    log.info('orders/parts -> upstream DELETE', {
       upstreamUrl,
       assignmentId,
       orderId,
@@ -220,7 +226,7 @@ prosRouter.delete('/assignments/:assignmentId/orders/:orderId/parts/:partId', as
     const code = err?.code || null;
     const message = err?.message || 'Failed to call PROS API';
 
-    console.error('[PROS] orders/parts upstream error', { status, code, message, upstreamData });
+    log.error('orders/parts upstream error', { status, code, message, upstreamData });
 
     return res.status(status).json({
       success: false,
@@ -240,7 +246,7 @@ prosRouter.get('/assignments/:assignmentId/orders/:orderId/tracking/part-order-d
 
     const upstreamUrl = `${PROS_API_BASE_URL}/api/assignments/${encodeURIComponent(assignmentId)}/orders/${encodeURIComponent(orderId)}/tracking/part-order-details`;
 
-    console.log('[PROS] tracking/part-order-details -> upstream GET', {
+    log.info('tracking/part-order-details -> upstream GET', {
       upstreamUrl,
       assignmentId,
       orderId,
@@ -263,7 +269,7 @@ prosRouter.get('/assignments/:assignmentId/orders/:orderId/tracking/part-order-d
     const code = err?.code || null;
     const message = err?.message || 'Failed to call PROS API';
 
-    console.error('[PROS] tracking/part-order-details upstream error', { status, code, message, upstreamData });
+    log.error('tracking/part-order-details upstream error', { status, code, message, upstreamData });
 
     return res.status(status).json({
       success: false,
@@ -2,6 +2,10 @@ import express, { Request, Response } from 'express';
 import multer from 'multer';
 import axios from 'axios';
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
+import { config } from '../config';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('Textract');
 
 const router = express.Router();
 
@@ -23,10 +27,10 @@ const upload = multer({
 
 // S3 Client configuration
 const s3Client = new S3Client({
-  region: process.env.AWS_REGION || 'us-east-2',
+  region: config.aws.region,
   credentials: {
-    accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
-    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
+    accessKeyId: config.aws.accessKeyId || '',
+    secretAccessKey: config.aws.secretAccessKey || '',
   },
 });
 
@@ -82,13 +86,13 @@ router.post('/extract-appliance-info', upload.single('image'), async (req: Reque
     const extractedData = await extractTextFromImageUsingChatGPT(base64Image);
 
     // Upload to S3 if successful
-    if (!extractedData.error && process.env.AWS_S3_BUCKET) {
+    if (!extractedData.error && config.aws.textractBucket) {
       try {
         const objectKey = generateS3ObjectKey(email, extractedData);
         await uploadToS3(objectKey, req.file.buffer, req.file.mimetype);
-        console.log(`Image uploaded to S3 at: ${objectKey}`);
+        log.info('Image uploaded to S3', { key: objectKey });
       } catch (s3Error) {
-        console.error('S3 upload failed:', s3Error);
+        log.error('S3 upload failed', { err: s3Error });
         // Don't fail the request if S3 upload fails
       }
     }
@@ -98,7 +102,7 @@ router.post('/extract-appliance-info', upload.single('image'), async (req: Reque
       data: extractedData,
     });
   } catch (error: any) {
-    console.error('Error extracting appliance info:', error);
+    log.error('Error extracting appliance info', { err: error });
     return res.status(500).json({
       success: false,
       error: error.message || 'Failed to extract appliance information',
@@ -150,13 +154,13 @@ router.post('/extract-all-details', upload.single('image'), async (req: Request,
     validateExtractedDetails(extractedData);
 
     // Upload to S3 if successful
-    if (!extractedData.error && process.env.AWS_S3_BUCKET) {
+    if (!extractedData.error && config.aws.textractBucket) {
       try {
         const objectKey = generateS3ObjectKey(userId, extractedData);
         await uploadToS3(objectKey, req.file.buffer, req.file.mimetype);
-        console.log(`Image uploaded to S3 at: ${objectKey}`);
+        log.info('Image uploaded to S3', { key: objectKey });
       } catch (s3Error) {
-        console.error('S3 upload failed:', s3Error);
+        log.error('S3 upload failed', { err: s3Error });
       }
     }
 
@@ -165,7 +169,7 @@ router.post('/extract-all-details', upload.single('image'), async (req: Request,
       data: extractedData,
     });
   } catch (error: any) {
-    console.error('Error extracting all appliance details:', error);
+    log.error('Error extracting all appliance details', { err: error });
     return res.status(500).json({
       success: false,
       error: error.message || 'Failed to extract appliance details',
@@ -177,7 +181,7 @@ router.post('/extract-all-details', upload.single('image'), async (req: Request,
  * Extract basic appliance information (model, serial, brand, year) from image
  */
 async function extractTextFromImageUsingChatGPT(base64Image: string): Promise<ExtractedApplianceData> {
-  const apiKey = process.env.OPENAI_API_KEY;
+  const apiKey = config.openaiApiKey;
 
   if (!apiKey) {
     throw new Error('OPENAI_API_KEY is not configured');
@@ -221,11 +225,11 @@ async function extractTextFromImageUsingChatGPT(base64Image: string): Promise<Ex
       }
     );
 
-    console.log('ChatGPT response:', JSON.stringify(response.data, null, 2));
+    log.debug('ChatGPT response', { body: response.data });
 
     return parseChatGPTResponse(response.data);
   } catch (error: any) {
-    console.error('Error calling ChatGPT API:', error.response?.data || error.message);
+    log.error('Error calling ChatGPT API', { err: error });
     return { error: 'Failed to call ChatGPT API' };
   }
 }
@@ -234,7 +238,7 @@ async function extractTextFromImageUsingChatGPT(base64Image: string): Promise<Ex
  * Extract comprehensive appliance details from image
  */
 async function extractAllApplianceDetails(base64Image: string): Promise<ExtractedApplianceData> {
-  const apiKey = process.env.OPENAI_API_KEY;
+  const apiKey = config.openaiApiKey;
 
   if (!apiKey) {
     throw new Error('OPENAI_API_KEY is not configured');
@@ -280,11 +284,11 @@ async function extractAllApplianceDetails(base64Image: string): Promise<Extracte
       }
     );
 
-    console.log('ChatGPT response:', JSON.stringify(response.data, null, 2));
+    log.debug('ChatGPT response', { body: response.data });
 
     return parseAllDetailsResponse(response.data);
   } catch (error: any) {
-    console.error('Error calling ChatGPT API:', error.response?.data || error.message);
+    log.error('Error calling ChatGPT API', { err: error });
     return { error: 'Failed to call ChatGPT API' };
   }
 }
@@ -316,7 +320,7 @@ function parseChatGPTResponse(chatGptResponse: any): ExtractedApplianceData {
       }
     }
   } catch (error) {
-    console.error('Error parsing ChatGPT response:', error);
+    log.error('Error parsing ChatGPT response', { err: error });
   }
 
   return extractedData;
@@ -341,9 +345,9 @@ function parseAllDetailsResponse(response: any): ExtractedApplianceData {
       return JSON.parse(jsonMatch[1]);
     }
 
-    console.warn('Content is not valid JSON:', content);
+    log.warn('Content is not valid JSON', { content });
   } catch (error) {
-    console.error('Error parsing response JSON:', error);
+    log.error('Error parsing response JSON', { err: error });
   }
 
   return {};
@@ -372,7 +376,7 @@ function validateExtractedDetails(details: ExtractedApplianceData): void {
         details.powerRating = `${wattage}W`;
       }
     } catch (error) {
-      console.warn('Failed to calculate power rating:', error);
+      log.warn('Failed to calculate power rating', { err: error });
     }
   }
 }
@@ -392,7 +396,7 @@ function generateS3ObjectKey(identifier: string, extractedData: ExtractedApplian
  * Upload file to S3
  */
 async function uploadToS3(key: string, buffer: Buffer, contentType: string): Promise<void> {
-  const bucketName = process.env.AWS_S3_BUCKET;
+  const bucketName = config.aws.textractBucket;
 
   if (!bucketName) {
     throw new Error('AWS_S3_BUCKET is not configured');
@@ -4,6 +4,10 @@ import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import { randomUUID } from 'crypto';
 import mime from 'mime-types';
 import type { Request } from 'express';
+import { config } from '../config';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('Upload');
 
 export const uploadsRouter = Router();
 // No authentication required for image uploads
@@ -22,13 +26,13 @@ const upload = multer({
 });
 
 // S3 client
-const REGION = process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION || 'us-east-2';
-const BUCKET = process.env.S3_BUCKET || 'sears-1099';
-const CLOUDFRONT_URL = process.env.CLOUDFRONT_URL || 'https://d1kq8vno1fudyz.cloudfront.net';
+const REGION = config.aws.region;
+const BUCKET = config.aws.uploadsBucket;
+const CLOUDFRONT_URL = config.aws.cloudfrontUrl;
 const s3 = new S3Client({
   region: REGION,
-  credentials: process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY
-    ? { accessKeyId: process.env.AWS_ACCESS_KEY_ID, secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY }
+  credentials: config.aws.accessKeyId && config.aws.secretAccessKey
+    ? { accessKeyId: config.aws.accessKeyId, secretAccessKey: config.aws.secretAccessKey }
     : undefined,
 });
 
@@ -84,22 +88,22 @@ uploadsRouter.post('/image', (req, res, next) => {
   const anyUpload = upload.any();
   anyUpload(req, res, async (err) => {
     if (err) {
-      console.error('[Upload] Multer error:', err);
+      log.warn('Multer error', { err });
       return res.status(400).json({ success: false, message: err.message });
     }
     
     // Check if we got files
     const files = (req as any).files as Express.Multer.File[];
-    console.log('[Upload] Received files:', files?.length || 0);
+    log.debug('Received files', { count: files?.length || 0 });
     
     if (!files || files.length === 0) {
-      console.error('[Upload] No files received');
+      log.warn('No files received');
       return res.status(400).json({ success: false, message: 'file is required' });
     }
     
     // Take the first file and attach it as req.file
     (req as any).file = files[0];
-    console.log('[Upload] Processing file:', files[0].originalname, 'Field:', files[0].fieldname);
+    log.info('Processing file', { fileName: files[0].originalname, field: files[0].fieldname });
     
     return handleImageUpload(req, res);
   });
@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { authenticateJWT, type AuthenticatedRequest } from '../middleware/auth';
 import { UserModel } from '../models/user';
 import { password as pwdUtil } from '../utils/password';
+import { sessionService } from '../services/sessions';
+import { passwordPolicy, PasswordPolicyError, passwordErrorResponse, PASSWORD_HISTORY_SIZE } from '../services/passwordPolicy';
 
 export const usersRouter = Router();
 
@@ -21,11 +23,38 @@ usersRouter.post('/change-password', authenticateJWT(), async (req: Authenticate
     const ok = await pwdUtil.compare(currentPassword, user.passwordHash as unknown as string);
     if (!ok) return res.status(401).json({ success: false, message: 'Current password is incorrect' });
 
+    try {
+      await passwordPolicy.assertAcceptable(user.toObject(), String(newPassword));
+    } catch (policyErr) {
+      if (policyErr instanceof PasswordPolicyError) {
+        return res.status(400).json(passwordErrorResponse('newPassword', policyErr.violations));
+      }
+      throw policyErr;
+    }
+
+    // Keep the outgoing hash so it can't be reused for the next PASSWORD_HISTORY_SIZE changes
+    const history = [...((user as any).passwordHistory || []), { hash: user.passwordHash, changedAt: new Date() }];
+    (user as any).passwordHistory = PASSWORD_HISTORY_SIZE > 0 ? history.slice(-PASSWORD_HISTORY_SIZE) : [];
     user.passwordHash = await pwdUtil.hash(newPassword) as any;
     (user as any).passwordChangedAt = new Date();
+    (user as any).mustChangePassword = false;
     await user.save();
+    sessionService.notePasswordChange(String(user._id), (user as any).passwordChangedAt);
+
+    // Every token issued before the change is now refused; sign out the other devices and give
+    // this one a fresh pair so the caller stays signed in
+    const sessionId = req.user!.sessionId;
+    const sessionsRevoked = await sessionService.revokeAllForUser(String(user._id), 'password_change', { exceptSessionId: sessionId });
+    const tokens = sessionId ? await sessionService.reissue(sessionId) : null;
 
-    return res.json({ success: true, message: 'Password changed successfully' });
+    return res.json({
+      success: true,
+      message: 'Password changed successfully',
+      data: {
+        sessionsRevoked,
+        ...(tokens && { accessToken: tokens.accessToken, refreshToken: tokens.refreshToken }),
+      },
+    });
   } catch (err: any) {
     return res.status(500).json({ success: false, message: err?.message || 'Failed to change password' });
   }
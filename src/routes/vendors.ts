@@ -1,207 +1,77 @@
 import { Router } from 'express';
+import mongoose from 'mongoose';
 import { VendorModel } from '../models/vendor';
+import { UserModel } from '../models/user';
 import { JobModel } from '../models/job';
 import { JobAssignmentModel } from '../models/jobAssignment';
-import { authenticateJWT, type AuthenticatedRequest } from '../middleware/auth';
+import { authenticateJWT, requirePermission, type AuthenticatedRequest } from '../middleware/auth';
 import { ExternalApiAdapter, EXTERNAL_API_URL } from '../services/externalApiAdapter';
+import { sendUpstreamError } from '../services/upstreamError';
+import { registerProxyRoutes } from '../services/proxyRoutes';
+import { envelopeList, type JobDTO } from '../services/responseMapping';
+import { isTimeZone } from '../services/scheduling';
+import { applyJobListQuery, jobListQuery, jobListVendorContext } from '../services/jobListing';
 import multer from 'multer';
 import FormData from 'form-data';
 import axios from 'axios';
+import { createLogger } from '../services/logger';
+import { requestIdHeaders } from '../services/requestContext';
+import { sessionService } from '../services/sessions';
+import { recordAudit } from '../services/audit';
+
+const log = createLogger('Vendors');
 
 // Configure multer for memory storage
 const upload = multer({ storage: multer.memoryStorage() });
 
 export const vendorsRouter = Router();
 
-// GET /api/vendors/me - Get current vendor profile (proxies to external API)
-// This must be defined BEFORE the authenticateJWT() middleware
-vendorsRouter.get('/me', async (req: AuthenticatedRequest, res) => {
-  try {
-    console.log('[VendorProfile] ========================================');
-    console.log('[VendorProfile] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/vendors/me`);
-    console.log('[VendorProfile] ========================================');
-
-    // Get the token from request headers
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
-
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
-
-    try {
-      // Call external API
-      const externalResponse = await ExternalApiAdapter.callExternalApi('/api/vendors/me', token, 'GET');
-      
-      console.log('[VendorProfile] ========== EXTERNAL API RESPONSE ==========');
-      console.log('[VendorProfile] Response:', JSON.stringify(externalResponse, null, 2));
-      console.log('[VendorProfile] ================================================');
-      console.log('[VendorProfile] ✓ Returning external API response (success or failure)');
-
-      // Always return external API response (even if failed)
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error('[VendorProfile] ✗ External API call failed:', extErr.message);
-      
-      // Return the error from external API
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'External API call failed' 
-      });
-    }
-  } catch (err: any) {
-    console.error('[VendorProfile] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to fetch vendor profile' });
-  }
-});
-
-// PATCH /api/vendors/me/address - NO AUTH (proxies to external API)
-// Update vendor address
-// This must be defined BEFORE the authenticateJWT() middleware
-vendorsRouter.patch('/me/address', async (req: AuthenticatedRequest, res) => {
-  try {
-    console.log('[VendorAddressUpdate] ========================================');
-    console.log('[VendorAddressUpdate] Method: PATCH');
-    console.log('[VendorAddressUpdate] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/vendors/me/address`);
-    console.log('[VendorAddressUpdate] Body:', JSON.stringify(req.body, null, 2));
-    console.log('[VendorAddressUpdate] ========================================');
-
-    // Get the token from request headers
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
-
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
-
-    try {
-      const externalResponse = await ExternalApiAdapter.callExternalApi(
-        '/api/vendors/me/address',
-        token,
-        'PATCH',
-        req.body
-      );
-
-      console.log('[VendorAddressUpdate] ========== EXTERNAL API RESPONSE ==========');
-      console.log('[VendorAddressUpdate] Response:', JSON.stringify(externalResponse, null, 2));
-      console.log('[VendorAddressUpdate] ================================================');
-      console.log('[VendorAddressUpdate] ✓ Returning external API response (success or failure)');
-
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error('[VendorAddressUpdate] ✗ External API call failed:', extErr.message);
-      return res.status(500).json({
-        success: false,
-        message: extErr.message || 'External API call failed'
-      });
-    }
-  } catch (err: any) {
-    console.error('[VendorAddressUpdate] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to update vendor address' });
-  }
-});
-
-// GET /api/vendors/me/jobs - NO AUTH (proxies to external API)
-// This must be defined BEFORE the authenticateJWT() middleware
-vendorsRouter.get('/me/jobs', async (req: AuthenticatedRequest, res) => {
-  try {
-    console.log('[VendorJobs] ========================================');
-    console.log('[VendorJobs] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/vendors/me/jobs`);
-    console.log('[VendorJobs] ========================================');
-
-    // Get the token from request headers
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
-
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
-
-    try {
-      // Call external API
-      const externalResponse = await ExternalApiAdapter.callExternalApi('/api/vendors/me/jobs', token, 'GET');
-      
-      console.log('[VendorJobs] ========== EXTERNAL API RESPONSE ==========');
-      console.log('[VendorJobs] Response:', JSON.stringify(externalResponse, null, 2));
-      console.log('[VendorJobs] ================================================');
-      console.log('[VendorJobs] ✓ Returning external API response (success or failure)');
-
-      // Always return external API response (even if failed)
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error('[VendorJobs] ✗ External API call failed:', extErr.message);
-      
-      // Return the error from external API
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'External API call failed' 
-      });
-    }
-  } catch (err: any) {
-    console.error('[VendorJobs] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to fetch vendor jobs' });
-  }
-});
-
-// GET /api/vendors/me/assignments - NO AUTH (proxies to external API)
-// This must be defined BEFORE the authenticateJWT() middleware
-vendorsRouter.get('/me/assignments', async (req: AuthenticatedRequest, res) => {
-  try {
-    console.log('[VendorAssignments] ========================================');
-    console.log('[VendorAssignments] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/vendors/me/assignments`);
-    console.log('[VendorAssignments] ========================================');
-
-    // Get the token from request headers
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
-
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
-
-    try {
-      // Call external API
-      const externalResponse = await ExternalApiAdapter.callExternalApi('/api/vendors/me/assignments', token, 'GET');
-      
-      console.log('[VendorAssignments] ========== EXTERNAL API RESPONSE ==========');
-      console.log('[VendorAssignments] Response:', JSON.stringify(externalResponse, null, 2));
-      console.log('[VendorAssignments] ================================================');
-      console.log('[VendorAssignments] ✓ Returning external API response (success or failure)');
-
-      if (externalResponse?.success && Array.isArray(externalResponse?.data)) {
-        externalResponse.data = externalResponse.data.map((assignment: any) => {
-          if (assignment && assignment.status === 'diagnostic_complete') {
-            return { ...assignment, status: 'waiting_on_parts' };
-          }
-          return assignment;
-        });
-      }
-
-      // Always return external API response (even if failed)
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error('[VendorAssignments] ✗ External API call failed:', extErr.message);
-      
-      // Return the error from external API
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'External API call failed' 
-      });
-    }
-  } catch (err: any) {
-    console.error('[VendorAssignments] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to fetch vendor assignments' });
-  }
-});
+// Pass-through routes - NO AUTH (token is forwarded to the external API as-is)
+// These must be defined BEFORE the authenticateJWT() middleware
+registerProxyRoutes(vendorsRouter, [
+  // GET /api/vendors/me - Get current vendor profile
+  {
+    name: 'VendorProfile',
+    method: 'get',
+    path: '/me',
+    upstream: '/api/vendors/me',
+    transformResponse: (data) => ExternalApiAdapter.mapToOurFormat(data, 'vendors.me'),
+    errorMessage: 'Failed to fetch vendor profile',
+  },
+  // PATCH /api/vendors/me/address - Update vendor address
+  {
+    name: 'VendorAddressUpdate',
+    method: 'patch',
+    path: '/me/address',
+    upstream: '/api/vendors/me/address',
+    errorMessage: 'Failed to update vendor address',
+  },
+  // GET /api/vendors/me/jobs
+  {
+    name: 'VendorJobs',
+    method: 'get',
+    path: '/me/jobs',
+    upstream: '/api/vendors/me/jobs',
+    errorMessage: 'Failed to fetch vendor jobs',
+  },
+  // GET /api/vendors/me/assignments
+  {
+    name: 'VendorAssignments',
+    method: 'get',
+    path: '/me/assignments',
+    upstream: '/api/vendors/me/assignments',
+    transformResponse: (data) => ExternalApiAdapter.mapToOurFormat(data, 'assignments.list'),
+    errorMessage: 'Failed to fetch vendor assignments',
+  },
+]);
 
 // GET /api/vendors/me/dashboard - NO AUTH (proxies to external API)
 // Get dashboard statistics (available jobs, my jobs, completed)
+// The available-jobs count takes the same filters as GET /api/jobs/available (applianceType, zip, ...)
 // This must be defined BEFORE the authenticateJWT() middleware
-vendorsRouter.get('/me/dashboard', async (req: AuthenticatedRequest, res) => {
+vendorsRouter.get('/me/dashboard', jobListQuery, jobListVendorContext, async (req: AuthenticatedRequest, res) => {
   try {
-    console.log('[VendorDashboard] ========================================');
-    console.log('[VendorDashboard] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/vendors/me/dashboard`);
-    console.log('[VendorDashboard] ========================================');
+    log.info('Building vendor dashboard', { url: `${EXTERNAL_API_URL}/api/vendors/me/dashboard` });
 
     // Get the token from request headers
     const authHeader = req.headers.authorization;
@@ -218,45 +88,26 @@ vendorsRouter.get('/me/dashboard', async (req: AuthenticatedRequest, res) => {
         ExternalApiAdapter.callExternalApi('/api/vendors/me/assignments', token, 'GET')
       ]);
       
-      console.log('[VendorDashboard] ========== EXTERNAL API RESPONSES ==========');
-      console.log('[VendorDashboard] Available Jobs Response:', JSON.stringify(availableJobsResponse, null, 2));
-      console.log('[VendorDashboard] Assignments Response:', JSON.stringify(assignmentsResponse, null, 2));
-      console.log('[VendorDashboard] ================================================');
+      log.debug('Dashboard upstream responses', { availableJobs: availableJobsResponse, assignments: assignmentsResponse });
 
       // Calculate statistics
-      // Extract jobs array - check if data is already an array, otherwise look for data.jobs
-      let availableJobs = Array.isArray(availableJobsResponse?.data) 
-        ? availableJobsResponse.data 
-        : (availableJobsResponse?.data?.jobs || []);
+      // Extract jobs array - { data: [...] }, { data: { jobs: [...] } } or { data: { data: [...] } }
+      const availableJobs: JobDTO[] = envelopeList(ExternalApiAdapter.mapToOurFormat(availableJobsResponse, 'jobs.available'))?.items || [];
       
-      // Filter jobs to only include future dates (excluding today) - same logic as /api/jobs/available
-      // Use UTC cutoff to avoid server-timezone-dependent results (scheduledDate is in Z/UTC)
-      const now = new Date();
-      const tomorrow = new Date(
-        Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1, 0, 0, 0, 0)
-      );
-      
-      availableJobs = availableJobs.filter((job: any) => {
-        const status = String(job?.status || '').toLowerCase();
-        if (status !== 'available') return false;
-        if (!job.scheduledDate) return false;
-        const scheduledDate = new Date(job.scheduledDate);
-        if (isNaN(scheduledDate.getTime())) return false;
-        return scheduledDate >= tomorrow;
+      // Counted exactly like /api/jobs/available filters them; paging does not apply to a count
+      const { total: availableJobsCount } = applyJobListQuery(availableJobs, { ...res.locals.jobListQuery, page: undefined }, {
+        origin: res.locals.jobListOrigin,
+        schedule: res.locals.jobListSchedule,
       });
-      
+
       const assignments = assignmentsResponse?.data || [];
       
-      const availableJobsCount = Array.isArray(availableJobs) ? availableJobs.length : 0;
       const myJobsCount = Array.isArray(assignments) ? assignments.length : 0;
       const completedCount = Array.isArray(assignments) 
         ? assignments.filter((a: any) => a.status === 'completed').length 
         : 0;
       
-      console.log('[VendorDashboard] Calculated Statistics:');
-      console.log('[VendorDashboard]   Available Jobs Count:', availableJobsCount);
-      console.log('[VendorDashboard]   My Jobs Count:', myJobsCount);
-      console.log('[VendorDashboard]   Completed Count:', completedCount);
+      log.info('Dashboard statistics', { availableJobsCount, myJobsCount, completedCount });
 
       const dashboardData = {
         success: true,
@@ -281,128 +132,44 @@ vendorsRouter.get('/me/dashboard', async (req: AuthenticatedRequest, res) => {
         }
       };
 
-      console.log('[VendorDashboard] ✓ Returning dashboard statistics:', JSON.stringify(dashboardData, null, 2));
-
       return res.json(dashboardData);
     } catch (extErr: any) {
-      console.error('[VendorDashboard] ✗ External API call failed:', extErr.message);
-      
-      // Return the error from external API
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'External API call failed' 
-      });
-    }
-  } catch (err: any) {
-    console.error('[VendorDashboard] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to fetch dashboard data' });
-  }
-});
-
-// POST /api/vendors/me/parts - NO AUTH (proxies to external API)
-// This must be defined BEFORE the authenticateJWT() middleware
-vendorsRouter.post('/me/parts', async (req: AuthenticatedRequest, res) => {
-  try {
-    console.log('[VendorParts] ========================================');
-    console.log('[VendorParts] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/vendors/me/parts`);
-    console.log('[VendorParts] Body:', JSON.stringify(req.body, null, 2));
-    console.log('[VendorParts] ========================================');
-
-    // Get the token from request headers
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
-
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
-
-    try {
-      // Call external API
-      const externalResponse = await ExternalApiAdapter.callExternalApi(
-        '/api/vendors/me/parts',
-        token,
-        'POST',
-        req.body
-      );
-      
-      console.log('[VendorParts] ========== EXTERNAL API RESPONSE ==========');
-      console.log('[VendorParts] Response:', JSON.stringify(externalResponse, null, 2));
-      console.log('[VendorParts] ================================================');
-      console.log('[VendorParts] ✓ Returning external API response (success or failure)');
-
-      // Always return external API response (even if failed)
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error('[VendorParts] ✗ External API call failed:', extErr.message);
+      log.error('Dashboard: external API call failed', { err: extErr });
       
       // Return the error from external API
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'External API call failed' 
-      });
+      return sendUpstreamError(res, extErr, 'External API call failed');
     }
   } catch (err: any) {
-    console.error('[VendorParts] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to add parts' });
+    log.error('Dashboard: unexpected error', { err });
+    return sendUpstreamError(res, err, 'Failed to fetch dashboard data');
   }
 });
 
-// DELETE /api/vendors/me/parts/:partId - NO AUTH (proxies to external API)
-// Delete a part that was previously added by the vendor
-// This must be defined BEFORE the authenticateJWT() middleware
-vendorsRouter.delete('/me/parts/:partId', async (req: AuthenticatedRequest, res) => {
-  try {
-    const { partId } = req.params;
-    
-    console.log('[DeleteVendorPart] ========================================');
-    console.log('[DeleteVendorPart] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/vendors/me/parts/${partId}`);
-    console.log('[DeleteVendorPart] ========================================');
-
-    // Get the token from request headers
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
-
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'No token provided' });
-    }
-
-    try {
-      // Call external API to delete the part
-      const externalResponse = await ExternalApiAdapter.callExternalApi(
-        `/api/vendors/me/parts/${partId}`,
-        token,
-        'DELETE'
-      );
-      
-      console.log('[DeleteVendorPart] ========== EXTERNAL API RESPONSE ==========');
-      console.log('[DeleteVendorPart] Response:', JSON.stringify(externalResponse, null, 2));
-      console.log('[DeleteVendorPart] ================================================');
-      console.log('[DeleteVendorPart] ✓ Returning external API response');
-
-      // Return external API response
-      return res.json(externalResponse);
-    } catch (extErr: any) {
-      console.error('[DeleteVendorPart] ✗ External API call failed:', extErr.message);
-      
-      // Return the error from external API
-      return res.status(500).json({ 
-        success: false, 
-        message: extErr.message || 'External API call failed' 
-      });
-    }
-  } catch (err: any) {
-    console.error('[DeleteVendorPart] Unexpected error:', err);
-    return res.status(500).json({ success: false, message: err?.message || 'Failed to delete part' });
-  }
-});
+registerProxyRoutes(vendorsRouter, [
+  // POST /api/vendors/me/parts - NO AUTH
+  {
+    name: 'VendorParts',
+    method: 'post',
+    path: '/me/parts',
+    upstream: '/api/vendors/me/parts',
+    errorMessage: 'Failed to add parts',
+  },
+  // DELETE /api/vendors/me/parts/:partId - NO AUTH
+  // Delete a part that was previously added by the vendor
+  {
+    name: 'DeleteVendorPart',
+    method: 'delete',
+    path: '/me/parts/:partId',
+    upstream: '/api/vendors/me/parts/:partId',
+    errorMessage: 'Failed to delete part',
+  },
+]);
 
 // POST /api/vendors/me/photos - NO AUTH (proxies to external API)
 // Upload photos for an assignment - handles multipart/form-data
 vendorsRouter.post('/me/photos', upload.array('photos', 10), async (req: AuthenticatedRequest, res) => {
   try {
-    console.log('[VendorPhotos] ========================================');
-    console.log('[VendorPhotos] Calling EXTERNAL API:', `${EXTERNAL_API_URL}/api/vendors/me/photos`);
-    console.log('[VendorPhotos] ========================================');
+    log.info('Uploading vendor photos', { url: `${EXTERNAL_API_URL}/api/vendors/me/photos` });
 
     // Get the token from request headers
     const authHeader = req.headers.authorization;
@@ -443,22 +210,19 @@ vendorsRouter.post('/me/photos', upload.array('photos', 10), async (req: Authent
           headers: {
             ...formData.getHeaders(),
             'Authorization': `Bearer ${token}`,
+            ...requestIdHeaders(),
           },
           timeout: 30000,
         }
       );
       
-      console.log('[VendorPhotos] ✓ Returning external API response');
       return res.json(response.data);
     } catch (extErr: any) {
-      console.error('[VendorPhotos] ✗ External API call failed:', extErr.message);
-      return res.status(extErr.response?.status || 500).json({ 
-        success: false, 
-        message: extErr.response?.data?.message || extErr.message || 'External API call failed' 
-      });
+      log.error('Vendor photos: external API call failed', { err: extErr });
+      return sendUpstreamError(res, extErr, 'External API call failed');
     }
   } catch (err: any) {
-    console.error('[VendorPhotos] Unexpected error:', err);
+    log.error('Vendor photos: unexpected error', { err });
     return res.status(500).json({ success: false, message: err?.message || 'Failed to upload photos' });
   }
 });
@@ -467,7 +231,7 @@ vendorsRouter.post('/me/photos', upload.array('photos', 10), async (req: Authent
 vendorsRouter.use(authenticateJWT());
 
 // GET /api/vendors/me
-vendorsRouter.get('/me', async (req: AuthenticatedRequest, res) => {
+vendorsRouter.get('/me', requirePermission('view_vendor_portal'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.user?.vendorId) {
       return res.status(400).json({ success: false, message: 'User is not linked to a vendor' });
@@ -503,17 +267,23 @@ vendorsRouter.get('/me', async (req: AuthenticatedRequest, res) => {
 });
 
 // PATCH /api/vendors/me
-// Update vendor profile fields: phone, serviceAreas, appliances, available
-vendorsRouter.patch('/me', async (req: AuthenticatedRequest, res) => {
+// Update vendor profile fields: phone, serviceAreas, appliances, available, timeZone
+vendorsRouter.patch('/me', requirePermission('view_vendor_portal'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.user?.vendorId) return res.status(400).json({ success: false, message: 'User is not linked to a vendor' });
 
-    const { phone, serviceAreas, appliances, available } = req.body || {};
+    const { phone, serviceAreas, appliances, available, timeZone } = req.body || {};
     const updates: any = {};
     if (typeof phone === 'string') updates.phone = phone;
     if (Array.isArray(serviceAreas)) updates.serviceAreas = serviceAreas;
     if (Array.isArray(appliances)) updates.appliances = appliances;
     if (typeof available === 'boolean') updates.available = available;
+    if (timeZone !== undefined) {
+      if (!isTimeZone(timeZone)) {
+        return res.status(422).json({ success: false, message: 'timeZone must be an IANA time zone, e.g. America/Los_Angeles' });
+      }
+      updates.timeZone = timeZone;
+    }
 
     if (Object.keys(updates).length === 0) {
       return res.status(400).json({ success: false, message: 'No valid fields to update' });
@@ -537,6 +307,7 @@ vendorsRouter.patch('/me', async (req: AuthenticatedRequest, res) => {
         serviceAreas: (vendor as any).serviceAreas || [],
         appliances: (vendor as any).appliances || [],
         available: (vendor as any).available !== false,
+        timeZone: (vendor as any).timeZone || null,
         isActive: vendor.isActive !== false,
         createdAt: (vendor as any).createdAt || null,
         stats: { totalJobs, completedJobs, averageRating },
@@ -547,37 +318,104 @@ vendorsRouter.patch('/me', async (req: AuthenticatedRequest, res) => {
   }
 });
 
-// Mapping helper (kept local to this file)
-function mapToJobDTO(doc: any) {
-  const soNumber = doc.soNumber || doc.raw?.SO_NO || `SO-${String(doc._id).slice(-6)}`;
-  const customerName: string | undefined = doc.customerName || doc.raw?.CUS_NM || undefined;
-  let firstName: string | undefined = customerName;
-  let lastName: string | undefined = undefined;
-  if (customerName && customerName.includes(' ')) {
-    const parts = String(customerName).split(/\s+/);
-    firstName = parts.shift();
-    lastName = parts.join(' ') || undefined;
-  }
+// Roles a vendor admin may hold and hand out within their own vendor
+const VENDOR_USER_ROLES = ['registered_user', 'vendor_admin'];
+
+function toVendorUserDTO(user: any) {
   return {
-    id: String(doc._id),
-    soNumber,
-    customerName: firstName || customerName || null,
-    customerLastName: lastName || null,
-    customerCity: doc.customerCity || doc.raw?.CUS_CTY_NM || null,
-    customerState: doc.customerState || doc.raw?.CUS_ST_CD || null,
-    customerZip: doc.customerZip || doc.raw?.ZIP_CD || doc.raw?.CN_ZIP_PC || null,
-    applianceType: doc.applianceType || doc.raw?.HS_SP_CD || doc.raw?.SPECIALTY || null,
-    serviceDescription: doc.serviceDescription || doc.raw?.SVC_RQ_DS || doc.raw?.REPAIR_TYPE || null,
-    scheduledDate: doc.scheduledDate || (doc.raw?.SVC_SCH_DT ? new Date(doc.raw.SVC_SCH_DT) : null),
-    scheduledTimeWindow: doc.scheduledTimeWindow || null,
-    priority: doc.priority || 'medium',
-    status: doc.status || 'available',
+    id: String(user._id),
+    username: user.username,
+    email: user.email || null,
+    role: user.role || 'registered_user',
+    isActive: user.isActive !== false,
+    lastLoginAt: user.lastLoginAt || null,
+    createdAt: user.createdAt || null,
   };
 }
 
+// GET /api/vendors/me/users
+// The accounts linked to the caller's vendor
+vendorsRouter.get('/me/users', requirePermission('manage_vendor_users'), async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user?.vendorId) return res.status(400).json({ success: false, message: 'User is not linked to a vendor' });
+
+    const users = await UserModel.find({ vendorId: req.user.vendorId }).sort({ username: 1 }).lean();
+    return res.json({ success: true, data: users.map(toVendorUserDTO) });
+  } catch (err: any) {
+    log.error('Failed to list vendor users', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to list vendor users' });
+  }
+});
+
+// PATCH /api/vendors/me/users/:userId
+// Body: { role?: 'registered_user' | 'vendor_admin', isActive?: boolean }
+// Only for technicians and vendor admins of the caller's own vendor; a change signs the user out.
+vendorsRouter.patch('/me/users/:userId', requirePermission('manage_vendor_users'), async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user?.vendorId) return res.status(400).json({ success: false, message: 'User is not linked to a vendor' });
+    const { userId } = req.params;
+    if (!mongoose.isValidObjectId(userId)) {
+      return res.status(400).json({ success: false, message: 'Invalid user id' });
+    }
+    if (userId === req.user.userId) {
+      return res.status(400).json({ success: false, message: 'You cannot change your own account here' });
+    }
+
+    const { role, isActive } = req.body || {};
+    const $set: Record<string, any> = {};
+    if (role !== undefined) {
+      if (!VENDOR_USER_ROLES.includes(role)) {
+        return res.status(400).json({ success: false, message: `role must be one of ${VENDOR_USER_ROLES.join(', ')}` });
+      }
+      $set.role = role;
+    }
+    if (isActive !== undefined) {
+      if (typeof isActive !== 'boolean') {
+        return res.status(400).json({ success: false, message: 'isActive must be a boolean' });
+      }
+      $set.isActive = isActive;
+    }
+    if (Object.keys($set).length === 0) {
+      return res.status(400).json({ success: false, message: 'No changes provided' });
+    }
+
+    const user: any = await UserModel.findOne({ _id: userId, vendorId: req.user.vendorId }).lean();
+    if (!user || !VENDOR_USER_ROLES.includes(user.role || 'registered_user')) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    const updated: any = await UserModel.findByIdAndUpdate(userId, { $set }, { new: true }).lean();
+
+    const changes: Record<string, { from: any; to: any }> = {};
+    for (const field of ['role', 'isActive']) {
+      if (field in $set && user[field] !== updated[field]) changes[field] = { from: user[field] ?? null, to: updated[field] };
+    }
+
+    // Existing tokens carry the old role; make the user sign in again
+    let sessionsRevoked = 0;
+    if (Object.keys(changes).length > 0) {
+      const reason = changes.isActive && updated.isActive === false ? 'user_deactivated' : 'user_updated';
+      sessionsRevoked = await sessionService.revokeAllForUser(userId, reason, { revokedBy: req.user.userId });
+      await recordAudit({
+        action: 'vendor_user.updated',
+        actorUserId: req.user.userId,
+        targetUserId: userId,
+        username: updated.username,
+        ipAddress: req.ip,
+        metadata: { vendorId: String(req.user.vendorId), changes, sessionsRevoked },
+      });
+    }
+
+    return res.json({ success: true, data: toVendorUserDTO(updated), sessionsRevoked });
+  } catch (err: any) {
+    log.error('Failed to update vendor user', { err });
+    return res.status(500).json({ success: false, message: err?.message || 'Failed to update vendor user' });
+  }
+});
+
 // GET /api/vendors/me/dashboard
 // Returns KPI-style metrics for the vendor dashboard
-vendorsRouter.get('/me/dashboard', async (req: AuthenticatedRequest, res) => {
+vendorsRouter.get('/me/dashboard', requirePermission('view_vendor_portal'), async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.user?.vendorId) return res.status(400).json({ success: false, message: 'User is not linked to a vendor' });
 
@@ -2,8 +2,8 @@ import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import morgan from 'morgan';
 import cookieParser from 'cookie-parser';
+import { config, describeConfig, validateConfig } from './config';
 import { connectMongo } from './mongo/connection';
 import { authRouter } from './routes/auth';
 import { vendorsRouter } from './routes/vendors';
@@ -11,6 +11,10 @@ import { jobsRouter } from './routes/jobs';
 import { assignmentsRouter } from './routes/assignments';
 import { usersRouter } from './routes/users';
 import { startJobWatcher } from './services/jobWatcher';
+import { permissionService } from './services/permissions';
+import { upstreamBreaker } from './services/upstreamResilience';
+import { writeOutbox } from './services/writeOutbox';
+import { jobSync } from './services/jobSync';
 import { partsRouter } from './routes/parts';
 import { uploadsRouter } from './routes/uploads';
 import { logsRouter } from './routes/logs';
@@ -20,22 +24,37 @@ import { analyticsRouter } from './routes/analytics';
 import { hspRouter } from './routes/hsp';
 import { prosRouter } from './routes/pros';
 import debugRouter from './routes/debug';
+import { adminRouter } from './routes/admin';
+import { outboxRouter } from './routes/outbox';
 import axios from 'axios';
 import { apiAnalyticsLogger } from './middleware/apiAnalytics';
+import { requestContext } from './middleware/requestContext';
+import { createLogger } from './services/logger';
+import { requestIdHeaders } from './services/requestContext';
 
-const EXTERNAL_API_URL = process.env.EXTERNAL_API_URL || 'https://shs-1099-job-board.replit.app';
+const EXTERNAL_API_URL = config.upstream.jobBoardUrl;
 
-const PORT = Number(process.env.PORT || 5001);
+const PORT = config.port;
+
+const log = createLogger('Server');
 
 async function main() {
+  // Fail fast on invalid settings (and default secrets in production) before touching anything
+  for (const warning of validateConfig()) log.warn(warning);
+  log.info('Effective configuration', { config: describeConfig() });
   await connectMongo();
+  // Make sure the built-in roles exist so permission checks have something to resolve against
+  await permissionService.seedDefaults().catch((err) => log.error('Failed to seed roles', { err }));
   // Start background watcher to notify on newly inserted jobs (requires Mongo replica set / Atlas)
-  startJobWatcher().catch((err) => console.error('[JobWatcher] failed to start', err));
+  startJobWatcher().catch((err) => log.error('Job watcher failed to start', { err }));
+  // Replay assignment writes queued while the upstream was down (WRITE_OUTBOX_ENABLED)
+  writeOutbox.start();
+  jobSync.start();
 
   const app = express();
+  app.use(requestContext);
   app.use(helmet());
-  app.use(cors({ origin: true, credentials: true }));
-  app.use(morgan('dev'));
+  app.use(cors({ origin: true, credentials: true, exposedHeaders: ['X-Request-Id'] }));
   app.use(express.json());
   app.use(cookieParser());
   app.use(apiAnalyticsLogger);
@@ -45,7 +64,16 @@ async function main() {
   });
 
   app.get('/health', (_req, res) => {
-    res.json({ ok: true, service: 'job-board-mongo-api' });
+    // Upstream outages don't make this service unhealthy; the breaker state is informational
+    const breakers = upstreamBreaker.snapshot();
+    res.json({
+      ok: true,
+      service: 'job-board-mongo-api',
+      upstream: {
+        degraded: breakers.some((b) => b.state !== 'closed'),
+        breakers,
+      },
+    });
   });
 
   app.use('/api/auth', authRouter);
@@ -63,6 +91,8 @@ async function main() {
   app.use('/api/pros', prosRouter);
   app.use('/api', prosRouter);  // expose /api/v3/assignments/:id without /pros prefix
   app.use('/api/debug', debugRouter);  // Debug endpoint to check headers
+  app.use('/api/admin', adminRouter);
+  app.use('/api/outbox', outboxRouter);
 
   // Photo proxy route - mirrors external API structure
   app.get('/uploads/photos/*', async (req, res) => {
@@ -70,7 +100,7 @@ async function main() {
       const photoPath = (req.params as any)[0];
       const fullPath = `/uploads/photos/${photoPath}`;
       
-      console.log('[PhotoProxy] Downloading photo:', `${EXTERNAL_API_URL}${fullPath}`);
+      log.debug('Downloading photo', { url: `${EXTERNAL_API_URL}${fullPath}` });
 
       const authHeader = req.headers.authorization;
       const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
@@ -84,6 +114,7 @@ async function main() {
         url: `${EXTERNAL_API_URL}${fullPath}`,
         headers: {
           'Authorization': `Bearer ${token}`,
+          ...requestIdHeaders(),
         },
         responseType: 'stream',
         timeout: 30000,
@@ -98,7 +129,7 @@ async function main() {
       
       response.data.pipe(res);
     } catch (err: any) {
-      console.error('[PhotoProxy] Error:', err.message);
+      log.error('Photo download failed', { path: req.path, err });
       return res.status(err.response?.status || 500).json({ 
         success: false, 
         message: err.message || 'Failed to download photo' 
@@ -114,16 +145,16 @@ async function main() {
   // Error handler
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   app.use((err: any, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
-    console.error('[ERROR]', err);
+    log.error('Unhandled error', { err });
     res.status(500).json({ success: false, message: err?.message || 'Internal server error' });
   });
 
   app.listen(PORT, () => {
-    console.log(`Server running on http://localhost:${PORT}`);
+    log.info(`Server running on http://localhost:${PORT}`);
   });
 }
 
 main().catch((err) => {
-  console.error('Fatal error:', err);
+  log.error('Fatal error', { err });
   process.exit(1);
 });
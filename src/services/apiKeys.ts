@@ -0,0 +1,170 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { ApiKeyModel } from '../models/apiKey';
+import { recordAudit } from './audit';
+import { config } from '../config';
+import { createLogger } from './logger';
+
+const log = createLogger('ApiKeys');
+
+// jobs:write creates jobs (POST /api/jobs); analytics:read reads /api/analytics. Job reads are
+// upstream pass-throughs authorized by the caller's upstream token, so there is no read scope.
+export const API_KEY_SCOPES = ['jobs:write', 'analytics:read'] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+const KEY_PREFIX = 'jbk';
+const DEFAULT_RATE_LIMIT_PER_MINUTE = config.auth.apiKeyDefaultRateLimit;
+
+// Key records are cached briefly; revocations made by this process drop the entry immediately
+const CACHE_TTL_MS = 30_000;
+const USAGE_WRITE_INTERVAL_MS = 60_000;
+
+const keyCache = new Map<string, { key: any; loadedAt: number }>();
+// Fixed one-minute windows per key. In-memory, so the limit applies per server process.
+const rateWindows = new Map<string, { windowStart: number; count: number }>();
+const pendingUsage = new Map<string, { count: number; lastWriteAt: number }>();
+
+export type ApiKeyPrincipal = {
+  keyId: string;
+  name: string;
+  scopes: string[];
+};
+
+export class ApiKeyError extends Error {
+  constructor(message: string, public readonly status = 401, public readonly retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+function hashSecret(secret: string) {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function parseKey(raw: string) {
+  const [prefix, keyId, secret] = raw.trim().split('_');
+  if (prefix !== KEY_PREFIX || !keyId || !secret) return null;
+  return { keyId, secret };
+}
+
+async function loadKey(keyId: string) {
+  const cached = keyCache.get(keyId);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.key;
+  const key: any = await ApiKeyModel.findOne({ keyId }).lean();
+  if (keyCache.size >= 10_000) keyCache.clear();
+  keyCache.set(keyId, { key, loadedAt: Date.now() });
+  return key;
+}
+
+function consumeRateLimit(keyId: string, limitPerMinute: number) {
+  const now = Date.now();
+  const window = rateWindows.get(keyId);
+  if (!window || now - window.windowStart >= 60_000) {
+    rateWindows.set(keyId, { windowStart: now, count: 1 });
+    return;
+  }
+  if (window.count >= limitPerMinute) {
+    throw new ApiKeyError('API key rate limit exceeded', 429, Math.ceil((window.windowStart + 60_000 - now) / 1000));
+  }
+  window.count += 1;
+}
+
+// lastUsedAt / usageCount are written at most once a minute per key
+function recordUsage(keyId: string, ipAddress?: string) {
+  const usage = pendingUsage.get(keyId) || { count: 0, lastWriteAt: 0 };
+  usage.count += 1;
+  pendingUsage.set(keyId, usage);
+  if (Date.now() - usage.lastWriteAt < USAGE_WRITE_INTERVAL_MS) return;
+
+  const count = usage.count;
+  usage.count = 0;
+  usage.lastWriteAt = Date.now();
+  ApiKeyModel.updateOne(
+    { keyId },
+    { $set: { lastUsedAt: new Date(), lastUsedIp: ipAddress }, $inc: { usageCount: count } }
+  ).catch((err: any) => {
+    log.error('Failed to record usage', { err });
+  });
+}
+
+export const apiKeyService = {
+  /**
+   * Create a key. The returned `key` is the only time the full secret is available.
+   */
+  async create(
+    input: { name: string; scopes: ApiKeyScope[]; expiresAt?: Date; rateLimitPerMinute?: number },
+    createdBy?: string
+  ) {
+    const keyId = randomBytes(6).toString('hex');
+    const secret = randomBytes(32).toString('hex');
+
+    const record = await ApiKeyModel.create({
+      keyId,
+      keyHash: hashSecret(secret),
+      name: input.name,
+      scopes: Array.from(new Set(input.scopes)),
+      rateLimitPerMinute: input.rateLimitPerMinute || DEFAULT_RATE_LIMIT_PER_MINUTE,
+      expiresAt: input.expiresAt,
+      createdBy,
+    });
+
+    await recordAudit({
+      action: 'api_key.created',
+      actorUserId: createdBy,
+      metadata: { keyId, name: input.name, scopes: record.scopes, expiresAt: input.expiresAt },
+    });
+
+    return { key: `${KEY_PREFIX}_${keyId}_${secret}`, record: record.toObject() };
+  },
+
+  async list(options: { includeRevoked?: boolean } = {}) {
+    const filter: Record<string, any> = {};
+    if (!options.includeRevoked) filter.revokedAt = { $exists: false };
+    return ApiKeyModel.find(filter).select('-keyHash').sort({ createdAt: -1 }).lean();
+  },
+
+  async revoke(keyId: string, revokedBy?: string) {
+    const key: any = await ApiKeyModel.findOneAndUpdate(
+      { keyId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedBy } },
+      { new: true }
+    ).select('-keyHash').lean();
+    keyCache.delete(keyId);
+    if (!key) return null;
+
+    await recordAudit({ action: 'api_key.revoked', actorUserId: revokedBy, metadata: { keyId, name: key.name } });
+    return key;
+  },
+
+  /**
+   * Resolve an X-Api-Key header value. Throws ApiKeyError when the key is unknown, revoked,
+   * expired, missing a required scope or over its rate limit.
+   */
+  async authenticate(rawKey: string, requiredScopes: readonly string[], ipAddress?: string): Promise<ApiKeyPrincipal> {
+    const parsed = parseKey(rawKey);
+    if (!parsed) throw new ApiKeyError('Invalid API key');
+
+    const key = await loadKey(parsed.keyId);
+    const expected = key ? Buffer.from(key.keyHash, 'hex') : null;
+    const actual = Buffer.from(hashSecret(parsed.secret), 'hex');
+    if (!key || !expected || expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new ApiKeyError('Invalid API key');
+    }
+    if (key.revokedAt) throw new ApiKeyError('API key has been revoked');
+    if (key.expiresAt && new Date(key.expiresAt) <= new Date()) throw new ApiKeyError('API key has expired');
+
+    const scopes: string[] = key.scopes || [];
+    const missing = requiredScopes.filter((s) => !scopes.includes(s));
+    if (missing.length > 0) {
+      throw new ApiKeyError(`API key is missing required scope: ${missing.join(', ')}`, 403);
+    }
+
+    consumeRateLimit(key.keyId, key.rateLimitPerMinute || DEFAULT_RATE_LIMIT_PER_MINUTE);
+    recordUsage(key.keyId, ipAddress);
+
+    return { keyId: key.keyId, name: key.name, scopes };
+  },
+};
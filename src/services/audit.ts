@@ -0,0 +1,32 @@
+import { AuditLogModel } from '../models/auditLog';
+import { createLogger } from './logger';
+
+const log = createLogger('Audit');
+
+export type AuditEvent = {
+  action: string;
+  actorUserId?: string | null;
+  targetUserId?: string | null;
+  username?: string | null;
+  ipAddress?: string | null;
+  metadata?: Record<string, any>;
+};
+
+/**
+ * Persist an audit event. Best-effort: failures are logged and never thrown,
+ * so auditing can't break the request that triggered it.
+ */
+export async function recordAudit(event: AuditEvent) {
+  try {
+    await AuditLogModel.create({
+      action: event.action,
+      actorUserId: event.actorUserId ?? null,
+      targetUserId: event.targetUserId ?? null,
+      username: event.username ?? null,
+      ipAddress: event.ipAddress ?? null,
+      metadata: event.metadata,
+    });
+  } catch (err: any) {
+    log.error('Failed to persist event', { action: event.action, err });
+  }
+}
@@ -1,42 +1,104 @@
 import axios from 'axios';
 import FormData from 'form-data';
 import { ExternalApiCacheModel } from '../models/externalApiCache';
+import { UpstreamError } from './upstreamError';
+import { mapUpstreamResponse, type MappedEndpoint } from './responseMapping';
+import { upstreamCache, type CacheOutcome } from './upstreamCache';
+import { CircuitOpenError, resolveRetryPolicy, upstreamBreaker, withRetries } from './upstreamResilience';
+import { config } from '../config';
+import { createLogger } from './logger';
+import { requestIdHeaders } from './requestContext';
 
 //const EXTERNAL_API_BASE_URL = 'https://48d99eca-33b7-4a28-9c21-b6eaa571ad6b-00-2397wpudnvwvi.picard.replit.dev';
-const EXTERNAL_API_BASE_URL = 'https://shs-1099-job-board.replit.app';
+const EXTERNAL_API_BASE_URL = config.upstream.jobBoardUrl;
+
+const log = createLogger('ExternalApiAdapter');
 
 // Export the base URL so routes can use it in logs
 export const EXTERNAL_API_URL = EXTERNAL_API_BASE_URL;
 
+// Identical GETs (same token and URL) in flight at the same time share one upstream request
+const inflightGets = new Map<string, { promise: Promise<any>; joined: number }>();
+const singleFlightStats = { requests: 0, saved: 0, byEndpoint: new Map<string, number>() };
+
+// Collapse ids in a path so saved calls are counted per endpoint, e.g. /api/jobs/:id
+function endpointPattern(endpoint: string) {
+  return endpoint
+    .split('?')[0]
+    .replace(/\/([^/]*\d[^/]*)(?=\/|$)/g, (segment, part: string) => (/^v\d+$/.test(part) ? segment : '/:id'));
+}
+
+// Callers map and filter the response in place, so when a request was shared every caller
+// gets its own copy of it
+function copyOf(data: any) {
+  return data && typeof data === 'object' ? structuredClone(data) : data;
+}
+
+function singleFlight(key: string, endpoint: string, call: () => Promise<any>): Promise<any> {
+  singleFlightStats.requests += 1;
+  const inflight = inflightGets.get(key);
+  if (inflight) {
+    inflight.joined += 1;
+    singleFlightStats.saved += 1;
+    const pattern = endpointPattern(endpoint);
+    singleFlightStats.byEndpoint.set(pattern, (singleFlightStats.byEndpoint.get(pattern) || 0) + 1);
+    return inflight.promise.then(copyOf);
+  }
+
+  // The entry is removed as soon as the call settles, before any caller sees the result
+  const entry = { promise: call().finally(() => inflightGets.delete(key)), joined: 0 };
+  inflightGets.set(key, entry);
+  return entry.promise.then((data) => (entry.joined > 0 ? copyOf(data) : data));
+}
+
+export const singleFlightMetrics = {
+  snapshot() {
+    return {
+      requests: singleFlightStats.requests,
+      saved: singleFlightStats.saved,
+      inFlight: inflightGets.size,
+      byEndpoint: Array.from(singleFlightStats.byEndpoint.entries())
+        .map(([endpoint, saved]) => ({ endpoint, saved }))
+        .sort((a, b) => b.saved - a.saved),
+    };
+  },
+};
+
+export type CallOptions = {
+  // Told how a GET was served (cache hit, stale, miss or not cached)
+  onCache?: (outcome: CacheOutcome) => void;
+  // Always ask the upstream, e.g. for the job sync, which must not copy a cached answer
+  noCache?: boolean;
+};
+
+export type LoginOptions = {
+  // False for service accounts (the job sync) whose sign-ins shouldn't be kept as login cache entries
+  persist?: boolean;
+};
+
 export class ExternalApiAdapter {
   /**
-   * Call external login API and cache the response
+   * Call external login API and cache the response (unless options.persist is false)
    */
-  static async login(username: string, password: string, role?: string) {
+  static async login(username: string, password: string, role?: string, options: LoginOptions = {}) {
     const url = `${EXTERNAL_API_BASE_URL}/api/auth/login`;
     
     try {
       const requestData = { username, password, role: role || 'registered_user' };
       
-      console.log('[ExternalApiAdapter] ========== EXTERNAL API REQUEST ==========');
-      console.log('[ExternalApiAdapter] URL:', url);
-      console.log('[ExternalApiAdapter] Method: POST');
-      console.log('[ExternalApiAdapter] Request Body:', JSON.stringify(requestData, null, 2));
-      console.log('[ExternalApiAdapter] Timeout: 30000ms (30 seconds)');
+      log.info('Login request', { url, username, role: requestData.role });
       
-      // Call external API with increased timeout
-      const response = await axios.post(url, requestData, {
-        headers: { 'Content-Type': 'application/json' },
+      // Call external API with increased timeout (never retried: lockout counts every attempt upstream)
+      const response = await upstreamBreaker.run(url, () => axios.post(url, requestData, {
+        headers: { 'Content-Type': 'application/json', ...requestIdHeaders() },
         timeout: 30000, // Increased from 10s to 30s
-      });
+      }));
 
-      console.log('[ExternalApiAdapter] ========== EXTERNAL API RESPONSE ==========');
-      console.log('[ExternalApiAdapter] Status:', response.status);
-      console.log('[ExternalApiAdapter] Headers:', JSON.stringify(response.headers, null, 2));
-      console.log('[ExternalApiAdapter] Response Body:', JSON.stringify(response.data, null, 2));
-      console.log('[ExternalApiAdapter] ================================================');
+      log.info('Login response', { url, status: response.status, success: response.data?.success });
+      log.debug('Login response body', { body: response.data });
 
       const externalResponse = response.data;
+      if (options.persist === false) return externalResponse;
 
       // Extract token and user info from external response
       const externalToken = externalResponse?.data?.accessToken;
@@ -54,35 +116,24 @@ export class ExternalApiAdapter {
         expiresAt: new Date(Date.now() + 2 * 60 * 60 * 1000), // 2 hours
       });
 
-      console.log('[ExternalApiAdapter] Login response cached for user:', username);
+      log.debug('Login response cached', { username });
 
       // Return the external response as-is
       return externalResponse;
     } catch (error: any) {
-      console.error('[ExternalApiAdapter] ========== EXTERNAL API LOGIN FAILED ==========');
-      console.error('[ExternalApiAdapter] Failed Request Details:');
-      console.error('[ExternalApiAdapter]   Method: POST');
-      console.error('[ExternalApiAdapter]   Endpoint: /api/auth/login');
-      console.error('[ExternalApiAdapter]   Full URL:', url);
-      console.error('[ExternalApiAdapter]   Username:', username);
-      console.error('[ExternalApiAdapter] Error Details:');
-      console.error('[ExternalApiAdapter]   Error Message:', error.message);
-      console.error('[ExternalApiAdapter]   Error Code:', error.code);
-      if (error.response) {
-        console.error('[ExternalApiAdapter]   HTTP Status:', error.response.status);
-        console.error('[ExternalApiAdapter]   Status Text:', error.response.statusText);
-        console.error('[ExternalApiAdapter]   Response Data:', JSON.stringify(error.response.data, null, 2));
-      } else if (error.request) {
-        console.error('[ExternalApiAdapter]   No response received from server');
-        console.error('[ExternalApiAdapter]   Possible causes: Network error, timeout, or server unreachable');
-        console.error('[ExternalApiAdapter]   Request config:', JSON.stringify({
-          url: error.config?.url,
-          method: error.config?.method,
-          timeout: error.config?.timeout,
-        }, null, 2));
+      if (error instanceof CircuitOpenError) {
+        log.warn('Login skipped, circuit open', { upstream: error.upstream });
+        throw error;
       }
-      console.error('[ExternalApiAdapter] ================================================');
-      throw new Error(error.response?.data?.message || error.message || 'External API login failed');
+      log.error('Login failed', {
+        url,
+        username,
+        status: error.response?.status,
+        // No response at all: network error, timeout or server unreachable
+        noResponse: !error.response && !!error.request,
+        err: error,
+      });
+      throw UpstreamError.fromAxios(error, 'External API login failed');
     }
   }
 
@@ -101,22 +152,51 @@ export class ExternalApiAdapter {
 
       return cached?.externalResponse || null;
     } catch (error) {
-      console.error('[ExternalApiAdapter] Failed to get cached login:', error);
+      log.error('Failed to get cached login', { username, err: error });
       return null;
     }
   }
 
   /**
-   * Call external API with token
+   * Call external API with token. GETs are served through the read-through cache where a cache
+   * policy covers the endpoint and identical concurrent GETs share one upstream request; writes
+   * invalidate the cached entries they affect.
+   * Failures are thrown as UpstreamError carrying the upstream's status and body.
    */
   static async callExternalApi(
     endpoint: string,
     token: string,
     method: string = 'GET',
     data?: any,
-    baseUrl: string = EXTERNAL_API_BASE_URL
+    baseUrl: string = EXTERNAL_API_BASE_URL,
+    options: CallOptions = {}
   ) {
+    if (method.toUpperCase() === 'GET') {
+      const fetch = () => singleFlight(`${token}|${baseUrl}${endpoint}`, endpoint, () =>
+        ExternalApiAdapter.requestExternalApi(endpoint, token, method, data, baseUrl)
+      );
+      // Only the main upstream's responses are cached
+      if (baseUrl !== EXTERNAL_API_BASE_URL || options.noCache) {
+        options.onCache?.('bypass');
+        return fetch();
+      }
+      return upstreamCache.read(endpoint, token, fetch, options.onCache);
+    }
+    try {
+      return await ExternalApiAdapter.requestExternalApi(endpoint, token, method, data, baseUrl);
+    } finally {
+      // Failed writes may still have been applied upstream
+      await upstreamCache.invalidate(endpoint, token);
+    }
+  }
+
+  /**
+   * Make the upstream call. Idempotent methods are retried per the endpoint's retry policy,
+   * and every attempt goes through the upstream's circuit breaker.
+   */
+  private static async requestExternalApi(endpoint: string, token: string, method: string, data: any, baseUrl: string) {
     const url = `${baseUrl}${endpoint}`;
+    const policy = resolveRetryPolicy(method, endpoint);
     
     try {
       const config: any = {
@@ -125,38 +205,33 @@ export class ExternalApiAdapter {
         headers: {
           'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json',
+          ...requestIdHeaders(),
         },
-        timeout: 30000, // Increased from 10s to 30s to handle slow Replit server
       };
 
       if (data && (method === 'POST' || method === 'PUT' || method === 'PATCH' || method === 'DELETE')) {
         config.data = data;
       }
 
-      const response = await axios(config);
+      const response = await withRetries(url, policy, (timeoutMs) => axios({ ...config, timeout: timeoutMs }));
       return response.data;
     } catch (error: any) {
-      console.error('[ExternalApiAdapter] ========== EXTERNAL API CALL FAILED ==========');
-      console.error('[ExternalApiAdapter] Failed Request Details:');
-      console.error('[ExternalApiAdapter]   Method:', method);
-      console.error('[ExternalApiAdapter]   Endpoint:', endpoint);
-      console.error('[ExternalApiAdapter]   Full URL:', url);
-      console.error('[ExternalApiAdapter]   Token (first 20 chars):', token.substring(0, 20) + '...');
-      if (data) {
-        console.error('[ExternalApiAdapter]   Request Body:', JSON.stringify(data, null, 2));
-      }
-      console.error('[ExternalApiAdapter] Error Details:');
-      console.error('[ExternalApiAdapter]   Error Message:', error.message);
-      if (error.response) {
-        console.error('[ExternalApiAdapter]   HTTP Status:', error.response.status);
-        console.error('[ExternalApiAdapter]   Status Text:', error.response.statusText);
-        console.error('[ExternalApiAdapter]   Response Data:', JSON.stringify(error.response.data, null, 2));
-      } else if (error.request) {
-        console.error('[ExternalApiAdapter]   No response received from server');
-        console.error('[ExternalApiAdapter]   Request timeout or network error');
+      if (error instanceof CircuitOpenError) {
+        log.warn('Call short-circuited, upstream unavailable', { method, endpoint, retryAfterSeconds: error.retryAfterSeconds });
+        throw error;
       }
-      console.error('[ExternalApiAdapter] ================================================');
-      throw new Error(error.response?.data?.message || 'External API call failed');
+      log.error('Call failed', {
+        method,
+        endpoint,
+        url,
+        timeoutMs: policy.timeoutMs,
+        retries: policy.retries,
+        status: error.response?.status,
+        noResponse: !error.response && !!error.request,
+        body: data,
+        err: error,
+      });
+      throw UpstreamError.fromAxios(error, 'External API call failed');
     }
   }
 
@@ -167,55 +242,45 @@ export class ExternalApiAdapter {
     const url = `${EXTERNAL_API_BASE_URL}${endpoint}`;
     
     try {
-      console.log('[ExternalApiAdapter] ========== MULTIPART UPLOAD REQUEST ==========');
-      console.log('[ExternalApiAdapter] URL:', url);
-      console.log('[ExternalApiAdapter] Method: POST');
-      console.log('[ExternalApiAdapter] Content-Type: multipart/form-data');
-      console.log('[ExternalApiAdapter] Token (first 20 chars):', token.substring(0, 20) + '...');
+      log.info('Multipart upload request', { url });
       
-      const response = await axios.post(url, formData, {
+      // The form data stream can only be read once, so uploads are never retried
+      const response = await upstreamBreaker.run(url, () => axios.post(url, formData, {
         headers: {
           'Authorization': `Bearer ${token}`,
           ...formData.getHeaders(),
+          ...requestIdHeaders(),
         },
         timeout: 60000, // 60 seconds for file uploads
         maxContentLength: Infinity,
         maxBodyLength: Infinity,
-      });
+      }));
 
-      console.log('[ExternalApiAdapter] ========== MULTIPART UPLOAD RESPONSE ==========');
-      console.log('[ExternalApiAdapter] Status:', response.status);
-      console.log('[ExternalApiAdapter] Response:', JSON.stringify(response.data, null, 2));
-      console.log('[ExternalApiAdapter] ================================================');
+      log.info('Multipart upload response', { url, status: response.status });
+      log.debug('Multipart upload response body', { body: response.data });
 
       return response.data;
     } catch (error: any) {
-      console.error('[ExternalApiAdapter] ========== MULTIPART UPLOAD FAILED ==========');
-      console.error('[ExternalApiAdapter] Failed Request Details:');
-      console.error('[ExternalApiAdapter]   Method: POST');
-      console.error('[ExternalApiAdapter]   Endpoint:', endpoint);
-      console.error('[ExternalApiAdapter]   Full URL:', url);
-      console.error('[ExternalApiAdapter] Error Details:');
-      console.error('[ExternalApiAdapter]   Error Message:', error.message);
-      if (error.response) {
-        console.error('[ExternalApiAdapter]   HTTP Status:', error.response.status);
-        console.error('[ExternalApiAdapter]   Status Text:', error.response.statusText);
-        console.error('[ExternalApiAdapter]   Response Data:', JSON.stringify(error.response.data, null, 2));
-      } else if (error.request) {
-        console.error('[ExternalApiAdapter]   No response received from server');
-        console.error('[ExternalApiAdapter]   Request timeout or network error');
+      if (error instanceof CircuitOpenError) {
+        log.warn('Upload skipped, circuit open', { upstream: error.upstream });
+        throw error;
       }
-      console.error('[ExternalApiAdapter] ================================================');
-      throw new Error(error.response?.data?.message || 'Multipart upload failed');
+      log.error('Multipart upload failed', {
+        endpoint,
+        url,
+        status: error.response?.status,
+        noResponse: !error.response && !!error.request,
+        err: error,
+      });
+      throw UpstreamError.fromAxios(error, 'Multipart upload failed');
     }
   }
 
   /**
-   * Map external API response to our format (for future use)
+   * Map external API response to our format (validated against the endpoint's schema,
+   * see responseMapping)
    */
-  static mapToOurFormat(externalData: any, endpoint: string): any {
-    // TODO: Implement mapping logic based on endpoint
-    // For now, return as-is
-    return externalData;
+  static mapToOurFormat(externalData: any, endpoint: MappedEndpoint): any {
+    return mapUpstreamResponse(endpoint, externalData);
   }
 }
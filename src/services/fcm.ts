@@ -1,15 +1,19 @@
 import admin from 'firebase-admin';
 import path from 'path';
 import fs from 'fs';
+import { config } from '../config';
+import { createLogger } from './logger';
+
+const log = createLogger('FCM');
 
 let initialized = false;
 
 function initIfNeeded() {
   if (initialized) return;
-  const json = process.env.FIREBASE_SERVICE_ACCOUNT_JSON;
-  const svcPathRaw = process.env.FIREBASE_SERVICE_ACCOUNT_PATH;
+  const json = config.firebase.serviceAccountJson;
+  const svcPathRaw = config.firebase.serviceAccountPath;
   if (!json && !svcPathRaw) {
-    console.warn('[FCM] Skipping initialization: no FIREBASE_SERVICE_ACCOUNT_JSON or FIREBASE_SERVICE_ACCOUNT_PATH provided');
+    log.warn('Skipping initialization: no FIREBASE_SERVICE_ACCOUNT_JSON or FIREBASE_SERVICE_ACCOUNT_PATH provided');
     return;
   }
   try {
@@ -20,10 +24,10 @@ function initIfNeeded() {
           const cleaned = (svcPathRaw || '').trim().replace(/^['"]|['"]$/g, '');
           const resolved = path.isAbsolute(cleaned) ? cleaned : path.resolve(process.cwd(), cleaned);
           if (!fs.existsSync(resolved)) {
-            console.error('[FCM] Service account file not found', { provided: svcPathRaw, cleaned, cwd: process.cwd(), resolved });
+            log.error('Service account file not found', { provided: svcPathRaw, cleaned, cwd: process.cwd(), resolved });
             throw new Error('Service account file not found at ' + resolved);
           } else {
-            console.log('[FCM] Using service account file', { provided: svcPathRaw, resolved });
+            log.info('Using service account file', { provided: svcPathRaw, resolved });
           }
           const raw = fs.readFileSync(resolved, 'utf8');
           return JSON.parse(raw);
@@ -32,9 +36,9 @@ function initIfNeeded() {
       credential: admin.credential.cert(credentials as admin.ServiceAccount),
     });
     initialized = true;
-    console.log('[FCM] Initialized');
+    log.info('Initialized');
   } catch (err) {
-    console.error('[FCM] Initialization failed:', err);
+    log.error('Initialization failed', { err });
   }
 }
 
@@ -54,12 +58,12 @@ export async function sendMulticast(tokens: string[], payload: { title: string;
   const validTokens = tokens.filter(isLikelyValidFcmToken);
   const skippedInvalid = tokens.length - validTokens.length;
   if (validTokens.length === 0) {
-    console.log('[FCM] No valid tokens after filtering; skipping send', { tokensTotal: tokens.length, skippedInvalid });
+    log.info('No valid tokens after filtering; skipping send', { tokensTotal: tokens.length, skippedInvalid });
     return { successCount: 0, failureCount: 0 };
   }
 
   if (!initialized) {
-    console.warn('[FCM] Not initialized; skipping send (dev mode). Set FIREBASE_SERVICE_ACCOUNT_* to enable.');
+    log.warn('Not initialized; skipping send (dev mode). Set FIREBASE_SERVICE_ACCOUNT_* to enable.');
     return { successCount: 0, failureCount: 0 };
   }
 
@@ -69,10 +73,8 @@ export async function sendMulticast(tokens: string[], payload: { title: string;
     data: payload.data || {},
   };
 
-  const preview = validTokens.slice(0, 5);
-  console.log('[FCM] sendMulticast start', {
+  log.info('sendMulticast start', {
     tokensTotal: validTokens.length,
-    tokensPreview: preview,
     title: payload.title,
     body: payload.body,
     data: payload.data || {},
@@ -82,7 +84,7 @@ export async function sendMulticast(tokens: string[], payload: { title: string;
   const res = await admin.messaging().sendEachForMulticast(message);
 
   // Summarize failures by error code
-  const debug = String(process.env.LOG_FCM_DEBUG || '').toLowerCase() === 'true';
+  const debug = config.firebase.debug;
   const failuresByCode: Record<string, number> = {};
   const sampleErrors: Array<{ idx: number; code?: string; message?: string }> = [];
   res.responses.forEach((r, idx) => {
@@ -95,7 +97,7 @@ export async function sendMulticast(tokens: string[], payload: { title: string;
     }
   });
 
-  console.log('[FCM] sendMulticast done', {
+  log.info('sendMulticast done', {
     successCount: res.successCount,
     failureCount: res.failureCount,
     failuresByCode,
@@ -107,10 +109,10 @@ export async function sendMulticast(tokens: string[], payload: { title: string;
     // Verbose per-token logging
     res.responses.forEach((r, idx) => {
       if (r.success) {
-        console.log(`[FCM][OK] idx=${idx}`);
+        log.info('Message sent', { idx });
       } else {
         const code = (r.error as any)?.errorInfo?.code || (r.error as any)?.code || 'unknown';
-        console.warn(`[FCM][ERR] idx=${idx} code=${code} message=${(r.error as any)?.message}`);
+        log.warn('Message failed', { idx, code, message: (r.error as any)?.message });
       }
     });
   }
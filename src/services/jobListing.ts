@@ -0,0 +1,357 @@
+import type { NextFunction, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { VendorModel } from '../models/vendor';
+import { ExternalApiAdapter } from './externalApiAdapter';
+import { getBearerToken } from './proxyRoutes';
+import type { JobDTO } from './responseMapping';
+import { haversineMiles, zipCentroids, type LatLng } from './zipCentroids';
+import { earliestOfferedDay, scheduledDay, vendorSchedule, type VendorSchedule } from './scheduling';
+import { config } from '../config';
+import { createLogger } from './logger';
+
+const log = createLogger('JobListing');
+
+// Filtering, sorting and cursor pagination for the available-jobs list. The upstream only hands
+// out the full list, so this runs on our side after the list has been mapped; GET
+// /api/jobs/available and the /api/vendors/me/dashboard count both go through it so they agree.
+// Which jobs are offered at all ("from tomorrow on") is decided in the vendor's time zone with
+// their lead time (see services/scheduling).
+//
+// Query parameters (all optional):
+//   applianceType, priority, zip, city, state - comma separated, case-insensitive (zip matches on prefix)
+//   from, to  - scheduledDate range, YYYY-MM-DD (to is inclusive) or ISO timestamps
+//   q         - text search over SO number, appliance, brand, description and city
+//   lat, lng  - device location; without them distances are measured from the vendor's base
+//               address ZIP (PATCH /api/vendors/me/address)
+//   radius    - only jobs within this many miles
+//   sort      - scheduledDate | priority | city | zip | distance, '-' prefix for descending
+//               (default scheduledDate)
+//   limit     - page size (1-100); without limit or cursor every matching job is returned
+//   cursor    - nextCursor from the previous page
+
+export const JOB_SORT_FIELDS = ['scheduledDate', 'priority', 'city', 'zip', 'distance'] as const;
+export type JobSortField = (typeof JOB_SORT_FIELDS)[number];
+
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_PAGE_SIZE = 25;
+const PRIORITY_RANK: Record<string, number> = { urgent: 4, high: 3, medium: 2, low: 1 };
+
+export type JobListQuery = {
+  applianceTypes: string[];
+  priorities: string[];
+  zips: string[];
+  cities: string[];
+  states: string[];
+  from?: Date;
+  to?: Date;
+  text?: string;
+  // Device location sent by the app
+  location?: LatLng;
+  radiusMiles?: number;
+  sort: { field: JobSortField; descending: boolean };
+  // Set when the caller asked for a page
+  page?: { limit: number; after?: JobCursor };
+};
+
+type SortValue = string | number | null;
+type JobCursor = { sort: string; value: SortValue; id: string };
+
+export class JobListQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobListQueryError';
+  }
+}
+
+function listParam(value: unknown) {
+  if (typeof value !== 'string') return [];
+  return value.split(',').map((v) => v.trim().toLowerCase()).filter(Boolean);
+}
+
+function dateParam(name: string, value: unknown, endOfDay: boolean) {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value.trim());
+  const date = new Date(dateOnly ? `${value.trim()}T00:00:00.000Z` : value.trim());
+  if (isNaN(date.getTime())) throw new JobListQueryError(`${name} must be a date (YYYY-MM-DD) or ISO timestamp`);
+  // A date-only 'to' covers that whole day
+  if (dateOnly && endOfDay) date.setUTCDate(date.getUTCDate() + 1);
+  return date;
+}
+
+function locationParam(lat: unknown, lng: unknown): LatLng | undefined {
+  if ((lat === undefined || lat === '') && (lng === undefined || lng === '')) return undefined;
+  const point = { lat: Number(lat), lng: Number(lng) };
+  if (!Number.isFinite(point.lat) || !Number.isFinite(point.lng) || Math.abs(point.lat) > 90 || Math.abs(point.lng) > 180) {
+    throw new JobListQueryError('lat and lng must be sent together as decimal degrees');
+  }
+  return point;
+}
+
+function encodeCursor(cursor: JobCursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string): JobCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (cursor && typeof cursor.sort === 'string' && typeof cursor.id === 'string' && 'value' in cursor) return cursor;
+  } catch {
+    // Fall through to the error below
+  }
+  throw new JobListQueryError('cursor is invalid');
+}
+
+/**
+ * Parse and validate the list query parameters; throws JobListQueryError for bad values
+ */
+export function parseJobListQuery(query: Record<string, unknown>): JobListQuery {
+  const sortParam = typeof query.sort === 'string' && query.sort.trim() ? query.sort.trim() : 'scheduledDate';
+  const descending = sortParam.startsWith('-');
+  const field = (descending ? sortParam.slice(1) : sortParam) as JobSortField;
+  if (!JOB_SORT_FIELDS.includes(field)) {
+    throw new JobListQueryError(`sort must be one of ${JOB_SORT_FIELDS.join(', ')} (prefix with - for descending)`);
+  }
+
+  const location = locationParam(query.lat, query.lng);
+  let radiusMiles: number | undefined;
+  if (query.radius !== undefined && query.radius !== '') {
+    radiusMiles = Number(query.radius);
+    if (!Number.isFinite(radiusMiles) || radiusMiles <= 0 || radiusMiles > config.geo.maxRadiusMiles) {
+      throw new JobListQueryError(`radius must be a number of miles between 0 and ${config.geo.maxRadiusMiles}`);
+    }
+  }
+
+  const from = dateParam('from', query.from, false);
+  const to = dateParam('to', query.to, true);
+  if (from && to && from >= to) throw new JobListQueryError('from must be before to');
+
+  const parsed: JobListQuery = {
+    applianceTypes: listParam(query.applianceType),
+    priorities: listParam(query.priority),
+    zips: listParam(query.zip),
+    cities: listParam(query.city),
+    states: listParam(query.state),
+    from,
+    to,
+    text: typeof query.q === 'string' && query.q.trim() ? query.q.trim().toLowerCase() : undefined,
+    location,
+    radiusMiles,
+    sort: { field, descending },
+  };
+
+  if (query.limit !== undefined || query.cursor !== undefined) {
+    const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new JobListQueryError(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+    }
+    const after = typeof query.cursor === 'string' && query.cursor ? decodeCursor(query.cursor) : undefined;
+    if (after && after.sort !== sortParam) throw new JobListQueryError('cursor was issued for a different sort');
+    parsed.page = { limit, after };
+  }
+  return parsed;
+}
+
+/**
+ * Middleware for routes that list jobs: answers 422 for invalid parameters, otherwise leaves the
+ * parsed query in res.locals.jobListQuery
+ */
+export function jobListQuery(req: Request, res: Response, next: NextFunction) {
+  try {
+    res.locals.jobListQuery = parseJobListQuery(req.query as Record<string, unknown>);
+    return next();
+  } catch (err: any) {
+    if (err instanceof JobListQueryError) return res.status(422).json({ success: false, message: err.message });
+    return next(err);
+  }
+}
+
+export type JobListOrigin = LatLng & { source: 'device' | 'base_address' };
+
+type VendorProfile = { timeZone?: unknown; leadTimeDays?: unknown; state?: unknown; zip?: unknown };
+
+/**
+ * The calling vendor's base address and scheduling settings: the upstream profile, overridden by
+ * the local vendor record (PATCH /api/vendors/me, admin) when the token names one
+ */
+async function vendorProfile(token: string): Promise<VendorProfile> {
+  const decoded = jwt.decode(token) as any;
+  const vendorId = decoded?.vendorId ? String(decoded.vendorId) : null;
+  const [upstream, local] = await Promise.all([
+    ExternalApiAdapter.callExternalApi('/api/vendors/me', token, 'GET')
+      .then((data) => ExternalApiAdapter.mapToOurFormat(data, 'vendors.me')?.data || {})
+      .catch((err) => {
+        log.warn('Could not load vendor profile for job listing', { err });
+        return {};
+      }),
+    vendorId && mongoose.isValidObjectId(vendorId)
+      ? VendorModel.findById(vendorId).select('timeZone leadTimeDays').lean().catch(() => null)
+      : null,
+  ]);
+  const localVendor: any = local || {};
+  return {
+    timeZone: localVendor.timeZone ?? upstream.timeZone,
+    leadTimeDays: localVendor.leadTimeDays ?? upstream.leadTimeDays,
+    state: upstream.state ?? upstream.address?.state,
+    zip: upstream.zipCode ?? upstream.zip ?? upstream.address?.zipCode,
+  };
+}
+
+/**
+ * Middleware after jobListQuery, for the calling vendor:
+ * - res.locals.jobListSchedule: time zone and lead time deciding which jobs are offered
+ * - res.locals.jobListOrigin: where distances are measured from (the device location, else the
+ *   vendor's base address)
+ * Answers 422 when the query needs a distance (radius, sort=distance) and no origin is known,
+ * 503 when there is no ZIP table.
+ */
+export async function jobListVendorContext(req: Request, res: Response, next: NextFunction) {
+  const query: JobListQuery = res.locals.jobListQuery;
+  const token = getBearerToken(req.headers.authorization);
+  // No token: let the route answer 401
+  if (!token) return next();
+
+  const needsDistance = query.radiusMiles !== undefined || query.sort.field === 'distance';
+  if (needsDistance && zipCentroids.size === 0) {
+    return res.status(503).json({ success: false, message: 'Distance search is not available' });
+  }
+
+  const profile = await vendorProfile(token);
+  const schedule = vendorSchedule(profile);
+  const base = query.location || zipCentroids.size === 0 ? null : zipCentroids.lookup(profile.zip);
+  const origin: JobListOrigin | null = query.location
+    ? { ...query.location, source: 'device' }
+    : base && { ...base, source: 'base_address' };
+  if (!origin && needsDistance) {
+    return res.status(422).json({
+      success: false,
+      message: 'No location to measure distance from: send lat and lng, or set a base address with PATCH /api/vendors/me/address',
+    });
+  }
+  res.locals.jobListSchedule = schedule;
+  res.locals.jobListOrigin = origin;
+  return next();
+}
+
+function scheduledTime(job: JobDTO) {
+  if (!job.scheduledDate) return null;
+  const time = new Date(job.scheduledDate).getTime();
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Jobs offered to vendors: still available and scheduled, in the job's local time, no earlier
+ * than the vendor's lead time allows (with the default lead time of 1: from their tomorrow on)
+ */
+export function isFutureAvailableJob(job: JobDTO, schedule: VendorSchedule = vendorSchedule({}), now = new Date()) {
+  const status = String(job?.status || '').toLowerCase();
+  if (status !== 'available') return false;
+  // Jobs without a (valid) scheduledDate are excluded
+  const day = scheduledDay(job);
+  if (day === null) return false;
+  return day >= earliestOfferedDay(schedule, now);
+}
+
+function lower(value: unknown) {
+  return value === null || value === undefined ? '' : String(value).trim().toLowerCase();
+}
+
+function matchesQuery(job: JobDTO, query: JobListQuery) {
+  if (query.applianceTypes.length && !query.applianceTypes.includes(lower(job.applianceType))) return false;
+  if (query.priorities.length && !query.priorities.includes(lower(job.priority))) return false;
+  if (query.cities.length && !query.cities.includes(lower(job.customerCity))) return false;
+  if (query.states.length && !query.states.includes(lower(job.customerState))) return false;
+  if (query.zips.length) {
+    const zip = lower(job.customerZip);
+    if (!query.zips.some((prefix) => zip.startsWith(prefix))) return false;
+  }
+  if (query.from || query.to) {
+    const time = scheduledTime(job);
+    if (time === null) return false;
+    if (query.from && time < query.from.getTime()) return false;
+    if (query.to && time >= query.to.getTime()) return false;
+  }
+  if (query.text) {
+    const haystack = [job.soNumber, job.applianceType, job.manufacturerBrand, job.serviceDescription, job.customerCity]
+      .map(lower)
+      .join(' ');
+    if (!haystack.includes(query.text)) return false;
+  }
+  return true;
+}
+
+function distanceFrom(origin: LatLng | null | undefined, job: JobDTO) {
+  const point = origin ? zipCentroids.lookup(job.customerZip) : null;
+  return origin && point ? Math.round(haversineMiles(origin, point) * 10) / 10 : null;
+}
+
+function sortValue(job: JobDTO & { distanceMiles: number | null }, field: JobSortField): SortValue {
+  switch (field) {
+    case 'distance':
+      return job.distanceMiles;
+    case 'scheduledDate':
+      return scheduledTime(job);
+    case 'priority':
+      return PRIORITY_RANK[lower(job.priority)] ?? 0;
+    case 'city':
+      return lower(job.customerCity) || null;
+    case 'zip':
+      return lower(job.customerZip) || null;
+  }
+}
+
+// Missing values sort last in both directions; the job id breaks ties so pages never overlap
+function compare(a: { value: SortValue; id: string }, b: { value: SortValue; id: string }, descending: boolean) {
+  if (a.value !== b.value) {
+    if (a.value === null) return 1;
+    if (b.value === null) return -1;
+    const order = a.value < b.value ? -1 : 1;
+    return descending ? -order : order;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+export type JobListResult = {
+  items: Array<JobDTO & { distanceMiles: number | null }>;
+  // Jobs matching the filters, across all pages
+  total: number;
+  // Only when a page was requested
+  pagination?: { limit: number; nextCursor: string | null; hasMore: boolean };
+};
+
+/**
+ * Filter, sort and page available jobs. Jobs that are not future available jobs are always dropped.
+ * Every returned job gets distanceMiles from `origin` (null when either location is unknown).
+ */
+export function applyJobListQuery(
+  jobs: JobDTO[],
+  query: JobListQuery,
+  { origin, schedule, now = new Date() }: { origin?: LatLng | null; schedule?: VendorSchedule; now?: Date } = {}
+): JobListResult {
+  const { field, descending } = query.sort;
+  const sortParam = `${descending ? '-' : ''}${field}`;
+  const keyed = jobs
+    .filter((job) => isFutureAvailableJob(job, schedule, now) && matchesQuery(job, query))
+    .map((job) => ({ ...job, distanceMiles: distanceFrom(origin, job) }))
+    // Jobs whose ZIP cannot be placed are outside every radius
+    .filter((job) => query.radiusMiles === undefined || (job.distanceMiles !== null && job.distanceMiles <= query.radiusMiles))
+    .map((job) => ({ job, value: sortValue(job, field), id: String(job.id) }))
+    .sort((a, b) => compare(a, b, descending));
+
+  if (!query.page) return { items: keyed.map((k) => k.job), total: keyed.length };
+
+  const { limit, after } = query.page;
+  const start = after ? keyed.findIndex((k) => compare(k, after, descending) > 0) : 0;
+  const page = start === -1 ? [] : keyed.slice(start, start + limit);
+  const hasMore = start !== -1 && start + limit < keyed.length;
+  const last = page[page.length - 1];
+  return {
+    items: page.map((k) => k.job),
+    total: keyed.length,
+    pagination: {
+      limit,
+      nextCursor: hasMore && last ? encodeCursor({ sort: sortParam, value: last.value, id: last.id }) : null,
+      hasMore,
+    },
+  };
+}
@@ -0,0 +1,523 @@
+import mongoose from 'mongoose';
+import { JobModel } from '../models/job';
+import { JobAssignmentModel } from '../models/jobAssignment';
+import { JobSyncRunModel, type JobSyncRunStatus, type JobSyncTrigger } from '../models/jobSyncRun';
+import { ExternalApiAdapter } from './externalApiAdapter';
+import { UpstreamError } from './upstreamError';
+import { envelopeList, mappedItem, type AssignmentDTO, type JobDTO } from './responseMapping';
+import { runWithRequestContext } from './requestContext';
+import { notifyNewJob } from './jobWatcher';
+import { config } from '../config';
+import { createLogger } from './logger';
+
+const log = createLogger('JobSync');
+
+// Keeps JobModel and JobAssignmentModel a complete copy of the upstream. A worker signs in with
+// the JOB_SYNC_* account every JOB_SYNC_INTERVAL_MINUTES, pages through the jobs and assignments
+// that account can see and upserts them. Only fields whose value actually changed are written,
+// so updatedAt means "changed upstream"; locally owned fields (productInfoUpdate) are never
+// touched. Every run is recorded in JobSyncRunModel with its counts and failures. Admins can
+// run it on demand or resync single jobs/assignments by upstream ID.
+//
+// A complete run also fetches each local job that is still 'available' but that no list
+// returned (taken by another vendor, withdrawn); one the upstream no longer has becomes
+// 'unavailable'.
+//
+// Reads skip the upstream read-through cache and the sign-in isn't stored as a login cache entry.
+// jobWatcher ignores synced inserts; the sync announces a job it inserts itself when the job is
+// still available, except on the first backfill (no synced jobs before the run).
+
+const SYNC = config.jobSync;
+const JOB_SOURCES = ['/api/jobs/available', '/api/vendors/me/jobs'];
+const ASSIGNMENT_SOURCE = '/api/vendors/me/assignments';
+// Local status of an available job the upstream no longer has
+const GONE_STATUS = 'unavailable';
+// Failures kept on a run document; failureCount has the full number
+const MAX_RECORDED_FAILURES = 50;
+const ASSIGNMENT_ACTIONS = new Set(['accept', 'decline', 'assigned']);
+
+export type SyncOutcome = 'created' | 'updated' | 'unchanged';
+type SyncScope = 'jobs' | 'assignments';
+type ScopeCounts = { fetched: number; created: number; updated: number; unchanged: number; skipped: number; failed: number };
+
+type RunState = {
+  counts: Record<SyncScope, ScopeCounts>;
+  fieldChanges: Record<string, number>;
+  failures: { scope: string; id: string | null; status: number | null; message: string }[];
+  failureCount: number;
+  // Some of the upstream data was never looked at (sign-in or listing failed, too many pages)
+  incomplete: boolean;
+  // Push "new job" notifications for available jobs this run inserts
+  announceNewJobs: boolean;
+};
+
+export class JobSyncBusyError extends Error {
+  constructor() {
+    super('A job sync run is already in progress');
+    this.name = 'JobSyncBusyError';
+  }
+}
+
+// An item that cannot be stored locally; counted as skipped, not failed
+class JobSyncSkip extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobSyncSkip';
+  }
+}
+
+function emptyCounts(): ScopeCounts {
+  return { fetched: 0, created: 0, updated: 0, unchanged: 0, skipped: 0, failed: 0 };
+}
+
+function toObjectId(value: unknown) {
+  return value && mongoose.isValidObjectId(value) ? new mongoose.Types.ObjectId(String(value)) : undefined;
+}
+
+function toDate(value: unknown) {
+  if (!value) return undefined;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function sameValue(current: unknown, next: unknown) {
+  if (current instanceof Date || next instanceof Date) {
+    return current instanceof Date && next instanceof Date && current.getTime() === next.getTime();
+  }
+  if (current === null || current === undefined) return next === null || next === undefined;
+  return String(current) === String(next);
+}
+
+/**
+ * The fields of `next` that differ from `current`. Undefined means "upstream did not say" and
+ * never clears a stored value.
+ */
+export function changedFields(current: Record<string, any> | null, next: Record<string, unknown>) {
+  const changes: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(next)) {
+    if (value === undefined) continue;
+    if (!current || !sameValue(current[field], value)) changes[field] = value;
+  }
+  return changes;
+}
+
+function jobFields(externalJob: JobDTO) {
+  const jobId = externalJob.id;
+  return {
+    externalId: String(jobId), // Always store external ID
+    soNumber: externalJob.soNumber || `SO-${jobId}`,
+    customerName: externalJob.customerName || undefined,
+    customerAddress: externalJob.customerAddress || undefined,
+    customerCity: externalJob.customerCity || undefined,
+    customerState: externalJob.customerState || undefined,
+    customerZip: externalJob.customerZip || undefined,
+    customerPhone: externalJob.customerPhone || undefined,
+    customerEmail: externalJob.customerEmail || undefined,
+    applianceType: externalJob.applianceType || undefined,
+    manufacturerBrand: externalJob.manufacturerBrand || undefined,
+    serviceDescription: externalJob.serviceDescription || undefined,
+    scheduledDate: toDate(externalJob.scheduledDate),
+    scheduledTimeWindow: externalJob.scheduledTimeWindow || undefined,
+    timeZone: externalJob.timeZone || undefined,
+    priority: externalJob.priority || 'medium',
+    status: externalJob.status || 'available',
+    vendorId: toObjectId(externalJob.vendorId),
+  };
+}
+
+function assignmentFields(assignment: AssignmentDTO, jobId: mongoose.Types.ObjectId, vendorId: mongoose.Types.ObjectId) {
+  const a = assignment as any;
+  return {
+    externalId: String(assignment.id),
+    jobId,
+    vendorId,
+    status: a.status || undefined,
+    action: ASSIGNMENT_ACTIONS.has(a.action) ? a.action : undefined,
+    assignedAt: toDate(a.assignedAt),
+    confirmedAt: toDate(a.confirmedAt),
+    arrivedAt: toDate(a.arrivedAt),
+    completedAt: toDate(a.completedAt),
+    completionNotes: a.completionNotes || undefined,
+    vendorNotes: a.vendorNotes || undefined,
+    notes: a.notes || undefined,
+  };
+}
+
+function isDuplicateKey(err: any) {
+  return err?.code === 11000;
+}
+
+/**
+ * A sync run as the admin API shows it
+ */
+export function toJobSyncRunDTO(run: any) {
+  return {
+    id: String(run._id),
+    trigger: run.trigger as JobSyncTrigger,
+    status: run.status as JobSyncRunStatus,
+    requestedBy: run.requestedBy || null,
+    jobIds: run.jobIds || [],
+    assignmentIds: run.assignmentIds || [],
+    startedAt: run.startedAt,
+    finishedAt: run.finishedAt || null,
+    counts: run.counts || {},
+    fieldChanges: run.fieldChanges || {},
+    failures: run.failures || [],
+    failureCount: run.failureCount || 0,
+  };
+}
+
+export const jobSync = {
+  isConfigured() {
+    return Boolean(SYNC.username && SYNC.password);
+  },
+
+  /**
+   * Insert or update the local copy of an upstream job, matched by externalId, _id or soNumber.
+   * Writes only the changed fields; returns null for data without an ID.
+   */
+  async upsertJob(externalJob: JobDTO | null): Promise<{ outcome: SyncOutcome; job: any; changed: string[] } | null> {
+    if (!externalJob || !externalJob.id) return null;
+    const jobId = externalJob.id;
+    const fields = jobFields(externalJob);
+
+    const existing: any = await JobModel.findOne({
+      $or: [
+        { externalId: String(jobId) },
+        { _id: toObjectId(jobId) ?? null },
+        { soNumber: fields.soNumber },
+      ],
+    }).lean();
+
+    if (!existing) {
+      try {
+        // Keep the upstream ID as our _id when it is an ObjectId
+        const job = await JobModel.create({ ...fields, syncedAt: new Date(), ...(toObjectId(jobId) && { _id: toObjectId(jobId) }) });
+        log.info('Created synced job', { jobId: String(job._id) });
+        return { outcome: 'created', job: job.toObject(), changed: Object.keys(changedFields(null, fields)) };
+      } catch (err) {
+        // Created by a concurrent sync in the meantime: update that one instead
+        if (isDuplicateKey(err)) return jobSync.upsertJob(externalJob);
+        throw err;
+      }
+    }
+
+    const changes = changedFields(existing, fields);
+    const changed = Object.keys(changes);
+    if (changed.length === 0) return { outcome: 'unchanged', job: existing, changed };
+
+    const job = await JobModel.findByIdAndUpdate(existing._id, { $set: { ...changes, syncedAt: new Date() } }, { new: true }).lean();
+    log.debug('Updated synced job', { jobId: String(existing._id), changed });
+    return { outcome: 'updated', job, changed };
+  },
+
+  /**
+   * Insert or update the local copy of an upstream assignment. Its job must already be synced and
+   * its vendor must be an ObjectId (JobSyncSkip otherwise); the job gets the assignmentId.
+   */
+  async upsertAssignment(assignment: AssignmentDTO | null): Promise<{ outcome: SyncOutcome; assignment: any; changed: string[] } | null> {
+    if (!assignment || !assignment.id) return null;
+    const job: any = await JobModel.findOne({
+      $or: [{ externalId: String(assignment.jobId) }, { _id: toObjectId(assignment.jobId) ?? null }],
+    }).select('_id assignmentId').lean();
+    if (!job) throw new JobSyncSkip(`Job ${assignment.jobId} is not synced`);
+    const vendorId = toObjectId(assignment.vendorId);
+    if (!vendorId) throw new JobSyncSkip(`Vendor ${assignment.vendorId} is not an ObjectId`);
+
+    const fields = assignmentFields(assignment, job._id, vendorId);
+    const existing: any = await JobAssignmentModel.findOne({
+      $or: [{ externalId: fields.externalId }, { _id: toObjectId(assignment.id) ?? null }],
+    }).lean();
+
+    let result: { outcome: SyncOutcome; assignment: any; changed: string[] };
+    if (!existing) {
+      const created = await JobAssignmentModel.create({ ...fields, ...(toObjectId(assignment.id) && { _id: toObjectId(assignment.id) }) });
+      result = { outcome: 'created', assignment: created.toObject(), changed: Object.keys(changedFields(null, fields)) };
+    } else {
+      const changes = changedFields(existing, fields);
+      const changed = Object.keys(changes);
+      result = changed.length === 0
+        ? { outcome: 'unchanged', assignment: existing, changed }
+        : {
+            outcome: 'updated',
+            assignment: await JobAssignmentModel.findByIdAndUpdate(existing._id, { $set: changes }, { new: true }).lean(),
+            changed,
+          };
+    }
+
+    if (!sameValue(job.assignmentId, result.assignment._id)) {
+      await JobModel.updateOne({ _id: job._id }, { $set: { assignmentId: result.assignment._id } });
+    }
+    return result;
+  },
+
+  /**
+   * A full pass over every upstream job and assignment list, recorded as a run
+   */
+  async runFull(trigger: Exclude<JobSyncTrigger, 'resync'>, requestedBy?: string) {
+    return execute({ trigger, requestedBy }, async (state) => {
+      const seen = new Set<string>();
+      for (const source of JOB_SOURCES) {
+        const jobs: JobDTO[] = await fetchAll(source, 'jobs.available', state, 'jobs');
+        for (const job of jobs) {
+          if (!job?.id || seen.has(String(job.id))) continue;
+          seen.add(String(job.id));
+          await syncOne(state, 'jobs', String(job.id), async () => announce(state, await jobSync.upsertJob(job)));
+        }
+      }
+      // Only a complete listing proves that a job is missing from it
+      if (!state.incomplete) {
+        const missing: any[] = await JobModel.find({
+          syncedAt: { $exists: true },
+          status: 'available',
+          externalId: { $exists: true, $nin: [...seen] },
+        }).select('_id externalId').lean();
+        for (const job of missing) {
+          await syncOne(state, 'jobs', job.externalId, () => refreshMissingJob(state, job));
+        }
+      }
+      const assignments: AssignmentDTO[] = await fetchAll(ASSIGNMENT_SOURCE, 'assignments.list', state, 'assignments');
+      for (const assignment of assignments) {
+        await syncOne(state, 'assignments', assignment?.id ? String(assignment.id) : null, () => jobSync.upsertAssignment(assignment));
+      }
+    });
+  },
+
+  /**
+   * Fetch and upsert specific upstream jobs and assignments (jobs first, so their assignments can
+   * find them), recorded as a 'resync' run
+   */
+  async resync({ jobIds = [], assignmentIds = [] }: { jobIds?: string[]; assignmentIds?: string[] }, requestedBy?: string) {
+    return execute({ trigger: 'resync', requestedBy, jobIds, assignmentIds }, async (state) => {
+      for (const id of jobIds) {
+        await syncOne(state, 'jobs', id, async () => {
+          const job = mappedItem('jobs.detail', await callUpstream(`/api/jobs/${encodeURIComponent(id)}`));
+          state.counts.jobs.fetched += job ? 1 : 0;
+          if (!job) throw new JobSyncSkip('Upstream returned no job');
+          return announce(state, await jobSync.upsertJob(job));
+        });
+      }
+      for (const id of assignmentIds) {
+        await syncOne(state, 'assignments', id, async () => {
+          const assignment = mappedItem('assignments.detail', await callUpstream(`/api/assignments/${encodeURIComponent(id)}`));
+          state.counts.assignments.fetched += assignment ? 1 : 0;
+          if (!assignment) throw new JobSyncSkip('Upstream returned no assignment');
+          return jobSync.upsertAssignment(assignment);
+        });
+      }
+    });
+  },
+
+  async listRuns({ page = 1, limit = 20 }: { page?: number; limit?: number } = {}) {
+    const [runs, total] = await Promise.all([
+      JobSyncRunModel.find().sort({ startedAt: -1 }).skip((page - 1) * limit).limit(limit).lean(),
+      JobSyncRunModel.countDocuments(),
+    ]);
+    return { runs, total };
+  },
+
+  isRunning() {
+    return running;
+  },
+
+  /**
+   * Run a full sync now and then every JOB_SYNC_INTERVAL_MINUTES (skipped while one is running)
+   */
+  start() {
+    if (!SYNC.enabled || timer) return;
+    log.info('Starting job sync worker', { intervalMinutes: SYNC.intervalMinutes });
+    const tick = () => {
+      if (running) return;
+      jobSync.runFull('scheduled').catch((err) => log.error('Scheduled job sync failed', { err }));
+    };
+    timer = setInterval(tick, SYNC.intervalMinutes * 60 * 1000);
+    timer.unref();
+    tick();
+  },
+
+  stop() {
+    if (timer) clearInterval(timer);
+    timer = null;
+  },
+};
+
+// ---- Upstream access ----
+
+let accessToken: string | null = null;
+
+async function signIn() {
+  if (!SYNC.username || !SYNC.password) throw new Error('JOB_SYNC_USERNAME and JOB_SYNC_PASSWORD are not set');
+  const response = await ExternalApiAdapter.login(SYNC.username, SYNC.password, SYNC.role, { persist: false });
+  accessToken = response?.data?.accessToken || null;
+  if (!accessToken) throw new Error('Job sync sign-in returned no access token');
+  return accessToken;
+}
+
+/**
+ * GET as the sync account, past the read-through cache, signing in again once when the token has expired
+ */
+async function callUpstream(endpoint: string) {
+  const get = (token: string) => ExternalApiAdapter.callExternalApi(endpoint, token, 'GET', undefined, undefined, { noCache: true });
+  try {
+    return await get(accessToken || (await signIn()));
+  } catch (err) {
+    if (!(err instanceof UpstreamError) || err.status !== 401) throw err;
+    return get(await signIn());
+  }
+}
+
+/**
+ * Fetch a local job that the job lists no longer return. Whatever the upstream says about it is
+ * stored; when the upstream has no such job it is marked GONE_STATUS.
+ */
+async function refreshMissingJob(state: RunState, local: { _id: unknown; externalId: string }) {
+  let job: JobDTO | null = null;
+  try {
+    job = mappedItem('jobs.detail', await callUpstream(`/api/jobs/${encodeURIComponent(local.externalId)}`));
+  } catch (err) {
+    if (!(err instanceof UpstreamError) || err.status !== 404) throw err;
+  }
+  if (job) {
+    state.counts.jobs.fetched += 1;
+    return jobSync.upsertJob(job);
+  }
+  const updated = await JobModel.findByIdAndUpdate(local._id, { $set: { status: GONE_STATUS, syncedAt: new Date() } }, { new: true }).lean();
+  log.info('Synced job no longer exists upstream', { jobId: String(local._id), externalId: local.externalId });
+  return { outcome: 'updated' as const, job: updated, changed: ['status'] };
+}
+
+/**
+ * Every item of an upstream list, page by page. Stops at a short or empty page, or when the
+ * upstream ignores paging and sends the same page again.
+ */
+async function fetchAll(source: string, mapping: 'jobs.available' | 'assignments.list', state: RunState, scope: SyncScope) {
+  const items: any[] = [];
+  let firstIdOfLastPage: string | null = null;
+  for (let page = 1; ; page++) {
+    if (page > SYNC.maxPages) {
+      state.incomplete = true;
+      recordFailure(state, scope, null, null, `${source} has more than ${SYNC.maxPages} pages; the rest was not synced`);
+      break;
+    }
+    const separator = source.includes('?') ? '&' : '?';
+    const response = ExternalApiAdapter.mapToOurFormat(
+      await callUpstream(`${source}${separator}page=${page}&limit=${SYNC.pageSize}`),
+      mapping
+    );
+    const pageItems = (response?.success && envelopeList(response)?.items) || [];
+    const firstId = pageItems[0]?.id !== undefined ? String(pageItems[0].id) : null;
+    if (pageItems.length === 0 || (page > 1 && firstId === firstIdOfLastPage)) break;
+    items.push(...pageItems);
+    state.counts[scope].fetched += pageItems.length;
+    if (pageItems.length < SYNC.pageSize) break;
+    firstIdOfLastPage = firstId;
+  }
+  return items;
+}
+
+// ---- Runs ----
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+function recordFailure(state: RunState, scope: string, id: string | null, status: number | null, message: string) {
+  state.failureCount += 1;
+  if (state.failures.length < MAX_RECORDED_FAILURES) state.failures.push({ scope, id, status, message });
+}
+
+/**
+ * Notify technicians of a job the run inserted while it is still available
+ */
+function announce<T extends { outcome: SyncOutcome; job: any } | null>(state: RunState, result: T): T {
+  if (state.announceNewJobs && result?.outcome === 'created' && result.job?.status === 'available') {
+    void notifyNewJob(result.job);
+  }
+  return result;
+}
+
+/**
+ * Upsert one item and count the outcome; one bad item does not stop the run
+ */
+async function syncOne(
+  state: RunState,
+  scope: SyncScope,
+  id: string | null,
+  upsert: () => Promise<{ outcome: SyncOutcome; changed: string[] } | null>
+) {
+  try {
+    const result = await upsert();
+    if (!result) {
+      state.counts[scope].skipped += 1;
+      return;
+    }
+    state.counts[scope][result.outcome] += 1;
+    if (result.outcome === 'updated') {
+      for (const field of result.changed) state.fieldChanges[`${scope}.${field}`] = (state.fieldChanges[`${scope}.${field}`] || 0) + 1;
+    }
+  } catch (err: any) {
+    if (err instanceof JobSyncSkip) {
+      state.counts[scope].skipped += 1;
+      recordFailure(state, scope, id, null, err.message);
+      return;
+    }
+    state.counts[scope].failed += 1;
+    recordFailure(state, scope, id, err instanceof UpstreamError ? err.status : null, err?.message || 'Sync failed');
+    log.warn('Could not sync item', { scope, id, err });
+  }
+}
+
+/**
+ * Record a run around `work`. Only one run at a time: a second one is refused while the first
+ * is still going.
+ */
+async function execute(
+  run: { trigger: JobSyncTrigger; requestedBy?: string; jobIds?: string[]; assignmentIds?: string[] },
+  work: (state: RunState) => Promise<void>
+) {
+  if (running) throw new JobSyncBusyError();
+  running = true;
+  const state: RunState = {
+    counts: { jobs: emptyCounts(), assignments: emptyCounts() },
+    fieldChanges: {},
+    failures: [],
+    failureCount: 0,
+    incomplete: false,
+    announceNewJobs: false,
+  };
+  try {
+    // The first run copies every existing job; none of those are news
+    state.announceNewJobs = Boolean(await JobModel.exists({ syncedAt: { $exists: true } }));
+    const doc = await JobSyncRunModel.create({ ...run, requestedBy: run.requestedBy ?? null });
+    let status: JobSyncRunStatus;
+    await runWithRequestContext(`job-sync-${doc._id}`, async () => {
+      log.info('Job sync started', { trigger: run.trigger, runId: String(doc._id) });
+      try {
+        await work(state);
+      } catch (err: any) {
+        // Listing or signing in failed: whatever was synced before that still counts
+        state.incomplete = true;
+        recordFailure(state, 'run', null, err instanceof UpstreamError ? err.status : null, err?.message || 'Sync failed');
+        log.error('Job sync aborted', { err });
+      }
+    });
+
+    const failed = state.counts.jobs.failed + state.counts.assignments.failed;
+    const synced = (['jobs', 'assignments'] as const).reduce(
+      (sum, scope) => sum + state.counts[scope].created + state.counts[scope].updated + state.counts[scope].unchanged,
+      0
+    );
+    if (!state.incomplete && failed === 0) status = 'succeeded';
+    else status = synced === 0 ? 'failed' : 'partial';
+
+    const { incomplete, announceNewJobs, ...recorded } = state;
+    const finished = await JobSyncRunModel.findByIdAndUpdate(
+      doc._id,
+      { $set: { status, finishedAt: new Date(), ...recorded } },
+      { new: true }
+    ).lean();
+    log.info('Job sync finished', { runId: String(doc._id), status, incomplete, counts: state.counts, failureCount: state.failureCount });
+    return finished;
+  } finally {
+    running = false;
+  }
+}
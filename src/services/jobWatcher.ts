@@ -2,10 +2,60 @@ import mongoose from 'mongoose';
 import { JobModel } from '../models/job';
 import { UserModel } from '../models/user';
 import { sendMulticast, chunk } from './fcm';
+import { createLogger } from './logger';
+
+const log = createLogger('JobWatcher');
 
 let running = false;
 let changeStream: mongoose.mongo.ChangeStream | null = null;
 
+/**
+ * Push a "New job created" notification for `doc` to every technician device
+ */
+export async function notifyNewJob(doc: any) {
+  try {
+    const soNumber = doc.soNumber;
+    const city = doc.customerCity;
+    const vendorName = doc.vendorName;
+
+    // collect unique FCM tokens
+    const users = await UserModel.find({ fcmTokens: { $exists: true, $ne: [] } }).select('fcmTokens').lean();
+    const tokenSet = new Set<string>();
+    for (const u of users as any[]) {
+      const t = (u as any).lastFcmToken as string | undefined;
+      if (t && t.trim()) tokenSet.add(t.trim());
+    }
+    const tokens = Array.from(tokenSet);
+
+    const title = 'New job created';
+    const body = vendorName ? `${vendorName}: ${soNumber || 'SO'} in ${city || 'your area'}` : `Job ${soNumber || ''} added`;
+    const data = {
+      type: 'new_job',
+      jobId: String(doc._id),
+      soNumber: String(soNumber || ''),
+      city: String(city || ''),
+    } as any;
+
+    log.info('Preparing notification (lastFcmToken only)', {
+      tokensTotal: tokens.length,
+      message: { title, body, data },
+    });
+
+    let success = 0, failure = 0, batches = 0;
+    for (const batch of chunk(tokens, 500)) {
+      batches += 1;
+      log.info('Sending batch', { batch: batches, size: batch.length });
+      const res = await sendMulticast(batch, { title, body, data });
+      log.info('Batch result', { batch: batches, successCount: res.successCount, failureCount: res.failureCount });
+      success += res.successCount || 0;
+      failure += res.failureCount || 0;
+    }
+    log.info('Notification summary', { tokensTotal: tokens.length, batches, success, failure });
+  } catch (err) {
+    log.error('Notification error', { err });
+  }
+}
+
 export async function startJobWatcher() {
   if (running) return;
   running = true;
@@ -14,64 +64,21 @@ export async function startJobWatcher() {
   const connection = mongoose.connection;
   const topology = (connection as any).client?.topology;
   if (!topology || typeof topology.capabilities !== 'function' || !topology.capabilities()?.hasSessions) {
-    console.warn('[JobWatcher] Mongo topology does not support change streams (no sessions). Skipping watcher.');
+    log.warn('Mongo topology does not support change streams (no sessions). Skipping watcher.');
     return;
   }
 
-  console.log('[JobWatcher] Starting change stream on jobs (insert only)');
-  changeStream = JobModel.watch([{ $match: { operationType: 'insert' } }], { fullDocument: 'updateLookup' as any });
-
-  changeStream.on('change', async (event: any) => {
-    try {
-      const doc = event.fullDocument || {};
-      const soNumber = doc.soNumber;
-      const city = doc.customerCity;
-      const vendorName = doc.vendorName;
-
-      // collect unique FCM tokens
-      const users = await UserModel.find({ fcmTokens: { $exists: true, $ne: [] } }).select('fcmTokens').lean();
-      const tokenSet = new Set<string>();
-      for (const u of users as any[]) {
-        const t = (u as any).lastFcmToken as string | undefined;
-        if (t && t.trim()) tokenSet.add(t.trim());
-      }
-      const tokens = Array.from(tokenSet);
+  log.info('Starting change stream on jobs (insert only)');
+  // Copies made by the job sync (syncedAt set) are announced by the sync itself
+  changeStream = JobModel.watch(
+    [{ $match: { operationType: 'insert', 'fullDocument.syncedAt': { $exists: false } } }],
+    { fullDocument: 'updateLookup' as any }
+  );
 
-      const title = 'New job created';
-      const body = vendorName ? `${vendorName}: ${soNumber || 'SO'} in ${city || 'your area'}` : `Job ${soNumber || ''} added`;
-      const data = {
-        type: 'new_job',
-        jobId: String(doc._id),
-        soNumber: String(soNumber || ''),
-        city: String(city || ''),
-      } as any;
-
-      const previewTokens = tokens.slice(0, 5);
-      console.log('[JobWatcher] Preparing notification (lastFcmToken only)', {
-        tokensTotal: tokens.length,
-        tokensPreview: previewTokens,
-        message: { title, body, data },
-      });
-      // Print all FCM tokens as requested
-      console.log('[JobWatcher] All FCM tokens:', tokens);
-
-      let success = 0, failure = 0, batches = 0;
-      for (const batch of chunk(tokens, 500)) {
-        batches += 1;
-        console.log(`[JobWatcher] Sending batch ${batches} size=${batch.length}`);
-        const res = await sendMulticast(batch, { title, body, data });
-        console.log(`[JobWatcher] Batch ${batches} result`, { successCount: res.successCount, failureCount: res.failureCount });
-        success += res.successCount || 0;
-        failure += res.failureCount || 0;
-      }
-      console.log(`[JobWatcher] Notification summary tokens=${tokens.length}, batches=${batches}, success=${success}, failure=${failure}`);
-    } catch (err) {
-      console.error('[JobWatcher] Notification error:', err);
-    }
-  });
+  changeStream.on('change', (event: any) => notifyNewJob(event.fullDocument || {}));
 
   changeStream.on('error', (err) => {
-    console.error('[JobWatcher] Change stream error:', err);
+    log.error('Change stream error', { err });
   });
 }
 
@@ -1,7 +1,7 @@
 import jwt from 'jsonwebtoken';
+import { config } from '../config';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret';
-const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'dev-refresh';
+const { jwtSecret: JWT_SECRET, jwtRefreshSecret: JWT_REFRESH_SECRET, jwtChallengeSecret: JWT_CHALLENGE_SECRET } = config.auth;
 
 export interface JwtPayload {
   userId: string;
@@ -14,10 +14,21 @@ export const jwtService = {
   signAccess(payload: JwtPayload, expiresIn = '1h') {
     return jwt.sign(payload, JWT_SECRET, { expiresIn });
   },
-  signRefresh(payload: JwtPayload, expiresIn = '7d') {
-    return jwt.sign(payload, JWT_REFRESH_SECRET, { expiresIn });
+  signRefresh(payload: JwtPayload, expiresIn = '7d', jwtid?: string) {
+    return jwt.sign(payload, JWT_REFRESH_SECRET, { expiresIn, ...(jwtid ? { jwtid } : {}) });
   },
   verifyAccess(token: string) {
     return jwt.verify(token, JWT_SECRET) as JwtPayload & jwt.JwtPayload;
+  },
+  verifyRefresh(token: string) {
+    return jwt.verify(token, JWT_REFRESH_SECRET) as JwtPayload & jwt.JwtPayload;
+  },
+  signChallenge(payload: { userId: string; challengeId: string }, expiresIn: jwt.SignOptions['expiresIn'] = '5m') {
+    return jwt.sign({ ...payload, purpose: '2fa' }, JWT_CHALLENGE_SECRET, { expiresIn });
+  },
+  verifyChallenge(token: string) {
+    const decoded = jwt.verify(token, JWT_CHALLENGE_SECRET) as { userId: string; challengeId?: string; purpose?: string } & jwt.JwtPayload;
+    if (decoded.purpose !== '2fa') throw new jwt.JsonWebTokenError('Not a 2FA challenge token');
+    return decoded;
   }
 };
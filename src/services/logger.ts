@@ -0,0 +1,163 @@
+import { config, LOG_LEVELS, type LogLevel } from '../config';
+import { currentRequestId } from './requestContext';
+
+// Structured logger: one JSON object per line (warn and error on stderr). Every entry carries the
+// module that wrote it and, inside a request, the request ID (see requestContext), so one
+// request can be followed across the proxy and upstream calls. Fields are redacted before they
+// are written: passwords, tokens, secrets, phone numbers and email addresses never reach the logs.
+
+export type LogFields = Record<string, unknown>;
+
+export type LogEntry = {
+  time: string;
+  level: LogLevel;
+  module: string;
+  msg: string;
+  requestId?: string;
+  [field: string]: unknown;
+};
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /** Logger that adds `bindings` to every entry */
+  child(bindings: LogFields): Logger;
+}
+
+// ---- Redaction ----
+
+const SECRET_KEY = /passw|passwd|pwd|secret|token|authorization|cookie|api[-_]?key|credential|otp|recovery/i;
+const PHONE_KEY = /phone|mobile|cell/i;
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+const PHONE_PATTERN = /(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g;
+const BEARER_PATTERN = /\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/g;
+const JWT_PATTERN = /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g;
+const MAX_DEPTH = 6;
+const MAX_STRING = 2000;
+const MAX_ARRAY = 50;
+
+function maskPhone(value: string) {
+  const digits = value.replace(/\D/g, '');
+  return digits.length > 2 ? `***${digits.slice(-2)}` : '***';
+}
+
+function redactString(value: string) {
+  const redacted = value
+    .replace(BEARER_PATTERN, '$1 [REDACTED]')
+    .replace(JWT_PATTERN, '[REDACTED_JWT]')
+    .replace(EMAIL_PATTERN, '$1***@$2')
+    .replace(PHONE_PATTERN, (match) => maskPhone(match));
+  return redacted.length > MAX_STRING ? `${redacted.slice(0, MAX_STRING)}…(${redacted.length} chars)` : redacted;
+}
+
+function serializeError(err: Error & Record<string, any>) {
+  return {
+    name: err.name,
+    message: err.message,
+    ...(err.code !== undefined && { code: err.code }),
+    ...((err.status ?? err.response?.status) !== undefined && { status: err.status ?? err.response?.status }),
+    ...(err.upstream !== undefined && { upstream: err.upstream }),
+    // Upstream error bodies help debugging; the request config (with its headers) is left out
+    ...(err.response?.data !== undefined && { responseData: err.response.data }),
+    ...(err.stack && { stack: err.stack.split('\n').slice(0, 6).join('\n') }),
+  };
+}
+
+/**
+ * Copy of `value` with secrets removed, phone numbers and emails masked and large values truncated
+ */
+export function redact(value: unknown, key = '', depth = 0, seen = new WeakSet<object>()): unknown {
+  if (value === null || value === undefined) return value;
+  // Counts and flags (tokensTotal, hasToken) are kept
+  if (key && SECRET_KEY.test(key) && typeof value !== 'number' && typeof value !== 'boolean') return '[REDACTED]';
+  if (key && PHONE_KEY.test(key) && (typeof value === 'string' || typeof value === 'number')) return maskPhone(String(value));
+  if (typeof value === 'string') return redactString(value);
+  if (typeof value !== 'object') return typeof value === 'bigint' ? String(value) : value;
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return `[Buffer ${value.length} bytes]`;
+  if (seen.has(value)) return '[Circular]';
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+  seen.add(value);
+
+  if (value instanceof Error) return redact(serializeError(value as Error & Record<string, any>), key, depth, seen);
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY).map((item) => redact(item, '', depth + 1, seen));
+    if (value.length > MAX_ARRAY) items.push(`…(${value.length - MAX_ARRAY} more)`);
+    return items;
+  }
+  const source = typeof (value as any).toJSON === 'function' ? (value as any).toJSON() : value;
+  if (source !== value) return redact(source, key, depth, seen);
+  return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k, depth + 1, seen)]));
+}
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// ---- Recent entries (admin view) ----
+
+const recent: LogEntry[] = [];
+
+export type LogQuery = { requestId?: string; level?: LogLevel; module?: string; limit?: number };
+
+export const recentLogs = {
+  /**
+   * Newest-last entries still in the in-memory buffer, filtered. `level` is a minimum.
+   */
+  query({ requestId, level, module, limit = 200 }: LogQuery = {}) {
+    const minRank = level ? LEVEL_RANK[level] : 0;
+    const matches = recent.filter(
+      (entry) =>
+        (!requestId || entry.requestId === requestId) &&
+        (!module || entry.module === module) &&
+        LEVEL_RANK[entry.level] >= minRank
+    );
+    return matches.slice(-limit);
+  },
+};
+
+// ---- Output ----
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+function write(entry: LogEntry) {
+  if (config.log.bufferSize > 0) {
+    recent.push(entry);
+    if (recent.length > config.log.bufferSize) recent.splice(0, recent.length - config.log.bufferSize);
+  }
+
+  const stream = entry.level === 'error' || entry.level === 'warn' ? process.stderr : process.stdout;
+  if (config.log.format === 'pretty') {
+    const { time, level, module, msg, requestId, ...fields } = entry;
+    const extra = Object.keys(fields).length > 0 ? ` ${JSON.stringify(fields)}` : '';
+    stream.write(`${time} ${level.toUpperCase().padEnd(5)} [${module}]${requestId ? ` (${requestId})` : ''} ${msg}${extra}\n`);
+    return;
+  }
+  stream.write(`${JSON.stringify(entry)}\n`);
+}
+
+function log(level: LogLevel, module: string, bindings: LogFields, msg: string, fields?: LogFields) {
+  if (LEVEL_RANK[level] < LEVEL_RANK[config.log.level]) return;
+  const requestId = currentRequestId();
+  const data = redact({ ...bindings, ...fields }) as LogFields;
+  write({
+    time: new Date().toISOString(),
+    level,
+    module,
+    msg: redactString(msg),
+    ...(requestId && { requestId }),
+    ...data,
+  });
+}
+
+export function createLogger(module: string, bindings: LogFields = {}): Logger {
+  return {
+    debug: (msg, fields) => log('debug', module, bindings, msg, fields),
+    info: (msg, fields) => log('info', module, bindings, msg, fields),
+    warn: (msg, fields) => log('warn', module, bindings, msg, fields),
+    error: (msg, fields) => log('error', module, bindings, msg, fields),
+    child: (extra) => createLogger(module, { ...bindings, ...extra }),
+  };
+}
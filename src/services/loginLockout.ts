@@ -0,0 +1,162 @@
+import { UserModel } from '../models/user';
+import { LoginThrottleModel } from '../models/loginThrottle';
+import { recordAudit } from './audit';
+import { config } from '../config';
+import { createLogger } from './logger';
+
+const log = createLogger('LoginLockout');
+
+// Lockout starts once failures reach the threshold and doubles with every further failure, up to the max.
+// The IP threshold is higher than the username one because technicians often share an office NAT.
+// Both counters live in LoginThrottleModel, so usernames that only exist upstream are counted too.
+// A successful login resets its username's counter but never the IP's: that one only expires (a
+// day without failures), or one valid account could be used to keep guessing others.
+const USER_THRESHOLD = config.auth.lockout.userThreshold;
+const IP_THRESHOLD = config.auth.lockout.ipThreshold;
+const BASE_LOCK_MS = config.auth.lockout.baseSeconds * 1000;
+const MAX_LOCK_MS = config.auth.lockout.maxSeconds * 1000;
+
+export type LockoutStatus = {
+  locked: boolean;
+  reason?: 'username' | 'ip';
+  lockedUntil?: Date;
+  retryAfterSeconds?: number;
+};
+
+function lockDurationMs(failures: number, threshold: number) {
+  if (failures < threshold) return 0;
+  return Math.min(MAX_LOCK_MS, BASE_LOCK_MS * Math.pow(2, failures - threshold));
+}
+
+function ipKey(ip: string) {
+  return `ip:${ip}`;
+}
+
+// Case-folded so 'Alice' and 'alice' share one counter
+function userKey(username: string) {
+  return `user:${username.trim().toLowerCase()}`;
+}
+
+function toStatus(reason: 'username' | 'ip', lockedUntil: Date): LockoutStatus {
+  return {
+    locked: true,
+    reason,
+    lockedUntil,
+    retryAfterSeconds: Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000)),
+  };
+}
+
+async function countFailure(key: string, now: Date) {
+  const throttle: any = await LoginThrottleModel.findOneAndUpdate(
+    { key },
+    { $inc: { failures: 1 }, $set: { lastFailureAt: now } },
+    { new: true, upsert: true }
+  ).lean();
+  return Number(throttle?.failures || 0);
+}
+
+export const loginLockout = {
+  /**
+   * Check whether a login attempt for this username / IP is currently locked out
+   */
+  async check(username: string, ip?: string | null): Promise<LockoutStatus> {
+    const now = new Date();
+    const keys = [userKey(username), ...(ip ? [ipKey(ip)] : [])];
+    const throttles: any[] = await LoginThrottleModel.find({ key: { $in: keys }, lockedUntil: { $gt: now } }).lean();
+
+    const byUsername = throttles.find((t) => t.key === keys[0]);
+    if (byUsername) return toStatus('username', new Date(byUsername.lockedUntil));
+    const byIp = throttles.find((t) => t.key !== keys[0]);
+    if (byIp) return toStatus('ip', new Date(byIp.lockedUntil));
+    return { locked: false };
+  },
+
+  /**
+   * Count a failed login against the username (whether or not it exists locally) and the IP,
+   * locking either one once its threshold is reached
+   */
+  async recordFailure(username: string, ip?: string | null) {
+    const now = new Date();
+
+    const attempts = await countFailure(userKey(username), now);
+    const userLockMs = lockDurationMs(attempts, USER_THRESHOLD);
+    const userLockedUntil = userLockMs > 0 ? new Date(now.getTime() + userLockMs) : null;
+    if (userLockedUntil) await LoginThrottleModel.updateOne({ key: userKey(username) }, { $set: { lockedUntil: userLockedUntil } });
+    // Mirrored on the local user (if any) for the admin user views
+    const user: any = await UserModel.findOneAndUpdate(
+      { username },
+      { $set: { loginAttempts: attempts, ...(userLockedUntil && { lockedUntil: userLockedUntil }) } }
+    ).select('_id').lean();
+    if (userLockedUntil) {
+      log.warn('Username locked', { username, attempts, lockedUntil: userLockedUntil.toISOString() });
+      await recordAudit({
+        action: 'login.locked',
+        targetUserId: user ? String(user._id) : null,
+        username,
+        ipAddress: ip,
+        metadata: { scope: 'username', attempts, lockedUntil: userLockedUntil },
+      });
+    }
+
+    if (ip) {
+      const failures = await countFailure(ipKey(ip), now);
+      const lockMs = lockDurationMs(failures, IP_THRESHOLD);
+      if (lockMs > 0) {
+        const lockedUntil = new Date(now.getTime() + lockMs);
+        await LoginThrottleModel.updateOne({ key: ipKey(ip) }, { $set: { lockedUntil } });
+        log.warn('IP locked', { ip, failures, lockedUntil: lockedUntil.toISOString() });
+        await recordAudit({
+          action: 'login.locked',
+          username,
+          ipAddress: ip,
+          metadata: { scope: 'ip', failures, lockedUntil },
+        });
+      }
+    }
+  },
+
+  /**
+   * Reset the username's counter after a successful login. The IP counter is left to expire.
+   */
+  async recordSuccess(username: string) {
+    await loginLockout.clearUsername(username);
+  },
+
+  /**
+   * Forget a username's failures and lockout (successful login, password reset, admin unlock).
+   * Returns whether there was anything to clear.
+   */
+  async clearUsername(username: string) {
+    const [throttle, user] = await Promise.all([
+      LoginThrottleModel.deleteOne({ key: userKey(username) }),
+      UserModel.updateOne({ username }, { $set: { loginAttempts: 0 }, $unset: { lockedUntil: '' } }),
+    ]);
+    return throttle.deletedCount > 0 || user.matchedCount > 0;
+  },
+
+  /**
+   * Clear a lockout manually (admin action). Returns what was cleared.
+   */
+  async unlock(target: { username?: string; ip?: string }, actorUserId?: string) {
+    let userUnlocked = false;
+    let ipUnlocked = false;
+
+    if (target.username) {
+      userUnlocked = await loginLockout.clearUsername(target.username);
+    }
+    if (target.ip) {
+      const result = await LoginThrottleModel.deleteOne({ key: ipKey(target.ip) });
+      ipUnlocked = result.deletedCount > 0;
+    }
+
+    await recordAudit({
+      action: 'login.unlocked',
+      actorUserId,
+      username: target.username,
+      ipAddress: target.ip,
+      metadata: { userUnlocked, ipUnlocked },
+    });
+
+    return { userUnlocked, ipUnlocked };
+  },
+};
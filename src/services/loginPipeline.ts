@@ -0,0 +1,253 @@
+import { UserModel } from '../models/user';
+import { VendorModel } from '../models/vendor';
+import { LoginComparisonModel } from '../models/loginComparison';
+import { password } from '../utils/password';
+import { ExternalApiAdapter } from './externalApiAdapter';
+import { sessionService, type SessionDevice } from './sessions';
+import { permissionService } from './permissions';
+import { twoFactor } from './twoFactor';
+import { config, LOGIN_STRATEGIES, type LoginStrategy } from '../config';
+import { createLogger } from './logger';
+
+const log = createLogger('LoginPipeline');
+
+/**
+ * Where credentials are checked:
+ *  - external-only: upstream API only
+ *  - local-only: Mongo users only
+ *  - external-with-local-fallback: both; the upstream response wins, local is used when upstream rejects or is down
+ *  - local-with-shadow: Mongo is authoritative; the upstream is called in the background for comparison only
+ */
+export { LOGIN_STRATEGIES, type LoginStrategy };
+
+export const LOGIN_STRATEGY: LoginStrategy = config.auth.loginStrategy;
+
+// Fields of data.user compared between the upstream and local responses. Ids are not compared:
+// upstream and Mongo ids are different by design.
+const COMPARED_FIELDS = ['username', 'role', 'vendorId', 'vendorName', 'email', 'permissions'] as const;
+
+export type LoginRequest = {
+  username: string;
+  password: string;
+  role?: string; // Only forwarded to the upstream API
+  fcmToken?: unknown;
+  device: SessionDevice;
+};
+
+export type LoginResult =
+  | { outcome: 'success'; source: 'external' | 'local'; response: any }
+  | { outcome: 'two_factor_required'; response: any }
+  | { outcome: 'failed' };
+
+type ExternalResult = { ok: boolean; response?: any; error?: string; durationMs: number };
+type LocalResult = { ok: boolean; user: any; durationMs: number };
+
+async function checkExternal(request: LoginRequest): Promise<ExternalResult> {
+  const started = Date.now();
+  try {
+    const response = await ExternalApiAdapter.login(request.username, request.password, request.role);
+    return { ok: Boolean(response), response, durationMs: Date.now() - started };
+  } catch (err: any) {
+    return { ok: false, error: err?.message, durationMs: Date.now() - started };
+  }
+}
+
+async function checkLocal(request: LoginRequest): Promise<LocalResult> {
+  const started = Date.now();
+  try {
+    const user: any = await UserModel.findOne({ username: request.username }).lean();
+    const ok = Boolean(
+      user && user.passwordHash && user.isActive !== false && (await password.compare(request.password, user.passwordHash))
+    );
+    return { ok, user, durationMs: Date.now() - started };
+  } catch (err: any) {
+    log.error('Local credential check failed', { err });
+    return { ok: false, user: null, durationMs: Date.now() - started };
+  }
+}
+
+/**
+ * The user object returned by local logins (and compared against the upstream's data.user)
+ */
+export async function buildLocalProfile(user: any) {
+  const role = user.role || 'registered_user';
+  const vendorId = user.vendorId ? String(user.vendorId) : undefined;
+  let vendorName: string | undefined;
+  if (vendorId) {
+    const vendor: any = await VendorModel.findById(vendorId).select('name').lean();
+    vendorName = vendor?.name;
+  }
+
+  return {
+    id: String(user._id),
+    username: user.username,
+    role,
+    vendorId,
+    vendorName,
+    email: user.email,
+    mustChangePassword: Boolean(user.mustChangePassword),
+    permissions: await permissionService.getPermissions(role),
+  };
+}
+
+// lastLoginAt and the FCM token are kept up to date even when the upstream answered the login,
+// since job notifications are sent to the local user's devices
+async function recordLocalLogin(user: any, fcmToken: string) {
+  const $set: Record<string, any> = { lastLoginAt: new Date() };
+  if (fcmToken) {
+    $set.lastFcmToken = fcmToken;
+    $set.lastFcmAt = new Date();
+    await UserModel.updateOne({ _id: user._id }, { $set, $addToSet: { fcmTokens: fcmToken } });
+  } else {
+    await UserModel.updateOne({ _id: user._id }, { $set });
+  }
+}
+
+/**
+ * Start a local session for a user whose credentials (and second factor, if enrolled) have been
+ * verified, and build the login response
+ */
+export async function issueLocalLogin(user: any, device: SessionDevice, fcmToken?: unknown) {
+  const payload = {
+    userId: String(user._id),
+    // Never trust a role from the request body: it grants permissions
+    role: user.role || 'registered_user',
+    vendorId: user.vendorId ? String(user.vendorId) : undefined,
+  };
+
+  const token = typeof fcmToken === 'string' ? fcmToken.trim() : '';
+  const { accessToken, refreshToken } = await sessionService.start(payload, { ...device, fcmToken: token || undefined });
+  await recordLocalLogin(user, token);
+
+  const freshUser: any = await UserModel.findById(user._id).lean();
+  const data: Record<string, any> = {
+    accessToken,
+    refreshToken,
+    user: await buildLocalProfile(freshUser || user),
+  };
+  // Privileged actions are refused until enrolment; tell the client to send the user to setup
+  if (!twoFactor.isEnabled(freshUser || user) && (await twoFactor.isRequired(payload.role))) {
+    data.twoFactorSetupRequired = true;
+  }
+  return { success: true, data };
+}
+
+async function twoFactorChallengeResponse(user: any) {
+  return {
+    success: true,
+    data: {
+      twoFactorRequired: true,
+      challengeToken: await twoFactor.issueChallenge(String(user._id)),
+      expiresIn: 300,
+    },
+  };
+}
+
+function normalize(value: any) {
+  if (value === undefined || value === null || value === '') return null;
+  if (Array.isArray(value)) return value.map(String).sort();
+  return String(value);
+}
+
+/**
+ * Field-level differences between the upstream user and the local profile
+ */
+export function diffLoginProfiles(externalUser: any, localProfile: any) {
+  const diffs: { field: string; external: any; local: any }[] = [];
+  for (const field of COMPARED_FIELDS) {
+    const external = normalize(externalUser?.[field]);
+    const local = normalize(localProfile?.[field]);
+    if (JSON.stringify(external) !== JSON.stringify(local)) {
+      diffs.push({ field, external, local });
+    }
+  }
+  return diffs;
+}
+
+async function recordComparison(request: LoginRequest, strategy: LoginStrategy, external: ExternalResult, local: LocalResult) {
+  try {
+    const externalUser = external.response?.data?.user;
+    const diffs = external.ok && local.ok ? diffLoginProfiles(externalUser, await buildLocalProfile(local.user)) : [];
+
+    await LoginComparisonModel.create({
+      username: request.username,
+      userId: local.user ? String(local.user._id) : undefined,
+      externalUserId: externalUser?.id !== undefined ? String(externalUser.id) : undefined,
+      strategy,
+      externalOk: external.ok,
+      localOk: local.ok,
+      outcomeMatch: external.ok === local.ok,
+      diffs,
+      externalError: external.error,
+      externalDurationMs: external.durationMs,
+      localDurationMs: local.durationMs,
+    });
+
+    if (!external.ok || !local.ok || diffs.length > 0) {
+      log.info('Login comparison', {
+        username: request.username,
+        externalOk: external.ok,
+        localOk: local.ok,
+        diffFields: diffs.map((d) => d.field),
+      });
+    }
+  } catch (err: any) {
+    log.error('Failed to record login comparison', { err });
+  }
+}
+
+export const loginPipeline = {
+  strategy: LOGIN_STRATEGY,
+
+  /**
+   * Check credentials according to the configured strategy and build the response to send.
+   * Accounts with two-factor auth get a challenge instead of tokens, whichever source accepted the password.
+   */
+  async login(request: LoginRequest, strategy: LoginStrategy = LOGIN_STRATEGY): Promise<LoginResult> {
+    let external: ExternalResult | null = null;
+    let local: LocalResult | null = null;
+
+    switch (strategy) {
+      case 'external-only':
+        external = await checkExternal(request);
+        break;
+      case 'local-only':
+        local = await checkLocal(request);
+        break;
+      case 'external-with-local-fallback':
+        [external, local] = await Promise.all([checkExternal(request), checkLocal(request)]);
+        await recordComparison(request, strategy, external, local);
+        break;
+      case 'local-with-shadow':
+        local = await checkLocal(request);
+        {
+          // Not awaited: the upstream must not slow down or break local logins
+          const shadowLocal = local;
+          checkExternal(request)
+            .then((shadowExternal) => recordComparison(request, strategy, shadowExternal, shadowLocal))
+            .catch((err: any) => log.error('Shadow login failed', { err }));
+        }
+        break;
+    }
+
+    const externalAccepted = Boolean(external?.ok);
+    const localAccepted = Boolean(local?.ok);
+    if (!externalAccepted && !localAccepted) return { outcome: 'failed' };
+
+    const localUser = local?.user ?? (await UserModel.findOne({ username: request.username }).lean().catch(() => null));
+    if (localUser && (localUser as any).isActive !== false && twoFactor.isEnabled(localUser)) {
+      return { outcome: 'two_factor_required', response: await twoFactorChallengeResponse(localUser) };
+    }
+
+    if (externalAccepted) {
+      if (local?.ok) {
+        const token = typeof request.fcmToken === 'string' ? request.fcmToken.trim() : '';
+        await recordLocalLogin(local.user, token).catch((err: any) => {
+          log.error('Failed to update local user after upstream login', { err });
+        });
+      }
+      return { outcome: 'success', source: 'external', response: external!.response };
+    }
+    return { outcome: 'success', source: 'local', response: await issueLocalLogin(local!.user, request.device, request.fcmToken) };
+  },
+};
@@ -0,0 +1,88 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { config } from '../config';
+import { createLogger } from './logger';
+
+const log = createLogger('Mail');
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = config.mail.from;
+
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter = nodemailer.createTransport({
+    host: config.mail.smtp.host,
+    port: config.mail.smtp.port,
+    secure: config.mail.smtp.secure,
+    auth: config.mail.smtp.user ? { user: config.mail.smtp.user, pass: config.mail.smtp.pass } : undefined,
+  });
+
+  async send(message: MailMessage) {
+    await this.transporter.sendMail({ from: MAIL_FROM, ...message });
+  }
+}
+
+/**
+ * Local development transport: writes each message to MAIL_FILE_DIR as a .eml file. Without a
+ * directory only the recipient and subject are logged; bodies carry reset links and never go to the log.
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name: string;
+
+  constructor(private readonly dir?: string) {
+    this.name = dir ? 'file' : 'console';
+  }
+
+  async send(message: MailMessage) {
+    const content = [
+      `From: ${MAIL_FROM}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      '',
+      message.text,
+    ].join('\n');
+
+    if (!this.dir) {
+      log.info('Outgoing mail (body not logged; set MAIL_FILE_DIR to keep messages)', { to: message.to, subject: message.subject });
+      return;
+    }
+
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = path.join(this.dir, `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.eml`);
+    await fs.writeFile(file, content, 'utf8');
+    log.info('Message written', { file });
+  }
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * Transport selected by MAIL_TRANSPORT: 'smtp', or 'file' (default, development only; console
+ * output unless MAIL_FILE_DIR is set)
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = config.mail.transport === 'smtp'
+      ? new SmtpMailTransport()
+      : new FileMailTransport(config.mail.fileDir);
+    log.info('Using transport', { transport: transport.name });
+  }
+  return transport;
+}
+
+export async function sendMail(message: MailMessage) {
+  await getMailTransport().send(message);
+}
@@ -1,4 +1,7 @@
 import axios from 'axios';
+import { upstreamCache } from './upstreamCache';
+import { requestIdHeaders } from './requestContext';
+import { config } from '../config';
 
 type HssomTokenResponse = {
   CorrelationId?: string;
@@ -28,14 +31,11 @@ function nowMs() {
 
 export class PartsCatalogAdapter {
   static getHssomAuthUrl() {
-    return (
-      process.env.HSSOM_AUTH_URL ||
-      'https://hssom-api-gateway.prod.nextgen.shs.com/v1/api/HSSOMAuthService/services/auth/token'
-    );
+    return config.upstream.hssomAuthUrl;
   }
 
   static getHssomBasicAuthHeader(override?: string) {
-    const basic = override ?? process.env.HSSOM_BASIC_AUTH;
+    const basic = override ?? config.upstream.hssomBasicAuth;
     if (!basic) {
       throw new Error('Missing env var HSSOM_BASIC_AUTH');
     }
@@ -43,11 +43,11 @@ export class PartsCatalogAdapter {
   }
 
   static getPartsApiBaseUrl() {
-    return process.env.PARTS_API_BASE_URL || 'https://api.shs-core.com';
+    return config.upstream.partsApiUrl;
   }
 
   static getPartsApiKey(override?: string) {
-    const apiKey = override ?? process.env.PARTS_APIKEY;
+    const apiKey = override ?? config.upstream.partsApiKey;
     if (!apiKey) {
       throw new Error('Missing env var PARTS_APIKEY');
     }
@@ -67,6 +67,7 @@ export class PartsCatalogAdapter {
         headers: {
           Accept: 'application/json',
           Authorization: PartsCatalogAdapter.getHssomBasicAuthHeader(overrides.hssomBasicAuth),
+          ...requestIdHeaders(),
         },
         timeout: 30000,
       });
@@ -132,10 +133,29 @@ export class PartsCatalogAdapter {
     return inflightTokenPromise;
   }
 
+  /**
+   * Call a PartsCatalogService method. Model lookups are served through the read-through cache
+   * (shared by all callers, keyed by method and query).
+   */
   static async callPartsCatalogService<T = any>(
     methodName: string,
     query: Record<string, any> = {},
     overrides: CredentialOverrides = {}
+  ): Promise<T> {
+    const search = new URLSearchParams(
+      Object.entries(query)
+        .filter(([key, value]) => key !== 'apikey' && value !== undefined && value !== null)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, value]) => [key, String(value)])
+    ).toString();
+    const cacheEndpoint = `/sis/proxy/PartsCatalogService/${methodName}${search ? `?${search}` : ''}`;
+    return upstreamCache.read(cacheEndpoint, '', () => PartsCatalogAdapter.requestPartsCatalogService<T>(methodName, query, overrides));
+  }
+
+  private static async requestPartsCatalogService<T>(
+    methodName: string,
+    query: Record<string, any>,
+    overrides: CredentialOverrides
   ): Promise<T> {
     const token = await PartsCatalogAdapter.getValidToken({
       hssomBasicAuth: overrides.hssomBasicAuth,
@@ -158,6 +178,7 @@ export class PartsCatalogAdapter {
       headers: {
         Accept: 'application/json',
         Authorization: `Bearer ${token}`,
+        ...requestIdHeaders(),
       },
       params,
       timeout: 30000,
@@ -0,0 +1,152 @@
+import fs from 'fs';
+import { password } from '../utils/password';
+import { config } from '../config';
+import { createLogger } from './logger';
+
+const log = createLogger('PasswordPolicy');
+
+const MIN_LENGTH = config.password.minLength;
+const REQUIRE_UPPERCASE = config.password.requireUppercase;
+const REQUIRE_LOWERCASE = config.password.requireLowercase;
+const REQUIRE_DIGIT = config.password.requireDigit;
+const REQUIRE_SYMBOL = config.password.requireSymbol;
+// Number of previous passwords (besides the current one) that may not be reused
+export const PASSWORD_HISTORY_SIZE = config.password.historySize;
+
+// Always denied; PASSWORD_DENYLIST_FILE (one password per line) extends this list
+const BUILTIN_DENYLIST = [
+  '123456', '12345678', '123456789', '1234567890', 'password', 'password1', 'password123', 'passw0rd',
+  'qwerty', 'qwerty123', 'abc123', 'abcd1234', '111111', '000000', 'letmein', 'welcome', 'welcome1',
+  'admin', 'admin123', 'iloveyou', 'monkey', 'dragon', 'football', 'baseball', 'sunshine', 'changeme',
+  'test1234', 'Password1', 'Password123', 'Welcome1', 'Qwerty123',
+];
+
+function loadDenylist() {
+  const entries = new Set(BUILTIN_DENYLIST.map((p) => p.toLowerCase()));
+  const file = config.password.denylistFile;
+  if (file) {
+    try {
+      for (const line of fs.readFileSync(file, 'utf8').split(/\r?\n/)) {
+        if (line.trim()) entries.add(line.trim().toLowerCase());
+      }
+    } catch (err: any) {
+      log.error('Could not read PASSWORD_DENYLIST_FILE', { file, err });
+    }
+  }
+  return entries;
+}
+
+const denylist = loadDenylist();
+
+export type PasswordViolationCode =
+  | 'too_short'
+  | 'missing_uppercase'
+  | 'missing_lowercase'
+  | 'missing_digit'
+  | 'missing_symbol'
+  | 'too_common'
+  | 'contains_username'
+  | 'reused';
+
+export type PasswordViolation = { code: PasswordViolationCode; message: string };
+
+export class PasswordPolicyError extends Error {
+  constructor(public readonly violations: PasswordViolation[]) {
+    super('Password does not meet requirements');
+    this.name = 'PasswordPolicyError';
+  }
+}
+
+/**
+ * Response body for a rejected password. Each violation is tagged with the request field it
+ * applies to so the app can show it next to the right input.
+ */
+export function passwordErrorResponse(field: string, violations: PasswordViolation[]) {
+  return {
+    success: false,
+    message: 'Password does not meet requirements',
+    errors: violations.map((v) => ({ field, code: v.code, message: v.message })),
+  };
+}
+
+export const passwordPolicy = {
+  /**
+   * Current requirements, for clients that want to show them before submitting
+   */
+  describe() {
+    return {
+      minLength: MIN_LENGTH,
+      requireUppercase: REQUIRE_UPPERCASE,
+      requireLowercase: REQUIRE_LOWERCASE,
+      requireDigit: REQUIRE_DIGIT,
+      requireSymbol: REQUIRE_SYMBOL,
+      historySize: PASSWORD_HISTORY_SIZE,
+    };
+  },
+
+  validate(plain: string, context: { username?: string } = {}): PasswordViolation[] {
+    const violations: PasswordViolation[] = [];
+
+    if (plain.length < MIN_LENGTH) {
+      violations.push({ code: 'too_short', message: `Password must be at least ${MIN_LENGTH} characters` });
+    }
+    if (REQUIRE_UPPERCASE && !/[A-Z]/.test(plain)) {
+      violations.push({ code: 'missing_uppercase', message: 'Password must contain an uppercase letter' });
+    }
+    if (REQUIRE_LOWERCASE && !/[a-z]/.test(plain)) {
+      violations.push({ code: 'missing_lowercase', message: 'Password must contain a lowercase letter' });
+    }
+    if (REQUIRE_DIGIT && !/[0-9]/.test(plain)) {
+      violations.push({ code: 'missing_digit', message: 'Password must contain a number' });
+    }
+    if (REQUIRE_SYMBOL && !/[^A-Za-z0-9]/.test(plain)) {
+      violations.push({ code: 'missing_symbol', message: 'Password must contain a symbol' });
+    }
+    if (denylist.has(plain.toLowerCase())) {
+      violations.push({ code: 'too_common', message: 'Password is too common' });
+    }
+    if (context.username && context.username.length >= 3 && plain.toLowerCase().includes(context.username.toLowerCase())) {
+      violations.push({ code: 'contains_username', message: 'Password must not contain your username' });
+    }
+
+    return violations;
+  },
+
+  /**
+   * Whether the password matches the user's current password or one of the previous PASSWORD_HISTORY_SIZE
+   */
+  async isReused(user: { passwordHash?: string; passwordHistory?: { hash: string }[] }, plain: string) {
+    const hashes = [
+      user.passwordHash,
+      ...(user.passwordHistory || []).slice(-PASSWORD_HISTORY_SIZE).map((h) => h.hash),
+    ].filter((h): h is string => typeof h === 'string' && h.length > 0);
+
+    for (const hash of hashes) {
+      if (await password.compare(plain, hash)) return true;
+    }
+    return false;
+  },
+
+  /**
+   * Validate a new password for an existing user, including reuse. Throws PasswordPolicyError.
+   */
+  async assertAcceptable(user: { username?: string; passwordHash?: string; passwordHistory?: { hash: string }[] }, plain: string) {
+    const violations = passwordPolicy.validate(plain, { username: user.username });
+    if (await passwordPolicy.isReused(user, plain)) {
+      violations.push({ code: 'reused', message: `Password must not match your current or last ${PASSWORD_HISTORY_SIZE} passwords` });
+    }
+    if (violations.length > 0) throw new PasswordPolicyError(violations);
+  },
+
+  /**
+   * Update fragment that moves the outgoing hash into the history, keeping the newest entries
+   */
+  historyPush(previousHash?: string) {
+    if (!previousHash || PASSWORD_HISTORY_SIZE <= 0) return {};
+    return {
+      $push: {
+        passwordHistory: { $each: [{ hash: previousHash, changedAt: new Date() }], $slice: -PASSWORD_HISTORY_SIZE },
+      },
+    };
+  },
+};
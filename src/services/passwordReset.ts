@@ -0,0 +1,142 @@
+import { createHash, randomBytes } from 'crypto';
+import { UserModel } from '../models/user';
+import { PasswordResetTokenModel } from '../models/passwordResetToken';
+import { password } from '../utils/password';
+import { sendMail } from './mail';
+import { sessionService } from './sessions';
+import { recordAudit } from './audit';
+import { passwordPolicy } from './passwordPolicy';
+import { loginLockout } from './loginLockout';
+import { config } from '../config';
+import { createLogger } from './logger';
+
+const log = createLogger('PasswordReset');
+
+const TOKEN_TTL_MS = config.password.resetTokenTtlMinutes * 60 * 1000;
+// Ignore repeat requests for the same account within this window so the endpoint can't be used to spam inboxes
+const RESEND_INTERVAL_MS = 60_000;
+const RESET_URL = config.password.resetUrl; // e.g. https://vendors.example.com/reset-password
+
+export class PasswordResetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PasswordResetError';
+  }
+}
+
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function buildMessage(username: string, token: string) {
+  const minutes = Math.round(TOKEN_TTL_MS / 60000);
+  const link = RESET_URL ? `${RESET_URL}${RESET_URL.includes('?') ? '&' : '?'}token=${encodeURIComponent(token)}` : null;
+  return [
+    `Hi ${username},`,
+    '',
+    'We received a request to reset your password.',
+    link ? `Open this link to choose a new password: ${link}` : `Your reset code is: ${token}`,
+    '',
+    `This ${link ? 'link' : 'code'} expires in ${minutes} minutes and can only be used once.`,
+    'If you did not request a reset you can ignore this email.',
+  ].join('\n');
+}
+
+export const passwordReset = {
+  /**
+   * Email a one-time reset token to the account matching a username or email.
+   * Never reveals whether the account exists; the caller always returns the same response.
+   */
+  async request(identifier: string, ipAddress?: string | null) {
+    const user: any = await UserModel.findOne({ $or: [{ username: identifier }, { email: identifier }] })
+      .select('_id username email isActive')
+      .lean();
+    if (!user || user.isActive === false || !user.email) {
+      log.info('No eligible account for reset request');
+      return;
+    }
+
+    const userId = String(user._id);
+    const recent = await PasswordResetTokenModel.exists({
+      userId,
+      usedAt: { $exists: false },
+      createdAt: { $gt: new Date(Date.now() - RESEND_INTERVAL_MS) },
+    });
+    if (recent) {
+      log.info('Reset already requested recently', { userId });
+      return;
+    }
+
+    // Only the newest token is valid
+    await PasswordResetTokenModel.deleteMany({ userId, usedAt: { $exists: false } });
+
+    const token = randomBytes(32).toString('hex');
+    await PasswordResetTokenModel.create({
+      userId,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + TOKEN_TTL_MS),
+      requestedIp: ipAddress || undefined,
+    });
+
+    await sendMail({ to: user.email, subject: 'Reset your password', text: buildMessage(user.username, token) });
+
+    await recordAudit({
+      action: 'user.password_reset_requested',
+      targetUserId: userId,
+      username: user.username,
+      ipAddress,
+    });
+  },
+
+  /**
+   * Redeem a reset token and set the new password. Signs the user out everywhere and clears any lockout.
+   * Throws PasswordResetError for a bad token and PasswordPolicyError for an unacceptable password.
+   */
+  async confirm(token: string, newPassword: string, ipAddress?: string | null) {
+    const tokenHash = hashToken(token);
+    const valid = () => ({ tokenHash, usedAt: { $exists: false }, expiresAt: { $gt: new Date() } });
+
+    const pending: any = await PasswordResetTokenModel.findOne(valid()).lean();
+    const user: any = pending
+      ? await UserModel.findOne({ _id: pending.userId, isActive: { $ne: false } })
+        .select('_id username passwordHash passwordHistory')
+        .lean()
+      : null;
+    if (!pending || !user) {
+      throw new PasswordResetError('Invalid or expired reset token');
+    }
+
+    // Check the policy before consuming the token so the user can retry with a better password
+    await passwordPolicy.assertAcceptable(user, newPassword);
+
+    const now = new Date();
+    const record: any = await PasswordResetTokenModel.findOneAndUpdate(valid(), { $set: { usedAt: now } }, { new: true }).lean();
+    if (!record) {
+      throw new PasswordResetError('Invalid or expired reset token');
+    }
+
+    await UserModel.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          passwordHash: await password.hash(newPassword),
+          passwordChangedAt: now,
+          mustChangePassword: false,
+        },
+        ...passwordPolicy.historyPush(user.passwordHash),
+      }
+    );
+    await loginLockout.clearUsername(user.username);
+
+    sessionService.notePasswordChange(record.userId, now);
+    const sessionsRevoked = await sessionService.revokeAllForUser(record.userId, 'password_reset');
+
+    await recordAudit({
+      action: 'user.password_reset',
+      targetUserId: record.userId,
+      username: user.username,
+      ipAddress,
+      metadata: { sessionsRevoked },
+    });
+  },
+};
@@ -0,0 +1,142 @@
+import { RoleModel } from '../models/role';
+import { createLogger } from './logger';
+
+const log = createLogger('Permissions');
+
+export const PERMISSIONS = [
+  // Technician app
+  'view_assigned_jobs',
+  'update_job_status',
+  'upload_parts',
+  'view_vendor_portal',
+  // Vendor administration
+  'manage_vendor_users',
+  // Dispatch
+  'create_jobs',
+  // Back office
+  'manage_users',
+  'manage_roles',
+  'manage_api_keys',
+  'view_audit_log',
+  'view_analytics',
+  'manage_feedback_config',
+  'manage_outbox',
+  'manage_job_sync',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Back-office permissions: a role holding any of these must have two-factor enabled to use them
+export const PRIVILEGED_PERMISSIONS: readonly Permission[] = [
+  'manage_users',
+  'manage_roles',
+  'manage_api_keys',
+  'view_audit_log',
+  'view_analytics',
+  'manage_feedback_config',
+  'manage_outbox',
+  'manage_job_sync',
+];
+
+const TECHNICIAN_PERMISSIONS: Permission[] = ['view_assigned_jobs', 'update_job_status', 'upload_parts', 'view_vendor_portal'];
+
+export const DEFAULT_ROLES: Record<string, { description: string; permissions: Permission[] }> = {
+  admin: { description: 'Full back-office access', permissions: [...PERMISSIONS] },
+  vendor_admin: {
+    description: 'Vendor owner/manager: technician access plus managing their vendor\'s users',
+    permissions: [...TECHNICIAN_PERMISSIONS, 'manage_vendor_users'],
+  },
+  dispatcher: {
+    description: 'Creates jobs and follows up on assignments',
+    permissions: ['view_assigned_jobs', 'update_job_status', 'create_jobs'],
+  },
+  registered_user: { description: 'Vendor technician', permissions: TECHNICIAN_PERMISSIONS },
+  guest: { description: 'No access', permissions: [] },
+};
+
+// Role documents change rarely; keep them in memory briefly so requirePermission() stays cheap
+const CACHE_TTL_MS = 60_000;
+const roleCache = new Map<string, { permissions: string[]; loadedAt: number }>();
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && (PERMISSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Whether `value` names a built-in role (own keys only, so 'constructor' or 'toString' are not roles)
+ */
+export function isRoleName(value: unknown): value is string {
+  return typeof value === 'string' && Object.hasOwn(DEFAULT_ROLES, value);
+}
+
+export function isPrivilegedPermission(value: string) {
+  return (PRIVILEGED_PERMISSIONS as readonly string[]).includes(value);
+}
+
+function defaultPermissions(role: string): string[] {
+  return isRoleName(role) ? DEFAULT_ROLES[role].permissions : [];
+}
+
+export const permissionService = {
+  /**
+   * Insert any missing built-in roles. Existing documents are left alone so admin edits survive restarts.
+   */
+  async seedDefaults() {
+    for (const [name, role] of Object.entries(DEFAULT_ROLES)) {
+      await RoleModel.updateOne(
+        { name },
+        { $setOnInsert: { name, description: role.description, permissions: role.permissions, isSystem: true } },
+        { upsert: true }
+      );
+    }
+    // admin always holds every permission, including ones added after its document was seeded
+    await RoleModel.updateOne({ name: 'admin' }, { $addToSet: { permissions: { $each: [...PERMISSIONS] } } });
+  },
+
+  /**
+   * Effective permissions for a role. Unknown roles get none; if Mongo is unavailable the
+   * built-in defaults are used so a DB blip doesn't lock every technician out.
+   */
+  async getPermissions(role?: string | null): Promise<string[]> {
+    if (!role) return [];
+
+    const cached = roleCache.get(role);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.permissions;
+
+    try {
+      const doc: any = await RoleModel.findOne({ name: role }).select('permissions').lean();
+      const permissions: string[] = doc ? doc.permissions || [] : defaultPermissions(role);
+      roleCache.set(role, { permissions, loadedAt: Date.now() });
+      return permissions;
+    } catch (err: any) {
+      log.error('Role lookup failed, using defaults', { role, err });
+      return defaultPermissions(role);
+    }
+  },
+
+  async hasPermission(role: string | undefined | null, permission: Permission) {
+    return (await permissionService.getPermissions(role)).includes(permission);
+  },
+
+  async listRoles() {
+    return RoleModel.find({}).sort({ name: 1 }).lean();
+  },
+
+  async getRole(name: string) {
+    return RoleModel.findOne({ name }).lean();
+  },
+
+  /**
+   * Replace a role's permission list. Returns null when the role doesn't exist.
+   */
+  async updateRole(name: string, update: { permissions?: Permission[]; description?: string }, updatedBy?: string) {
+    const $set: Record<string, any> = {};
+    if (update.permissions) $set.permissions = Array.from(new Set(update.permissions));
+    if (typeof update.description === 'string') $set.description = update.description;
+    if (updatedBy) $set.updatedBy = updatedBy;
+
+    const role: any = await RoleModel.findOneAndUpdate({ name }, { $set }, { new: true }).lean();
+    roleCache.delete(name);
+    return role;
+  },
+};
@@ -0,0 +1,228 @@
+import type { RequestHandler, Response, Router } from 'express';
+import type { AuthenticatedRequest } from '../middleware/auth';
+import { ExternalApiAdapter, EXTERNAL_API_URL } from './externalApiAdapter';
+import { sendUpstreamError, UpstreamError } from './upstreamError';
+import type { CacheOutcome } from './upstreamCache';
+import { isTransientUpstreamError, wantsQueuedWrite, wasNotApplied, writeOutbox } from './writeOutbox';
+import { createLogger } from './logger';
+
+const log = createLogger('ProxyRoutes');
+
+// Declarative pass-through routes to the upstream API. Each definition becomes one Express route
+// that requires a Bearer token (forwarded as-is, not validated here), calls the upstream path
+// with the route's params filled in, and answers with the upstream response. Errors keep the
+// upstream status (see sendUpstreamError) and every call is counted in proxyMetrics.
+
+type RouteMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+type UpstreamMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type ProxyContext = {
+  req: AuthenticatedRequest;
+  res: Response;
+  token: string;
+  // Body sent upstream (after transformRequest)
+  body?: any;
+};
+
+export type ProxyRouteDefinition = {
+  // Log tag and metrics key, e.g. 'UpdateAssignment'
+  name: string;
+  method: RouteMethod;
+  path: string;
+  // Upstream path; ':param' segments are filled from req.params
+  upstream: string;
+  // Defaults to the local method
+  upstreamMethod?: UpstreamMethod;
+  baseUrl?: string;
+  // Query parameters passed on to the upstream when present
+  query?: string[];
+  // Extra middleware run before the proxy handler (e.g. authenticateJWT)
+  middleware?: RequestHandler[];
+  transformRequest?: (ctx: ProxyContext) => any | Promise<any>;
+  transformResponse?: (data: any, ctx: ProxyContext) => any | Promise<any>;
+  // HTTP status to answer with for a successful upstream call (default 200)
+  status?: (data: any, ctx: ProxyContext) => number;
+  // Fallback message when the call fails without an upstream message
+  errorMessage?: string;
+  // Writes only: ordering key under which the write is queued in the outbox when the upstream is
+  // unavailable and the client asked for it (see writeOutbox), e.g. one key per assignment
+  outboxKey?: (ctx: ProxyContext) => string;
+  // Whether sending the write twice has the same effect as sending it once. Defaults to true for
+  // PUT, PATCH and DELETE and false for POST. Non-idempotent writes are only queued when the
+  // upstream certainly did not apply them (see writeOutbox.wasNotApplied).
+  idempotent?: boolean;
+};
+
+type RouteMetrics = {
+  calls: number;
+  failures: number;
+  byStatus: Record<string, number>;
+  totalMs: number;
+  maxMs: number;
+  lastFailureAt?: number;
+  lastFailure?: string;
+};
+
+const metrics = new Map<string, RouteMetrics>();
+
+function recordCall(name: string, status: number, elapsedMs: number, failure?: string) {
+  let m = metrics.get(name);
+  if (!m) {
+    m = { calls: 0, failures: 0, byStatus: {}, totalMs: 0, maxMs: 0 };
+    metrics.set(name, m);
+  }
+  m.calls += 1;
+  m.byStatus[status] = (m.byStatus[status] || 0) + 1;
+  m.totalMs += elapsedMs;
+  m.maxMs = Math.max(m.maxMs, elapsedMs);
+  if (failure) {
+    m.failures += 1;
+    m.lastFailureAt = Date.now();
+    m.lastFailure = failure;
+  }
+}
+
+export const proxyMetrics = {
+  snapshot() {
+    return Array.from(metrics.entries())
+      .map(([name, m]) => ({
+        name,
+        calls: m.calls,
+        failures: m.failures,
+        byStatus: m.byStatus,
+        avgMs: m.calls ? Math.round(m.totalMs / m.calls) : 0,
+        maxMs: m.maxMs,
+        lastFailureAt: m.lastFailureAt ? new Date(m.lastFailureAt).toISOString() : null,
+        lastFailure: m.lastFailure || null,
+      }))
+      .sort((a, b) => b.calls - a.calls);
+  },
+};
+
+export function getBearerToken(headerValue: unknown) {
+  const raw = typeof headerValue === 'string' ? headerValue : '';
+  return raw.startsWith('Bearer ') ? raw.substring(7) : raw;
+}
+
+function buildUpstreamPath(def: ProxyRouteDefinition, req: AuthenticatedRequest) {
+  const path = def.upstream.replace(/:(\w+)/g, (_m, param: string) => encodeURIComponent(String(req.params[param] ?? '')));
+  if (!def.query?.length) return path;
+
+  const search = new URLSearchParams();
+  for (const key of def.query) {
+    const value = req.query[key];
+    if (typeof value === 'string' && value !== '') search.set(key, value);
+  }
+  const qs = search.toString();
+  return qs ? `${path}?${qs}` : path;
+}
+
+// 202 for a write stored in the outbox; the client polls statusUrl with the same token
+function sendQueued(res: Response, entry: any) {
+  const statusUrl = `/api/outbox/${entry.trackingId}`;
+  res.setHeader('Location', statusUrl);
+  return res.status(202).json({ success: true, queued: true, trackingId: entry.trackingId, status: entry.status, statusUrl });
+}
+
+function createProxyHandler(def: ProxyRouteDefinition) {
+  const routeLog = log.child({ route: def.name });
+  const upstreamMethod = def.upstreamMethod || (def.method.toUpperCase() as UpstreamMethod);
+  const baseUrl = def.baseUrl || EXTERNAL_API_URL;
+  const idempotent = def.idempotent ?? upstreamMethod !== 'POST';
+
+  return async (req: AuthenticatedRequest, res: Response) => {
+    const token = getBearerToken(req.headers.authorization);
+    if (!token) {
+      return res.status(401).json({ success: false, message: 'No token provided' });
+    }
+
+    const ctx: ProxyContext = { req, res, token };
+    const started = Date.now();
+    let endpoint = def.upstream;
+    let outboxKey: string | null = null;
+    const enqueue = async (error?: UpstreamError) => {
+      const entry = await writeOutbox.enqueue({
+        route: def.name,
+        orderingKey: outboxKey!,
+        method: upstreamMethod,
+        baseUrl,
+        endpoint,
+        body: ctx.body,
+        token,
+        idempotent,
+        requestId: req.requestId,
+        error,
+      });
+      const elapsedMs = Date.now() - started;
+      recordCall(def.name, 202, elapsedMs);
+      res.locals.proxy = { name: def.name, upstream: endpoint, upstreamMs: elapsedMs, queued: entry.trackingId };
+      return sendQueued(res, entry);
+    };
+
+    try {
+      endpoint = buildUpstreamPath(def, req);
+      if (def.transformRequest) {
+        ctx.body = await def.transformRequest(ctx);
+      } else if (upstreamMethod !== 'GET' && upstreamMethod !== 'DELETE') {
+        ctx.body = req.body;
+      }
+
+      if (def.outboxKey && wantsQueuedWrite(req)) {
+        outboxKey = def.outboxKey(ctx);
+        // Sending it now would let it overtake the writes still waiting for the same key
+        if (await writeOutbox.hasUnresolved(outboxKey)) {
+          routeLog.info('Earlier writes still queued or unresolved, queueing this one behind them', { outboxKey });
+          return await enqueue();
+        }
+      }
+
+      routeLog.info('Proxying request', { method: upstreamMethod, url: `${baseUrl}${endpoint}` });
+      if (ctx.body !== undefined) routeLog.debug('Proxied request body', { body: ctx.body });
+
+      let cache: CacheOutcome | undefined;
+      let data = await ExternalApiAdapter.callExternalApi(endpoint, token, upstreamMethod, ctx.body, baseUrl, {
+        onCache: (outcome) => { cache = outcome; },
+      });
+      if (def.transformResponse) data = await def.transformResponse(data, ctx);
+
+      // The upstream answers 204 for some deletes, which axios hands back as an empty body
+      const empty = data === undefined || data === null || data === '';
+      let status = def.status ? def.status(data, ctx) : 200;
+      if (empty && status === 200) status = 204;
+
+      const elapsedMs = Date.now() - started;
+      recordCall(def.name, status, elapsedMs);
+      res.locals.proxy = { name: def.name, upstream: endpoint, upstreamMs: elapsedMs, ...(cache && { cache }) };
+      routeLog.info('Proxied request completed', { status, elapsedMs, ...(cache && { cache }) });
+
+      if (empty) return res.status(status).send();
+      return res.status(status).json(data);
+    } catch (err: any) {
+      const elapsedMs = Date.now() - started;
+      // A timeout or 5xx may come after the upstream applied the write; only repeat it if that's harmless
+      if (outboxKey && isTransientUpstreamError(err) && (idempotent || wasNotApplied(err))) {
+        routeLog.warn('Upstream unavailable, queueing write', { method: upstreamMethod, endpoint, elapsedMs, err });
+        try {
+          return await enqueue(err);
+        } catch (queueErr) {
+          routeLog.error('Failed to queue write', { err: queueErr });
+        }
+      }
+      const status = err instanceof UpstreamError ? err.status : 500;
+      recordCall(def.name, status, elapsedMs, err?.message);
+      res.locals.proxy = { name: def.name, upstream: endpoint, upstreamMs: elapsedMs, failed: true };
+      routeLog.error('Proxied request failed', { method: upstreamMethod, endpoint, elapsedMs, err });
+      return sendUpstreamError(res, err, def.errorMessage || 'External API call failed');
+    }
+  };
+}
+
+/**
+ * Register pass-through routes on a router, in order. Register them where the hand-written
+ * routes they replace used to be, i.e. before any router-wide auth middleware.
+ */
+export function registerProxyRoutes(router: Router, routes: ProxyRouteDefinition[]) {
+  for (const def of routes) {
+    router[def.method](def.path, ...(def.middleware || []), createProxyHandler(def));
+  }
+}
@@ -0,0 +1,30 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Per-request context (currently just the request ID), available anywhere in the async call
+// chain of a request without threading it through every function. Set by the requestContext
+// middleware; read by the logger and by everything that calls an upstream service.
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+type RequestContext = { requestId: string };
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run `fn` with `requestId` as the current request ID (including its async continuations)
+ */
+export function runWithRequestContext<T>(requestId: string, fn: () => T): T {
+  return storage.run({ requestId }, fn);
+}
+
+export function currentRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
+
+/**
+ * Headers for an outbound call, so the upstream's logs can be matched with ours
+ */
+export function requestIdHeaders(): Record<string, string> {
+  const requestId = currentRequestId();
+  return requestId ? { [REQUEST_ID_HEADER]: requestId } : {};
+}
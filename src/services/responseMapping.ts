@@ -0,0 +1,455 @@
+import { validateObject, type ObjectSchema, type SchemaViolation } from './upstreamSchema';
+import { UpstreamError } from './upstreamError';
+import { config } from '../config';
+import { inferTimeZone, isTimeZone, scheduledWindow } from './scheduling';
+import { createLogger } from './logger';
+
+const log = createLogger('ResponseMapping');
+
+// Typed mapping of upstream responses into the shapes our routes work with and return.
+// Each mapped endpoint declares the schema of its items; items are validated and then mapped to a
+// DTO. DTOs keep every field the upstream sent (the app reads some we don't model) and add the
+// canonical fields on top, so mapping never removes data from a response.
+//
+// Violations are logged and counted (see schemaViolations); with UPSTREAM_SCHEMA_STRICT=true
+// they fail the request with a 502 instead.
+
+const STRICT = config.upstream.schemaStrict;
+const MAX_SAMPLES = 5;
+const LOG_INTERVAL_MS = 60_000;
+
+type Passthrough = { [field: string]: unknown };
+
+// The upstream uses both numeric and string ids
+export type UpstreamId = string | number;
+
+export type ProductInfoDTO = {
+  productLine: string | null;
+  brand: string | null;
+  modelNumber: string | null;
+  serialNumber: string | null;
+  issue: string | null;
+  imageUrl: string | null;
+};
+
+export type JobDTO = Passthrough & {
+  id: UpstreamId;
+  soNumber: string | null;
+  customerName: string | null;
+  customerLastName?: string | null;
+  customerAddress: string | null;
+  customerCity: string | null;
+  customerState: string | null;
+  customerZip: string | null;
+  customerPhone: string | null;
+  customerEmail: string | null;
+  applianceType: string | null;
+  manufacturerBrand: string | null;
+  serviceDescription: string | null;
+  scheduledDate: string | Date | null;
+  scheduledTimeWindow: string | null;
+  // IANA zone of the job address (stored, else inferred from state/ZIP)
+  timeZone: string | null;
+  // scheduledTimeWindow on the scheduled day, as instants (see scheduling.scheduledWindow)
+  scheduledWindow: { start: string; end: string; timeZone: string } | null;
+  priority: string | null;
+  status: string | null;
+  vendorId: UpstreamId | null;
+  assignmentId?: UpstreamId | null;
+  productInfoUpdate?: Partial<ProductInfoDTO> | null;
+};
+
+export type AssignmentDTO = Passthrough & {
+  id: UpstreamId;
+  jobId: UpstreamId;
+  vendorId: UpstreamId;
+  status: string;
+  photos: unknown[];
+};
+
+export type ApplianceFieldsDTO = {
+  applianceBrandname: string | null;
+  applianceModel: string | null;
+  applianceSerial: string | null;
+  applianceIssue: string | null;
+};
+
+// Enriched assignment returned by GET /api/assignments/:id (shaped like our MongoDB documents)
+export type AssignmentDetailsDTO = Partial<ApplianceFieldsDTO> & {
+  _id: string;
+  jobId: string;
+  vendorId: string;
+  status: string;
+  vendorNotes: string | null;
+  action: string | null;
+  customerNotHome: unknown;
+  assignedAt: string | null;
+  createdAt: string | null;
+  updatedAt: string;
+  __v: 0;
+  confirmedAt: string | null;
+  arrivedAt: string | null;
+  completedAt: string | null;
+  completionNotes: string | null;
+  notes: string | null;
+  cancellationReason: string | null;
+  job?: JobDTO;
+  parts: PartDTO[];
+  photos: unknown[];
+};
+
+export type PartDTO = Passthrough & {
+  id: UpstreamId | null;
+  partType: string | null;
+  partNumber: string | null;
+  partName: string | null;
+  quantity: number | null;
+};
+
+export type OrderDTO = Passthrough & {
+  id: UpstreamId;
+  status: string | null;
+  items: unknown[];
+};
+
+export type VendorDTO = Passthrough & {
+  id: UpstreamId;
+  name: string | null;
+};
+
+export type UpstreamEnvelope<T> = Passthrough & {
+  success: boolean;
+  message?: string;
+  data?: T;
+};
+
+const jobSchema: ObjectSchema = {
+  id: { type: 'id', required: true },
+  soNumber: { type: 'string', nullable: true },
+  status: { type: 'string', nullable: true },
+  scheduledDate: { type: 'date', nullable: true },
+  vendorId: { type: 'id', nullable: true },
+  productInfoUpdate: { type: 'object', nullable: true },
+};
+
+const assignmentSchema: ObjectSchema = {
+  id: { type: 'id', required: true },
+  jobId: { type: 'id', required: true },
+  vendorId: { type: 'id', required: true },
+  status: { type: 'string', required: true },
+  assignedAt: { type: 'date', nullable: true },
+  customerNotHome: { type: 'object', nullable: true },
+  photos: { type: 'array', nullable: true },
+};
+
+const partSchema: ObjectSchema = {
+  id: { type: 'id', nullable: true },
+  partType: { type: 'string', nullable: true },
+  partNumber: { type: 'string', nullable: true },
+  quantity: { type: 'number', nullable: true },
+};
+
+const orderSchema: ObjectSchema = {
+  id: { type: 'id', required: true },
+  status: { type: 'string', nullable: true },
+  items: { type: 'array', nullable: true },
+};
+
+const vendorSchema: ObjectSchema = {
+  id: { type: 'id', required: true },
+  name: { type: 'string', nullable: true },
+};
+
+// Canonical fields are only filled in when the upstream left them out; values it did send
+// (including their types) are returned unchanged.
+
+// Stored zone when valid, otherwise inferred from the customer's state/ZIP
+function jobTimeZone(timeZone: unknown, state: unknown, zip: unknown) {
+  return isTimeZone(timeZone) ? timeZone : inferTimeZone({ state, zip });
+}
+
+export function toJobDTO(raw: any): JobDTO {
+  const job = {
+    ...raw,
+    id: raw.id,
+    soNumber: raw.soNumber ?? `SO-${raw.id}`,
+    customerName: raw.customerName ?? raw.firstName ?? null,
+    customerAddress: raw.customerAddress ?? raw.address ?? null,
+    customerCity: raw.customerCity ?? raw.city ?? null,
+    customerState: raw.customerState ?? raw.state ?? null,
+    customerZip: raw.customerZip ?? raw.zipCode ?? null,
+    customerPhone: raw.customerPhone ?? raw.phoneNumber ?? null,
+    customerEmail: raw.customerEmail ?? raw.email ?? null,
+    applianceType: raw.applianceType ?? raw.appliance ?? null,
+    manufacturerBrand: raw.manufacturerBrand ?? raw.brand ?? null,
+    serviceDescription: raw.serviceDescription ?? raw.description ?? null,
+    scheduledDate: raw.scheduledDate ?? null,
+    scheduledTimeWindow: raw.scheduledTimeWindow ?? raw.timeWindow ?? null,
+    priority: raw.priority ?? null,
+    status: raw.status ?? null,
+    vendorId: raw.vendorId ?? null,
+  };
+  job.timeZone = jobTimeZone(raw.timeZone, job.customerState, job.customerZip);
+  job.scheduledWindow = raw.scheduledWindow ?? scheduledWindow(job);
+  return job;
+}
+
+// The app has no 'diagnostic_complete' state; it shows those assignments as waiting on parts
+export function toAssignmentDTO(raw: any): AssignmentDTO {
+  return {
+    ...raw,
+    status: raw.status === 'diagnostic_complete' ? 'waiting_on_parts' : raw.status,
+    photos: Array.isArray(raw.photos) ? raw.photos : [],
+  };
+}
+
+// The app calls ordered parts 'order_part'
+export function toPartDTO(raw: any): PartDTO {
+  return {
+    ...raw,
+    id: raw.id ?? null,
+    partType: raw.partType === 'ordered' ? 'order_part' : raw.partType ?? null,
+    partNumber: raw.partNumber ?? null,
+    partName: raw.partName ?? null,
+    quantity: raw.quantity ?? null,
+  };
+}
+
+export function toOrderDTO(raw: any): OrderDTO {
+  return {
+    ...raw,
+    status: raw.status ?? null,
+    items: Array.isArray(raw.items) ? raw.items : [],
+  };
+}
+
+export function toVendorDTO(raw: any): VendorDTO {
+  return {
+    ...raw,
+    name: raw.name ?? null,
+  };
+}
+
+/**
+ * Build the enriched assignment details from the mapped upstream assignment and the data
+ * fetched alongside it
+ */
+export function toAssignmentDetailsDTO(
+  assignment: AssignmentDTO,
+  extras: { job: JobDTO | null; parts: PartDTO[]; appliance: Partial<ApplianceFieldsDTO> | null }
+): AssignmentDetailsDTO {
+  const a = assignment as any;
+  const { job, parts, appliance } = extras;
+  return {
+    _id: String(a.id),
+    jobId: String(a.jobId),
+    vendorId: String(a.vendorId),
+    status: a.status,
+    vendorNotes: a.vendorNotes || null,
+    action: a.action || null,
+    customerNotHome: a.customerNotHome || { status: false },
+    assignedAt: a.assignedAt,
+    createdAt: a.createdAt || a.assignedAt,
+    updatedAt: a.updatedAt || new Date().toISOString(),
+    __v: 0,
+    confirmedAt: a.confirmedAt || null,
+    arrivedAt: a.arrivedAt || null,
+    completedAt: a.completedAt || null,
+    completionNotes: a.completionNotes || null,
+    notes: a.notes || null,
+    cancellationReason: a.cancellationReason || null,
+    ...(appliance && {
+      applianceBrandname: appliance.applianceBrandname || null,
+      applianceModel: appliance.applianceModel || null,
+      applianceSerial: appliance.applianceSerial || null,
+      applianceIssue: appliance.applianceIssue || null,
+    }),
+    ...(job && { job }),
+    parts,
+    photos: assignment.photos,
+  };
+}
+
+/**
+ * Map a locally stored job (or imported order) document to the job DTO
+ */
+export function jobDocToDTO(doc: any): JobDTO {
+  const soNumber = doc.soNumber || doc.raw?.SO_NO || `SO-${String(doc._id).slice(-6)}`;
+  const customerName: string | undefined = doc.customerName || doc.raw?.CUS_NM || undefined;
+  let firstName: string | undefined = customerName;
+  let lastName: string | undefined = undefined;
+  if (customerName && customerName.includes(' ')) {
+    const parts = String(customerName).split(/\s+/);
+    firstName = parts.shift();
+    lastName = parts.join(' ') || undefined;
+  }
+  const dto: JobDTO = {
+    id: String(doc._id),
+    soNumber,
+    customerName: firstName || customerName || null,
+    customerLastName: lastName || null,
+    customerAddress: doc.customerAddress || null,
+    customerCity: doc.customerCity || doc.raw?.CUS_CTY_NM || null,
+    customerState: doc.customerState || doc.raw?.CUS_ST_CD || null,
+    customerZip: doc.customerZip || doc.raw?.ZIP_CD || doc.raw?.CN_ZIP_PC || null,
+    applianceType: doc.applianceType || doc.raw?.HS_SP_CD || doc.raw?.SPECIALTY || null,
+    manufacturerBrand: doc.manufacturerBrand || null,
+    serviceDescription: doc.serviceDescription || doc.raw?.SVC_RQ_DS || doc.raw?.REPAIR_TYPE || null,
+    scheduledDate: doc.scheduledDate || (doc.raw?.SVC_SCH_DT ? new Date(doc.raw.SVC_SCH_DT) : null),
+    scheduledTimeWindow: doc.scheduledTimeWindow || null,
+    priority: doc.priority || 'medium',
+    status: doc.status || 'available',
+    vendorId: doc.vendorId ? String(doc.vendorId) : null,
+    assignmentId: doc.assignmentId ? String(doc.assignmentId) : null,
+    customerPhone: doc.customerPhone || null,
+    customerEmail: doc.customerEmail || null,
+    productInfoUpdate: {
+      productLine: (doc.productInfoUpdate && doc.productInfoUpdate.productLine) || null,
+      brand: (doc.productInfoUpdate && doc.productInfoUpdate.brand) || null,
+      modelNumber: (doc.productInfoUpdate && doc.productInfoUpdate.modelNumber) || null,
+      serialNumber: (doc.productInfoUpdate && doc.productInfoUpdate.serialNumber) || null,
+      issue: (doc.productInfoUpdate && doc.productInfoUpdate.issue) || null,
+      imageUrl: (doc.productInfoUpdate && doc.productInfoUpdate.imageUrl) || null,
+    },
+    timeZone: null,
+    scheduledWindow: null,
+  };
+  dto.timeZone = jobTimeZone(doc.timeZone, dto.customerState, dto.customerZip);
+  dto.scheduledWindow = scheduledWindow(dto);
+  return dto;
+}
+
+type EndpointMapping<T> = {
+  kind: 'item' | 'list';
+  schema: ObjectSchema;
+  map: (raw: any) => T;
+};
+
+const ENDPOINTS = {
+  'jobs.available': { kind: 'list', schema: jobSchema, map: toJobDTO } as EndpointMapping<JobDTO>,
+  'jobs.detail': { kind: 'item', schema: jobSchema, map: toJobDTO } as EndpointMapping<JobDTO>,
+  'assignments.detail': { kind: 'item', schema: assignmentSchema, map: toAssignmentDTO } as EndpointMapping<AssignmentDTO>,
+  'assignments.list': { kind: 'list', schema: assignmentSchema, map: toAssignmentDTO } as EndpointMapping<AssignmentDTO>,
+  'parts.list': { kind: 'list', schema: partSchema, map: toPartDTO } as EndpointMapping<PartDTO>,
+  'parts.detail': { kind: 'item', schema: partSchema, map: toPartDTO } as EndpointMapping<PartDTO>,
+  'orders.list': { kind: 'list', schema: orderSchema, map: toOrderDTO } as EndpointMapping<OrderDTO>,
+  'orders.detail': { kind: 'item', schema: orderSchema, map: toOrderDTO } as EndpointMapping<OrderDTO>,
+  'vendors.me': { kind: 'item', schema: vendorSchema, map: toVendorDTO } as EndpointMapping<VendorDTO>,
+};
+
+export type MappedEndpoint = keyof typeof ENDPOINTS;
+type DtoOf<E extends MappedEndpoint> = (typeof ENDPOINTS)[E] extends EndpointMapping<infer T> ? T : never;
+
+/**
+ * Where a list response keeps its items. The upstream has used { data: [...] },
+ * { data: { jobs: [...] } } and { data: { data: [...] } }; replace() writes a new list back
+ * into whichever one it was, so the response keeps its original structure.
+ */
+export function envelopeList(response: any): { items: any[]; replace: (items: any[]) => void } | null {
+  const data = response?.data;
+  if (Array.isArray(data)) {
+    return { items: data, replace: (items) => { response.data = items; } };
+  }
+  if (data && Array.isArray(data.jobs)) {
+    return { items: data.jobs, replace: (items) => { data.jobs = items; } };
+  }
+  if (data && Array.isArray(data.data)) {
+    return { items: data.data, replace: (items) => { data.data = items; } };
+  }
+  return null;
+}
+
+const violationStats = new Map<string, {
+  responses: number;
+  violations: number;
+  lastAt: number;
+  lastLoggedAt: number;
+  samples: SchemaViolation[];
+}>();
+
+function reportViolations(endpoint: string, violations: SchemaViolation[]) {
+  let stats = violationStats.get(endpoint);
+  if (!stats) {
+    stats = { responses: 0, violations: 0, lastAt: 0, lastLoggedAt: 0, samples: [] };
+    violationStats.set(endpoint, stats);
+  }
+  stats.responses += 1;
+  stats.violations += violations.length;
+  stats.lastAt = Date.now();
+  stats.samples = violations.slice(0, MAX_SAMPLES);
+
+  // A broken upstream deploy would otherwise log this on every request
+  if (Date.now() - stats.lastLoggedAt >= LOG_INTERVAL_MS) {
+    stats.lastLoggedAt = Date.now();
+    log.warn('Response does not match its schema', {
+      endpoint,
+      violationCount: violations.length,
+      violations: violations.slice(0, MAX_SAMPLES),
+    });
+  }
+
+  if (STRICT) {
+    throw new UpstreamError('External API returned an unexpected response', 502, 'UPSTREAM_SCHEMA_VIOLATION', {
+      endpoint,
+      violations: violations.slice(0, MAX_SAMPLES),
+    });
+  }
+}
+
+export const schemaViolations = {
+  snapshot() {
+    return Array.from(violationStats.entries()).map(([endpoint, s]) => ({
+      endpoint,
+      responses: s.responses,
+      violations: s.violations,
+      lastAt: new Date(s.lastAt).toISOString(),
+      samples: s.samples,
+    }));
+  },
+};
+
+/**
+ * Validate an upstream response for an endpoint and map its data to DTOs.
+ * Unsuccessful responses are returned untouched.
+ */
+export function mapUpstreamResponse<E extends MappedEndpoint>(endpoint: E, response: any): UpstreamEnvelope<any> {
+  if (!response || typeof response !== 'object') {
+    reportViolations(endpoint, [{ path: 'response', expected: 'object', actual: response === null ? 'null' : typeof response }]);
+    return response;
+  }
+  if (!response.success) return response;
+
+  const mapping = ENDPOINTS[endpoint] as EndpointMapping<DtoOf<E>>;
+  const violations: SchemaViolation[] = [];
+  const mapItem = (item: any, path: string) => {
+    const itemViolations = validateObject(mapping.schema, item, path);
+    violations.push(...itemViolations);
+    // Items that aren't objects or lack required fields can't be mapped safely; pass them through as they came
+    const unmappable = itemViolations.some((v) => v.path === path || mapping.schema[v.path.slice(path.length + 1)]?.required);
+    return unmappable ? item : mapping.map(item);
+  };
+
+  if (mapping.kind === 'list') {
+    const list = envelopeList(response);
+    if (!list) {
+      violations.push({ path: 'data', expected: 'array', actual: response.data === null ? 'null' : typeof response.data });
+    } else {
+      list.replace(list.items.map((item, i) => mapItem(item, `data[${i}]`)));
+    }
+  } else if (response.data !== undefined && response.data !== null) {
+    response.data = mapItem(response.data, 'data');
+  } else {
+    violations.push({ path: 'data', expected: 'object', actual: String(response.data) });
+  }
+
+  if (violations.length > 0) reportViolations(endpoint, violations);
+  return response;
+}
+
+/**
+ * Typed accessor for a mapped single-item response
+ */
+export function mappedItem<E extends MappedEndpoint>(endpoint: E, response: any): DtoOf<E> | null {
+  const mapped = mapUpstreamResponse(endpoint, response);
+  return mapped?.success && mapped.data && typeof mapped.data === 'object' ? (mapped.data as DtoOf<E>) : null;
+}
@@ -0,0 +1,220 @@
+import { config } from '../config';
+import { createLogger } from './logger';
+
+const log = createLogger('Scheduling');
+
+// Time zones and lead times for job scheduling. Upstream scheduledDate values are either a plain
+// day (midnight UTC, or 'YYYY-MM-DD') or a real instant; "available from tomorrow" compares the
+// job's local calendar day with the vendor's local today plus their lead time, so a Pacific
+// vendor at 6 PM still sees tomorrow's jobs. Jobs and vendors without a stored time zone get one
+// inferred from their state (or ZIP prefix); split states use their most populous zone.
+
+const STATE_TIME_ZONES: Record<string, string> = {
+  AL: 'America/Chicago', AK: 'America/Anchorage', AZ: 'America/Phoenix', AR: 'America/Chicago',
+  CA: 'America/Los_Angeles', CO: 'America/Denver', CT: 'America/New_York', DC: 'America/New_York',
+  DE: 'America/New_York', FL: 'America/New_York', GA: 'America/New_York', HI: 'Pacific/Honolulu',
+  ID: 'America/Boise', IL: 'America/Chicago', IN: 'America/Indiana/Indianapolis', IA: 'America/Chicago',
+  KS: 'America/Chicago', KY: 'America/New_York', LA: 'America/Chicago', ME: 'America/New_York',
+  MD: 'America/New_York', MA: 'America/New_York', MI: 'America/Detroit', MN: 'America/Chicago',
+  MS: 'America/Chicago', MO: 'America/Chicago', MT: 'America/Denver', NE: 'America/Chicago',
+  NV: 'America/Los_Angeles', NH: 'America/New_York', NJ: 'America/New_York', NM: 'America/Denver',
+  NY: 'America/New_York', NC: 'America/New_York', ND: 'America/Chicago', OH: 'America/New_York',
+  OK: 'America/Chicago', OR: 'America/Los_Angeles', PA: 'America/New_York', PR: 'America/Puerto_Rico',
+  RI: 'America/New_York', SC: 'America/New_York', SD: 'America/Chicago', TN: 'America/Chicago',
+  TX: 'America/Chicago', UT: 'America/Denver', VT: 'America/New_York', VA: 'America/New_York',
+  WA: 'America/Los_Angeles', WV: 'America/New_York', WI: 'America/Chicago', WY: 'America/Denver',
+  GU: 'Pacific/Guam', VI: 'America/St_Thomas',
+};
+
+// First three ZIP digits -> state (inclusive ranges), for jobs and vendors without a state
+const ZIP3_STATES: Array<[number, number, string]> = [
+  [5, 5, 'NY'], [6, 7, 'PR'], [8, 8, 'VI'], [9, 9, 'PR'], [10, 27, 'MA'], [28, 29, 'RI'], [30, 38, 'NH'],
+  [39, 49, 'ME'], [50, 54, 'VT'], [55, 55, 'MA'], [56, 59, 'VT'], [60, 69, 'CT'], [70, 89, 'NJ'],
+  [100, 149, 'NY'], [150, 196, 'PA'], [197, 199, 'DE'], [200, 205, 'DC'], [206, 219, 'MD'],
+  [220, 246, 'VA'], [247, 268, 'WV'], [270, 289, 'NC'], [290, 299, 'SC'], [300, 319, 'GA'],
+  [320, 349, 'FL'], [350, 369, 'AL'], [370, 385, 'TN'], [386, 397, 'MS'], [398, 399, 'GA'],
+  [400, 427, 'KY'], [430, 459, 'OH'], [460, 479, 'IN'], [480, 499, 'MI'], [500, 528, 'IA'],
+  [530, 549, 'WI'], [550, 567, 'MN'], [569, 569, 'DC'], [570, 577, 'SD'], [580, 588, 'ND'],
+  [590, 599, 'MT'], [600, 629, 'IL'], [630, 658, 'MO'], [660, 679, 'KS'], [680, 693, 'NE'],
+  [700, 715, 'LA'], [716, 729, 'AR'], [730, 749, 'OK'], [750, 799, 'TX'], [800, 816, 'CO'],
+  [820, 831, 'WY'], [832, 838, 'ID'], [840, 847, 'UT'], [850, 865, 'AZ'], [870, 884, 'NM'],
+  [885, 885, 'TX'], [889, 898, 'NV'], [900, 961, 'CA'], [967, 968, 'HI'], [969, 969, 'GU'],
+  [970, 979, 'OR'], [980, 994, 'WA'], [995, 999, 'AK'],
+];
+
+// ZIP prefixes in a different zone from the rest of their state
+const ZIP3_TIME_ZONES: Array<[number, number, string]> = [
+  [324, 325, 'America/Chicago'], // Florida panhandle
+  [376, 379, 'America/New_York'], // East Tennessee
+  [798, 799, 'America/Denver'], // El Paso
+  [885, 885, 'America/Denver'],
+  [838, 838, 'America/Los_Angeles'], // North Idaho
+];
+
+const validZones = new Map<string, boolean>();
+
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false;
+  let valid = validZones.get(value);
+  if (valid === undefined) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: value });
+      valid = true;
+    } catch {
+      valid = false;
+    }
+    validZones.set(value, valid);
+  }
+  return valid;
+}
+
+function zip3(zip: unknown) {
+  const match = String(zip ?? '').trim().match(/^(\d{3})\d{2}/);
+  return match ? Number(match[1]) : null;
+}
+
+function findRange(ranges: Array<[number, number, string]>, prefix: number | null) {
+  if (prefix === null) return null;
+  return ranges.find(([lo, hi]) => prefix >= lo && prefix <= hi)?.[2] ?? null;
+}
+
+/**
+ * Two-letter state from a state code or, failing that, a ZIP
+ */
+export function stateFor({ state, zip }: { state?: unknown; zip?: unknown }) {
+  const code = typeof state === 'string' ? state.trim().toUpperCase() : '';
+  if (STATE_TIME_ZONES[code]) return code;
+  return findRange(ZIP3_STATES, zip3(zip));
+}
+
+/**
+ * Best guess at the IANA time zone of an address, or null when neither field helps
+ */
+export function inferTimeZone({ state, zip }: { state?: unknown; zip?: unknown }) {
+  const byZip = findRange(ZIP3_TIME_ZONES, zip3(zip));
+  if (byZip) return byZip;
+  const code = stateFor({ state, zip });
+  return code ? STATE_TIME_ZONES[code] : null;
+}
+
+// ---- Local dates ----
+
+/**
+ * Calendar day ('YYYY-MM-DD') of an instant in a time zone
+ */
+export function localDate(instant: Date, timeZone: string) {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(instant);
+}
+
+export function addDays(day: string, days: number) {
+  const date = new Date(`${day}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The instant at which the wall clock in `timeZone` shows `day` `time` ('HH:mm')
+ */
+export function zonedTime(day: string, time: string, timeZone: string) {
+  const asUtc = new Date(`${day}T${time}:00.000Z`).getTime();
+  // Offset of the zone at (about) that moment; a second pass settles DST transitions
+  const offsetAt = (instant: number) => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+    }).formatToParts(new Date(instant));
+    const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+    return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - instant;
+  };
+  let instant = asUtc - offsetAt(asUtc);
+  instant = asUtc - offsetAt(instant);
+  return new Date(instant);
+}
+
+type ScheduledJob = { scheduledDate?: string | Date | null; scheduledTimeWindow?: string | null; timeZone?: string | null };
+
+/**
+ * The job's scheduled calendar day. Midnight UTC is how the upstream sends a plain day, so it is
+ * taken as that day; any other instant is converted to the job's local day.
+ */
+export function scheduledDay(job: ScheduledJob, timeZone = job.timeZone || config.scheduling.defaultTimeZone) {
+  if (!job.scheduledDate) return null;
+  if (typeof job.scheduledDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(job.scheduledDate)) return job.scheduledDate;
+  const date = new Date(job.scheduledDate);
+  if (isNaN(date.getTime())) return null;
+  const iso = date.toISOString();
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : localDate(date, timeZone);
+}
+
+function to24h(hours: string, minutes: string | undefined, meridiem: string | undefined) {
+  let h = Number(hours) % (meridiem ? 12 : 24);
+  if (meridiem?.toUpperCase() === 'PM') h += 12;
+  return `${String(h).padStart(2, '0')}:${minutes ?? '00'}`;
+}
+
+/**
+ * Start and end of the job's time window (e.g. '8:00 AM - 12:00 PM') as instants in the job's
+ * time zone, or null when the day or window cannot be read
+ */
+export function scheduledWindow(job: ScheduledJob) {
+  const timeZone = job.timeZone || config.scheduling.defaultTimeZone;
+  const day = scheduledDay(job, timeZone);
+  const match = String(job.scheduledTimeWindow || '').match(
+    /(\d{1,2})(?::(\d{2}))?\s*(AM|PM)?\s*(?:-|–|to)\s*(\d{1,2})(?::(\d{2}))?\s*(AM|PM)?/i
+  );
+  if (!day || !match) return null;
+  // '8 - 12 PM' shares the meridiem
+  const [, h1, m1, ap1, h2, m2, ap2] = match;
+  const start = zonedTime(day, to24h(h1, m1, ap1 || ap2), timeZone);
+  const end = zonedTime(day, to24h(h2, m2, ap2 || ap1), timeZone);
+  return { start: start.toISOString(), end: end.toISOString(), timeZone };
+}
+
+// ---- Vendor rules ----
+
+export type VendorSchedule = {
+  timeZone: string;
+  leadTimeDays: number;
+  // Where the time zone came from
+  source: 'vendor' | 'inferred' | 'default';
+};
+
+function parseRegionLeadTimes(raw: string | undefined) {
+  const rules = new Map<string, number>();
+  for (const entry of (raw || '').split(',').filter((e) => e.trim())) {
+    const [region, value] = entry.split('=').map((s) => s.trim());
+    const days = Number(value);
+    if (!region || !Number.isInteger(days) || days < 0) {
+      log.warn('Ignoring invalid JOB_LEAD_TIME_BY_REGION entry', { entry });
+      continue;
+    }
+    rules.set(STATE_TIME_ZONES[region.toUpperCase()] ? region.toUpperCase() : region, days);
+  }
+  return rules;
+}
+
+const REGION_LEAD_TIMES = parseRegionLeadTimes(config.scheduling.leadTimeByRegion);
+
+/**
+ * Time zone and lead time for a vendor: their own settings first, then their state (or ZIP),
+ * then the defaults. Region lead times match a state code first, then a time zone.
+ */
+export function vendorSchedule(vendor: { timeZone?: unknown; leadTimeDays?: unknown; state?: unknown; zip?: unknown }): VendorSchedule {
+  const inferred = inferTimeZone({ state: vendor.state, zip: vendor.zip });
+  const timeZone = isTimeZone(vendor.timeZone) ? vendor.timeZone : inferred ?? config.scheduling.defaultTimeZone;
+  const source = isTimeZone(vendor.timeZone) ? 'vendor' : inferred ? 'inferred' : 'default';
+
+  const state = stateFor(vendor);
+  const leadTimeDays =
+    typeof vendor.leadTimeDays === 'number' && Number.isInteger(vendor.leadTimeDays) && vendor.leadTimeDays >= 0
+      ? vendor.leadTimeDays
+      : (state ? REGION_LEAD_TIMES.get(state) : undefined) ?? REGION_LEAD_TIMES.get(timeZone) ?? config.scheduling.leadTimeDays;
+  return { timeZone, leadTimeDays, source };
+}
+
+/**
+ * First scheduled day a vendor may be offered, e.g. tomorrow in their time zone for a lead time of 1
+ */
+export function earliestOfferedDay(schedule: Pick<VendorSchedule, 'timeZone' | 'leadTimeDays'>, now = new Date()) {
+  return addDays(localDate(now, schedule.timeZone), schedule.leadTimeDays);
+}
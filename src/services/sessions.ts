@@ -0,0 +1,327 @@
+import { randomBytes, randomUUID } from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { SessionModel } from '../models/session';
+import { UserModel } from '../models/user';
+import { jwtService, type JwtPayload } from './jwt';
+import { recordAudit } from './audit';
+import { createLogger } from './logger';
+
+const log = createLogger('Sessions');
+
+const ACCESS_TOKEN_TTL = '2h';
+const REFRESH_TOKEN_TTL = '7d';
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Revocation status is cached briefly so authenticateJWT() doesn't hit Mongo on every request.
+// Revocations made by this process update the cache immediately.
+const ACTIVE_CACHE_TTL_MS = 30_000;
+const LAST_SEEN_WRITE_INTERVAL_MS = 60_000;
+const MAX_CACHE_ENTRIES = 10_000;
+
+const activeCache = new Map<string, { active: boolean; checkedAt: number }>();
+const passwordChangeCache = new Map<string, { changedAt: number | null; checkedAt: number }>();
+const lastSeenWrites = new Map<string, number>();
+
+function remember<V>(map: Map<string, V>, key: string, value: V) {
+  if (map.size >= MAX_CACHE_ENTRIES) map.clear();
+  map.set(key, value);
+}
+
+export type SessionDevice = {
+  deviceModel?: string;
+  platform?: string;
+  osVersion?: string;
+  appVersion?: string;
+  fcmToken?: string;
+  ipAddress?: string;
+  userAgent?: string;
+};
+
+export type SessionTokens = {
+  sessionId: string;
+  accessToken: string;
+  refreshToken: string;
+};
+
+export class RefreshTokenError extends Error {
+  constructor(message: string, public readonly reason: 'invalid' | 'expired' | 'revoked' | 'reuse') {
+    super(message);
+    this.name = 'RefreshTokenError';
+  }
+}
+
+function newSessionId() {
+  return `s_${Date.now()}_${randomBytes(4).toString('hex')}`;
+}
+
+function signPair(payload: JwtPayload, jti: string) {
+  const accessToken = jwtService.signAccess(payload, ACCESS_TOKEN_TTL);
+  const refreshToken = jwtService.signRefresh(
+    { userId: payload.userId, role: payload.role, vendorId: payload.vendorId, sessionId: payload.sessionId },
+    REFRESH_TOKEN_TTL,
+    jti
+  );
+  return { accessToken, refreshToken };
+}
+
+export const sessionService = {
+  /**
+   * Start a new session and issue its first access/refresh token pair
+   */
+  async start(payload: Omit<JwtPayload, 'sessionId'>, device: SessionDevice = {}): Promise<SessionTokens> {
+    const sessionId = newSessionId();
+    const jti = randomUUID();
+
+    await SessionModel.create({
+      sessionId,
+      userId: payload.userId,
+      role: payload.role,
+      vendorId: payload.vendorId,
+      refreshJti: jti,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+      ...device,
+      lastSeenAt: new Date(),
+    });
+
+    return { sessionId, ...signPair({ ...payload, sessionId }, jti) };
+  },
+
+  /**
+   * Redeem a locally issued refresh token for a new pair. Presenting a refresh token that has
+   * already been rotated away is treated as theft: the whole session is revoked. So are refresh
+   * tokens issued before the user's last password change, and sessions of deactivated users.
+   */
+  async rotate(refreshToken: string, ipAddress?: string | null): Promise<SessionTokens> {
+    let decoded: JwtPayload & jwt.JwtPayload;
+    try {
+      decoded = jwtService.verifyRefresh(refreshToken);
+    } catch (err) {
+      if (err instanceof jwt.TokenExpiredError) {
+        throw new RefreshTokenError('Refresh token expired', 'expired');
+      }
+      throw new RefreshTokenError('Invalid refresh token', 'invalid');
+    }
+
+    const { sessionId, jti } = decoded;
+    if (!sessionId || !jti) {
+      throw new RefreshTokenError('Refresh token is not bound to a session', 'invalid');
+    }
+
+    const user: any = mongoose.isValidObjectId(decoded.userId)
+      ? await UserModel.findById(decoded.userId).select('isActive passwordChangedAt').lean()
+      : null;
+    if (!user || user.isActive === false) {
+      await sessionService.revoke(sessionId, 'user_inactive');
+      throw new RefreshTokenError('Account is no longer active', 'revoked');
+    }
+    // Same one-second iat resolution as issuedBeforePasswordChange()
+    if (user.passwordChangedAt && (decoded.iat ?? 0) < Math.floor(new Date(user.passwordChangedAt).getTime() / 1000)) {
+      await sessionService.revoke(sessionId, 'password_changed');
+      throw new RefreshTokenError('Password was changed; please sign in again', 'revoked');
+    }
+
+    const nextJti = randomUUID();
+    const now = new Date();
+    const session: any = await SessionModel.findOneAndUpdate(
+      { sessionId, refreshJti: jti, revokedAt: { $exists: false }, expiresAt: { $gt: now } },
+      {
+        $set: {
+          refreshJti: nextJti,
+          lastRotatedAt: now,
+          lastSeenAt: now,
+          expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+        },
+        $inc: { rotationCount: 1 },
+      },
+      { new: true }
+    ).lean();
+
+    if (!session) {
+      const existing: any = await SessionModel.findOne({ sessionId }).lean();
+      if (!existing || existing.revokedAt) {
+        throw new RefreshTokenError('Session has been revoked', 'revoked');
+      }
+      if (existing.refreshJti !== jti) {
+        await sessionService.revoke(sessionId, 'refresh_reuse');
+        log.warn('Refresh token reuse detected, session revoked', { sessionId });
+        await recordAudit({
+          action: 'session.refresh_reuse',
+          targetUserId: existing.userId,
+          ipAddress,
+          metadata: { sessionId, rotationCount: existing.rotationCount },
+        });
+        throw new RefreshTokenError('Refresh token reuse detected; session revoked', 'reuse');
+      }
+      throw new RefreshTokenError('Session expired', 'expired');
+    }
+
+    const payload: JwtPayload = {
+      userId: session.userId,
+      role: session.role,
+      vendorId: session.vendorId || undefined,
+      sessionId,
+    };
+    return { sessionId, ...signPair(payload, nextJti) };
+  },
+
+  /**
+   * Issue a fresh pair for an active session, e.g. to keep the caller signed in after they changed
+   * their password (which invalidates every older token). Returns null if the session is gone.
+   */
+  async reissue(sessionId: string): Promise<SessionTokens | null> {
+    const nextJti = randomUUID();
+    const now = new Date();
+    const session: any = await SessionModel.findOneAndUpdate(
+      { sessionId, revokedAt: { $exists: false }, expiresAt: { $gt: now } },
+      { $set: { refreshJti: nextJti, lastRotatedAt: now, lastSeenAt: now, expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS) } },
+      { new: true }
+    ).lean();
+    if (!session) return null;
+    const payload: JwtPayload = { userId: session.userId, role: session.role, vendorId: session.vendorId || undefined, sessionId };
+    return { sessionId, ...signPair(payload, nextJti) };
+  },
+
+  /**
+   * Revoke a session so neither its access nor its refresh tokens are accepted again.
+   * The device's FCM token is dropped from the user too, so a lost phone stops getting job pushes.
+   */
+  async revoke(sessionId: string, reason: string, revokedBy?: string) {
+    const session: any = await SessionModel.findOneAndUpdate(
+      { sessionId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: reason, ...(revokedBy ? { revokedBy } : {}) } },
+      { new: true }
+    ).lean();
+    remember(activeCache, sessionId, { active: false, checkedAt: Date.now() });
+    if (!session) return false;
+
+    if (session.fcmToken) {
+      await UserModel.updateOne({ _id: session.userId }, { $pull: { fcmTokens: session.fcmToken } });
+      await UserModel.updateOne(
+        { _id: session.userId, lastFcmToken: session.fcmToken },
+        { $unset: { lastFcmToken: '', lastFcmAt: '' } }
+      );
+    }
+    return true;
+  },
+
+  /**
+   * Revoke every active session of a user, optionally keeping one (the caller's own)
+   */
+  async revokeAllForUser(userId: string, reason: string, options: { exceptSessionId?: string; revokedBy?: string } = {}) {
+    const filter: Record<string, any> = { userId, revokedAt: { $exists: false } };
+    if (options.exceptSessionId) filter.sessionId = { $ne: options.exceptSessionId };
+
+    const sessions: any[] = await SessionModel.find(filter).select('sessionId').lean();
+    let revoked = 0;
+    for (const s of sessions) {
+      if (await sessionService.revoke(s.sessionId, reason, options.revokedBy)) revoked += 1;
+    }
+    return revoked;
+  },
+
+  /**
+   * List a user's sessions, most recently seen first
+   */
+  async listForUser(userId: string, options: { includeRevoked?: boolean } = {}) {
+    const filter: Record<string, any> = { userId };
+    if (!options.includeRevoked) filter.revokedAt = { $exists: false };
+    return SessionModel.find(filter).sort({ lastSeenAt: -1, createdAt: -1 }).lean();
+  },
+
+  async findById(sessionId: string) {
+    return SessionModel.findOne({ sessionId }).lean();
+  },
+
+  /**
+   * Whether an access token's session may still be used. Sessions we have no record of
+   * (tokens minted before the session store existed) are treated as active.
+   */
+  async isActive(sessionId: string) {
+    const cached = activeCache.get(sessionId);
+    if (cached && Date.now() - cached.checkedAt < ACTIVE_CACHE_TTL_MS) return cached.active;
+
+    try {
+      const session: any = await SessionModel.findOne({ sessionId }).select('revokedAt').lean();
+      const active = !session?.revokedAt;
+      remember(activeCache, sessionId, { active, checkedAt: Date.now() });
+      return active;
+    } catch (err: any) {
+      log.error('Session lookup failed, allowing request', { err });
+      return true;
+    }
+  },
+
+  /**
+   * Whether a token was issued before the user's last password change (and so must be rejected).
+   * iat has one-second resolution, so a token from the same second as the change is still accepted.
+   */
+  async issuedBeforePasswordChange(userId: string, issuedAtSeconds?: number) {
+    if (!issuedAtSeconds || !mongoose.isValidObjectId(userId)) return false;
+
+    let cached = passwordChangeCache.get(userId);
+    if (!cached || Date.now() - cached.checkedAt >= ACTIVE_CACHE_TTL_MS) {
+      try {
+        const user: any = await UserModel.findById(userId).select('passwordChangedAt').lean();
+        cached = { changedAt: user?.passwordChangedAt ? new Date(user.passwordChangedAt).getTime() : null, checkedAt: Date.now() };
+        remember(passwordChangeCache, userId, cached);
+      } catch (err: any) {
+        log.error('passwordChangedAt lookup failed, allowing request', { err });
+        return false;
+      }
+    }
+
+    return cached.changedAt !== null && issuedAtSeconds < Math.floor(cached.changedAt / 1000);
+  },
+
+  /**
+   * Let this process reject older tokens immediately after a password change
+   */
+  notePasswordChange(userId: string, changedAt: Date) {
+    remember(passwordChangeCache, userId, { changedAt: changedAt.getTime(), checkedAt: Date.now() });
+  },
+
+  /**
+   * Record activity for a session, writing at most once a minute per session
+   */
+  touch(sessionId: string) {
+    const last = lastSeenWrites.get(sessionId) || 0;
+    if (Date.now() - last < LAST_SEEN_WRITE_INTERVAL_MS) return;
+    remember(lastSeenWrites, sessionId, Date.now());
+    SessionModel.updateOne({ sessionId }, { $set: { lastSeenAt: new Date() } }).catch((err: any) => {
+      log.error('Failed to update lastSeenAt', { err });
+    });
+  },
+
+  /**
+   * Whether a refresh token was signed by us (as opposed to the upstream API)
+   */
+  isLocalRefreshToken(refreshToken: string) {
+    try {
+      jwtService.verifyRefresh(refreshToken);
+      return true;
+    } catch (err) {
+      // Signature is checked before expiry, so an expired error still means it is ours
+      return err instanceof jwt.TokenExpiredError;
+    }
+  },
+};
+
+// Shape returned by the session listing endpoints (never exposes refresh token ids)
+export function toSessionDTO(session: any, currentSessionId?: string) {
+  return {
+    id: session.sessionId,
+    current: Boolean(currentSessionId && session.sessionId === currentSessionId),
+    deviceModel: session.deviceModel || null,
+    platform: session.platform || null,
+    osVersion: session.osVersion || null,
+    appVersion: session.appVersion || null,
+    ipAddress: session.ipAddress || null,
+    userAgent: session.userAgent || null,
+    lastSeenAt: session.lastSeenAt || session.updatedAt || null,
+    createdAt: session.createdAt || null,
+    expiresAt: session.expiresAt || null,
+    revokedAt: session.revokedAt || null,
+    revokedReason: session.revokedReason || null,
+  };
+}
@@ -0,0 +1,89 @@
+import { createHmac, randomBytes } from 'crypto';
+
+// RFC 6238 TOTP with the parameters every authenticator app supports: SHA-1, 6 digits, 30s steps
+const DIGITS = 6;
+const STEP_SECONDS = 30;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+function base32Decode(input: string) {
+  const clean = input.toUpperCase().replace(/=+$/g, '').replace(/\s+/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 secret');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function hotp(secret: Buffer, counter: number) {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = createHmac('sha1', secret).update(message).digest();
+  const offset = digest[digest.length - 1] & 0xf;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+export const totp = {
+  /**
+   * New random base32 secret (160 bits, as recommended by RFC 4226)
+   */
+  generateSecret() {
+    return base32Encode(randomBytes(20));
+  },
+
+  /**
+   * otpauth:// URI for QR codes in authenticator apps
+   */
+  keyUri(secret: string, accountName: string, issuer: string) {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(DIGITS), period: String(STEP_SECONDS) });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  },
+
+  currentStep(now = Date.now()) {
+    return Math.floor(now / 1000 / STEP_SECONDS);
+  },
+
+  /**
+   * Check a code against the current step and `window` steps either side (clock drift).
+   * Returns the matching step, or null. Steps at or before `afterStep` are refused to stop replays.
+   */
+  verify(secret: string, code: string, options: { window?: number; afterStep?: number } = {}) {
+    const normalized = String(code).replace(/\s+/g, '');
+    if (!new RegExp(`^\\d{${DIGITS}}$`).test(normalized)) return null;
+
+    const key = base32Decode(secret);
+    const window = options.window ?? 1;
+    const current = totp.currentStep();
+    for (let step = current - window; step <= current + window; step++) {
+      if (options.afterStep !== undefined && step <= options.afterStep) continue;
+      if (hotp(key, step) === normalized) return step;
+    }
+    return null;
+  },
+};
@@ -0,0 +1,190 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, randomUUID } from 'crypto';
+import { UserModel } from '../models/user';
+import { totp } from './totp';
+import { recordAudit } from './audit';
+import { jwtService } from './jwt';
+import { permissionService, isPrivilegedPermission } from './permissions';
+import { config } from '../config';
+
+const ISSUER = config.auth.twoFactor.issuer;
+// Roles allowed to enrol. Roles with privileged permissions may always enrol and must do so
+// before requirePermission() lets them use those permissions.
+const ELIGIBLE_ROLES = config.auth.twoFactor.roles;
+const RECOVERY_CODE_COUNT = 10;
+
+// TOTP secrets are stored AES-256-GCM encrypted. The key falls back to one derived from JWT_SECRET.
+const ENCRYPTION_KEY = createHash('sha256')
+  .update(config.auth.twoFactor.encryptionKey)
+  .digest();
+
+function encrypt(plain: string) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  const data = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), data].map((b) => b.toString('base64')).join(':');
+}
+
+function decrypt(stored: string) {
+  const [iv, tag, data] = stored.split(':').map((p) => Buffer.from(p, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+}
+
+function hashRecoveryCode(code: string) {
+  return createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+}
+
+function generateRecoveryCodes() {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+export class TwoFactorError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'TwoFactorError';
+  }
+}
+
+export const twoFactor = {
+  isEligible(role?: string | null) {
+    return Boolean(role && ELIGIBLE_ROLES.includes(role));
+  },
+
+  isEnabled(user: any) {
+    return Boolean(user?.twoFactor?.enabled && user.twoFactor.secret);
+  },
+
+  /**
+   * Whether the role holds a privileged permission, so its users must enrol before using it
+   */
+  async isRequired(role?: string | null) {
+    return (await permissionService.getPermissions(role)).some(isPrivilegedPermission);
+  },
+
+  /**
+   * Sign a challenge token for the password step of a login. Only the latest challenge per user is
+   * accepted, and only once (see consumeChallenge).
+   */
+  async issueChallenge(userId: string) {
+    const challengeId = randomUUID();
+    await UserModel.updateOne({ _id: userId }, { $set: { 'twoFactor.challengeId': challengeId } });
+    return jwtService.signChallenge({ userId, challengeId });
+  },
+
+  /**
+   * Claim a challenge. Conditional update, so concurrent requests with the same token can't both win.
+   */
+  async consumeChallenge(userId: string, challengeId?: string) {
+    if (!challengeId) return false;
+    const result = await UserModel.updateOne(
+      { _id: userId, 'twoFactor.challengeId': challengeId },
+      { $unset: { 'twoFactor.challengeId': '' } }
+    );
+    return result.modifiedCount > 0;
+  },
+
+  /**
+   * Start (or restart) enrolment. The secret only becomes active once a code from it is confirmed.
+   */
+  async beginEnrollment(userId: string) {
+    const user: any = await UserModel.findById(userId).select('username role twoFactor').lean();
+    if (!user) throw new TwoFactorError('User not found', 404);
+    if (!twoFactor.isEligible(user.role) && !(await twoFactor.isRequired(user.role))) throw new TwoFactorError('Two-factor authentication is not available for this account', 403);
+    if (twoFactor.isEnabled(user)) throw new TwoFactorError('Two-factor authentication is already enabled', 409);
+
+    const secret = totp.generateSecret();
+    await UserModel.updateOne({ _id: userId }, { $set: { 'twoFactor.pendingSecret': encrypt(secret) } });
+    return { secret, otpauthUri: totp.keyUri(secret, user.username, ISSUER) };
+  },
+
+  /**
+   * Confirm enrolment with a code from the pending secret. Returns recovery codes (shown once).
+   */
+  async confirmEnrollment(userId: string, code: string) {
+    const user: any = await UserModel.findById(userId).select('username twoFactor').lean();
+    if (!user?.twoFactor?.pendingSecret) throw new TwoFactorError('No two-factor enrolment in progress');
+
+    const secret = decrypt(user.twoFactor.pendingSecret);
+    const step = totp.verify(secret, code);
+    if (step === null) throw new TwoFactorError('Invalid verification code', 401);
+
+    const recoveryCodes = generateRecoveryCodes();
+    await UserModel.updateOne(
+      { _id: userId },
+      {
+        $set: {
+          'twoFactor.enabled': true,
+          'twoFactor.secret': user.twoFactor.pendingSecret,
+          'twoFactor.lastUsedStep': step,
+          'twoFactor.recoveryCodes': recoveryCodes.map(hashRecoveryCode),
+          'twoFactor.enabledAt': new Date(),
+        },
+        $unset: { 'twoFactor.pendingSecret': '' },
+      }
+    );
+
+    await recordAudit({ action: 'user.2fa_enabled', actorUserId: userId, targetUserId: userId, username: user.username });
+    return recoveryCodes;
+  },
+
+  /**
+   * Check a TOTP code or a recovery code for an enrolled user. Recovery codes are single-use.
+   */
+  async verify(userId: string, input: { code?: string; recoveryCode?: string }) {
+    const user: any = await UserModel.findById(userId).select('username twoFactor').lean();
+    if (!twoFactor.isEnabled(user)) return { ok: false as const };
+
+    if (input.code) {
+      const step = totp.verify(decrypt(user.twoFactor.secret), input.code, { afterStep: user.twoFactor.lastUsedStep });
+      if (step === null) return { ok: false as const };
+      // Conditional update so the same code can't be accepted twice by concurrent requests
+      const result = await UserModel.updateOne(
+        { _id: userId, $or: [{ 'twoFactor.lastUsedStep': { $exists: false } }, { 'twoFactor.lastUsedStep': { $lt: step } }] },
+        { $set: { 'twoFactor.lastUsedStep': step } }
+      );
+      return result.modifiedCount > 0 ? { ok: true as const, method: 'totp' as const } : { ok: false as const };
+    }
+
+    if (input.recoveryCode) {
+      const hash = hashRecoveryCode(input.recoveryCode);
+      const result = await UserModel.updateOne(
+        { _id: userId, 'twoFactor.recoveryCodes': hash },
+        { $pull: { 'twoFactor.recoveryCodes': hash } }
+      );
+      if (result.modifiedCount === 0) return { ok: false as const };
+      const remaining = Math.max(0, (user.twoFactor.recoveryCodes?.length || 1) - 1);
+      await recordAudit({
+        action: 'user.2fa_recovery_code_used',
+        targetUserId: userId,
+        username: user.username,
+        metadata: { remaining },
+      });
+      return { ok: true as const, method: 'recovery_code' as const, remainingRecoveryCodes: remaining };
+    }
+
+    return { ok: false as const };
+  },
+
+  /**
+   * Replace all recovery codes. Returns the new codes (shown once).
+   */
+  async regenerateRecoveryCodes(userId: string) {
+    const recoveryCodes = generateRecoveryCodes();
+    await UserModel.updateOne({ _id: userId }, { $set: { 'twoFactor.recoveryCodes': recoveryCodes.map(hashRecoveryCode) } });
+    await recordAudit({ action: 'user.2fa_recovery_codes_regenerated', actorUserId: userId, targetUserId: userId });
+    return recoveryCodes;
+  },
+
+  /**
+   * Turn 2FA off (by the user after re-verifying, or by an admin for a lost device)
+   */
+  async disable(userId: string, actorUserId: string) {
+    const result = await UserModel.updateOne({ _id: userId }, { $unset: { twoFactor: '' } });
+    if (result.matchedCount === 0) throw new TwoFactorError('User not found', 404);
+    await recordAudit({ action: 'user.2fa_disabled', actorUserId, targetUserId: userId });
+  },
+};
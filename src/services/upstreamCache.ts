@@ -0,0 +1,281 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { ExternalApiCacheModel } from '../models/externalApiCache';
+import { config } from '../config';
+import { createLogger } from './logger';
+
+const log = createLogger('UpstreamCache');
+
+// Read-through cache for upstream GETs, stored in ExternalApiCacheModel.
+//
+// Entries are keyed by endpoint and caller token (the upstream scopes most reads to the caller) and are
+// fresh for the policy's TTL. After that they are still served for the stale window while a
+// single background request refreshes them. Writes through the adapter invalidate the entries
+// tagged with the resources they touch; an assignment entry is also tagged with its job, so a
+// PATCH to an assignment drops the cached job too.
+//
+// UPSTREAM_CACHE_ENABLED=false turns the cache off. UPSTREAM_CACHE_TTLS overrides the policies
+// below as a comma separated list of name=ttlSeconds[/staleSeconds], e.g. "jobs.detail=30/120".
+
+const CACHE_ENABLED = config.upstream.cache.enabled;
+
+export type CacheOutcome = 'hit' | 'stale' | 'miss' | 'bypass';
+
+type CachePolicy = {
+  name: string;
+  pattern: RegExp;
+  ttlSeconds: number;
+  staleSeconds: number;
+  // Shared entries are the same for every caller (catalog lookups)
+  shared?: boolean;
+  tags?: (match: RegExpMatchArray, data: any, userTag: string) => string[];
+};
+
+const CACHE_POLICIES: CachePolicy[] = [
+  {
+    name: 'jobs.detail',
+    pattern: /^\/api\/jobs\/([^/?]+)$/,
+    ttlSeconds: 60,
+    staleSeconds: 300,
+    tags: (m) => [`job:${m[1]}`],
+  },
+  {
+    name: 'assignments.detail',
+    pattern: /^\/api\/assignments\/([^/?]+)$/,
+    ttlSeconds: 30,
+    staleSeconds: 120,
+    tags: (m, data) => [`assignment:${m[1]}`, ...(data?.data?.jobId ? [`job:${data.data.jobId}`] : [])],
+  },
+  {
+    name: 'assignments.parts',
+    pattern: /^\/api\/assignments\/([^/?]+)\/parts$/,
+    ttlSeconds: 30,
+    staleSeconds: 120,
+    tags: (m) => [`assignment:${m[1]}`],
+  },
+  {
+    name: 'vendors.me',
+    pattern: /^\/api\/vendors\/me$/,
+    ttlSeconds: 300,
+    staleSeconds: 900,
+    tags: (_m, _data, userTag) => [`vendor:${userTag}`],
+  },
+  // Model lookups for an assignment's part orders; the catalog behind them rarely changes
+  {
+    name: 'assignments.models',
+    pattern: /^\/api\/assignments\/[^/?]+\/models\/[^?]+(\?.*)?$/,
+    ttlSeconds: 3600,
+    staleSeconds: 86400,
+  },
+  {
+    name: 'partsCatalog.models',
+    pattern: /^\/sis\/proxy\/PartsCatalogService\/(modelSearch|getModelDetails)(\?.*)?$/,
+    ttlSeconds: 3600,
+    staleSeconds: 86400,
+    shared: true,
+  },
+];
+
+// Writes and the cache tags they invalidate. First match wins.
+const INVALIDATIONS: Array<{ pattern: RegExp; tags: (match: RegExpMatchArray, userTag: string) => string[] }> = [
+  { pattern: /^\/api\/(?:v\d+\/|auth\/vendor\/)?assignments\/([^/?]+)/, tags: (m) => [`assignment:${m[1]}`] },
+  { pattern: /^\/api\/jobs\/([^/?]+)/, tags: (m) => [`job:${m[1]}`] },
+  { pattern: /^\/api\/vendors\/me/, tags: (_m, userTag) => [`vendor:${userTag}`] },
+];
+
+function applyOverrides(policies: CachePolicy[]) {
+  const raw = config.upstream.cache.ttlOverrides;
+  if (!raw) return policies;
+  for (const entry of raw.split(',')) {
+    const [name, value] = entry.split('=').map((s) => s.trim());
+    const policy = policies.find((p) => p.name === name);
+    const [ttl, stale] = (value || '').split('/').map(Number);
+    if (!policy || !Number.isFinite(ttl)) {
+      log.warn('Ignoring invalid UPSTREAM_CACHE_TTLS entry', { entry });
+      continue;
+    }
+    policy.ttlSeconds = ttl;
+    if (Number.isFinite(stale)) policy.staleSeconds = stale;
+  }
+  return policies;
+}
+
+applyOverrides(CACHE_POLICIES);
+
+type PolicyStats = { hits: number; stale: number; misses: number; revalidations: number; errors: number };
+
+const stats = new Map<string, PolicyStats>();
+let invalidatedEntries = 0;
+const revalidating = new Set<string>();
+
+function countFor(name: string) {
+  let s = stats.get(name);
+  if (!s) {
+    s = { hits: 0, stale: 0, misses: 0, revalidations: 0, errors: 0 };
+    stats.set(name, s);
+  }
+  return s;
+}
+
+/**
+ * Who a cached entry belongs to: a hash of the caller's whole bearer token (tokens are never stored).
+ * We can't verify upstream tokens, so their claims must not pick the entries to serve: anyone can
+ * write a token carrying another user's id.
+ */
+function ownerKeyFor(token: string) {
+  return `token:${crypto.createHash('sha256').update(token || '').digest('hex')}`;
+}
+
+/**
+ * The upstream user id the token claims, used only for invalidation tags so a user's write drops
+ * entries cached under their other tokens. A forged claim can at worst expire someone's entries early.
+ */
+function userTagFor(token: string) {
+  const decoded = token ? (jwt.decode(token) as any) : null;
+  const userId = decoded?.userId ?? decoded?.id ?? decoded?.sub;
+  return userId !== undefined && userId !== null ? `user:${userId}` : ownerKeyFor(token);
+}
+
+function findPolicy(endpoint: string) {
+  for (const policy of CACHE_POLICIES) {
+    const match = endpoint.match(policy.pattern);
+    if (match) return { policy, match };
+  }
+  return null;
+}
+
+function isCacheable(data: any) {
+  return data !== undefined && data !== null && data !== '' && data.success !== false;
+}
+
+async function store(cacheKey: string, endpoint: string, policy: CachePolicy, match: RegExpMatchArray, token: string, data: any) {
+  const now = Date.now();
+  await ExternalApiCacheModel.updateOne(
+    { cacheKey },
+    {
+      $set: {
+        endpoint: policy.name,
+        userId: policy.shared ? null : ownerKeyFor(token),
+        requestData: { path: endpoint },
+        // Callers go on to map and filter the response they get back; keep our own copy
+        externalResponse: structuredClone(data),
+        tags: policy.tags ? policy.tags(match, data, userTagFor(token)) : [],
+        expiresAt: new Date(now + policy.ttlSeconds * 1000),
+        staleUntil: new Date(now + (policy.ttlSeconds + policy.staleSeconds) * 1000),
+      },
+    },
+    { upsert: true }
+  );
+}
+
+export const upstreamCache = {
+  /**
+   * Serve a GET from the cache when a policy covers the endpoint, otherwise (or on a miss) call
+   * fetch and cache its result. onOutcome reports how the read was served.
+   */
+  async read<T>(endpoint: string, token: string, fetch: () => Promise<T>, onOutcome?: (outcome: CacheOutcome) => void): Promise<T> {
+    const found = CACHE_ENABLED ? findPolicy(endpoint) : null;
+    // Without a database connection mongoose would buffer the lookup until it times out
+    if (!found || mongoose.connection.readyState !== 1) {
+      onOutcome?.('bypass');
+      return fetch();
+    }
+
+    const { policy, match } = found;
+    const cacheKey = `${policy.name}:${policy.shared ? '*' : ownerKeyFor(token)}:${endpoint}`;
+    const counts = countFor(policy.name);
+
+    let cached: any = null;
+    try {
+      cached = await ExternalApiCacheModel.findOne({ cacheKey, staleUntil: { $gt: new Date() } }).lean();
+    } catch (err: any) {
+      counts.errors += 1;
+      log.error('Lookup failed', { cacheKey, err });
+    }
+
+    if (cached && cached.expiresAt > new Date()) {
+      counts.hits += 1;
+      onOutcome?.('hit');
+      return cached.externalResponse as T;
+    }
+
+    if (cached) {
+      counts.stale += 1;
+      onOutcome?.('stale');
+      if (!revalidating.has(cacheKey)) {
+        revalidating.add(cacheKey);
+        fetch()
+          .then(async (data) => {
+            if (!isCacheable(data)) return;
+            await store(cacheKey, endpoint, policy, match, token, data);
+            counts.revalidations += 1;
+          })
+          .catch((err: any) => {
+            counts.errors += 1;
+            log.warn('Revalidation failed', { cacheKey, err });
+          })
+          .finally(() => revalidating.delete(cacheKey));
+      }
+      return cached.externalResponse as T;
+    }
+
+    counts.misses += 1;
+    onOutcome?.('miss');
+    const data = await fetch();
+    if (isCacheable(data)) {
+      try {
+        await store(cacheKey, endpoint, policy, match, token, data);
+      } catch (err: any) {
+        counts.errors += 1;
+        log.error('Failed to store', { cacheKey, err });
+      }
+    }
+    return data;
+  },
+
+  /**
+   * Drop the cached entries a write to endpoint may have changed, along with the entries they
+   * are tagged as related to (e.g. the job of an updated assignment). Never throws.
+   */
+  async invalidate(endpoint: string, token: string) {
+    if (!CACHE_ENABLED || mongoose.connection.readyState !== 1) return;
+    const rule = INVALIDATIONS.find((r) => r.pattern.test(endpoint));
+    if (!rule) return;
+
+    try {
+      const tags = new Set(rule.tags(endpoint.match(rule.pattern)!, userTagFor(token)));
+      const related: any[] = await ExternalApiCacheModel.find({ tags: { $in: Array.from(tags) } }, { tags: 1 }).lean();
+      related.forEach((entry) => (entry.tags || []).forEach((tag: string) => tags.add(tag)));
+
+      const result = await ExternalApiCacheModel.deleteMany({ tags: { $in: Array.from(tags) } });
+      if (result.deletedCount) {
+        invalidatedEntries += result.deletedCount;
+        log.info('Invalidated entries', { count: result.deletedCount, tags: Array.from(tags) });
+      }
+    } catch (err: any) {
+      log.error('Invalidation failed', { endpoint, err });
+    }
+  },
+
+  /**
+   * Hit/miss counts per policy since the process started
+   */
+  snapshot() {
+    return {
+      enabled: CACHE_ENABLED,
+      invalidatedEntries,
+      policies: CACHE_POLICIES.map((policy) => {
+        const s = countFor(policy.name);
+        const reads = s.hits + s.stale + s.misses;
+        return {
+          name: policy.name,
+          ttlSeconds: policy.ttlSeconds,
+          staleSeconds: policy.staleSeconds,
+          ...s,
+          hitRate: reads ? (s.hits + s.stale) / reads : 0,
+        };
+      }),
+    };
+  },
+};
@@ -0,0 +1,75 @@
+import type { Response } from 'express';
+
+// Raised by ExternalApiAdapter when the upstream answers with an error status or cannot be reached.
+// status is what we send back to our own client: the upstream status when there was one,
+// 504 for timeouts and 502 for anything else that never got a response.
+export class UpstreamError extends Error {
+  public retryAfterSeconds?: number;
+
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code: string,
+    public readonly body: any = null,
+    public readonly upstreamStatus: number | null = null
+  ) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+
+  /**
+   * Wrap an axios error (or anything thrown while calling the upstream)
+   */
+  static fromAxios(error: any, fallbackMessage = 'External API call failed') {
+    if (error instanceof UpstreamError) return error;
+
+    const response = error?.response;
+    if (response) {
+      const body = response.data ?? null;
+      const message =
+        (typeof body?.message === 'string' && body.message) ||
+        (typeof body?.error === 'string' && body.error) ||
+        fallbackMessage;
+      const code =
+        (typeof body?.code === 'string' && body.code) ||
+        (typeof body?.errorCode === 'string' && body.errorCode) ||
+        `UPSTREAM_${response.status}`;
+      const upstreamError = new UpstreamError(message, response.status, code, body, response.status);
+      const retryAfter = Number(response.headers?.['retry-after']);
+      if (Number.isFinite(retryAfter) && retryAfter > 0) upstreamError.retryAfterSeconds = retryAfter;
+      return upstreamError;
+    }
+
+    const timedOut = error?.code === 'ECONNABORTED' || error?.code === 'ETIMEDOUT';
+    return new UpstreamError(
+      timedOut ? 'External API timed out' : fallbackMessage,
+      timedOut ? 504 : 502,
+      error?.code || 'UPSTREAM_UNREACHABLE'
+    );
+  }
+}
+
+/**
+ * Response body for a failed upstream call, in the same shape the PROS proxy uses
+ */
+export function upstreamErrorResponse(error: UpstreamError) {
+  return {
+    success: false,
+    message: error.message,
+    code: error.code,
+    upstreamStatus: error.upstreamStatus,
+    upstream: error.body,
+  };
+}
+
+/**
+ * Send an error caught around an upstream call. Upstream errors keep their status and body;
+ * anything else (a bug in our own handling) is still a 500.
+ */
+export function sendUpstreamError(res: Response, error: any, fallbackMessage = 'External API call failed') {
+  if (error instanceof UpstreamError) {
+    if (error.retryAfterSeconds) res.setHeader('Retry-After', String(error.retryAfterSeconds));
+    return res.status(error.status).json(upstreamErrorResponse(error));
+  }
+  return res.status(500).json({ success: false, message: error?.message || fallbackMessage });
+}
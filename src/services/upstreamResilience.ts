@@ -0,0 +1,244 @@
+import { UpstreamError } from './upstreamError';
+import { config } from '../config';
+import { createLogger } from './logger';
+
+const log = createLogger('UpstreamBreaker');
+
+// Retry policies and circuit breakers for calls to the upstream APIs.
+//
+// Only idempotent methods are retried, with exponential backoff and full jitter. A breaker is kept
+// per upstream origin: after BREAKER_FAILURE_THRESHOLD consecutive failures (network errors,
+// timeouts, 5xx) it opens and calls fail immediately for BREAKER_COOLDOWN_MS, then a single probe
+// request is let through to decide whether to close it again.
+
+const BREAKER_FAILURE_THRESHOLD = config.upstream.breaker.failureThreshold;
+const BREAKER_COOLDOWN_MS = config.upstream.breaker.cooldownSeconds * 1000;
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+export type RetryPolicy = {
+  retries: number;
+  timeoutMs: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+const READ_POLICY: RetryPolicy = { retries: 2, timeoutMs: 10_000, baseDelayMs: 250, maxDelayMs: 2_000 };
+const IDEMPOTENT_WRITE_POLICY: RetryPolicy = { retries: 1, timeoutMs: 20_000, baseDelayMs: 500, maxDelayMs: 2_000 };
+const WRITE_POLICY: RetryPolicy = { retries: 0, timeoutMs: 30_000, baseDelayMs: 0, maxDelayMs: 0 };
+
+// First match wins; anything unmatched falls back to the per-method defaults above.
+// Retries are still only applied to idempotent methods, whatever the policy says.
+const ENDPOINT_POLICIES: Array<{ method?: string; pattern: RegExp; policy: Partial<RetryPolicy> }> = [
+  // Called on every app launch; better to fall back to the local session quickly than to wait
+  { method: 'GET', pattern: /^\/api\/auth\/status$/, policy: { retries: 1, timeoutMs: 5_000 } },
+  // Refresh tokens rotate upstream, so a replayed request would fail anyway
+  { method: 'POST', pattern: /^\/api\/auth\/refresh$/, policy: { timeoutMs: 10_000 } },
+  // Large listings are slow on the upstream even when it is healthy
+  { method: 'GET', pattern: /^\/api\/jobs\/available/, policy: { timeoutMs: 15_000 } },
+  { method: 'GET', pattern: /^\/api\/vendors\/me\/(jobs|assignments)/, policy: { timeoutMs: 15_000 } },
+  // Setting a schedule to the same slot twice is harmless
+  { method: 'PUT', pattern: /^\/api\/assignments\/[^/]+\/schedule$/, policy: { retries: 2 } },
+];
+
+export function resolveRetryPolicy(method: string, endpoint: string): RetryPolicy {
+  const upper = method.toUpperCase();
+  const base = upper === 'GET' || upper === 'HEAD' || upper === 'OPTIONS'
+    ? READ_POLICY
+    : IDEMPOTENT_METHODS.has(upper) ? IDEMPOTENT_WRITE_POLICY : WRITE_POLICY;
+  const path = endpoint.split('?')[0];
+  const match = ENDPOINT_POLICIES.find((p) => (!p.method || p.method === upper) && p.pattern.test(path));
+  const policy = { ...base, ...(match?.policy || {}) };
+  if (!IDEMPOTENT_METHODS.has(upper)) policy.retries = 0;
+  return policy;
+}
+
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+export class CircuitOpenError extends UpstreamError {
+  constructor(public readonly upstream: string, retryAfterSeconds: number) {
+    super('External API is temporarily unavailable', 503, 'UPSTREAM_UNAVAILABLE');
+    this.name = 'CircuitOpenError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+type Breaker = {
+  state: BreakerState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  probeInFlight: boolean;
+  lastFailureAt?: number;
+  lastFailureMessage?: string;
+  lastSuccessAt?: number;
+  totalFailures: number;
+  totalShortCircuited: number;
+};
+
+const breakers = new Map<string, Breaker>();
+
+function upstreamKey(url: string) {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return url;
+  }
+}
+
+function getBreaker(key: string): Breaker {
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = { state: 'closed', consecutiveFailures: 0, probeInFlight: false, totalFailures: 0, totalShortCircuited: 0 };
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Whether a failed upstream call says something about the upstream's health.
+ * 4xx answers (bad token, validation, not found) mean it is up and responding.
+ */
+export function isUpstreamFailure(error: any) {
+  if (error instanceof CircuitOpenError) return false;
+  const status = error?.response?.status;
+  if (!status) return true;
+  return status >= 500;
+}
+
+function isRetryable(error: any) {
+  if (error instanceof CircuitOpenError) return false;
+  const status = error?.response?.status;
+  if (!status) return true;
+  return RETRYABLE_STATUSES.has(status);
+}
+
+function backoffDelayMs(attempt: number, policy: RetryPolicy, error: any) {
+  const retryAfter = Number(error?.response?.headers?.['retry-after']);
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    return Math.min(retryAfter * 1000, policy.maxDelayMs);
+  }
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+  return Math.floor(Math.random() * ceiling);
+}
+
+function recordSuccess(key: string, breaker: Breaker) {
+  if (breaker.state !== 'closed') {
+    log.info('Circuit closed', { upstream: key });
+  }
+  breaker.state = 'closed';
+  breaker.consecutiveFailures = 0;
+  breaker.openedAt = undefined;
+  breaker.lastSuccessAt = Date.now();
+}
+
+function recordFailure(key: string, breaker: Breaker, error: any) {
+  breaker.consecutiveFailures += 1;
+  breaker.totalFailures += 1;
+  breaker.lastFailureAt = Date.now();
+  breaker.lastFailureMessage = error?.response?.status ? `HTTP ${error.response.status}` : error?.code || error?.message;
+
+  if (breaker.state === 'half_open' || breaker.consecutiveFailures >= BREAKER_FAILURE_THRESHOLD) {
+    if (breaker.state !== 'open') {
+      log.warn('Circuit opened', {
+        upstream: key,
+        consecutiveFailures: breaker.consecutiveFailures,
+        lastFailure: breaker.lastFailureMessage,
+      });
+    }
+    breaker.state = 'open';
+    breaker.openedAt = Date.now();
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export const upstreamBreaker = {
+  /**
+   * Run one upstream call through the breaker for its origin
+   */
+  async run<T>(url: string, call: () => Promise<T>): Promise<T> {
+    const key = upstreamKey(url);
+    const breaker = getBreaker(key);
+    let isProbe = false;
+
+    if (breaker.state === 'open') {
+      const elapsed = Date.now() - (breaker.openedAt || 0);
+      if (elapsed < BREAKER_COOLDOWN_MS) {
+        breaker.totalShortCircuited += 1;
+        throw new CircuitOpenError(key, Math.max(1, Math.ceil((BREAKER_COOLDOWN_MS - elapsed) / 1000)));
+      }
+      breaker.state = 'half_open';
+    }
+    if (breaker.state === 'half_open') {
+      if (breaker.probeInFlight) {
+        breaker.totalShortCircuited += 1;
+        throw new CircuitOpenError(key, 1);
+      }
+      breaker.probeInFlight = true;
+      isProbe = true;
+    }
+
+    try {
+      const result = await call();
+      recordSuccess(key, breaker);
+      return result;
+    } catch (error: any) {
+      if (isUpstreamFailure(error)) {
+        recordFailure(key, breaker, error);
+      } else {
+        recordSuccess(key, breaker);
+      }
+      throw error;
+    } finally {
+      if (isProbe) breaker.probeInFlight = false;
+    }
+  },
+
+  /**
+   * Breaker state per upstream, for /health
+   */
+  snapshot() {
+    return Array.from(breakers.entries()).map(([upstream, b]) => ({
+      upstream,
+      state: b.state === 'open' && Date.now() - (b.openedAt || 0) >= BREAKER_COOLDOWN_MS ? 'half_open' : b.state,
+      consecutiveFailures: b.consecutiveFailures,
+      openedAt: b.openedAt ? new Date(b.openedAt).toISOString() : null,
+      lastFailureAt: b.lastFailureAt ? new Date(b.lastFailureAt).toISOString() : null,
+      lastFailure: b.lastFailureMessage || null,
+      lastSuccessAt: b.lastSuccessAt ? new Date(b.lastSuccessAt).toISOString() : null,
+      totalFailures: b.totalFailures,
+      totalShortCircuited: b.totalShortCircuited,
+    }));
+  },
+};
+
+/**
+ * Run an upstream call with the endpoint's retry policy, each attempt going through the breaker.
+ * The call receives the per-attempt timeout to pass on to axios.
+ */
+export async function withRetries<T>(
+  url: string,
+  policy: RetryPolicy,
+  call: (timeoutMs: number) => Promise<T>
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await upstreamBreaker.run(url, () => call(policy.timeoutMs));
+    } catch (error: any) {
+      // No point waiting to retry once this failure has opened the breaker
+      if (attempt >= policy.retries || !isRetryable(error) || getBreaker(upstreamKey(url)).state === 'open') throw error;
+      const delay = backoffDelayMs(attempt, policy, error);
+      log.warn('Retrying upstream call', {
+        url,
+        delayMs: delay,
+        attempt: attempt + 2,
+        attempts: policy.retries + 1,
+        reason: error?.response?.status ? `HTTP ${error.response.status}` : error?.code || error?.message,
+      });
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,78 @@
+// Minimal structural checks for upstream responses. Only the fields our code relies on are
+// declared; anything else the upstream sends is left alone.
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'id' | 'date' | 'object' | 'array';
+
+export type FieldSpec = {
+  type: FieldType;
+  required?: boolean;
+  // null is accepted as "not set" (treated like a missing optional field)
+  nullable?: boolean;
+  // For 'array': schema of each object element
+  items?: ObjectSchema;
+  // For 'object': schema of the nested object
+  fields?: ObjectSchema;
+};
+
+export type ObjectSchema = Record<string, FieldSpec>;
+
+export type SchemaViolation = {
+  path: string;
+  expected: string;
+  actual: string;
+};
+
+function describe(value: unknown) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(type: FieldType, value: unknown) {
+  switch (type) {
+    case 'id':
+      return (typeof value === 'string' && value !== '') || (typeof value === 'number' && Number.isFinite(value));
+    case 'date':
+      return (typeof value === 'string' || value instanceof Date) && !isNaN(new Date(value as any).getTime());
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Check a value against an object schema, returning every violation found (empty when valid)
+ */
+export function validateObject(schema: ObjectSchema, value: unknown, path = 'data'): SchemaViolation[] {
+  if (!matchesType('object', value)) {
+    return [{ path, expected: 'object', actual: describe(value) }];
+  }
+
+  const violations: SchemaViolation[] = [];
+  const obj = value as Record<string, unknown>;
+  for (const [key, spec] of Object.entries(schema)) {
+    const fieldPath = `${path}.${key}`;
+    const fieldValue = obj[key];
+
+    if (fieldValue === undefined || (fieldValue === null && spec.nullable)) {
+      if (spec.required) violations.push({ path: fieldPath, expected: spec.type, actual: describe(fieldValue) });
+      continue;
+    }
+    if (!matchesType(spec.type, fieldValue)) {
+      violations.push({ path: fieldPath, expected: spec.type, actual: describe(fieldValue) });
+      continue;
+    }
+    if (spec.type === 'object' && spec.fields) {
+      violations.push(...validateObject(spec.fields, fieldValue, fieldPath));
+    }
+    if (spec.type === 'array' && spec.items) {
+      (fieldValue as unknown[]).forEach((item, i) => {
+        violations.push(...validateObject(spec.items!, item, `${fieldPath}[${i}]`));
+      });
+    }
+  }
+  return violations;
+}
@@ -0,0 +1,337 @@
+import { createHash, randomUUID } from 'crypto';
+import type { Request } from 'express';
+import { OutboxWriteModel, type OutboxStatus } from '../models/outboxWrite';
+import { ExternalApiAdapter } from './externalApiAdapter';
+import { UpstreamError } from './upstreamError';
+import { runWithRequestContext } from './requestContext';
+import { CircuitOpenError } from './upstreamResilience';
+import { jwtService } from './jwt';
+import { config } from '../config';
+import { createLogger } from './logger';
+
+const log = createLogger('WriteOutbox');
+
+// Durable queue for upstream writes made while the upstream is down. A proxied write that fails
+// with a transient error (timeout, unreachable, 5xx, 429, breaker open) is stored in Mongo and the
+// client gets a 202 with a tracking ID. A worker replays queued writes in order per ordering key
+// (one assignment's writes never overtake each other), with exponential backoff. Conflicts (409,
+// 412) and permanent failures (other 4xx, or too many attempts) stop there and wait in the admin
+// queue, where they can be requeued or discarded; until then later writes for the key wait too.
+// Writes that must not be sent twice (adding a part) are only queued and retried after errors
+// that show the upstream did not apply them; a timeout during a replay leaves them failed.
+//
+// The caller's token is stored to replay the write. It is deleted as soon as the write is done, and
+// a write waiting for an admin keeps it for WRITE_OUTBOX_TOKEN_RETENTION_HOURS; after that it can
+// only be discarded.
+
+const OUTBOX = config.upstream.outbox;
+// A replay taking longer than this is assumed to have died with its process
+const LOCK_MS = 2 * 60 * 1000;
+const CONFLICT_STATUSES = new Set([409, 412]);
+// Connection errors raised before any request reached the upstream
+const NOT_SENT_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+// Statuses that hold back later writes for the same ordering key
+const BLOCKING_STATUSES: OutboxStatus[] = ['pending', 'processing', 'conflict', 'failed'];
+
+type UpstreamMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type OutboxWriteInput = {
+  route: string;
+  orderingKey: string;
+  method: UpstreamMethod;
+  baseUrl: string;
+  endpoint: string;
+  body?: any;
+  token: string;
+  idempotent: boolean;
+  requestId?: string;
+  error?: UpstreamError;
+};
+
+/**
+ * Whether a failed upstream write is worth replaying later
+ */
+export function isTransientUpstreamError(error: any) {
+  if (!(error instanceof UpstreamError)) return false;
+  return error.status === 408 || error.status === 429 || (error.status >= 500 && error.status !== 501);
+}
+
+/**
+ * Whether a failed write certainly was not applied upstream: the breaker kept it from being sent,
+ * the connection was refused, or the upstream turned it away (503, 429). After a timeout or other
+ * 5xx it may have been, so only idempotent writes are repeated then.
+ */
+export function wasNotApplied(error: any) {
+  if (!(error instanceof UpstreamError)) return false;
+  if (error instanceof CircuitOpenError || NOT_SENT_CODES.has(error.code)) return true;
+  return error.upstreamStatus === 503 || error.upstreamStatus === 429;
+}
+
+/**
+ * Queueing is opt-in twice: WRITE_OUTBOX_ENABLED on the server, and `Prefer: respond-async` on
+ * the request, so app versions that do not handle a 202 keep getting the upstream error.
+ */
+export function wantsQueuedWrite(req: Request) {
+  if (!OUTBOX.enabled) return false;
+  const prefer = req.get('Prefer') || '';
+  return prefer.split(/[,;]/).some((p) => p.trim().toLowerCase() === 'respond-async');
+}
+
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * The local user behind a token we issued and can verify; null for upstream tokens, whose claims
+ * anyone could have written
+ */
+export function verifiedUserIdFor(token: string) {
+  try {
+    return jwtService.verifyAccess(token).userId ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function errorSummary(error: any) {
+  if (error instanceof UpstreamError) {
+    return { status: error.status, code: error.code, message: error.message, upstream: error.body };
+  }
+  return { status: 500, code: 'INTERNAL_ERROR', message: error?.message || 'Replay failed' };
+}
+
+function backoffMs(attempts: number, error: any) {
+  if (error instanceof UpstreamError && error.retryAfterSeconds) {
+    return Math.min(error.retryAfterSeconds, OUTBOX.maxSeconds) * 1000;
+  }
+  const seconds = Math.min(OUTBOX.maxSeconds, OUTBOX.baseSeconds * Math.pow(2, Math.max(attempts - 1, 0)));
+  // Up to 20% jitter so writes queued together do not all come back at once
+  return Math.round(seconds * 1000 * (1 + Math.random() * 0.2));
+}
+
+/**
+ * What the client that queued a write (and the admin queue) gets to see; never the token
+ */
+export function toOutboxDTO(entry: any) {
+  return {
+    trackingId: entry.trackingId,
+    status: entry.status as OutboxStatus,
+    route: entry.route,
+    method: entry.method,
+    endpoint: entry.endpoint,
+    attempts: entry.attempts,
+    nextAttemptAt: entry.status === 'pending' ? entry.nextAttemptAt : null,
+    lastError: entry.lastError || null,
+    response: entry.response ?? null,
+    requestId: entry.requestId || null,
+    createdAt: entry.createdAt,
+    completedAt: entry.completedAt || null,
+    // Conflicting or failed writes can only be requeued while their token is kept
+    canRequeue: (entry.status === 'conflict' || entry.status === 'failed') && Boolean(entry.token),
+  };
+}
+
+/**
+ * Replay one claimed write. Returns false when its ordering key has to wait: a transient failure,
+ * or a conflict or failure that an admin has to resolve first.
+ */
+async function replay(entry: any): Promise<boolean> {
+  const attempts = entry.attempts + 1;
+  try {
+    const data = await runWithRequestContext(entry.requestId || entry.trackingId, () =>
+      ExternalApiAdapter.callExternalApi(entry.endpoint, entry.token, entry.method, entry.body, entry.baseUrl)
+    );
+    await OutboxWriteModel.updateOne(
+      { _id: entry._id },
+      {
+        $set: { status: 'succeeded', attempts, response: data ?? null, completedAt: new Date() },
+        $unset: { lockedUntil: 1, token: 1, tokenExpiresAt: 1 },
+      }
+    );
+    log.info('Queued write replayed', { trackingId: entry.trackingId, route: entry.route, attempts });
+    return true;
+  } catch (err: any) {
+    const lastError = errorSummary(err);
+    const retryable = isTransientUpstreamError(err) && (entry.idempotent !== false || wasNotApplied(err));
+    if (retryable && attempts < OUTBOX.maxAttempts) {
+      const nextAttemptAt = new Date(Date.now() + backoffMs(attempts, err));
+      await OutboxWriteModel.updateOne(
+        { _id: entry._id },
+        { $set: { status: 'pending', attempts, lastError, nextAttemptAt }, $unset: { lockedUntil: 1 } }
+      );
+      log.warn('Queued write still failing, will retry', { trackingId: entry.trackingId, attempts, nextAttemptAt, err });
+      return false;
+    }
+
+    // The stored token is no longer accepted; replaying it again can't help, so drop it and leave
+    // the write for an admin to discard (the client has to send it again after signing in)
+    if (err instanceof UpstreamError && err.status === 401) {
+      await OutboxWriteModel.updateOne(
+        { _id: entry._id },
+        {
+          $set: { status: 'failed', attempts, lastError: { ...lastError, code: 'TOKEN_REJECTED' } },
+          $unset: { lockedUntil: 1, token: 1, tokenExpiresAt: 1 },
+        }
+      );
+      log.error('Queued write rejected the stored token', { trackingId: entry.trackingId, route: entry.route, attempts });
+      return false;
+    }
+
+    const status: OutboxStatus = err instanceof UpstreamError && CONFLICT_STATUSES.has(err.status) ? 'conflict' : 'failed';
+    const tokenExpiresAt = new Date(Date.now() + OUTBOX.tokenRetentionHours * 60 * 60 * 1000);
+    await OutboxWriteModel.updateOne(
+      { _id: entry._id },
+      { $set: { status, attempts, lastError, tokenExpiresAt }, $unset: { lockedUntil: 1 } }
+    );
+    log.error('Queued write needs attention', { trackingId: entry.trackingId, route: entry.route, status, attempts, err });
+    return false;
+  }
+}
+
+/**
+ * Replay the due writes of one ordering key, oldest first, until one has to wait. A conflicting or
+ * failed write at the head blocks the key until it is requeued or discarded.
+ */
+async function drainKey(orderingKey: string) {
+  for (;;) {
+    const head: any = await OutboxWriteModel.findOne({ orderingKey, status: { $in: BLOCKING_STATUSES } })
+      .sort({ _id: 1 })
+      .lean();
+    if (!head || head.status !== 'pending' || head.nextAttemptAt > new Date()) return;
+
+    const claimed: any = await OutboxWriteModel.findOneAndUpdate(
+      { _id: head._id, status: 'pending' },
+      { $set: { status: 'processing', lockedUntil: new Date(Date.now() + LOCK_MS) } },
+      { new: true }
+    ).lean();
+    if (!claimed) return;
+    if (!(await replay(claimed))) return;
+  }
+}
+
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+export const writeOutbox = {
+  /**
+   * Whether writes for this key are still queued or waiting for an admin; a new write has to go behind them
+   */
+  async hasUnresolved(orderingKey: string) {
+    return Boolean(await OutboxWriteModel.exists({ orderingKey, status: { $in: BLOCKING_STATUSES } }));
+  },
+
+  async enqueue(input: OutboxWriteInput) {
+    const entry = await OutboxWriteModel.create({
+      trackingId: randomUUID(),
+      orderingKey: input.orderingKey,
+      route: input.route,
+      method: input.method,
+      baseUrl: input.baseUrl,
+      endpoint: input.endpoint,
+      body: input.body,
+      idempotent: input.idempotent,
+      token: input.token,
+      tokenHash: hashToken(input.token),
+      userId: verifiedUserIdFor(input.token),
+      requestId: input.requestId || null,
+      lastError: input.error ? errorSummary(input.error) : null,
+      // Give the upstream a moment before the first replay
+      nextAttemptAt: new Date(Date.now() + backoffMs(1, input.error)),
+    });
+    log.warn('Write queued for replay', { trackingId: entry.trackingId, route: input.route, orderingKey: input.orderingKey });
+    return entry.toObject();
+  },
+
+  /**
+   * A queued write, as long as the caller queued it: the same verified local user, or else the
+   * very token it was queued with
+   */
+  async findForCaller(trackingId: string, caller: { token: string; userId?: string | null }) {
+    const entry: any = await OutboxWriteModel.findOne({ trackingId }).lean();
+    if (!entry) return null;
+    const sameCaller = (entry.userId && entry.userId === caller.userId) || entry.tokenHash === hashToken(caller.token);
+    return sameCaller ? entry : null;
+  },
+
+  async list({ statuses, orderingKey, page = 1, limit = 50 }: { statuses?: OutboxStatus[]; orderingKey?: string; page?: number; limit?: number }) {
+    const filter: Record<string, any> = {};
+    if (statuses?.length) filter.status = { $in: statuses };
+    if (orderingKey) filter.orderingKey = orderingKey;
+    const [entries, total] = await Promise.all([
+      OutboxWriteModel.find(filter).sort({ _id: -1 }).skip((page - 1) * limit).limit(limit).lean(),
+      OutboxWriteModel.countDocuments(filter),
+    ]);
+    return { entries, total };
+  },
+
+  async counts() {
+    const rows = await OutboxWriteModel.aggregate([{ $group: { _id: '$status', count: { $sum: 1 } } }]);
+    return Object.fromEntries(rows.map((r: any) => [r._id, r.count])) as Partial<Record<OutboxStatus, number>>;
+  },
+
+  /**
+   * Put a conflicting or failed write back in the queue, with a fresh attempt budget. Only while
+   * its token is still kept.
+   */
+  async requeue(trackingId: string, adminId?: string) {
+    return OutboxWriteModel.findOneAndUpdate(
+      { trackingId, status: { $in: ['conflict', 'failed'] }, token: { $exists: true } },
+      {
+        $set: { status: 'pending', attempts: 0, nextAttemptAt: new Date(), resolvedBy: adminId },
+        $unset: { tokenExpiresAt: 1 },
+      },
+      { new: true }
+    ).lean();
+  },
+
+  async discard(trackingId: string, adminId?: string) {
+    return OutboxWriteModel.findOneAndUpdate(
+      { trackingId, status: { $in: ['pending', 'conflict', 'failed'] } },
+      {
+        $set: { status: 'discarded', completedAt: new Date(), resolvedBy: adminId },
+        $unset: { token: 1, tokenExpiresAt: 1 },
+      },
+      { new: true }
+    ).lean();
+  },
+
+  /**
+   * One pass of the worker: drop tokens kept past their retention, release writes left in
+   * 'processing' by a crashed replay, then replay everything that is due
+   */
+  async processDue() {
+    if (ticking) return;
+    ticking = true;
+    try {
+      await OutboxWriteModel.updateMany(
+        { tokenExpiresAt: { $lte: new Date() } },
+        { $unset: { token: 1, tokenExpiresAt: 1 } }
+      );
+      await OutboxWriteModel.updateMany(
+        { status: 'processing', lockedUntil: { $lt: new Date() } },
+        { $set: { status: 'pending' }, $unset: { lockedUntil: 1 } }
+      );
+      const keys: string[] = await OutboxWriteModel.distinct('orderingKey', {
+        status: 'pending',
+        nextAttemptAt: { $lte: new Date() },
+      });
+      for (const key of keys) await drainKey(key);
+    } catch (err) {
+      log.error('Outbox pass failed', { err });
+    } finally {
+      ticking = false;
+    }
+  },
+
+  start() {
+    if (!OUTBOX.enabled || timer) return;
+    log.info('Starting outbox worker', { pollSeconds: OUTBOX.pollSeconds });
+    timer = setInterval(() => void writeOutbox.processDue(), OUTBOX.pollSeconds * 1000);
+    timer.unref();
+  },
+
+  stop() {
+    if (timer) clearInterval(timer);
+    timer = null;
+  },
+};
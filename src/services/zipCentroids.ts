@@ -0,0 +1,66 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { createLogger } from './logger';
+
+const log = createLogger('ZipCentroids');
+
+// Offline ZIP -> latitude/longitude lookup for distance calculations. The table is a CSV with a
+// `zip,lat,lng` header (see scripts/build-zip-centroids.ts), read once on first use. Without it
+// every lookup misses, so distances come back as null instead of failing requests.
+
+export type LatLng = { lat: number; lng: number };
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+let table: Map<string, LatLng> | null = null;
+
+function load() {
+  const file = path.resolve(config.geo.zipCentroidsFile);
+  const centroids = new Map<string, LatLng>();
+  try {
+    const lines = fs.readFileSync(file, 'utf8').split(/\r?\n/);
+    for (const line of lines.slice(1)) {
+      const [zip, lat, lng] = line.split(',');
+      const point = { lat: Number(lat), lng: Number(lng) };
+      if (zip && Number.isFinite(point.lat) && Number.isFinite(point.lng)) centroids.set(zip.trim(), point);
+    }
+    log.info('Loaded ZIP centroids', { file, count: centroids.size });
+  } catch (err) {
+    log.warn('ZIP centroid table not available; job distances are disabled', { file, err });
+  }
+  return centroids;
+}
+
+/**
+ * First five digits of a US ZIP ('60601-1234' -> '60601'), or null
+ */
+export function normalizeZip(value: unknown) {
+  const match = String(value ?? '').trim().match(/^(\d{5})(?:-?\d{4})?$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Great-circle distance in miles
+ */
+export function haversineMiles(a: LatLng, b: LatLng) {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export const zipCentroids = {
+  lookup(zip: unknown): LatLng | null {
+    const normalized = normalizeZip(zip);
+    if (!normalized) return null;
+    table ??= load();
+    return table.get(normalized) ?? null;
+  },
+
+  get size() {
+    table ??= load();
+    return table.size;
+  },
+};
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import { adminRouter } from '../src/routes/admin';
+import { sessionService } from '../src/services/sessions';
+import { UserModel } from '../src/models/user';
+import { SessionModel } from '../src/models/session';
+import { RoleModel } from '../src/models/role';
+import { AuditLogModel } from '../src/models/auditLog';
+import { useMemoryModel } from './helpers/memoryModel';
+
+test('the audit log only filters by string query values', async (t) => {
+  const users = useMemoryModel(t, UserModel);
+  useMemoryModel(t, SessionModel);
+  useMemoryModel(t, RoleModel);
+  const audit = useMemoryModel(t, AuditLogModel);
+  const admin = new UserModel({ username: 'root', passwordHash: 'x', role: 'admin', twoFactor: { enabled: true, secret: 's' } }).toObject();
+  users.push(admin);
+  audit.push(new AuditLogModel({ action: 'login.locked', username: 'alice' }).toObject());
+  audit.push(new AuditLogModel({ action: 'user.updated', username: 'bob' }).toObject());
+  const { accessToken } = await sessionService.start({ userId: String(admin._id), role: 'admin' });
+
+  const app = express();
+  app.use('/api/admin', adminRouter);
+  const server = app.listen(0);
+  t.after(() => server.close());
+  await new Promise((resolve) => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+  const get = (query: string) =>
+    fetch(`http://127.0.0.1:${port}/api/admin/audit?${query}`, { headers: { Authorization: `Bearer ${accessToken}` } });
+
+  const res = await get('username=alice');
+  assert.equal(res.status, 200);
+  assert.deepEqual((await res.json()).data.map((r: any) => r.action), ['login.locked']);
+
+  for (const query of ['username[$ne]=alice', 'action=a&action=b', 'from[$gt]=']) {
+    assert.equal((await get(query)).status, 400, query);
+  }
+});
@@ -0,0 +1,62 @@
+import { test, type TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import mongoose from 'mongoose';
+import { authRouter } from '../src/routes/auth';
+import { loginLockout } from '../src/services/loginLockout';
+import { loginPipeline } from '../src/services/loginPipeline';
+
+async function startApp(t: TestContext) {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/auth', authRouter);
+  const server = app.listen(0);
+  t.after(() => server.close());
+  await new Promise((resolve) => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+  return (body: unknown) =>
+    fetch(`http://127.0.0.1:${port}/api/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+}
+
+test('a username that is not a string is refused before the lockout and the credential check', async (t) => {
+  const check = t.mock.method(loginLockout, 'check', async () => ({ locked: false }));
+  const login = t.mock.method(loginPipeline, 'login', async () => ({ outcome: 'failed' }));
+  const post = await startApp(t);
+
+  for (const body of [{ username: ['alice'], password: 'guess' }, { username: { $ne: null }, password: 'guess' }, { username: 'alice', password: ['guess'] }]) {
+    const res = await post(body);
+    assert.equal(res.status, 400, JSON.stringify(body));
+  }
+  assert.equal(check.mock.callCount(), 0);
+  assert.equal(login.mock.callCount(), 0);
+});
+
+test('a lockout check that fails for a reason other than the database does not let the login through', async (t) => {
+  t.mock.method(loginLockout, 'check', async () => {
+    throw new TypeError('boom');
+  });
+  const login = t.mock.method(loginPipeline, 'login', async () => ({ outcome: 'failed' }));
+  const post = await startApp(t);
+
+  const res = await post({ username: 'alice', password: 'guess' });
+  assert.equal(res.status, 500);
+  assert.equal(login.mock.callCount(), 0);
+});
+
+test('a database error in the lockout check fails open', async (t) => {
+  t.mock.method(loginLockout, 'check', async () => {
+    throw new mongoose.Error('buffering timed out');
+  });
+  t.mock.method(loginLockout, 'recordFailure', async () => {});
+  const login = t.mock.method(loginPipeline, 'login', async () => ({ outcome: 'failed' }));
+  const post = await startApp(t);
+
+  const res = await post({ username: 'alice', password: 'guess' });
+  assert.equal(res.status, 401);
+  assert.equal(login.mock.callCount(), 1);
+});
@@ -0,0 +1,197 @@
+import type { TestContext } from 'node:test';
+import mongoose from 'mongoose';
+
+// In-memory stand-in for the handful of Mongoose model methods the services use, so their
+// behaviour can be tested without a MongoDB server. Documents are built with the real model
+// (defaults and casting apply); filters support equality, $in/$nin/$ne/$gt/$gte/$lt/$lte/$exists
+// and $or/$and; updates support $set, $unset, $inc, $setOnInsert and $push.
+
+type Doc = Record<string, any>;
+
+function isPlainObject(value: unknown): value is Doc {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function clone<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (isPlainObject(value)) return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, clone(v)])) as T;
+  return value;
+}
+
+function comparable(value: unknown) {
+  if (value instanceof Date) return value.getTime();
+  if (value instanceof mongoose.Types.ObjectId) return String(value);
+  return value;
+}
+
+function getPath(doc: Doc, path: string) {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), doc);
+}
+
+function setPath(doc: Doc, path: string, value: unknown) {
+  const keys = path.split('.');
+  let target = doc;
+  for (const key of keys.slice(0, -1)) target = target[key] ??= {};
+  target[keys[keys.length - 1]] = value;
+}
+
+function unsetPath(doc: Doc, path: string) {
+  const keys = path.split('.');
+  const parent = keys.slice(0, -1).reduce<any>((value, key) => value?.[key], doc);
+  if (parent) delete parent[keys[keys.length - 1]];
+}
+
+function matchesCondition(actual: unknown, condition: unknown): boolean {
+  if (isPlainObject(condition) && Object.keys(condition).some((k) => k.startsWith('$'))) {
+    return Object.entries(condition).every(([op, expected]) => {
+      const a = comparable(actual) as any;
+      const e = comparable(expected) as any;
+      switch (op) {
+        case '$in': return (expected as unknown[]).some((v) => matchesCondition(actual, v));
+        case '$nin': return !(expected as unknown[]).some((v) => matchesCondition(actual, v));
+        case '$ne': return !matchesCondition(actual, expected);
+        case '$exists': return (actual !== undefined) === Boolean(expected);
+        case '$gt': return actual != null && a > e;
+        case '$gte': return actual != null && a >= e;
+        case '$lt': return actual != null && a < e;
+        case '$lte': return actual != null && a <= e;
+        default: throw new Error(`memoryModel: unsupported operator ${op}`);
+      }
+    });
+  }
+  if (Array.isArray(actual) && !Array.isArray(condition)) return actual.some((item) => matchesCondition(item, condition));
+  if (condition === null) return actual === null || actual === undefined;
+  return comparable(actual) === comparable(condition);
+}
+
+export function matches(doc: Doc, filter: Doc = {}): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$or') return (condition as Doc[]).some((f) => matches(doc, f));
+    if (key === '$and') return (condition as Doc[]).every((f) => matches(doc, f));
+    return matchesCondition(getPath(doc, key), condition);
+  });
+}
+
+function applyUpdate(doc: Doc, update: Doc, inserting: boolean) {
+  const operators = Object.keys(update).some((k) => k.startsWith('$')) ? update : { $set: update };
+  for (const [op, fields] of Object.entries(operators)) {
+    for (const [path, value] of Object.entries(fields as Doc)) {
+      switch (op) {
+        case '$set': setPath(doc, path, clone(value)); break;
+        case '$setOnInsert': if (inserting) setPath(doc, path, clone(value)); break;
+        case '$unset': unsetPath(doc, path); break;
+        case '$inc': setPath(doc, path, Number(getPath(doc, path) || 0) + Number(value)); break;
+        case '$push': {
+          const items = isPlainObject(value) && '$each' in value ? (value.$each as unknown[]) : [value];
+          setPath(doc, path, [...(getPath(doc, path) || []), ...clone(items)]);
+          break;
+        }
+        default: throw new Error(`memoryModel: unsupported update ${op}`);
+      }
+    }
+  }
+}
+
+function sortDocs(docs: Doc[], sort: Doc) {
+  return [...docs].sort((a, b) => {
+    for (const [path, direction] of Object.entries(sort)) {
+      const x = comparable(getPath(a, path)) as any;
+      const y = comparable(getPath(b, path)) as any;
+      if (x < y) return -direction;
+      if (x > y) return direction;
+    }
+    return 0;
+  });
+}
+
+// Chainable like a Mongoose query (select/sort/skip/limit/lean are accepted) and awaitable
+function query<T>(run: (opts: { sort?: Doc; skip: number; limit?: number }) => T) {
+  const opts: { sort?: Doc; skip: number; limit?: number } = { skip: 0 };
+  const q: any = {
+    select: () => q,
+    lean: () => q,
+    sort: (sort: Doc) => { opts.sort = sort; return q; },
+    skip: (n: number) => { opts.skip = n; return q; },
+    limit: (n: number) => { opts.limit = n; return q; },
+    exec: async () => run(opts),
+    then: (resolve: any, reject: any) => Promise.resolve().then(() => run(opts)).then(resolve, reject),
+    catch: (reject: any) => q.then(undefined, reject),
+  };
+  return q;
+}
+
+/**
+ * Back `model`'s static methods with an in-memory collection for the duration of the test.
+ * Returns the stored documents so tests can inspect or seed them.
+ */
+export function useMemoryModel(t: TestContext, model: any) {
+  const docs: Doc[] = [];
+
+  const build = (fields: Doc) => {
+    const doc = new model(fields).toObject({ depopulate: true });
+    docs.push(doc);
+    return doc;
+  };
+  const find = (filter: Doc, opts: { sort?: Doc; skip: number; limit?: number }) => {
+    const found = docs.filter((d) => matches(d, filter));
+    const sorted = opts.sort ? sortDocs(found, opts.sort) : found;
+    return sorted.slice(opts.skip, opts.limit === undefined ? undefined : opts.skip + opts.limit);
+  };
+  const upsertFields = (filter: Doc) =>
+    Object.fromEntries(Object.entries(filter).filter(([k, v]) => !k.startsWith('$') && !isPlainObject(v)));
+  const findAndUpdate = (filter: Doc, update: Doc, options: Doc = {}) => {
+    let doc = find(filter, { skip: 0 })[0];
+    const inserting = !doc;
+    if (!doc) {
+      if (!options.upsert) return null;
+      doc = build(upsertFields(filter));
+    }
+    const before = clone(doc);
+    applyUpdate(doc, update, inserting);
+    return options.new ? clone(doc) : inserting ? null : before;
+  };
+
+  const methods: Record<string, (...args: any[]) => any> = {
+    find: (filter: Doc = {}) => query((opts) => find(filter, opts).map(clone)),
+    findOne: (filter: Doc = {}) => query((opts) => clone(find(filter, { ...opts, limit: 1 })[0] ?? null)),
+    findById: (id: unknown) => query(() => clone(docs.find((d) => matches(d, { _id: id })) ?? null)),
+    exists: (filter: Doc) => query(() => {
+      const doc = find(filter, { skip: 0 })[0];
+      return doc ? { _id: doc._id } : null;
+    }),
+    countDocuments: (filter: Doc = {}) => query(() => find(filter, { skip: 0 }).length),
+    distinct: (path: string, filter: Doc = {}) => query(() => {
+      const values = find(filter, { skip: 0 }).map((d) => getPath(d, path));
+      return values.filter((v, i) => values.findIndex((w) => comparable(w) === comparable(v)) === i);
+    }),
+    create: async (fields: Doc) => {
+      const doc = build(clone(fields));
+      return { ...clone(doc), toObject: () => clone(doc) };
+    },
+    findOneAndUpdate: (filter: Doc, update: Doc, options?: Doc) => query(() => findAndUpdate(filter, update, options)),
+    findByIdAndUpdate: (id: unknown, update: Doc, options?: Doc) => query(() => findAndUpdate({ _id: id }, update, options)),
+    updateOne: (filter: Doc, update: Doc, options: Doc = {}) => query(() => {
+      const matched = find(filter, { skip: 0 })[0];
+      findAndUpdate(filter, update, options);
+      return { matchedCount: matched ? 1 : 0, modifiedCount: matched ? 1 : 0, upsertedCount: !matched && options.upsert ? 1 : 0 };
+    }),
+    updateMany: (filter: Doc, update: Doc) => query(() => {
+      const matched = find(filter, { skip: 0 });
+      for (const doc of matched) applyUpdate(doc, update, false);
+      return { matchedCount: matched.length, modifiedCount: matched.length };
+    }),
+    deleteOne: (filter: Doc) => query(() => {
+      const index = docs.findIndex((d) => matches(d, filter));
+      if (index !== -1) docs.splice(index, 1);
+      return { deletedCount: index === -1 ? 0 : 1 };
+    }),
+    deleteMany: (filter: Doc = {}) => query(() => {
+      const before = docs.length;
+      for (let i = docs.length - 1; i >= 0; i--) if (matches(docs[i], filter)) docs.splice(i, 1);
+      return { deletedCount: before - docs.length };
+    }),
+  };
+
+  for (const [name, impl] of Object.entries(methods)) t.mock.method(model, name, impl);
+  return docs;
+}
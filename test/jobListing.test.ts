@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyJobListQuery, parseJobListQuery, JobListQueryError } from '../src/services/jobListing';
+import type { JobDTO } from '../src/services/responseMapping';
+
+const NOW = new Date('2026-10-19T15:00:00Z');
+const SCHEDULE = { timeZone: 'America/Chicago', leadTimeDays: 1, source: 'vendor' as const };
+
+function job(id: number, fields: Partial<JobDTO> = {}): JobDTO {
+  return {
+    id: `job-${String(id).padStart(2, '0')}`,
+    soNumber: `SO-${id}`,
+    customerName: null,
+    customerAddress: null,
+    customerCity: null,
+    customerState: 'IL',
+    customerZip: null,
+    customerPhone: null,
+    customerEmail: null,
+    applianceType: 'washer',
+    manufacturerBrand: null,
+    serviceDescription: null,
+    scheduledDate: '2026-11-02',
+    scheduledTimeWindow: null,
+    timeZone: 'America/Chicago',
+    scheduledWindow: null,
+    priority: null,
+    status: 'available',
+    vendorId: null,
+    ...fields,
+  };
+}
+
+// Ties on the sort value, missing values and a job that is not offered (scheduled today)
+const JOBS: JobDTO[] = [
+  job(1, { scheduledDate: '2026-11-03', priority: 'high', customerCity: 'Evanston' }),
+  job(2, { scheduledDate: '2026-11-01', priority: 'low', customerCity: 'Chicago' }),
+  job(3, { scheduledDate: '2026-11-01', priority: 'urgent' }),
+  job(4, { scheduledDate: '2026-11-05', priority: 'high', customerCity: 'Chicago' }),
+  job(5, { scheduledDate: null, priority: 'medium', customerCity: 'Skokie' }),
+  job(6, { scheduledDate: '2026-11-02', customerCity: 'Aurora' }),
+  job(7, { scheduledDate: '2026-11-01', priority: 'high', customerCity: 'chicago' }),
+  job(8, { scheduledDate: '2026-10-19', priority: 'urgent', customerCity: 'Chicago' }),
+];
+
+function pageThrough(sort: string, limit: number) {
+  const ids: string[] = [];
+  let cursor: string | undefined;
+  for (let pages = 0; pages < 20; pages++) {
+    const query = parseJobListQuery({ sort, limit: String(limit), ...(cursor && { cursor }) });
+    const result = applyJobListQuery(JOBS, query, { schedule: SCHEDULE, now: NOW });
+    ids.push(...result.items.map((j) => String(j.id)));
+    if (!result.pagination!.hasMore) {
+      assert.equal(result.pagination!.nextCursor, null);
+      return ids;
+    }
+    cursor = result.pagination!.nextCursor!;
+  }
+  throw new Error('paging did not finish');
+}
+
+for (const sort of ['scheduledDate', '-scheduledDate', 'priority', '-priority', 'city', '-city']) {
+  test(`cursor pages for sort=${sort} add up to the unpaged list`, () => {
+    const all = applyJobListQuery(JOBS, parseJobListQuery({ sort }), { schedule: SCHEDULE, now: NOW });
+    const expected = all.items.map((j) => String(j.id));
+
+    for (const limit of [1, 2, 3, 100]) {
+      assert.deepEqual(pageThrough(sort, limit), expected, `limit=${limit}`);
+    }
+  });
+}
+
+test('jobs without a sort value come last in both directions', () => {
+  const ascending = applyJobListQuery(JOBS, parseJobListQuery({ sort: 'city' }), { schedule: SCHEDULE, now: NOW });
+  const descending = applyJobListQuery(JOBS, parseJobListQuery({ sort: '-city' }), { schedule: SCHEDULE, now: NOW });
+  // job-03 has no city; jobs 05 (no date) and 08 (today) are not offered at all
+  assert.equal(ascending.items.at(-1)!.id, 'job-03');
+  assert.equal(descending.items.at(-1)!.id, 'job-03');
+  assert.equal(ascending.total, 6);
+});
+
+test('a cursor only works with the sort it was issued for', () => {
+  const first = applyJobListQuery(JOBS, parseJobListQuery({ sort: 'city', limit: '2' }), { schedule: SCHEDULE, now: NOW });
+  const cursor = first.pagination!.nextCursor!;
+
+  assert.throws(() => parseJobListQuery({ sort: '-city', limit: '2', cursor }), JobListQueryError);
+  assert.throws(() => parseJobListQuery({ sort: 'city', limit: '2', cursor: 'not-a-cursor' }), JobListQueryError);
+});
@@ -0,0 +1,168 @@
+import { test, type TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { changedFields, jobSync } from '../src/services/jobSync';
+import { ExternalApiAdapter } from '../src/services/externalApiAdapter';
+import { UpstreamError } from '../src/services/upstreamError';
+import { JobModel } from '../src/models/job';
+import { JobAssignmentModel } from '../src/models/jobAssignment';
+import { JobSyncRunModel } from '../src/models/jobSyncRun';
+import { UserModel } from '../src/models/user';
+import { config } from '../src/config';
+import { useMemoryModel } from './helpers/memoryModel';
+
+const VENDOR = new mongoose.Types.ObjectId().toString();
+
+// `upstream` answers each GET by endpoint (query string stripped); a function may throw
+function setup(t: TestContext, upstream: Record<string, unknown> = {}) {
+  const jobs = useMemoryModel(t, JobModel);
+  const assignments = useMemoryModel(t, JobAssignmentModel);
+  const runs = useMemoryModel(t, JobSyncRunModel);
+  const { username, password } = config.jobSync;
+  Object.assign(config.jobSync, { username: 'sync', password: 'secret' });
+  t.after(() => Object.assign(config.jobSync, { username, password }));
+  useMemoryModel(t, UserModel);
+  // Each announcement looks up the devices to notify
+  const announcements = (UserModel.find as any).mock;
+  t.mock.method(ExternalApiAdapter, 'login', async () => ({ success: true, data: { accessToken: 'sync-token' } }));
+  t.mock.method(ExternalApiAdapter, 'callExternalApi', async (endpoint: string) => {
+    const answer = upstream[endpoint.split('?')[0]] ?? { success: true, data: [] };
+    return typeof answer === 'function' ? answer() : structuredClone(answer);
+  });
+  return { jobs, assignments, runs, announcements };
+}
+
+// A job as the upstream sends it
+function upstreamJob(id: string, fields: Record<string, unknown> = {}): any {
+  return { id, soNumber: `SO-${id}`, status: 'available', customerCity: 'Austin', customerState: 'TX', ...fields };
+}
+
+test('changedFields ignores values the upstream left out and compares dates by time', () => {
+  const current = { status: 'available', scheduledDate: new Date('2026-05-01T10:00:00Z'), customerCity: 'Austin' };
+
+  assert.deepEqual(
+    changedFields(current, { status: 'available', scheduledDate: new Date('2026-05-01T10:00:00Z'), customerCity: undefined }),
+    {}
+  );
+  assert.deepEqual(changedFields(current, { status: 'assigned', customerZip: '78701' }), { status: 'assigned', customerZip: '78701' });
+  assert.deepEqual(changedFields(null, { status: 'available', customerZip: undefined }), { status: 'available' });
+});
+
+test('upsertJob creates a job once, then writes only what changed', async (t) => {
+  const { jobs } = setup(t);
+  jobs.push(new JobModel({ soNumber: 'SO-J1', productInfoUpdate: { brand: 'Acme' } }).toObject());
+
+  const matched = await jobSync.upsertJob(upstreamJob('J1'));
+  assert.equal(matched?.outcome, 'updated', 'matched by soNumber');
+  assert.equal(jobs.length, 1);
+  assert.equal(jobs[0].externalId, 'J1');
+  assert.equal(jobs[0].productInfoUpdate.brand, 'Acme', 'locally owned fields are kept');
+
+  assert.equal((await jobSync.upsertJob(upstreamJob('J1')))?.outcome, 'unchanged');
+
+  const changed = await jobSync.upsertJob(upstreamJob('J1', { status: 'assigned' }));
+  assert.equal(changed?.outcome, 'updated');
+  assert.deepEqual(changed?.changed, ['status']);
+
+  assert.equal((await jobSync.upsertJob(upstreamJob('J2')))?.outcome, 'created');
+  assert.ok(jobs[1].syncedAt);
+  assert.equal(await jobSync.upsertJob({ soNumber: 'SO-none' } as any), null);
+});
+
+test('upsertAssignment links the assignment to its synced job and skips unknown jobs', async (t) => {
+  const { jobs, assignments } = setup(t);
+  await jobSync.upsertJob(upstreamJob('J1'));
+
+  const created = await jobSync.upsertAssignment({ id: 'A1', jobId: 'J1', vendorId: VENDOR, status: 'assigned' } as any);
+  assert.equal(created?.outcome, 'created');
+  assert.equal(String(jobs[0].assignmentId), String(assignments[0]._id));
+
+  const updated = await jobSync.upsertAssignment({ id: 'A1', jobId: 'J1', vendorId: VENDOR, status: 'completed' } as any);
+  assert.deepEqual(updated?.changed, ['status']);
+
+  await assert.rejects(
+    jobSync.upsertAssignment({ id: 'A2', jobId: 'J9', vendorId: VENDOR, status: 'assigned' } as any),
+    { name: 'JobSyncSkip' }
+  );
+  await assert.rejects(
+    jobSync.upsertAssignment({ id: 'A3', jobId: 'J1', vendorId: 'vendor-1', status: 'assigned' } as any),
+    { name: 'JobSyncSkip' }
+  );
+});
+
+test('a run counts every outcome and is partial when some items failed', async (t) => {
+  const { jobs, runs } = setup(t, {
+    '/api/jobs/available': { success: true, data: [upstreamJob('J1'), upstreamJob('J2', { status: 'assigned' }), upstreamJob('J3')] },
+    '/api/vendors/me/assignments': {
+      success: true,
+      data: [
+        { id: 'A1', jobId: 'J2', vendorId: VENDOR, status: 'assigned' },
+        { id: 'A2', jobId: 'J9', vendorId: VENDOR, status: 'assigned' },
+      ],
+    },
+  });
+  // J1 and J3 are stored already, and writing their changes fails
+  jobs.push(new JobModel({ soNumber: 'SO-J1', externalId: 'J1', status: 'available', customerCity: 'Austin', customerState: 'TX' }).toObject());
+  jobs.push(new JobModel({ soNumber: 'SO-J3', externalId: 'X3' }).toObject());
+  (JobModel.findByIdAndUpdate as any).mock.mockImplementation(() => {
+    throw new Error('write failed');
+  });
+
+  const run: any = await jobSync.runFull('manual', 'admin-1');
+
+  assert.equal(runs.length, 1);
+  assert.equal(run.status, 'partial');
+  assert.equal(run.requestedBy, 'admin-1');
+  assert.deepEqual(run.counts.jobs, { fetched: 3, created: 1, updated: 0, unchanged: 0, skipped: 0, failed: 2 });
+  assert.deepEqual(run.counts.assignments, { fetched: 2, created: 1, updated: 0, unchanged: 0, skipped: 1, failed: 0 });
+  assert.equal(run.failureCount, 3);
+  assert.ok(run.finishedAt);
+  assert.equal(jobSync.isRunning(), false);
+});
+
+test('a run whose listing fails is recorded as failed', async (t) => {
+  const { runs } = setup(t, {
+    '/api/jobs/available': () => {
+      throw new UpstreamError('Upstream unavailable', 503, 'UPSTREAM_503', null, 503);
+    },
+  });
+
+  const run: any = await jobSync.runFull('scheduled');
+
+  assert.equal(run.status, 'failed');
+  assert.deepEqual(run.failures, [{ scope: 'run', id: null, status: 503, message: 'Upstream unavailable' }]);
+  assert.equal(runs[0].status, 'failed');
+});
+
+test('available jobs that no list returns are refreshed, or marked unavailable when gone', async (t) => {
+  const { jobs } = setup(t, {
+    '/api/jobs/available': { success: true, data: [upstreamJob('J1')] },
+    '/api/jobs/J2': { success: true, data: upstreamJob('J2', { status: 'assigned' }) },
+    '/api/jobs/J3': () => {
+      throw new UpstreamError('Not found', 404, 'NOT_FOUND', null, 404);
+    },
+  });
+  for (const id of ['J1', 'J2', 'J3']) {
+    jobs.push(new JobModel({ soNumber: `SO-${id}`, externalId: id, status: 'available', syncedAt: new Date(0) }).toObject());
+  }
+
+  const run: any = await jobSync.runFull('manual');
+
+  assert.equal(run.status, 'succeeded');
+  assert.deepEqual(jobs.map((job) => job.status), ['available', 'assigned', 'unavailable']);
+  assert.equal(run.fieldChanges['jobs.status'], 2);
+});
+
+test('new available jobs are announced, but not on the first backfill', async (t) => {
+  const listed = { success: true, data: [upstreamJob('J1')] };
+  const { jobs, announcements } = setup(t, { '/api/jobs/available': listed });
+
+  await jobSync.runFull('manual');
+  assert.equal(jobs.length, 1);
+  assert.equal(announcements.callCount(), 0);
+
+  listed.data.push(upstreamJob('J2'), upstreamJob('J3', { status: 'assigned' }));
+  await jobSync.runFull('manual');
+  assert.equal(jobs.length, 3);
+  assert.equal(announcements.callCount(), 1, 'only the available one');
+});
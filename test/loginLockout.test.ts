@@ -0,0 +1,79 @@
+import { test, type TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { loginLockout } from '../src/services/loginLockout';
+import { LoginThrottleModel } from '../src/models/loginThrottle';
+import { UserModel } from '../src/models/user';
+import { AuditLogModel } from '../src/models/auditLog';
+import { config } from '../src/config';
+import { useMemoryModel } from './helpers/memoryModel';
+
+const { userThreshold, ipThreshold } = config.auth.lockout;
+
+function setup(t: TestContext) {
+  const throttles = useMemoryModel(t, LoginThrottleModel);
+  const users = useMemoryModel(t, UserModel);
+  useMemoryModel(t, AuditLogModel);
+  return { throttles, users };
+}
+
+async function fail(times: number, username: string, ip?: string) {
+  for (let i = 0; i < times; i++) await loginLockout.recordFailure(username, ip);
+}
+
+test('locks a username that only exists upstream', async (t) => {
+  setup(t);
+  await fail(userThreshold - 1, 'upstream-only', '198.51.100.1');
+  assert.equal((await loginLockout.check('upstream-only')).locked, false);
+
+  await fail(1, 'upstream-only', '198.51.100.1');
+  const status = await loginLockout.check('upstream-only');
+  assert.equal(status.locked, true);
+  assert.equal(status.reason, 'username');
+});
+
+test('counts a username case-insensitively', async (t) => {
+  setup(t);
+  await fail(userThreshold, 'Alice');
+  assert.equal((await loginLockout.check('alice')).locked, true);
+});
+
+test('mirrors the lockout onto an existing local user', async (t) => {
+  const { users } = setup(t);
+  users.push(new UserModel({ username: 'bob', email: 'bob@example.com', passwordHash: 'x', role: 'registered_user' }).toObject());
+  await fail(userThreshold, 'bob');
+  assert.equal(users[0].loginAttempts, userThreshold);
+  assert.ok(users[0].lockedUntil instanceof Date);
+});
+
+test('a successful login resets the username counter', async (t) => {
+  setup(t);
+  await fail(userThreshold - 1, 'carol');
+  await loginLockout.recordSuccess('carol');
+  await fail(userThreshold - 1, 'carol');
+  assert.equal((await loginLockout.check('carol')).locked, false);
+});
+
+test('a successful login does not reset the IP counter', async (t) => {
+  const { throttles } = setup(t);
+  const ip = '203.0.113.7';
+  // Guess other accounts, logging in to a valid one in between
+  for (let i = 0; i < ipThreshold; i++) {
+    await loginLockout.recordFailure(`victim-${i}`, ip);
+    await loginLockout.recordSuccess('attacker');
+  }
+  const status = await loginLockout.check('someone-else', ip);
+  assert.equal(status.locked, true);
+  assert.equal(status.reason, 'ip');
+  assert.equal(throttles.find((d) => d.key === `ip:${ip}`)?.failures, ipThreshold);
+});
+
+test('admin unlock clears the username and IP lockouts', async (t) => {
+  setup(t);
+  const ip = '203.0.113.8';
+  await fail(Math.max(userThreshold, ipThreshold), 'dave', ip);
+  assert.equal((await loginLockout.check('dave', ip)).locked, true);
+
+  const result = await loginLockout.unlock({ username: 'dave', ip });
+  assert.deepEqual(result, { userUnlocked: true, ipUnlocked: true });
+  assert.equal((await loginLockout.check('dave', ip)).locked, false);
+});
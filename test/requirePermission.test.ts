@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import jwt from 'jsonwebtoken';
+import express, { type NextFunction, type Response } from 'express';
+import { authenticateJWT, requirePermission, type AuthenticatedRequest } from '../src/middleware/auth';
+import { analyticsRouter } from '../src/routes/analytics';
+
+function fakeResponse() {
+  const res: any = { statusCode: 200, body: undefined };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = (body: unknown) => { res.body = body; return res; };
+  return res as Response & { statusCode: number; body: any };
+}
+
+// Run the middleware chain the way Express would, stopping at the first one that answers
+async function run(req: AuthenticatedRequest, ...chain: ((req: any, res: any, next: NextFunction) => unknown)[]) {
+  const res = fakeResponse();
+  for (const middleware of chain) {
+    let called = false;
+    await middleware(req, res, () => { called = true; });
+    if (!called) return { res, passed: false };
+  }
+  return { res, passed: true };
+}
+
+test('a decoded-only token cannot claim a role to pass a permission check', async () => {
+  const forged = jwt.sign({ userId: 'someone', role: 'admin' }, 'not-our-secret');
+  const req = { headers: { authorization: `Bearer ${forged}` } } as AuthenticatedRequest;
+
+  const { res, passed } = await run(req, authenticateJWT({ skipValidation: true }), requirePermission('manage_feedback_config'));
+  assert.equal(passed, false);
+  assert.equal(res.statusCode, 401);
+});
+
+test('verified authentication rejects a token we did not sign', async () => {
+  const forged = jwt.sign({ userId: 'someone', role: 'admin' }, 'not-our-secret');
+  const req = { headers: { authorization: `Bearer ${forged}` } } as AuthenticatedRequest;
+
+  const { res, passed } = await run(req, authenticateJWT(), requirePermission('manage_feedback_config'));
+  assert.equal(passed, false);
+  assert.equal(res.statusCode, 401);
+});
+
+test('analytics are not served without a login or API key', async (t) => {
+  const app = express();
+  app.use('/api/analytics', analyticsRouter);
+  const server = app.listen(0);
+  t.after(() => server.close());
+  await new Promise((resolve) => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  for (const path of ['/api/analytics', '/api/analytics/summary', '/api/analytics/users', '/api/analytics/upstream-cache']) {
+    const res = await fetch(`http://127.0.0.1:${port}${path}`);
+    assert.equal(res.status, 401, path);
+  }
+});
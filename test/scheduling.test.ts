@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { earliestOfferedDay, inferTimeZone, scheduledDay, scheduledWindow, vendorSchedule } from '../src/services/scheduling';
+import { isFutureAvailableJob } from '../src/services/jobListing';
+import type { JobDTO } from '../src/services/responseMapping';
+
+const NEW_YORK = { timeZone: 'America/New_York', leadTimeDays: 1 };
+const LOS_ANGELES = { timeZone: 'America/Los_Angeles', leadTimeDays: 1 };
+
+test('"tomorrow" turns over at each vendor\'s own midnight', () => {
+  // 23:59 in New York, 20:59 in Los Angeles
+  const beforeMidnight = new Date('2026-10-20T03:59:00Z');
+  assert.equal(earliestOfferedDay(NEW_YORK, beforeMidnight), '2026-10-20');
+  assert.equal(earliestOfferedDay(LOS_ANGELES, beforeMidnight), '2026-10-20');
+
+  // 00:01 in New York, still 21:01 the day before in Los Angeles
+  const afterMidnight = new Date('2026-10-20T04:01:00Z');
+  assert.equal(earliestOfferedDay(NEW_YORK, afterMidnight), '2026-10-21');
+  assert.equal(earliestOfferedDay(LOS_ANGELES, afterMidnight), '2026-10-20');
+});
+
+test('lead time counts whole local days', () => {
+  const now = new Date('2026-10-20T04:01:00Z');
+  assert.equal(earliestOfferedDay({ ...LOS_ANGELES, leadTimeDays: 0 }, now), '2026-10-19');
+  assert.equal(earliestOfferedDay({ ...LOS_ANGELES, leadTimeDays: 3 }, now), '2026-10-22');
+});
+
+test('a plain day is kept as is; other instants use the job\'s local day', () => {
+  assert.equal(scheduledDay({ scheduledDate: '2026-11-02' }), '2026-11-02');
+  assert.equal(scheduledDay({ scheduledDate: '2026-11-02T00:00:00.000Z', timeZone: 'America/Los_Angeles' }), '2026-11-02');
+  // 03:00 UTC is still the evening before in every US zone
+  assert.equal(scheduledDay({ scheduledDate: '2026-11-02T03:00:00.000Z', timeZone: 'America/New_York' }), '2026-11-01');
+  assert.equal(scheduledDay({ scheduledDate: '2026-11-02T03:00:00.000Z', timeZone: 'America/Los_Angeles' }), '2026-11-01');
+  assert.equal(scheduledDay({ scheduledDate: 'not a date' }), null);
+});
+
+test('a job is offered from the vendor\'s local tomorrow', () => {
+  const job = { status: 'available', scheduledDate: '2026-10-20', timeZone: 'America/Chicago' } as JobDTO;
+  const now = new Date('2026-10-20T04:01:00Z');
+
+  assert.equal(isFutureAvailableJob(job, { ...LOS_ANGELES, source: 'vendor' }, now), true);
+  assert.equal(isFutureAvailableJob(job, { ...NEW_YORK, source: 'vendor' }, now), false);
+});
+
+test('time windows follow daylight saving time on both sides of the switch', () => {
+  const window = (day: string) =>
+    scheduledWindow({ scheduledDate: day, scheduledTimeWindow: '8:00 AM - 12:00 PM', timeZone: 'America/Chicago' });
+
+  // Spring forward on 2026-03-08: CST (UTC-6) before, CDT (UTC-5) from that day
+  assert.deepEqual(window('2026-03-07'), { start: '2026-03-07T14:00:00.000Z', end: '2026-03-07T18:00:00.000Z', timeZone: 'America/Chicago' });
+  assert.deepEqual(window('2026-03-08'), { start: '2026-03-08T13:00:00.000Z', end: '2026-03-08T17:00:00.000Z', timeZone: 'America/Chicago' });
+  // Fall back on 2026-11-01
+  assert.equal(window('2026-10-31')!.start, '2026-10-31T13:00:00.000Z');
+  assert.equal(window('2026-11-01')!.start, '2026-11-01T14:00:00.000Z');
+});
+
+test('a window that shares its meridiem or uses 24-hour times', () => {
+  const window = (scheduledTimeWindow: string) =>
+    scheduledWindow({ scheduledDate: '2026-07-01', scheduledTimeWindow, timeZone: 'America/Los_Angeles' });
+
+  assert.equal(window('1 - 5 PM')!.start, '2026-07-01T20:00:00.000Z');
+  assert.equal(window('13:00 - 17:00')!.end, '2026-07-02T00:00:00.000Z');
+  assert.equal(window('whenever'), null);
+});
+
+test('vendor and job zones come from the stored zone, then state, then ZIP', () => {
+  assert.equal(vendorSchedule({ timeZone: 'America/Denver', state: 'CA' }).timeZone, 'America/Denver');
+  const inferred = vendorSchedule({ timeZone: 'Not/AZone', state: 'CA' });
+  assert.equal(inferred.timeZone, 'America/Los_Angeles');
+  assert.equal(inferred.source, 'inferred');
+  // The Florida panhandle is on Central time
+  assert.equal(inferTimeZone({ state: 'FL', zip: '32501' }), 'America/Chicago');
+  assert.equal(inferTimeZone({ zip: '33101' }), 'America/New_York');
+  assert.equal(inferTimeZone({}), null);
+});
@@ -0,0 +1,99 @@
+import { test, type TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { sessionService, RefreshTokenError } from '../src/services/sessions';
+import { SessionModel } from '../src/models/session';
+import { UserModel } from '../src/models/user';
+import { AuditLogModel } from '../src/models/auditLog';
+import { useMemoryModel } from './helpers/memoryModel';
+
+function setup(t: TestContext) {
+  const sessions = useMemoryModel(t, SessionModel);
+  const users = useMemoryModel(t, UserModel);
+  const audit = useMemoryModel(t, AuditLogModel);
+  const user = new UserModel({ username: 'alice', email: 'alice@example.com', passwordHash: 'x', role: 'registered_user' }).toObject();
+  users.push(user);
+  return { sessions, users, audit, user, userId: String(user._id) };
+}
+
+async function rejection(promise: Promise<unknown>) {
+  try {
+    await promise;
+  } catch (err) {
+    assert.ok(err instanceof RefreshTokenError, String(err));
+    return err;
+  }
+  assert.fail('expected the refresh to be rejected');
+}
+
+test('rotating issues a new pair for the same session, and the new refresh token rotates again', async (t) => {
+  const { sessions, userId } = setup(t);
+  const started = await sessionService.start({ userId, role: 'registered_user' });
+
+  const rotated = await sessionService.rotate(started.refreshToken);
+  assert.equal(rotated.sessionId, started.sessionId);
+  assert.notEqual(rotated.refreshToken, started.refreshToken);
+  assert.equal(sessions[0].rotationCount, 1);
+
+  const again = await sessionService.rotate(rotated.refreshToken);
+  assert.equal(again.sessionId, started.sessionId);
+  assert.equal(sessions[0].revokedAt, undefined);
+});
+
+test('replaying a rotated refresh token revokes the whole session', async (t) => {
+  const { sessions, audit, userId } = setup(t);
+  const started = await sessionService.start({ userId, role: 'registered_user' });
+  const rotated = await sessionService.rotate(started.refreshToken);
+
+  const err = await rejection(sessionService.rotate(started.refreshToken));
+  assert.equal(err.reason, 'reuse');
+  assert.equal(sessions[0].revokedReason, 'refresh_reuse');
+  assert.equal(audit[0].action, 'session.refresh_reuse');
+  assert.equal(await sessionService.isActive(started.sessionId), false);
+
+  // The token the legitimate holder got is no good either
+  assert.equal((await rejection(sessionService.rotate(rotated.refreshToken))).reason, 'revoked');
+});
+
+test('a revoked session cannot be refreshed', async (t) => {
+  const { userId } = setup(t);
+  const started = await sessionService.start({ userId, role: 'registered_user' });
+
+  assert.equal(await sessionService.revoke(started.sessionId, 'logout'), true);
+
+  assert.equal((await rejection(sessionService.rotate(started.refreshToken))).reason, 'revoked');
+});
+
+test('a refresh token issued before a password change is refused and its session revoked', async (t) => {
+  const { sessions, users, userId } = setup(t);
+  const { refreshToken } = await sessionService.start({ userId, role: 'registered_user' });
+
+  users[0].passwordChangedAt = new Date(Date.now() + 5000);
+
+  const err = await rejection(sessionService.rotate(refreshToken));
+  assert.equal(err.reason, 'revoked');
+  assert.equal(sessions[0].revokedReason, 'password_changed');
+});
+
+test('a deactivated user cannot refresh', async (t) => {
+  const { sessions, users, userId } = setup(t);
+  const { refreshToken } = await sessionService.start({ userId, role: 'registered_user' });
+
+  users[0].isActive = false;
+
+  const err = await rejection(sessionService.rotate(refreshToken));
+  assert.equal(err.reason, 'revoked');
+  assert.ok(sessions[0].revokedAt);
+});
+
+test('reissue gives an active session a new pair and retires its refresh token', async (t) => {
+  const { userId } = setup(t);
+  const started = await sessionService.start({ userId, role: 'registered_user' });
+
+  const reissued = await sessionService.reissue(started.sessionId);
+  assert.ok(reissued);
+  assert.equal(reissued.sessionId, started.sessionId);
+
+  // The pre-reissue refresh token now counts as reuse
+  const err = await rejection(sessionService.rotate(started.refreshToken));
+  assert.equal(err.reason, 'reuse');
+});
@@ -0,0 +1,81 @@
+import { test, type TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Response } from 'express';
+import { twoFactor } from '../src/services/twoFactor';
+import { jwtService } from '../src/services/jwt';
+import { requirePermission, type AuthenticatedRequest } from '../src/middleware/auth';
+import { UserModel } from '../src/models/user';
+import { RoleModel } from '../src/models/role';
+import { AuditLogModel } from '../src/models/auditLog';
+import { useMemoryModel } from './helpers/memoryModel';
+
+function setup(t: TestContext) {
+  const users = useMemoryModel(t, UserModel);
+  useMemoryModel(t, RoleModel);
+  useMemoryModel(t, AuditLogModel);
+  return { users };
+}
+
+function fakeResponse() {
+  const res: any = { statusCode: 200, body: undefined };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = (body: unknown) => { res.body = body; return res; };
+  return res as Response & { statusCode: number; body: any };
+}
+
+async function callRequirePermission(req: AuthenticatedRequest, permission: Parameters<typeof requirePermission>[0]) {
+  const res = fakeResponse();
+  let passed = false;
+  await requirePermission(permission)(req, res, () => { passed = true; });
+  return { res, passed };
+}
+
+test('a challenge token can only be used once', async (t) => {
+  const { users } = setup(t);
+  const user = new UserModel({ username: 'alice', email: 'alice@example.com', passwordHash: 'x', role: 'admin' }).toObject();
+  users.push(user);
+  const userId = String(user._id);
+
+  const token = await twoFactor.issueChallenge(userId);
+  const { challengeId } = jwtService.verifyChallenge(token);
+
+  assert.equal(await twoFactor.consumeChallenge(userId, challengeId), true);
+  assert.equal(await twoFactor.consumeChallenge(userId, challengeId), false);
+});
+
+test('a newer challenge replaces the previous one', async (t) => {
+  const { users } = setup(t);
+  const user = new UserModel({ username: 'alice', email: 'alice@example.com', passwordHash: 'x', role: 'admin' }).toObject();
+  users.push(user);
+  const userId = String(user._id);
+
+  const first = jwtService.verifyChallenge(await twoFactor.issueChallenge(userId));
+  const second = jwtService.verifyChallenge(await twoFactor.issueChallenge(userId));
+
+  assert.equal(await twoFactor.consumeChallenge(userId, first.challengeId), false);
+  assert.equal(await twoFactor.consumeChallenge(userId, second.challengeId), true);
+});
+
+test('privileged permissions are refused until two-factor is enabled', async (t) => {
+  const { users } = setup(t);
+  const user = new UserModel({ username: 'root', email: 'root@example.com', passwordHash: 'x', role: 'admin' }).toObject();
+  users.push(user);
+  const req = { user: { userId: String(user._id), role: 'admin' }, tokenVerified: true } as AuthenticatedRequest;
+
+  const refused = await callRequirePermission(req, 'manage_users');
+  assert.equal(refused.passed, false);
+  assert.equal(refused.res.statusCode, 403);
+  assert.equal(refused.res.body.twoFactorSetupRequired, true);
+
+  users[0].twoFactor = { enabled: true, secret: 'stored-secret' };
+  assert.equal((await callRequirePermission(req, 'manage_users')).passed, true);
+});
+
+test('non-privileged permissions do not need two-factor', async (t) => {
+  const { users } = setup(t);
+  const user = new UserModel({ username: 'tech', email: 'tech@example.com', passwordHash: 'x', role: 'registered_user' }).toObject();
+  users.push(user);
+  const req = { user: { userId: String(user._id), role: 'registered_user' }, tokenVerified: true } as AuthenticatedRequest;
+
+  assert.equal((await callRequirePermission(req, 'view_assigned_jobs')).passed, true);
+});
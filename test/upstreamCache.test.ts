@@ -0,0 +1,77 @@
+import { test, type TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { upstreamCache } from '../src/services/upstreamCache';
+import { ExternalApiAdapter } from '../src/services/externalApiAdapter';
+import { ExternalApiCacheModel } from '../src/models/externalApiCache';
+import { useMemoryModel } from './helpers/memoryModel';
+
+function setup(t: TestContext) {
+  // read() skips the cache while mongoose is disconnected
+  t.mock.getter(mongoose, 'connection', () => ({ readyState: 1 }));
+  return useMemoryModel(t, ExternalApiCacheModel);
+}
+
+function fetcher(body: unknown) {
+  let calls = 0;
+  const fetch = async () => {
+    calls += 1;
+    return structuredClone(body);
+  };
+  return { fetch, calls: () => calls };
+}
+
+test('serves a cached read back to the same token', async (t) => {
+  setup(t);
+  const token = jwt.sign({ userId: 'u1' }, 'upstream-secret');
+  const upstream = fetcher({ success: true, data: { id: 'job-1' } });
+
+  await upstreamCache.read('/api/jobs/job-1', token, upstream.fetch);
+  const outcomes: string[] = [];
+  const second = await upstreamCache.read('/api/jobs/job-1', token, upstream.fetch, (o) => outcomes.push(o));
+
+  assert.equal(upstream.calls(), 1);
+  assert.deepEqual(outcomes, ['hit']);
+  assert.deepEqual(second, { success: true, data: { id: 'job-1' } });
+});
+
+test('a forged token with the same user id does not read the real token\'s entries', async (t) => {
+  setup(t);
+  const real = jwt.sign({ userId: 'u1' }, 'upstream-secret');
+  const forged = jwt.sign({ userId: 'u1' }, 'anything');
+
+  await upstreamCache.read('/api/jobs/job-2', real, fetcher({ success: true, data: { secret: true } }).fetch);
+
+  const upstream = fetcher({ success: false, message: 'Unauthorized' });
+  const outcomes: string[] = [];
+  const result = await upstreamCache.read('/api/jobs/job-2', forged, upstream.fetch, (o) => outcomes.push(o));
+
+  assert.equal(upstream.calls(), 1);
+  assert.deepEqual(outcomes, ['miss']);
+  assert.deepEqual(result, { success: false, message: 'Unauthorized' });
+});
+
+test('cache keys never contain the token itself', async (t) => {
+  const entries = setup(t);
+  const token = jwt.sign({ userId: 'u1' }, 'upstream-secret');
+
+  await upstreamCache.read('/api/jobs/job-3', token, fetcher({ success: true, data: {} }).fetch);
+
+  assert.equal(entries.length, 1);
+  assert.ok(!entries[0].cacheKey.includes(token));
+  assert.ok(!entries[0].userId.includes(token));
+});
+
+test('noCache reads always go to the upstream and are not stored', async (t) => {
+  const entries = setup(t);
+  // requestExternalApi is the adapter's private HTTP call
+  const request = t.mock.method(ExternalApiAdapter as any, 'requestExternalApi', async () => ({ success: true, data: { id: 'job-4' } }));
+  const token = jwt.sign({ userId: 'sync' }, 'upstream-secret');
+
+  await ExternalApiAdapter.callExternalApi('/api/jobs/job-4', token, 'GET', undefined, undefined, { noCache: true });
+  await ExternalApiAdapter.callExternalApi('/api/jobs/job-4', token, 'GET', undefined, undefined, { noCache: true });
+
+  assert.equal(request.mock.callCount(), 2);
+  assert.equal(entries.length, 0);
+});
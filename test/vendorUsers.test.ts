@@ -0,0 +1,82 @@
+import { test, type TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import mongoose from 'mongoose';
+import { vendorsRouter } from '../src/routes/vendors';
+import { sessionService } from '../src/services/sessions';
+import { UserModel } from '../src/models/user';
+import { SessionModel } from '../src/models/session';
+import { RoleModel } from '../src/models/role';
+import { AuditLogModel } from '../src/models/auditLog';
+import { useMemoryModel } from './helpers/memoryModel';
+
+const VENDOR = new mongoose.Types.ObjectId().toString();
+const OTHER_VENDOR = new mongoose.Types.ObjectId().toString();
+
+async function setup(t: TestContext) {
+  const users = useMemoryModel(t, UserModel);
+  const sessions = useMemoryModel(t, SessionModel);
+  useMemoryModel(t, RoleModel);
+  const audit = useMemoryModel(t, AuditLogModel);
+  const addUser = (username: string, role: string, vendorId: string) => {
+    const user = new UserModel({ username, passwordHash: 'x', role, vendorId }).toObject();
+    users.push(user);
+    return String(user._id);
+  };
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/vendors', vendorsRouter);
+  const server = app.listen(0);
+  t.after(() => server.close());
+  await new Promise((resolve) => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  // Sign in as `userId` and call the API
+  const as = async (userId: string) => {
+    const user = users.find((u) => String(u._id) === userId)!;
+    const { accessToken } = await sessionService.start({ userId, role: user.role, vendorId: String(user.vendorId) });
+    return (path: string, init: RequestInit = {}) =>
+      fetch(`http://127.0.0.1:${port}/api/vendors${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+      });
+  };
+  return { users, sessions, audit, addUser, as };
+}
+
+test('technicians cannot manage their vendor\'s users', async (t) => {
+  const { addUser, as } = await setup(t);
+  const tech = addUser('tech', 'registered_user', VENDOR);
+
+  const res = await (await as(tech))('/me/users');
+  assert.equal(res.status, 403);
+});
+
+test('a vendor admin lists and deactivates only their own vendor\'s technicians', async (t) => {
+  const { users, sessions, audit, addUser, as } = await setup(t);
+  const owner = addUser('owner', 'vendor_admin', VENDOR);
+  const tech = addUser('tech', 'registered_user', VENDOR);
+  const dispatcher = addUser('dispatch', 'dispatcher', VENDOR);
+  const stranger = addUser('stranger', 'registered_user', OTHER_VENDOR);
+  await sessionService.start({ userId: tech, role: 'registered_user', vendorId: VENDOR });
+  const call = await as(owner);
+
+  const list = await (await call('/me/users')).json();
+  assert.deepEqual(list.data.map((u: any) => u.username), ['dispatch', 'owner', 'tech']);
+
+  const deactivate = (userId: string) => call(`/me/users/${userId}`, { method: 'PATCH', body: JSON.stringify({ isActive: false }) });
+  const res = await deactivate(tech);
+  assert.equal(res.status, 200);
+  assert.equal((await res.json()).sessionsRevoked, 1);
+  assert.equal(users.find((u) => String(u._id) === tech)!.isActive, false);
+  assert.ok(sessions.filter((s) => s.userId === tech).every((s) => s.revokedAt));
+  assert.equal(audit[0].action, 'vendor_user.updated');
+
+  assert.equal((await deactivate(stranger)).status, 404);
+  assert.equal((await deactivate(dispatcher)).status, 404);
+  assert.equal((await deactivate(owner)).status, 400);
+  const promote = await call(`/me/users/${tech}`, { method: 'PATCH', body: JSON.stringify({ role: 'admin' }) });
+  assert.equal(promote.status, 400);
+});
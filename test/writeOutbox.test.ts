@@ -0,0 +1,176 @@
+import { test, type TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import jwt from 'jsonwebtoken';
+import express, { Router } from 'express';
+import { wasNotApplied, writeOutbox } from '../src/services/writeOutbox';
+import { registerProxyRoutes } from '../src/services/proxyRoutes';
+import { CircuitOpenError } from '../src/services/upstreamResilience';
+import { config } from '../src/config';
+import { ExternalApiAdapter } from '../src/services/externalApiAdapter';
+import { UpstreamError } from '../src/services/upstreamError';
+import { OutboxWriteModel } from '../src/models/outboxWrite';
+import { useMemoryModel } from './helpers/memoryModel';
+
+const KEY = 'assignment:a1';
+
+function setup(t: TestContext, answer: (endpoint: string) => unknown = () => ({ success: true })) {
+  const entries = useMemoryModel(t, OutboxWriteModel);
+  const replayed: string[] = [];
+  t.mock.method(ExternalApiAdapter, 'callExternalApi', async (endpoint: string) => {
+    replayed.push(endpoint);
+    const result = answer(endpoint);
+    if (result instanceof Error) throw result;
+    return result;
+  });
+  return { entries, replayed };
+}
+
+async function queue(entries: any[], endpoints: string[], token = 'upstream-token', idempotent = true) {
+  for (const endpoint of endpoints) {
+    await writeOutbox.enqueue({
+      route: 'UpdateAssignment',
+      orderingKey: KEY,
+      method: idempotent ? 'PATCH' : 'POST',
+      baseUrl: 'https://upstream',
+      endpoint,
+      token,
+      idempotent,
+    });
+  }
+  // Make everything due now instead of after the first backoff
+  entries.forEach((entry) => (entry.nextAttemptAt = new Date(0)));
+}
+
+test('replays the writes of one key in the order they were queued', async (t) => {
+  const { entries, replayed } = setup(t);
+  await queue(entries, ['/first', '/second', '/third']);
+
+  await writeOutbox.processDue();
+
+  assert.deepEqual(replayed, ['/first', '/second', '/third']);
+  assert.ok(entries.every((entry) => entry.status === 'succeeded'));
+  assert.ok(entries.every((entry) => entry.token === undefined));
+  assert.equal(await writeOutbox.hasUnresolved(KEY), false);
+});
+
+test('a failed write holds back the rest of its key until it is discarded', async (t) => {
+  const { entries, replayed } = setup(t, (endpoint) =>
+    endpoint === '/first' ? new UpstreamError('Bad request', 400, 'BAD_REQUEST') : { success: true }
+  );
+  await queue(entries, ['/first', '/second']);
+
+  await writeOutbox.processDue();
+  assert.deepEqual(replayed, ['/first']);
+  assert.equal(entries[0].status, 'failed');
+  assert.ok(entries[0].token, 'kept for a requeue');
+  assert.ok(entries[0].tokenExpiresAt > new Date());
+  assert.equal(entries[1].status, 'pending');
+  assert.equal(await writeOutbox.hasUnresolved(KEY), true);
+
+  await writeOutbox.discard(entries[0].trackingId, 'admin');
+  assert.equal(entries[0].token, undefined);
+  await writeOutbox.processDue();
+  assert.deepEqual(replayed, ['/first', '/second']);
+  assert.equal(entries[1].status, 'succeeded');
+});
+
+test('a rejected token fails the write, drops the token and cannot be requeued', async (t) => {
+  const { entries } = setup(t, () => new UpstreamError('Unauthorized', 401, 'UNAUTHORIZED'));
+  await queue(entries, ['/first']);
+
+  await writeOutbox.processDue();
+
+  assert.equal(entries[0].status, 'failed');
+  assert.equal(entries[0].lastError.code, 'TOKEN_REJECTED');
+  assert.equal(entries[0].token, undefined);
+  assert.equal(await writeOutbox.requeue(entries[0].trackingId, 'admin'), null);
+});
+
+test('tokens kept for a requeue are dropped once their retention ends', async (t) => {
+  const { entries } = setup(t, () => new UpstreamError('Conflict', 409, 'CONFLICT'));
+  await queue(entries, ['/first']);
+  await writeOutbox.processDue();
+  assert.equal(entries[0].status, 'conflict');
+
+  entries[0].tokenExpiresAt = new Date(Date.now() - 1000);
+  await writeOutbox.processDue();
+
+  assert.equal(entries[0].token, undefined);
+  assert.equal(entries[0].status, 'conflict');
+});
+
+test('only the caller that queued a write can read it back', async (t) => {
+  const { entries } = setup(t);
+  const token = jwt.sign({ userId: 'u1' }, 'upstream-secret');
+  await queue(entries, ['/first'], token);
+  const { trackingId } = entries[0];
+
+  assert.ok(await writeOutbox.findForCaller(trackingId, { token }));
+  const forged = jwt.sign({ userId: 'u1' }, 'anything');
+  assert.equal(await writeOutbox.findForCaller(trackingId, { token: forged, userId: null }), null);
+});
+
+test('only errors raised before the upstream could apply a write count as not applied', () => {
+  assert.equal(wasNotApplied(new CircuitOpenError('https://upstream', 5)), true);
+  assert.equal(wasNotApplied(new UpstreamError('unreachable', 502, 'ECONNREFUSED')), true);
+  assert.equal(wasNotApplied(new UpstreamError('unavailable', 503, 'UPSTREAM_503', null, 503)), true);
+  assert.equal(wasNotApplied(new UpstreamError('timed out', 504, 'ECONNABORTED')), false);
+  assert.equal(wasNotApplied(new UpstreamError('bad gateway', 502, 'UPSTREAM_502', null, 502)), false);
+});
+
+test('a non-idempotent write that times out on replay is left for an admin instead of sent again', async (t) => {
+  const { entries, replayed } = setup(t, () => new UpstreamError('timed out', 504, 'ECONNABORTED'));
+  await queue(entries, ['/parts'], 'upstream-token', false);
+
+  await writeOutbox.processDue();
+  await writeOutbox.processDue();
+
+  assert.deepEqual(replayed, ['/parts']);
+  assert.equal(entries[0].status, 'failed');
+});
+
+test('a non-idempotent write the upstream turned away is retried', async (t) => {
+  const { entries } = setup(t, () => new UpstreamError('unavailable', 503, 'UPSTREAM_503', null, 503));
+  await queue(entries, ['/parts'], 'upstream-token', false);
+
+  await writeOutbox.processDue();
+
+  assert.equal(entries[0].status, 'pending');
+  assert.equal(entries[0].attempts, 1);
+});
+
+test('a POST that timed out is answered with the error instead of being queued', async (t) => {
+  const outbox = config.upstream.outbox;
+  const wasEnabled = outbox.enabled;
+  outbox.enabled = true;
+  t.after(() => { outbox.enabled = wasEnabled; });
+
+  let failure: Error = new UpstreamError('timed out', 504, 'ECONNABORTED');
+  const { entries } = setup(t, () => failure);
+  const router = Router();
+  registerProxyRoutes(router, [
+    { name: 'AddPart', method: 'post', path: '/:assignmentId/parts', upstream: '/api/assignments/:assignmentId/parts', outboxKey: () => KEY },
+  ]);
+  const app = express();
+  app.use(express.json());
+  app.use(router);
+  const server = app.listen(0);
+  t.after(() => server.close());
+  await new Promise((resolve) => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+  const post = () =>
+    fetch(`http://127.0.0.1:${port}/a1/parts`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer upstream-token', Prefer: 'respond-async' },
+      body: JSON.stringify({ partNumber: 'W10' }),
+    });
+
+  assert.equal((await post()).status, 504);
+  assert.equal(entries.length, 0);
+
+  failure = new CircuitOpenError('https://upstream', 5);
+  assert.equal((await post()).status, 202);
+  assert.equal(entries.length, 1);
+  assert.equal(entries[0].idempotent, false);
+});
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { haversineMiles, normalizeZip, zipCentroids } from '../src/services/zipCentroids';
+
+test('the committed ZIP table covers the country', () => {
+  assert.ok(zipCentroids.size > 30000);
+  for (const zip of ['00601', '10001', '60601', '90210', '99501']) {
+    assert.ok(zipCentroids.lookup(zip), `missing ${zip}`);
+  }
+});
+
+test('looks up ZIP+4 and hyphenated forms by their first five digits', () => {
+  assert.equal(normalizeZip('60601-1234'), '60601');
+  assert.equal(normalizeZip('606011234'), '60601');
+  assert.equal(normalizeZip('6060'), null);
+  assert.deepEqual(zipCentroids.lookup('60601-1234'), zipCentroids.lookup('60601'));
+});
+
+test('distances between ZIP centroids are great-circle miles', () => {
+  const chicago = zipCentroids.lookup('60601')!;
+  const evanston = zipCentroids.lookup('60201')!;
+  const beverlyHills = zipCentroids.lookup('90210')!;
+
+  assert.equal(haversineMiles(chicago, chicago), 0);
+  const short = haversineMiles(chicago, evanston);
+  assert.ok(short > 10 && short < 14, `Chicago to Evanston: ${short}`);
+  const long = haversineMiles(chicago, beverlyHills);
+  assert.ok(long > 1700 && long < 1780, `Chicago to Beverly Hills: ${long}`);
+});